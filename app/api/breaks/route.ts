@@ -0,0 +1,87 @@
+/**
+ * Breaks API Route
+ *
+ * Break recommendations for the block the user is in right now.
+ * GET: Returns the active block of today's plan, its break plan from the
+ * block's energy and the focus log, and the break prompts answered today
+ * POST: Records whether the user took a proposed break
+ */
+
+import { NextResponse } from 'next/server';
+import { ApiResponse } from '@/lib/types';
+import { withAuth } from '@/lib/api/withAuth';
+import { errorResponse } from '@/lib/api/errors';
+import { planBreaks } from '@/lib/breaks';
+import { getSecondsOfDay, toISODate } from '@/lib/time';
+import { parseBody } from '@/lib/api/validate';
+import { breakPromptInputSchema } from '../../../lib/db/schemas';
+
+const toSeconds = (time: string) => {
+  const [h, m, s] = time.split(':').map(Number);
+  return h * 3600 + m * 60 + (s || 0);
+};
+
+export const GET = withAuth(async (request, { user, repo }) => {
+  try {
+    const now = new Date();
+    const timeZone = await repo.getUserTimeZone(user.id);
+    const today = toISODate(now, timeZone);
+    const nowSec = getSecondsOfDay(now, timeZone);
+
+    // Polled while the home page is open, so it only reads; /api/plans materializes the day
+    const plan = await repo.getDayPlan({ user_id: user.id, plan_date: today });
+    const prompts = await repo.listBreakPrompts({ user_id: user.id, from: today, to: today });
+    const active = plan?.blocks.find(b => toSeconds(b.start_time) <= nowSec && nowSec < toSeconds(b.end_time));
+    if (!active) {
+      const response: ApiResponse = { ok: true, data: { block: null, plan: null, prompts } };
+      return NextResponse.json(response);
+    }
+
+    // Block edges as instants, counted back and forward from now in the user's zone
+    const at = (time: string) => new Date(now.getTime() + (toSeconds(time) - nowSec) * 1000);
+    const runs = await repo.listFocusRuns({ user_id: user.id, from: today, to: today });
+    const breakPlan = planBreaks({
+      energy_type: active.energy_type,
+      block_start: at(active.start_time),
+      block_end: at(active.end_time),
+      runs,
+      prompts: prompts.filter(p => p.session_id === active.session_id),
+      now
+    });
+
+    const block = {
+      session_id: active.session_id,
+      label: active.label,
+      energy_type: active.energy_type,
+      start_time: active.start_time,
+      end_time: active.end_time
+    };
+    const response: ApiResponse = { ok: true, data: { block, plan: breakPlan, prompts } };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error, 'Failed to plan breaks');
+  }
+});
+
+export const POST = withAuth(async (request, { user, repo }) => {
+  try {
+    // Body: BreakPromptInput { session_id?, energy_type, run_date?: YYYY-MM-DD, due_at, minutes, taken }
+    const parsed = await parseBody(request, breakPromptInputSchema);
+    if (!parsed.ok) return parsed.response;
+    const body = parsed.data;
+
+    const prompt = await repo.recordBreakPrompt({
+      user_id: user.id,
+      session_id: body.session_id ?? null,
+      energy_type: body.energy_type,
+      run_date: body.run_date || toISODate(new Date(), await repo.getUserTimeZone(user.id)),
+      due_at: body.due_at,
+      minutes: body.minutes,
+      taken: body.taken
+    });
+    const response: ApiResponse = { ok: true, data: prompt };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error, 'Failed to record break');
+  }
+});
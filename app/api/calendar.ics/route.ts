@@ -0,0 +1,40 @@
+/**
+ * Calendar Feed Route
+ *
+ * Serves the weekly block schedule as an iCalendar (.ics) subscription.
+ * GET: Returns recurring events for every weekday block and its tasks
+ *
+ * Calendar clients cannot sign in, so the feed is authenticated by the
+ * per-user secret in ?token= (see /api/calendar/token).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiResponse } from '@/lib/types';
+import { buildCalendarFeed } from '@/lib/ical';
+import { getBackend } from '../../../lib/db/backend';
+import { errorResponse } from '@/lib/api/errors';
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const token = searchParams.get('token');
+    if (!token || !UUID_RE.test(token)) {
+      const response: ApiResponse = { ok: false, error: 'A valid calendar token is required' };
+      return NextResponse.json(response, { status: 401 });
+    }
+
+    const { repo } = getBackend().forRequest(request);
+    const rows = await repo.getCalendarFeed(token);
+    return new NextResponse(buildCalendarFeed(rows), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="thirds.ics"',
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to build calendar feed');
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Calendar Import API Route
+ *
+ * Turns an uploaded .ics file into weekly busy intervals for the schedule wizard.
+ * POST: multipart form with `file` (.ics) and optional `time_zone` (IANA name, defaults to the profile zone);
+ *       returns busy intervals per weekday and saved High blocks that overlap them
+ *
+ * Nothing is stored; the wizard keeps the result in memory.
+ */
+
+import { NextResponse } from 'next/server';
+import { ApiResponse, CalendarImportResponse } from '@/lib/types';
+import { withAuth } from '@/lib/api/withAuth';
+import { errorResponse } from '@/lib/api/errors';
+import { parseBusyIntervals, findBusyOverlaps } from '@/lib/ical';
+import { isValidTimeZone } from '@/lib/time';
+
+const MAX_ICS_BYTES = 2 * 1024 * 1024;
+
+export const POST = withAuth(async (request, { user, repo }) => {
+  try {
+    const form = await request.formData();
+    const file = form.get('file');
+    const timeZone = (form.get('time_zone') as string | null) || await repo.getUserTimeZone(user.id);
+    if (!file || typeof file === 'string' || file.size === 0 || file.size > MAX_ICS_BYTES) {
+      const response: ApiResponse = { ok: false, error: 'Upload an .ics file of up to 2 MB as `file`.' };
+      return NextResponse.json(response, { status: 400 });
+    }
+    if (!isValidTimeZone(timeZone)) {
+      const response: ApiResponse = { ok: false, error: 'time_zone must be an IANA time zone, e.g. Europe/Berlin' };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const text = await file.text();
+    if (!text.includes('BEGIN:VCALENDAR')) {
+      const response: ApiResponse = { ok: false, error: 'The file is not an iCalendar (.ics) file.' };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const busy = parseBusyIntervals(text, { timeZone });
+    const highBlocks = await repo.listTemplatesWithDay({ user_id: user.id, energy_type: 'High' });
+    const conflicts = highBlocks
+      .map(t => ({
+        template_id: t.id,
+        day_of_week: t.day_of_week,
+        label: t.label,
+        start_time: t.start_time,
+        end_time: t.end_time,
+        busy: findBusyOverlaps(busy, t.day_of_week, t.start_time, t.end_time)
+      }))
+      .filter(c => c.busy.length > 0);
+
+    const response: ApiResponse<CalendarImportResponse> = { ok: true, data: { busy, conflicts } };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error, 'Failed to import calendar');
+  }
+});
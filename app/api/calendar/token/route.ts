@@ -0,0 +1,35 @@
+/**
+ * Calendar Token API Route
+ *
+ * Manages the secret that authenticates the .ics subscription feed.
+ * GET: Returns the feed URL, creating a token on first use
+ * POST: Rotates the token; previously shared feed URLs stop working
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiResponse } from '@/lib/types';
+import { withAuth } from '@/lib/api/withAuth';
+import { errorResponse } from '@/lib/api/errors';
+
+const feedUrl = (request: NextRequest, token: string) =>
+  `${new URL(request.url).origin}/api/calendar.ics?token=${token}`;
+
+export const GET = withAuth(async (request, { user, repo }) => {
+  try {
+    const token = await repo.getCalendarToken({ user_id: user.id });
+    const response: ApiResponse = { ok: true, data: { url: feedUrl(request, token) } };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error, 'Failed to load calendar link');
+  }
+});
+
+export const POST = withAuth(async (request, { user, repo }) => {
+  try {
+    const token = await repo.getCalendarToken({ user_id: user.id, rotate: true });
+    const response: ApiResponse = { ok: true, data: { url: feedUrl(request, token) } };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error, 'Failed to reset calendar link');
+  }
+});
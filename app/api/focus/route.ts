@@ -0,0 +1,61 @@
+/**
+ * Focus API Route
+ *
+ * Records what actually happened on the timer, per task and per date.
+ * GET: Returns focus events and computed focus time for a date range
+ * POST: Appends a start/pause/resume/stop event for a task or a break. A pause
+ * or stop of work also records the plan task's focus time so far as its
+ * actual_minutes.
+ */
+
+import { NextResponse } from 'next/server';
+import { ApiResponse } from '@/lib/types';
+import { withAuth } from '@/lib/api/withAuth';
+import { errorResponse } from '@/lib/api/errors';
+import { recordFocusEvent } from '@/lib/api/focusLog';
+import { computeFocusSeconds } from '@/lib/focus';
+import { toISODate } from '@/lib/time';
+import { parseBody } from '@/lib/api/validate';
+import { dateSchema, focusRunInputSchema } from '../../../lib/db/schemas';
+
+export const GET = withAuth(async (request, { user, repo }) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get('from') || toISODate(new Date(), await repo.getUserTimeZone(user.id));
+    const to = searchParams.get('to') || from;
+    if (!dateSchema.safeParse(from).success || !dateSchema.safeParse(to).success) {
+      const response: ApiResponse = { ok: false, error: 'from and to must be YYYY-MM-DD' };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const runs = await repo.listFocusRuns({ user_id: user.id, from, to });
+    const response: ApiResponse = { ok: true, data: { runs, summary: computeFocusSeconds(runs) } };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error, 'Failed to fetch focus runs');
+  }
+});
+
+export const POST = withAuth(async (request, { user, repo }) => {
+  try {
+    // Body: FocusRunInput { plan_task_id?, task_id?, event, run_date?: YYYY-MM-DD, energy_type?, interval_kind? }
+    const parsed = await parseBody(request, focusRunInputSchema);
+    if (!parsed.ok) return parsed.response;
+    const body = parsed.data;
+
+    const run = await recordFocusEvent(repo, {
+      user_id: user.id,
+      task_id: body.task_id ?? null,
+      plan_task_id: body.plan_task_id ?? null,
+      energy_type: body.energy_type ?? null,
+      run_date: body.run_date || toISODate(new Date(), await repo.getUserTimeZone(user.id)),
+      event: body.event,
+      interval_kind: body.interval_kind
+    });
+
+    const response: ApiResponse = { ok: true, data: run };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error, 'Failed to log focus run');
+  }
+});
@@ -0,0 +1,28 @@
+/**
+ * Inbox Rollover API Route
+ *
+ * POST: Sends a day's unfinished tasks back to the inbox once the day is over.
+ * Plan tasks still active are copied into the inbox and marked skipped in
+ * their plan; calling it again for the same day adds nothing.
+ */
+
+import { NextResponse } from 'next/server';
+import { ApiResponse } from '@/lib/types';
+import { withAuth } from '@/lib/api/withAuth';
+import { errorResponse } from '@/lib/api/errors';
+import { parseBody } from '@/lib/api/validate';
+import type { DbInboxTask } from '@/lib/db/types';
+import { inboxRolloverSchema } from '../../../../lib/db/schemas';
+
+export const POST = withAuth(async (request, { user, repo }) => {
+  try {
+    // Body: InboxRollover { plan_date: YYYY-MM-DD }
+    const parsed = await parseBody(request, inboxRolloverSchema);
+    if (!parsed.ok) return parsed.response;
+    const added = await repo.rollOverToInbox({ user_id: user.id, plan_date: parsed.data.plan_date });
+    const response: ApiResponse<DbInboxTask[]> = { ok: true, data: added };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error, 'Failed to roll tasks over to the inbox');
+  }
+});
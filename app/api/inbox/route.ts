@@ -0,0 +1,66 @@
+/**
+ * Inbox API Route
+ *
+ * Tasks captured before they belong to a day and energy block.
+ * GET: Returns the caller's inbox, oldest first
+ * POST: Adds a task to the inbox, optionally tagged with the energy it needs
+ * PATCH: Edits an inbox task
+ * DELETE: Removes an inbox task (?id=)
+ */
+
+import { NextResponse } from 'next/server';
+import { ApiResponse } from '@/lib/types';
+import { withAuth } from '@/lib/api/withAuth';
+import { errorResponse } from '@/lib/api/errors';
+import { parseBody, parseQuery } from '@/lib/api/validate';
+import type { DbInboxTask } from '@/lib/db/types';
+import { idQuerySchema, inboxTaskInputSchema, inboxTaskUpdateSchema } from '../../../lib/db/schemas';
+
+export const GET = withAuth(async (request, { user, repo }) => {
+  try {
+    const tasks = await repo.listInboxTasks(user.id);
+    const response: ApiResponse<DbInboxTask[]> = { ok: true, data: tasks };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error, 'Failed to fetch inbox');
+  }
+});
+
+export const POST = withAuth(async (request, { user, repo }) => {
+  try {
+    // Body: InboxTaskInput { name, description?, duration_minutes?, energy_type?, priority?, checklist? }
+    const parsed = await parseBody(request, inboxTaskInputSchema);
+    if (!parsed.ok) return parsed.response;
+    const task = await repo.addInboxTask({ user_id: user.id, ...parsed.data });
+    const response: ApiResponse<DbInboxTask> = { ok: true, data: task };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error, 'Failed to add inbox task');
+  }
+});
+
+export const PATCH = withAuth(async (request, { user, repo }) => {
+  try {
+    // Body: InboxTaskUpdate { id, ...any InboxTaskInput field }; other keys are rejected
+    const parsed = await parseBody(request, inboxTaskUpdateSchema);
+    if (!parsed.ok) return parsed.response;
+    const { id, ...patch } = parsed.data;
+    const task = await repo.updateInboxTask({ user_id: user.id, id }, patch);
+    const response: ApiResponse<DbInboxTask> = { ok: true, data: task };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error, 'Failed to update inbox task');
+  }
+});
+
+export const DELETE = withAuth(async (request, { user, repo }) => {
+  try {
+    const parsed = parseQuery(request, idQuerySchema);
+    if (!parsed.ok) return parsed.response;
+    await repo.deleteInboxTask({ user_id: user.id, id: parsed.data.id });
+    const response: ApiResponse = { ok: true };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error, 'Failed to delete inbox task');
+  }
+});
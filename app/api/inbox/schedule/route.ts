@@ -0,0 +1,28 @@
+/**
+ * Inbox Scheduling API Route
+ *
+ * POST: Moves an inbox task into a weekday block, e.g. by dragging it onto the
+ * block on the schedule page. It is appended to the block's tasks and leaves
+ * the inbox; the block's energy need not match the task's tag.
+ */
+
+import { NextResponse } from 'next/server';
+import { ApiResponse } from '@/lib/types';
+import { withAuth } from '@/lib/api/withAuth';
+import { errorResponse } from '@/lib/api/errors';
+import { parseBody } from '@/lib/api/validate';
+import type { DbTask } from '@/lib/db/types';
+import { inboxScheduleSchema } from '../../../../lib/db/schemas';
+
+export const POST = withAuth(async (request, { user, repo }) => {
+  try {
+    // Body: InboxSchedule { id, session_id }
+    const parsed = await parseBody(request, inboxScheduleSchema);
+    if (!parsed.ok) return parsed.response;
+    const task = await repo.scheduleInboxTask({ user_id: user.id, ...parsed.data });
+    const response: ApiResponse<DbTask> = { ok: true, data: task };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error, 'Failed to schedule inbox task');
+  }
+});
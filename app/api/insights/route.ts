@@ -3,12 +3,28 @@
  * 
  * Provides AI-powered insights and recommendations based on user session data.
  * Fetches user's historical data and generates personalized suggestions using OpenAI.
- * Falls back to rule-based suggestions if AI service is unavailable.
+ * Falls back to rule-based suggestions if AI service is unavailable or the
+ * user has turned off AI personalization in settings.
  */
 
-import { NextRequest, NextResponse } from 'next/server';
-import { getSupabaseFromRequest } from '@/lib/supabaseClient';
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/api/withAuth';
+import { errorResponse } from '@/lib/api/errors';
 import { ApiResponse, InsightsResponse } from '@/lib/types';
+import { computeFocusSeconds } from '@/lib/focus';
+import { taskProgress } from '@/lib/checklist';
+import { parseBody } from '@/lib/api/validate';
+import { shiftProposalSchema } from '../../../lib/db/schemas';
+import { toISODate, addDays } from '@/lib/time';
+import type { Repository } from '../../../lib/db/repository';
+import {
+  CHRONIC_DEFERRALS,
+  generateRuleBasedMotivation,
+  generateRuleBasedSuggestions,
+  generateScheduleProposals,
+  type Proposal,
+  type UserDataSummary
+} from '@/lib/insights';
 import OpenAI from 'openai';
 
 // Initialize OpenAI client
@@ -16,70 +32,21 @@ const openai = process.env.OPENAI_API_KEY ? new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
 }) : null;
 
-interface UserDataSummary {
-  totalSessions: number;
-  totalFocusTime: number;
-  averageSessionDuration: number;
-  completionRate: number;
-  energyLevelPatterns: {
-    high: { count: number; avgDuration: number };
-    medium: { count: number; avgDuration: number };
-    low: { count: number; avgDuration: number };
-  };
-  timeOfDayPatterns: {
-    morning: { sessions: number; avgDuration: number };
-    afternoon: { sessions: number; avgDuration: number };
-    night: { sessions: number; avgDuration: number };
-  };
-  recentTrends: {
-    lastWeekSessions: number;
-    lastWeekFocusTime: number;
-    consistencyScore: number;
-  };
-  scheduleData: {
-    wakeTime: string | null;
-    sleepTime: string | null;
-    hasSchedule: boolean;
-  };
-  // Task completion velocity and windows
-  completionVelocity: {
-    byHour: Array<{ hour: number; completed: number; avgDuration: number }>; // hour: 0-23
-    fastestHour?: number; // smallest avg duration with a minimum sample size
-    fastestAvg?: number;
-    highestThroughputHour?: number; // most completed tasks per hour
-  };
-  highBlock?: { start: string; end: string } | null;
-}
-
-type Proposal = {
-  type: 'shift_high_block';
-  target: { start: string; end: string };
-  rationale: string;
-};
-
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { user, repo }) => {
   try {
-    const supabase = getSupabaseFromRequest(request);
-    
-    // Get current user from auth
-    const { data: { user }, error: authError } = await supabase.auth.getUser();
-    if (authError || !user) {
-      return NextResponse.json({
-        ok: false,
-        error: 'Authentication required'
-      }, { status: 401 });
-    }
-
     const userId = user.id;
+    const profile = await repo.getUserProfile(userId);
+    // Users who turned off AI personalization never have their data sent to OpenAI
+    const useAI = !!openai && profile.ai_personalization !== false;
 
     // Fetch user's historical data
-    const userDataSummary = await fetchUserDataSummary(supabase, userId);
+    const userDataSummary = await fetchUserDataSummary(repo, userId, profile.time_zone || 'UTC');
     
     // Generate AI-powered insights
     let suggestions: string[] = [];
     let proposals: Proposal[] = [];
     let motivation: string | undefined = undefined;
-    if (openai) {
+    if (useAI) {
       try {
         suggestions = await generateAISuggestions(userDataSummary);
         const p = generateScheduleProposals(userDataSummary);
@@ -92,7 +59,7 @@ export async function GET(request: NextRequest) {
         motivation = generateRuleBasedMotivation(userDataSummary);
       }
     } else {
-      console.warn('OpenAI API key not configured, using rule-based suggestions');
+      if (!openai) console.warn('OpenAI API key not configured, using rule-based suggestions');
       suggestions = generateRuleBasedSuggestions(userDataSummary);
       proposals = generateScheduleProposals(userDataSummary);
       motivation = generateRuleBasedMotivation(userDataSummary);
@@ -114,139 +81,122 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json(response, { status: 500 });
   }
-}
+});
 
 // Allow applying proposals to update the user's schedule template
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request, { user, repo }) => {
   try {
-    const supabase = getSupabaseFromRequest(request);
-    const body = await request.json();
-    const { type, target } = body || {};
-
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) return NextResponse.json({ ok: false, error: 'Authentication required' }, { status: 401 });
-
-    if (type !== 'shift_high_block' || !target?.start || !target?.end) {
-      return NextResponse.json({ ok: false, error: 'Invalid proposal payload' }, { status: 400 });
-    }
+    // Body: ShiftProposal { type: 'shift_high_block', target: { start, end } }
+    const parsed = await parseBody(request, shiftProposalSchema);
+    if (!parsed.ok) return parsed.response;
+    const { target } = parsed.data;
 
-    // Upsert the High energy template for this user
-    const { data: existing } = await supabase
-      .from('session_templates')
-      .select('id')
-      .eq('user_id', user.id)
-      .eq('energy_type', 'High')
-      .limit(1)
-      .maybeSingle();
-
-    // Fetch current other blocks
-    const { data: others } = await supabase
-      .from('session_templates')
-      .select('id, energy_type, start_time, end_time')
-      .eq('user_id', user.id);
+    // Block windows are per weekday schedule; apply the shift to each of them
+    const schedules = await repo.listSchedules(user.id);
+    const templates = await repo.listTemplatesWithDay({ user_id: user.id });
 
     // Helper to minutes
     const toMin = (t: string) => { const [h,m] = t.split(':').map(Number); return h*60+m; };
     const fromMin = (m: number) => `${String(Math.floor((m+1440)%1440/60)).padStart(2,'0')}:${String((m+1440)%60).padStart(2,'0')}`;
 
     // Desired High window
-    let hS = toMin(target.start);
+    const hS = toMin(target.start);
     let hE = toMin(target.end);
     if (hE <= hS) hE = hS + 60; // enforce at least 1h
 
-    // Adjust others to avoid overlaps (simple linear ordering High->Medium->Low)
-    const medium = others?.find((o:any)=> o.energy_type==='Medium');
-    const low = others?.find((o:any)=> o.energy_type==='Low');
-
-    // Write High first
-    if (existing?.id) {
-      const { error: updErr } = await supabase.from('session_templates').update({ start_time: fromMin(hS), end_time: fromMin(hE) }).eq('id', existing.id);
-      if (updErr) throw updErr;
-    } else {
-      const { error: insErr } = await supabase.from('session_templates').insert({ user_id: user.id, energy_type: 'High', start_time: fromMin(hS), end_time: fromMin(hE) });
-      if (insErr) throw insErr;
-    }
-
-    // Clamp Medium after High
-    if (medium) {
-      let mS = toMin(medium.start_time);
-      let mE = toMin(medium.end_time);
-      if (mS < hE) { mS = hE; }
-      if (mE <= mS) mE = mS + 60;
-      const { error } = await supabase.from('session_templates').update({ start_time: fromMin(mS), end_time: fromMin(mE) }).eq('id', medium.id);
-      if (error) throw error;
-    }
-
-    // Clamp Low after Medium/High
-    if (low) {
-      const midRef = medium ? toMin(medium.end_time) : hE;
-      let lS = toMin(low.start_time);
-      let lE = toMin(low.end_time);
-      if (lS < midRef) { lS = midRef; }
-      if (lE <= lS) lE = lS + 60;
-      const { error } = await supabase.from('session_templates').update({ start_time: fromMin(lS), end_time: fromMin(lE) }).eq('id', low.id);
-      if (error) throw error;
+    for (const schedule of schedules) {
+      const own = templates.filter(t => t.schedule_id === schedule.id);
+      // Days may have several High blocks; the proposal moves the first one
+      const highIndex = own.findIndex(o => o.energy_type === 'High');
+      if (highIndex === -1) continue;
+
+      await repo.updateSessionTemplateTimes({ user_id: user.id, id: own[highIndex].id, start_time: fromMin(hS), end_time: fromMin(hE) });
+
+      // Push later blocks back so the day stays in order without overlaps
+      let prevEnd = hE;
+      for (const block of own.slice(highIndex + 1)) {
+        let bS = toMin(block.start_time);
+        let bE = toMin(block.end_time);
+        if (bS < prevEnd) { bS = prevEnd; }
+        if (bE <= bS) bE = bS + 60;
+        await repo.updateSessionTemplateTimes({ user_id: user.id, id: block.id, start_time: fromMin(bS), end_time: fromMin(bE) });
+        prevEnd = bE;
+      }
     }
 
     return NextResponse.json({ ok: true });
-  } catch (e) {
-    return NextResponse.json({ ok: false, error: 'Failed to apply proposal' }, { status: 500 });
+  } catch (error) {
+    return errorResponse(error, 'Failed to apply proposal');
   }
-}
+});
 
 // Fetch comprehensive user data for AI analysis
-async function fetchUserDataSummary(supabase: any, userId: string): Promise<UserDataSummary> {
-  const oneWeekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
-  const oneMonthAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
-
-  // Fetch sessions with templates and tasks
-  const { data: sessionsData } = await supabase
-    .from('sessions')
-    .select(`
-      *,
-      session_templates!inner(energy_type, start_time, end_time, user_id),
-      tasks(status, duration_minutes)
-    `)
-    .eq('session_templates.user_id', userId)
-    .gte('created_at', oneMonthAgo);
+async function fetchUserDataSummary(repo: Repository, userId: string, timeZone: string): Promise<UserDataSummary> {
+  // Weekly/monthly windows are whole calendar days in the user's zone, so they match the dashboard
+  const today = toISODate(new Date(), timeZone);
+  const oneWeekAgo = addDays(today, -7);
+  const oneMonthAgo = addDays(today, -30);
+
+  // Fetch dated plans: every day the schedule actually ran, with that day's task statuses.
+  // Plans already made for later days have not run yet, so they stop at today.
+  const plansData = await repo.listPlanHistory({ user_id: userId, from: oneMonthAgo, to: today });
+
+  // A task carried over lives on in its copy, so the original it left behind is not counted
+  const carriedIds = new Set(plansData.flatMap(plan => plan.tasks.flatMap(t => (t.carried_from_id ? [t.carried_from_id] : []))));
+
+  // One entry per plan and energy block, shaped like a session with its template and tasks
+  const sessionsByBlock = new Map<string, any>();
+  plansData.forEach(plan => {
+    plan.tasks.filter(task => !carriedIds.has(task.id)).forEach(task => {
+      const key = `${plan.id}:${task.session_id ?? task.energy_type}`;
+      if (!sessionsByBlock.has(key)) {
+        sessionsByBlock.set(key, {
+          created_at: plan.plan_date,
+          session_templates: {
+            energy_type: task.energy_type,
+            start_time: task.start_time,
+            end_time: task.end_time
+          },
+          tasks: []
+        });
+      }
+      sessionsByBlock.get(key).tasks.push(task);
+    });
+  });
+  const sessionsData = Array.from(sessionsByBlock.values());
+
+  // Chronically postponed work: the latest copy of each task carried over again and again
+  const deferralsByName = new Map<string, number>();
+  plansData.forEach(plan => {
+    plan.tasks.forEach(task => {
+      if (carriedIds.has(task.id) || task.deferral_count < CHRONIC_DEFERRALS) return;
+      deferralsByName.set(task.name, Math.max(deferralsByName.get(task.name) ?? 0, task.deferral_count));
+    });
+  });
+  const postponedTasks = Array.from(deferralsByName, ([name, deferrals]) => ({ name, deferrals }))
+    .sort((a, b) => b.deferrals - a.deferrals)
+    .slice(0, 3);
 
   // Fetch schedule data
-  const { data: scheduleData } = await supabase
-    .from('schedules')
-    .select('wake_time, sleep_time')
-    .eq('user_id', userId)
-    .limit(1)
-    .single();
+  const [scheduleData] = await repo.listSchedules(userId);
 
   // Determine current High energy block window (if any)
-  const { data: highBlockTemplate } = await supabase
-    .from('session_templates')
-    .select('start_time, end_time')
-    .eq('user_id', userId)
-    .eq('energy_type', 'High')
-    .limit(1)
-    .single();
-
-  // Fetch reports for additional insights
-  const { data: reportsData } = await supabase
-    .from('reports')
-    .select('*')
-    .eq('user_id', userId)
-    .gte('report_date', oneWeekAgo);
+  const [highBlockTemplate] = await repo.listTemplatesWithDay({ user_id: userId, energy_type: 'High' });
+
+  // Fetch the focus log: actual timer time, as opposed to planned task durations
+  const focusRunsData = await repo.listFocusRuns({ user_id: userId, from: oneMonthAgo, to: today });
 
   // Process session data
   const sessions = sessionsData || [];
   const totalSessions = sessions.length;
-  const totalFocusTime = sessions.reduce((acc: number, session: any) => {
-    const tasks = session.tasks || [];
-    return acc + tasks.reduce((taskAcc: number, task: any) => {
-      return taskAcc + (task.duration_minutes || 0) * 60;
-    }, 0);
-  }, 0);
+  const focusRuns = focusRunsData || [];
+  const focusSummary = computeFocusSeconds(focusRuns);
+  const totalFocusTime = focusSummary.totalSeconds;
 
+  // Unfinished tasks count for the share of their checklist that is checked
   const completedTasks = sessions.reduce((acc: number, session: any) => {
     const tasks = session.tasks || [];
-    return acc + tasks.filter((task: any) => task.status === 'completed').length;
+    return acc + tasks.reduce((sum: number, task: any) => sum + taskProgress(task), 0);
   }, 0);
 
   const totalTasks = sessions.reduce((acc: number, session: any) => {
@@ -264,7 +214,11 @@ async function fetchUserDataSummary(supabase: any, userId: string): Promise<User
   sessions.forEach((session: any) => {
     const energyType = session.session_templates?.energy_type?.toLowerCase();
     const tasks = session.tasks || [];
-    const sessionDuration = tasks.reduce((acc: number, task: any) => acc + (task.duration_minutes || 0), 0);
+    // A block the timer ran in counts its actual focus minutes; any other block its planned minutes
+    const focusSeconds = tasks.reduce((acc: number, task: { id: number }) => acc + (focusSummary.byPlanTask[task.id] || 0), 0);
+    const sessionDuration = focusSeconds > 0
+      ? focusSeconds / 60
+      : tasks.reduce((acc: number, task: any) => acc + (task.duration_minutes || 0), 0);
     
     if (energyType && energyLevelPatterns[energyType as keyof typeof energyLevelPatterns]) {
       energyLevelPatterns[energyType as keyof typeof energyLevelPatterns].count++;
@@ -317,17 +271,12 @@ async function fetchUserDataSummary(supabase: any, userId: string): Promise<User
 
   // Calculate recent trends
   const lastWeekSessions = sessions.filter((session: any) => 
-    new Date(session.created_at) >= new Date(oneWeekAgo)
+    session.created_at >= oneWeekAgo
   ).length;
 
-  const lastWeekFocusTime = sessions
-    .filter((session: any) => new Date(session.created_at) >= new Date(oneWeekAgo))
-    .reduce((acc: number, session: any) => {
-      const tasks = session.tasks || [];
-      return acc + tasks.reduce((taskAcc: number, task: any) => {
-        return taskAcc + (task.duration_minutes || 0) * 60;
-      }, 0);
-    }, 0);
+  const lastWeekFocusTime = computeFocusSeconds(
+    focusRuns.filter((run: any) => run.run_date >= oneWeekAgo)
+  ).totalSeconds;
 
   // Calculate consistency score (simplified)
   const consistencyScore = totalSessions > 0 ? Math.min(100, (completedTasks / Math.max(totalTasks, 1)) * 100) : 0;
@@ -377,7 +326,8 @@ async function fetchUserDataSummary(supabase: any, userId: string): Promise<User
       fastestAvg,
       highestThroughputHour
     },
-    highBlock: highBlockTemplate ? { start: highBlockTemplate.start_time, end: highBlockTemplate.end_time } : null
+    highBlock: highBlockTemplate ? { start: highBlockTemplate.start_time, end: highBlockTemplate.end_time } : null,
+    postponedTasks
   };
 }
 
@@ -402,6 +352,7 @@ User Data Summary:
  - Fastest hour: ${userData.completionVelocity.fastestHour ?? 'n/a'} (avg ${Math.round(userData.completionVelocity.fastestAvg || 0)}m)
  - Highest throughput hour: ${userData.completionVelocity.highestThroughputHour ?? 'n/a'}
  - Current High energy block: ${userData.highBlock ? `${userData.highBlock.start}–${userData.highBlock.end}` : 'n/a'}
+ - Chronically postponed tasks: ${userData.postponedTasks.map(t => `${t.name} (carried over ${t.deferrals} times)`).join('; ') || 'none'}
 
 Provide personalized, actionable recommendations. Focus on:
 1. Optimal scheduling based on energy patterns
@@ -409,6 +360,7 @@ Provide personalized, actionable recommendations. Focus on:
 3. Consistency and habit building
 4. Energy optimization strategies
  5. If completion speed is significantly better at a specific hour, recommend moving or adding a High energy block to cover that hour (justify briefly). If throughput is higher at a different hour, mention it as an alternative.
+ 6. If a task has been postponed repeatedly, suggest splitting it or moving it to a block whose energy suits it.
 
 Format as a JSON array of strings, each recommendation should be 1-2 sentences and actionable.`;
 
@@ -445,62 +397,6 @@ Format as a JSON array of strings, each recommendation should be 1-2 sentences a
   }
 }
 
-// Generate rule-based fallback suggestions
-function generateRuleBasedSuggestions(userData: UserDataSummary): string[] {
-  const suggestions: string[] = [];
-
-  // Focus time recommendations
-  if (userData.totalFocusTime > 4 * 3600) {
-    suggestions.push("You've completed 4+ hours of deep work today. Consider taking a longer break to recharge.");
-  } else if (userData.totalFocusTime < 2 * 3600 && userData.totalSessions > 0) {
-    suggestions.push("Try extending your focus sessions to build deeper concentration habits.");
-  }
-
-  // Energy level optimization
-  const mostProductiveEnergy = Object.entries(userData.energyLevelPatterns)
-    .sort(([,a], [,b]) => b.avgDuration - a.avgDuration)[0];
-  
-  if (mostProductiveEnergy && mostProductiveEnergy[1].count > 0) {
-    suggestions.push(`Your ${mostProductiveEnergy[0]} energy sessions are most productive. Schedule important tasks during these times.`);
-  }
-
-  // Time of day patterns
-  const mostProductiveTime = Object.entries(userData.timeOfDayPatterns)
-    .sort(([,a], [,b]) => b.avgDuration - a.avgDuration)[0];
-  
-  if (mostProductiveTime && mostProductiveTime[1].sessions > 0) {
-    suggestions.push(`Your ${mostProductiveTime[0]} sessions show the best focus. Consider making this your primary work time.`);
-  }
-
-  // Consistency recommendations
-  if (userData.completionRate > 80) {
-    suggestions.push("Excellent task completion rate! Your consistency is building strong productivity habits.");
-  } else if (userData.completionRate < 50) {
-    suggestions.push("Try breaking tasks into smaller chunks to improve completion rates and build momentum.");
-  }
-
-  // Schedule recommendations
-  if (!userData.scheduleData.hasSchedule) {
-    suggestions.push("Set up a consistent sleep and wake schedule to optimize your energy levels throughout the day.");
-  }
-
-  // Recent activity trends
-  if (userData.recentTrends.lastWeekSessions < 3) {
-    suggestions.push("Increase session frequency to build stronger focus habits. Aim for at least 3 sessions per week.");
-  }
-
-  // Default suggestions if no specific patterns
-  if (suggestions.length === 0) {
-    suggestions.push(
-      "Start tracking your energy levels throughout the day to identify your most productive times.",
-      "Try the Pomodoro technique: 25 minutes of focused work followed by a 5-minute break.",
-      "Schedule your most challenging tasks during your highest energy periods."
-    );
-  }
-
-  return suggestions.slice(0, 6);
-}
-
 // Motivational message generators
 async function generateMotivationalMessage(userData: UserDataSummary): Promise<string> {
   if (!openai) {
@@ -527,33 +423,3 @@ Tone: supportive, concise, energetic. Avoid emojis.`;
   });
   return completion.choices[0]?.message?.content?.trim() || 'Let’s make steady progress right now.';
 }
-
-function generateRuleBasedMotivation(userData: UserDataSummary): string {
-  if (userData.completionVelocity.fastestHour !== undefined) {
-    return `Lean into your ${userData.completionVelocity.fastestHour}:00 momentum—keep the streak alive.`;
-  }
-  if (userData.recentTrends.lastWeekSessions > 0) {
-    return 'Consistency compounds—today’s focus moves the needle.';
-  }
-  return 'Start small, finish strong.';
-}
-
-// Create concrete schedule change proposals based on focus velocity
-function generateScheduleProposals(userData: UserDataSummary): Proposal[] {
-  const proposals: Proposal[] = [];
-  const fastestHour = userData.completionVelocity.fastestHour;
-  if (typeof fastestHour === 'number') {
-    // Propose a 2-hour High block centered on fastestHour when meaningful
-    const startHour = Math.max(0, fastestHour - 1);
-    const endHour = Math.min(23, fastestHour + 1);
-    const pad = (n: number) => String(n).padStart(2, '0');
-    const start = `${pad(startHour)}:00`;
-    const end = `${pad(endHour)}:00`;
-    proposals.push({
-      type: 'shift_high_block',
-      target: { start, end },
-      rationale: `Your fastest completion window is around ${pad(fastestHour)}:00; shifting High energy block to ${start}–${end} may improve throughput.`
-    });
-  }
-  return proposals;
-}
@@ -0,0 +1,30 @@
+/**
+ * Plan Carry-Over API Route
+ *
+ * POST: Moves unfinished tasks on when their block or day ends: each active
+ * task is copied to the next block of its energy that day, or into the next
+ * day's plan, and marked skipped where it was. The copy counts one more
+ * deferral, so insights can spot work that keeps being put off. Tasks already
+ * finished, skipped or carried are left alone.
+ */
+
+import { NextResponse } from 'next/server';
+import { ApiResponse } from '@/lib/types';
+import { withAuth } from '@/lib/api/withAuth';
+import { errorResponse } from '@/lib/api/errors';
+import { parseBody } from '@/lib/api/validate';
+import type { DbPlanTask } from '@/lib/db/types';
+import { carryOverSchema } from '../../../../lib/db/schemas';
+
+export const POST = withAuth(async (request, { user, repo }) => {
+  try {
+    // Body: CarryOver { plan_task_ids, to: 'next_block' | 'tomorrow' }
+    const parsed = await parseBody(request, carryOverSchema);
+    if (!parsed.ok) return parsed.response;
+    const carried = await repo.carryOverPlanTasks({ user_id: user.id, ...parsed.data });
+    const response: ApiResponse<DbPlanTask[]> = { ok: true, data: carried };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error, 'Failed to carry tasks over');
+  }
+});
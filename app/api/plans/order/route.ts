@@ -0,0 +1,27 @@
+/**
+ * Plan Task Order API Route
+ *
+ * PATCH: Reorders the tasks of one block in a dated plan, e.g. by dragging them
+ * on the dashboard. Only that day changes; the weekday blueprint keeps its order.
+ */
+
+import { NextResponse } from 'next/server';
+import { ApiResponse } from '@/lib/types';
+import { withAuth } from '@/lib/api/withAuth';
+import { errorResponse } from '@/lib/api/errors';
+import { parseBody } from '@/lib/api/validate';
+import type { DbPlanTask } from '@/lib/db/types';
+import { planTaskReorderSchema } from '../../../../lib/db/schemas';
+
+export const PATCH = withAuth(async (request, { user, repo }) => {
+  try {
+    // Body: PlanTaskReorder { plan_id, plan_task_ids }, all from the same block
+    const parsed = await parseBody(request, planTaskReorderSchema);
+    if (!parsed.ok) return parsed.response;
+    const tasks = await repo.reorderPlanTasks({ user_id: user.id, ...parsed.data });
+    const response: ApiResponse<DbPlanTask[]> = { ok: true, data: tasks };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error, 'Failed to reorder plan tasks');
+  }
+});
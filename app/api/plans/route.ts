@@ -0,0 +1,52 @@
+/**
+ * Day Plans API Route
+ *
+ * Dated daily instances of the weekday schedule.
+ * GET: Returns the plan for a date, materializing it from the weekday blueprint and recurring tasks
+ * PATCH: Updates one task within a dated plan, e.g. a single occurrence of a recurring task
+ */
+
+import { NextResponse } from 'next/server';
+import { ApiResponse } from '@/lib/types';
+import { withAuth } from '@/lib/api/withAuth';
+import { errorResponse } from '@/lib/api/errors';
+import { toISODate } from '@/lib/time';
+import { statusForChecklist } from '@/lib/checklist';
+import { parseBody } from '@/lib/api/validate';
+import { dateSchema, planTaskUpdateSchema } from '../../../lib/db/schemas';
+
+export const GET = withAuth(async (request, { user, repo }) => {
+  try {
+    // "Today" is the calendar day in the user's profile zone, not the server's
+    const today = toISODate(new Date(), await repo.getUserTimeZone(user.id));
+    const { searchParams } = new URL(request.url);
+    const date = searchParams.get('date') || today;
+    if (!dateSchema.safeParse(date).success) {
+      const response: ApiResponse = { ok: false, error: 'date must be YYYY-MM-DD' };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    // Past plans are history: only today and later pick up blueprint changes
+    const plan = await repo.materializeDayPlan({ user_id: user.id, plan_date: date, sync: date >= today });
+    const response: ApiResponse = { ok: true, data: plan };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error, 'Failed to load day plan');
+  }
+});
+
+export const PATCH = withAuth(async (request, { user, repo }) => {
+  try {
+    // Body: PlanTaskUpdate { id, status?, checklist?, name?, description?, duration_minutes?, priority? }
+    const parsed = await parseBody(request, planTaskUpdateSchema);
+    if (!parsed.ok) return parsed.response;
+    const { id, ...patch } = parsed.data;
+    // Checking the last item completes the task; a status sent along wins
+    const status = patch.status ?? (patch.checklist && statusForChecklist(patch.checklist));
+    const updated = await repo.updatePlanTask({ user_id: user.id, id }, status ? { ...patch, status } : patch);
+    const response: ApiResponse = { ok: true, data: updated };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error, 'Failed to update plan task');
+  }
+});
@@ -0,0 +1,75 @@
+/**
+ * Profile API Route
+ *
+ * Account settings and preferences stored on the users row.
+ * GET: Returns the signed-in user's profile
+ * PUT: Updates any subset of the profile fields
+ */
+
+import { NextResponse } from 'next/server';
+import { ApiResponse, Profile } from '@/lib/types';
+import { withAuth } from '@/lib/api/withAuth';
+import { errorResponse } from '@/lib/api/errors';
+import { parseBody } from '@/lib/api/validate';
+import { profileUpdateSchema } from '../../../lib/db/schemas';
+import type { ProfilePatch } from '../../../lib/db/repository';
+import type { DbUser } from '../../../lib/db/types';
+
+const toProfile = (row: DbUser, authEmail: string | null): Profile => ({
+  id: row.id,
+  username: row.username,
+  email: row.email || authEmail,
+  wake_time: row.default_wake_time?.slice(0, 5) ?? null,
+  sleep_time: row.default_sleep_time?.slice(0, 5) ?? null,
+  time_zone: row.time_zone,
+  ai_personalization: row.ai_personalization,
+  auto_carry_over: row.auto_carry_over,
+  timer_mode: row.timer_mode,
+  pomodoro_settings: row.pomodoro_settings,
+  notification_preferences: row.notification_preferences,
+  created_at: row.created_at
+});
+
+export const GET = withAuth(async (request, { user, repo }) => {
+  try {
+    const row = await repo.getUserProfile(user.id);
+    const response: ApiResponse<Profile> = { ok: true, data: toProfile(row, user.email ?? null) };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error, 'Failed to load profile');
+  }
+});
+
+export const PUT = withAuth(async (request, { user, repo }) => {
+  try {
+    // Body: ProfileUpdate, every field optional
+    const parsed = await parseBody(request, profileUpdateSchema);
+    if (!parsed.ok) return parsed.response;
+    const body = parsed.data;
+
+    // Also creates the row, so the update below always has one to change
+    const current = await repo.getUserProfile(user.id);
+    const patch: ProfilePatch = {};
+    if (body.username !== undefined) patch.username = body.username;
+    if (body.email !== undefined) patch.email = body.email || null;
+    if (body.wake_time !== undefined) patch.default_wake_time = body.wake_time;
+    if (body.sleep_time !== undefined) patch.default_sleep_time = body.sleep_time;
+    if (body.time_zone !== undefined) patch.time_zone = body.time_zone;
+    if (body.ai_personalization !== undefined) patch.ai_personalization = body.ai_personalization;
+    if (body.auto_carry_over !== undefined) patch.auto_carry_over = body.auto_carry_over;
+    if (body.timer_mode !== undefined) patch.timer_mode = body.timer_mode;
+    if (body.notification_preferences) {
+      // Partial updates keep the other switches as stored
+      patch.notification_preferences = { ...current.notification_preferences, ...body.notification_preferences };
+    }
+    if (body.pomodoro_settings) {
+      patch.pomodoro_settings = { ...current.pomodoro_settings, ...body.pomodoro_settings };
+    }
+
+    const row = Object.keys(patch).length > 0 ? await repo.updateUserProfile(user.id, patch) : current;
+    const response: ApiResponse<Profile> = { ok: true, data: toProfile(row, user.email ?? null) };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error, 'Failed to update profile');
+  }
+});
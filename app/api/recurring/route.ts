@@ -0,0 +1,69 @@
+/**
+ * Recurring Tasks API Route
+ *
+ * Task definitions that add an occurrence to each day plan their rule comes up on.
+ * GET: Returns the caller's recurring tasks, oldest first, ended ones included
+ * POST: Adds a recurring task starting on a date
+ * PATCH: Changes every occurrence from a date on (one occurrence is edited through PATCH /api/plans)
+ * DELETE: Stops a recurring task from a date on (?id=&from=, from defaults to today)
+ */
+
+import { NextResponse } from 'next/server';
+import { ApiResponse } from '@/lib/types';
+import { withAuth } from '@/lib/api/withAuth';
+import { errorResponse } from '@/lib/api/errors';
+import { toISODate } from '@/lib/time';
+import { parseBody, parseQuery } from '@/lib/api/validate';
+import type { DbRecurringTask } from '@/lib/db/types';
+import { recurringEndQuerySchema, recurringTaskInputSchema, recurringTaskUpdateSchema } from '../../../lib/db/schemas';
+
+export const GET = withAuth(async (request, { user, repo }) => {
+  try {
+    const tasks = await repo.listRecurringTasks(user.id);
+    const response: ApiResponse<DbRecurringTask[]> = { ok: true, data: tasks };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error, 'Failed to fetch recurring tasks');
+  }
+});
+
+export const POST = withAuth(async (request, { user, repo }) => {
+  try {
+    // Body: RecurringTaskInput { name, description?, duration_minutes?, energy_type?, priority?, checklist?, rule, starts_on }
+    const parsed = await parseBody(request, recurringTaskInputSchema);
+    if (!parsed.ok) return parsed.response;
+    const task = await repo.addRecurringTask({ user_id: user.id, ...parsed.data });
+    const response: ApiResponse<DbRecurringTask> = { ok: true, data: task };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error, 'Failed to add recurring task');
+  }
+});
+
+export const PATCH = withAuth(async (request, { user, repo }) => {
+  try {
+    // Body: RecurringTaskUpdate { id, from, ...any RecurringTaskInput field but starts_on }
+    const parsed = await parseBody(request, recurringTaskUpdateSchema);
+    if (!parsed.ok) return parsed.response;
+    const { id, from, ...changes } = parsed.data;
+    // From a later date the task is split, so the returned id may be new
+    const task = await repo.updateRecurringTask({ user_id: user.id, id }, { from, changes });
+    const response: ApiResponse<DbRecurringTask> = { ok: true, data: task };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error, 'Failed to update recurring task');
+  }
+});
+
+export const DELETE = withAuth(async (request, { user, repo }) => {
+  try {
+    const parsed = parseQuery(request, recurringEndQuerySchema);
+    if (!parsed.ok) return parsed.response;
+    const from = parsed.data.from || toISODate(new Date(), await repo.getUserTimeZone(user.id));
+    await repo.endRecurringTask({ user_id: user.id, id: parsed.data.id }, from);
+    const response: ApiResponse = { ok: true };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error, 'Failed to delete recurring task');
+  }
+});
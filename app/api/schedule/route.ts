@@ -4,88 +4,85 @@
  * Handles CRUD operations for user schedules.
  * GET: Returns user's schedules grouped by block
  * POST: Creates or updates schedules for each block
+ * PATCH: Moves existing blocks to new start and end times
  * 
- * TODO: Add proper authentication with Supabase
- * TODO: Add input validation with zod
  * TODO: Add rate limiting
  */
 
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { ApiResponse } from '@/lib/types';
-import { upsertSchedule, upsertSessionTemplate, createSession, listSessionsForSchedule } from '../../../lib/db/crud';
-import { getSupabaseFromRequest } from '@/lib/supabaseClient';
-import type { DayOfWeek, EnergyLevelDb } from '../../../lib/db/types';
+import { withAuth } from '@/lib/api/withAuth';
+import { errorResponse } from '@/lib/api/errors';
+import { parseBody, parseQuery } from '@/lib/api/validate';
+import { scheduleInputSchema, scheduleQuerySchema, scheduleTimesUpdateSchema } from '../../../lib/db/schemas';
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { user, repo }) => {
   try {
-    const { searchParams } = new URL(request.url);
-    const scheduleId = searchParams.get('schedule_id');
-    if (!scheduleId) {
-      const response: ApiResponse = { ok: false, error: 'schedule_id is required' };
-      return NextResponse.json(response, { status: 400 });
-    }
+    const parsed = parseQuery(request, scheduleQuerySchema);
+    if (!parsed.ok) return parsed.response;
 
-    const sessions = await listSessionsForSchedule(request, Number(scheduleId));
+    const sessions = await repo.listSessionsForSchedule({ user_id: user.id, schedule_id: parsed.data.schedule_id });
     const response: ApiResponse = { ok: true, data: sessions };
     return NextResponse.json(response);
   } catch (error) {
-    const response: ApiResponse = { ok: false, error: 'Failed to fetch schedule sessions' };
-    return NextResponse.json(response, { status: 500 });
+    return errorResponse(error, 'Failed to fetch schedule sessions');
   }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request, { user, repo }) => {
   try {
-    const body = await request.json();
-    // Body contract:
-    // {
-    //   user_id: string,
-    //   day_of_week: DayOfWeek,
-    //   sleep_time: HH:MM[:SS] | null,
-    //   wake_time: HH:MM[:SS] | null,
-    //   sessions: [
-    //     { energy_type: EnergyLevelDb, start_time: HH:MM[:SS], end_time: HH:MM[:SS] }, ... (3 items)
-    //   ]
-    // }
-    if (!body?.user_id || !body?.day_of_week || !Array.isArray(body?.sessions) || body.sessions.length !== 3) {
-      const response: ApiResponse = { ok: false, error: 'Invalid body: provide user_id, day_of_week, sleep_time, wake_time, and exactly 3 sessions.' };
-      return NextResponse.json(response, { status: 400 });
-    }
+    // Body contract: ScheduleInput (1-8 sessions, in day order)
+    const parsed = await parseBody(request, scheduleInputSchema);
+    if (!parsed.ok) return parsed.response;
+    const body = parsed.data;
 
-    const schedule = await upsertSchedule(request, {
-      user_id: body.user_id as string,
-      day_of_week: body.day_of_week as DayOfWeek,
+    const schedule = await repo.upsertSchedule({
+      user_id: user.id,
+      day_of_week: body.day_of_week,
       sleep_time: body.sleep_time ?? null,
       wake_time: body.wake_time ?? null
     });
 
-    // Upsert templates and create sessions linked to schedule
+    // Upsert templates by position and create sessions linked to schedule
+    const blocks = body.sessions;
     const createdSessionIds: number[] = [];
-    for (const s of body.sessions as Array<{ energy_type: EnergyLevelDb; start_time: string; end_time: string }>) {
-      const template = await upsertSessionTemplate(request, {
-        user_id: body.user_id as string,
+    for (const [position, s] of blocks.entries()) {
+      const template = await repo.upsertSessionTemplate({
+        user_id: user.id,
+        schedule_id: schedule.id,
+        label: s.label || `${s.energy_type} Energy`,
+        position,
         energy_type: s.energy_type,
         start_time: s.start_time,
         end_time: s.end_time
       });
       // upsert session by (schedule_id, template_id)
-      const supabase = getSupabaseFromRequest(request);
-      const { data: sessionRow, error: sessionErr } = await supabase
-        .from('sessions')
-        .upsert(
-          [{ schedule_id: schedule.id, template_id: template.id }],
-          { onConflict: 'schedule_id,template_id' }
-        )
-        .select()
-        .single();
-      if (sessionErr) throw sessionErr;
-      createdSessionIds.push(sessionRow.id);
+      const session = await repo.createSession({ user_id: user.id, schedule_id: schedule.id, template_id: template.id });
+      createdSessionIds.push(session.id);
     }
+    await repo.deleteSessionTemplatesFrom({ user_id: user.id, schedule_id: schedule.id, from_position: blocks.length });
 
     const response: ApiResponse = { ok: true, data: { schedule_id: schedule.id, session_ids: createdSessionIds } };
     return NextResponse.json(response);
   } catch (error) {
-    const response: ApiResponse = { ok: false, error: 'Failed to save schedule' };
-    return NextResponse.json(response, { status: 500 });
+    return errorResponse(error, 'Failed to save schedule');
+  }
+});
+
+export const PATCH = withAuth(async (request, { user, repo }) => {
+  try {
+    // Body contract: ScheduleTimesUpdate (templates the user owns, with their new times)
+    const parsed = await parseBody(request, scheduleTimesUpdateSchema);
+    if (!parsed.ok) return parsed.response;
+
+    const templates = [];
+    for (const t of parsed.data.templates) {
+      templates.push(await repo.updateSessionTemplateTimes({ user_id: user.id, id: t.id, start_time: t.start_time, end_time: t.end_time }));
+    }
+
+    const response: ApiResponse = { ok: true, data: templates };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error, 'Failed to update block times');
   }
-}
+});
@@ -0,0 +1,42 @@
+/**
+ * Week Schedule API Route
+ *
+ * Saves several weekday schedules in one request, as the schedule wizard does.
+ * GET: Returns every saved weekday with its wake/sleep times, blocks and tasks
+ * POST: Upserts each day's schedule and blocks and replaces each block's task
+ * list. Tasks are matched by client_key, so saving again updates them in place.
+ * Everything is written in one transaction, so a failed save changes nothing
+ * and retrying it cannot duplicate tasks.
+ */
+
+import { NextResponse } from 'next/server';
+import { ApiResponse } from '@/lib/types';
+import { withAuth } from '@/lib/api/withAuth';
+import { errorResponse } from '@/lib/api/errors';
+import { parseBody } from '@/lib/api/validate';
+import type { SavedScheduleDay, WeekScheduleDay } from '@/lib/db/types';
+import { weekScheduleInputSchema } from '../../../../lib/db/schemas';
+
+export const GET = withAuth(async (request, { user, repo }) => {
+  try {
+    const days = await repo.getWeekSchedule(user.id);
+    const response: ApiResponse<WeekScheduleDay[]> = { ok: true, data: days };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error, 'Failed to fetch schedule');
+  }
+});
+
+export const POST = withAuth(async (request, { user, repo }) => {
+  try {
+    // Body contract: WeekScheduleInput (1-7 distinct days, each with 1-8 blocks in day order)
+    const parsed = await parseBody(request, weekScheduleInputSchema);
+    if (!parsed.ok) return parsed.response;
+
+    const days = await repo.saveWeekSchedule({ user_id: user.id, days: parsed.data.days });
+    const response: ApiResponse<SavedScheduleDay[]> = { ok: true, data: days };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error, 'Failed to save schedule');
+  }
+});
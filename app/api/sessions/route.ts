@@ -5,52 +5,49 @@
  * GET: Returns sessions for a specific date or today
  * POST: Logs session start/stop/progress
  * 
- * TODO: Add proper authentication with Supabase
- * TODO: Add input validation with zod
  * TODO: Add session analytics
  */
 
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { ApiResponse } from '@/lib/types';
-import { listTasksForSession, addTask } from '../../../lib/db/crud';
-import type { TaskStatus } from '../../../lib/db/types';
+import { withAuth } from '@/lib/api/withAuth';
+import { errorResponse } from '@/lib/api/errors';
+import { parseBody, parseQuery } from '@/lib/api/validate';
+import { sessionQuerySchema, taskInputSchema } from '../../../lib/db/schemas';
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { user, repo }) => {
   try {
-    const { searchParams } = new URL(request.url);
-    const sessionId = searchParams.get('session_id');
-    if (!sessionId) {
-      const response: ApiResponse = { ok: false, error: 'session_id is required' };
-      return NextResponse.json(response, { status: 400 });
-    }
-    const tasks = await listTasksForSession(request, Number(sessionId));
+    const parsed = parseQuery(request, sessionQuerySchema);
+    if (!parsed.ok) return parsed.response;
+    const tasks = await repo.listTasksForSession({ user_id: user.id, session_id: parsed.data.session_id });
     const response: ApiResponse = { ok: true, data: tasks };
     return NextResponse.json(response);
   } catch (error) {
-    const response: ApiResponse = { ok: false, error: 'Failed to fetch session tasks' };
-    return NextResponse.json(response, { status: 500 });
+    return errorResponse(error, 'Failed to fetch session tasks');
   }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request, { user, repo }) => {
   try {
-    const body = await request.json();
-    // Body: { session_id: number, name: string, description?: string, duration_minutes?: number, status?: TaskStatus }
-    if (!body?.session_id || !body?.name) {
-      const response: ApiResponse = { ok: false, error: 'session_id and name are required' };
-      return NextResponse.json(response, { status: 400 });
-    }
-    const task = await addTask(request, {
-      session_id: Number(body.session_id),
+    // Body: TaskInput { session_id, client_key?, name, description?, duration_minutes?, status?, priority?, checklist? }
+    // Posting the same client_key again returns the task created the first time
+    const parsed = await parseBody(request, taskInputSchema);
+    if (!parsed.ok) return parsed.response;
+    const body = parsed.data;
+    const task = await repo.addTask({
+      user_id: user.id,
+      session_id: body.session_id,
+      client_key: body.client_key ?? null,
       name: body.name,
       description: body.description ?? null,
       duration_minutes: body.duration_minutes ?? null,
-      status: (body.status as TaskStatus) ?? 'active'
+      status: body.status ?? 'active',
+      priority: body.priority ?? 'normal',
+      checklist: body.checklist ?? []
     });
     const response: ApiResponse = { ok: true, data: task };
     return NextResponse.json(response);
   } catch (error) {
-    const response: ApiResponse = { ok: false, error: 'Failed to add task' };
-    return NextResponse.json(response, { status: 500 });
+    return errorResponse(error, 'Failed to add task');
   }
-}
+});
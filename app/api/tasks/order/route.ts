@@ -0,0 +1,27 @@
+/**
+ * Task Order API Route
+ *
+ * PATCH: Reorders the blueprint tasks of one session (block) in a single call
+ * and returns the session's tasks in their new order.
+ */
+
+import { NextResponse } from 'next/server';
+import { ApiResponse } from '@/lib/types';
+import { withAuth } from '@/lib/api/withAuth';
+import { errorResponse } from '@/lib/api/errors';
+import { parseBody } from '@/lib/api/validate';
+import type { DbTask } from '@/lib/db/types';
+import { taskReorderSchema } from '../../../../lib/db/schemas';
+
+export const PATCH = withAuth(async (request, { user, repo }) => {
+  try {
+    // Body: TaskReorder { session_id, task_ids }; unlisted tasks keep their order after these
+    const parsed = await parseBody(request, taskReorderSchema);
+    if (!parsed.ok) return parsed.response;
+    const tasks = await repo.reorderTasks({ user_id: user.id, ...parsed.data });
+    const response: ApiResponse<DbTask[]> = { ok: true, data: tasks };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error, 'Failed to reorder tasks');
+  }
+});
@@ -1,38 +1,35 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { ApiResponse } from '@/lib/types';
-import { updateTask, deleteTask } from '../../../lib/db/crud';
+import { withAuth } from '@/lib/api/withAuth';
+import { errorResponse } from '@/lib/api/errors';
+import { parseBody, parseQuery } from '@/lib/api/validate';
+import { statusForChecklist } from '@/lib/checklist';
+import { idQuerySchema, taskUpdateSchema } from '../../../lib/db/schemas';
 
-export async function PATCH(request: NextRequest) {
+export const PATCH = withAuth(async (request, { user, repo }) => {
   try {
-    const body = await request.json();
-    if (!body?.id) {
-      const response: ApiResponse = { ok: false, error: 'id is required' };
-      return NextResponse.json(response, { status: 400 });
-    }
-    const updated = await updateTask(request, Number(body.id), body);
+    // Body: TaskUpdate { id, name?, description?, duration_minutes?, status?, priority?, checklist? }; other keys are rejected
+    const parsed = await parseBody(request, taskUpdateSchema);
+    if (!parsed.ok) return parsed.response;
+    const { id, ...patch } = parsed.data;
+    // Checking the last item completes the task; a status sent along wins
+    const status = patch.status ?? (patch.checklist && statusForChecklist(patch.checklist));
+    const updated = await repo.updateTask({ user_id: user.id, id }, status ? { ...patch, status } : patch);
     const response: ApiResponse = { ok: true, data: updated };
     return NextResponse.json(response);
   } catch (error) {
-    const response: ApiResponse = { ok: false, error: 'Failed to update task' };
-    return NextResponse.json(response, { status: 500 });
+    return errorResponse(error, 'Failed to update task');
   }
-}
+});
 
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAuth(async (request, { user, repo }) => {
   try {
-    const { searchParams } = new URL(request.url);
-    const id = searchParams.get('id');
-    if (!id) {
-      const response: ApiResponse = { ok: false, error: 'id is required' };
-      return NextResponse.json(response, { status: 400 });
-    }
-    await deleteTask(request, Number(id));
+    const parsed = parseQuery(request, idQuerySchema);
+    if (!parsed.ok) return parsed.response;
+    await repo.deleteTask({ user_id: user.id, id: parsed.data.id });
     const response: ApiResponse = { ok: true };
     return NextResponse.json(response);
   } catch (error) {
-    const response: ApiResponse = { ok: false, error: 'Failed to delete task' };
-    return NextResponse.json(response, { status: 500 });
+    return errorResponse(error, 'Failed to delete task');
   }
-}
-
-
+});
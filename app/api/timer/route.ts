@@ -0,0 +1,100 @@
+/**
+ * Timer API Route
+ *
+ * The user's running focus timer, shared by every tab and device. Only
+ * timestamps are stored; clients work out the time left from them.
+ * GET: Returns the timer (or null) with the server's clock
+ * PUT: Starts an interval now, replacing whatever was running
+ * PATCH: Pauses or resumes the interval, or moves it to another task
+ * DELETE: Clears the timer, e.g. once the day's blocks are over
+ * Each change appends the focus log events it implies, so the tab that makes
+ * a change logs it once and the tabs that only show it log nothing.
+ */
+
+import { NextResponse } from 'next/server';
+import { ApiResponse } from '@/lib/types';
+import { withAuth } from '@/lib/api/withAuth';
+import { errorResponse } from '@/lib/api/errors';
+import { logTimerChange } from '@/lib/api/focusLog';
+import { toISODate } from '@/lib/time';
+import { setPaused, startTimer } from '@/lib/timerState';
+import { parseBody } from '@/lib/api/validate';
+import type { DbTimerState, TimerStateView } from '@/lib/db/types';
+import { timerStartSchema, timerUpdateSchema } from '../../../lib/db/schemas';
+
+const view = (timer: DbTimerState | null): TimerStateView => ({ timer, server_time: new Date().toISOString() });
+
+export const GET = withAuth(async (request, { user, repo }) => {
+  try {
+    const timer = await repo.getTimerState(user.id);
+    const response: ApiResponse<TimerStateView> = { ok: true, data: view(timer) };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error, 'Failed to load timer');
+  }
+});
+
+export const PUT = withAuth(async (request, { user, repo }) => {
+  try {
+    // Body: TimerStart { plan_task_id?, run_date?: YYYY-MM-DD, timer_interval, duration_seconds, work_intervals_done?, paused? }
+    const parsed = await parseBody(request, timerStartSchema);
+    if (!parsed.ok) return parsed.response;
+    const body = parsed.data;
+
+    const now = new Date();
+    const started = startTimer({
+      plan_task_id: body.plan_task_id ?? null,
+      run_date: body.run_date || toISODate(now, await repo.getUserTimeZone(user.id)),
+      timer_interval: body.timer_interval,
+      duration_seconds: body.duration_seconds,
+      work_intervals_done: body.work_intervals_done ?? 0,
+      paused: body.paused
+    }, now);
+    const previous = await repo.getTimerState(user.id);
+    const timer = await repo.saveTimerState({ user_id: user.id, ...started });
+    await logTimerChange(repo, user.id, previous, timer);
+    const response: ApiResponse<TimerStateView> = { ok: true, data: view(timer) };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error, 'Failed to start timer');
+  }
+});
+
+export const PATCH = withAuth(async (request, { user, repo }) => {
+  try {
+    // Body: TimerUpdate { paused?, plan_task_id? }
+    const parsed = await parseBody(request, timerUpdateSchema);
+    if (!parsed.ok) return parsed.response;
+    const body = parsed.data;
+
+    const current = await repo.getTimerState(user.id);
+    if (!current) {
+      const response: ApiResponse = { ok: false, error: 'No timer is running' };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    // Pauses are timed by the server clock, so devices with skewed clocks agree
+    const next = body.paused === undefined ? current : setPaused(current, body.paused, new Date());
+    const timer = await repo.saveTimerState({
+      ...next,
+      plan_task_id: body.plan_task_id === undefined ? next.plan_task_id : body.plan_task_id
+    });
+    await logTimerChange(repo, user.id, current, timer);
+    const response: ApiResponse<TimerStateView> = { ok: true, data: view(timer) };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error, 'Failed to update timer');
+  }
+});
+
+export const DELETE = withAuth(async (request, { user, repo }) => {
+  try {
+    const previous = await repo.getTimerState(user.id);
+    await repo.clearTimerState(user.id);
+    await logTimerChange(repo, user.id, previous, null);
+    const response: ApiResponse<TimerStateView> = { ok: true, data: view(null) };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error, 'Failed to clear timer');
+  }
+});
@@ -21,9 +21,29 @@ import TaskList from '@/components/TaskList';
 // Control buttons will be inline here (Skip/Complete)
 import AIWidget from '@/components/AIWidget';
 import ErrorMessage from '@/components/ErrorMessage';
-import { getCurrentBlock, getEnergyMessage, formatRange, getBlockTheme, getBlockTextColors, getEnergyThemeForNow } from '@/lib/time';
-import { Pause, SkipForward, Play, ArrowRight } from 'lucide-react';
-import { EnergyLevel, TaskItem } from '@/lib/types';
+import { getCurrentBlock, getEnergyMessage, formatRange, getBlockTheme, getBlockTextColors, getEnergyThemeForNow, toISODate, getSecondsOfDay, getBlockBoundaries, getZonedDateTime, addDays } from '@/lib/time';
+import type { WakingWindows } from '@/lib/time';
+import { loadProfileTimeZone } from '@/lib/profileTimeZone';
+import { loadWakingWindows } from '@/lib/wakingWindows';
+import { alertBlockEnd, alertBreakDue, alertIntervalEnd } from '@/lib/alerts';
+import { DEFAULT_POMODORO_SETTINGS, TIMER_MODE_LABELS, intervalSeconds, nextInterval, toFocusInterval } from '@/lib/timerModes';
+import type { TimerInterval } from '@/lib/timerModes';
+import type { BreakPlan, ProposedBreak } from '@/lib/breaks';
+import { remainingSeconds } from '@/lib/timerState';
+import { clearTimer, loadTimer, onTimerChange, serverNow, startSharedTimer, updateSharedTimer, type SharedTimer } from '@/lib/timerSync';
+import { moveItem, useDragReorder } from '@/lib/reorder';
+import { statusForChecklist } from '@/lib/checklist';
+import { Pause, SkipForward, Play, ArrowRight, Pencil, Repeat, Coffee } from 'lucide-react';
+import { EnergyLevel, Profile, TaskItem } from '@/lib/types';
+import type {
+  CarryOverTarget,
+  DayPlanBlock,
+  DayPlanView,
+  EnergyLevelDb,
+  NotificationPreferences,
+  PomodoroSettings,
+  TimerMode
+} from '@/lib/db/types';
 import { supabase } from '@/lib/supabaseClient';
 
 export default function HomePage() {
@@ -35,26 +55,62 @@ export default function HomePage() {
   const [insightsOpen, setInsightsOpen] = useState(false);
   const [isTimerFrozen, setIsTimerFrozen] = useState(false);
   const [username, setUsername] = useState<string | null>(null);
+  const [notificationPrefs, setNotificationPrefs] = useState<NotificationPreferences | null>(null);
+  const [autoCarryOver, setAutoCarryOver] = useState<boolean | null>(null); // null until the profile loads
   const [isPaused, setIsPaused] = useState(false);
+  const [timerMode, setTimerMode] = useState<TimerMode | null>(null); // null until the profile loads
+  const [pomodoroSettings, setPomodoroSettings] = useState<PomodoroSettings>(DEFAULT_POMODORO_SETTINGS);
+  // Interval the timer is counting down and its full length in seconds
+  const [timerInterval, setTimerInterval] = useState<TimerInterval>('work');
+  const [intervalLength, setIntervalLength] = useState<number | null>(null);
+  const workIntervalsDone = useRef(0); // in the current block, for Pomodoro long breaks
+  // Timer shared with the user's other tabs and devices; the countdown is worked out from it
+  const [timer, setTimer] = useState<SharedTimer | null>(null);
+  const shownTimerAt = useRef<string | null>(null); // updated_at of the timer last shown
+  const restartTimer = useRef(false); // the timer mode changed: start over instead of picking up the stored timer
+  // Break the planner says is due in the active block, until the user answers it
+  const [breakDue, setBreakDue] = useState<(ProposedBreak & { session_id: number; energy_type: EnergyLevelDb; focus_minutes: number }) | null>(null);
+  const [breakChecks, setBreakChecks] = useState(0); // bumped to ask the planner again
+  const alertedBreakAt = useRef<string | null>(null);
   const [lastBlockEndMinutesState, setLastBlockEndMinutesState] = useState<number | null>(null);
   const [currentBlockRange, setCurrentBlockRange] = useState<string | null>(null);
   const [currentEnergyLabel, setCurrentEnergyLabel] = useState<'High'|'Medium'|'Low' | null>(null);
+  const [currentBlockName, setCurrentBlockName] = useState<string | null>(null);
   const [activeEndMinutes, setActiveEndMinutes] = useState<number | null>(null);
   const [motivation, setMotivation] = useState<string | null>(null);
   const [energyTheme, setEnergyTheme] = useState<string | null>(null);
   const playClickTimer = useRef<number | null>(null);
+  // Task id of the focus run currently open in the focus log (started, not stopped)
+  const carriedOverPlanId = useRef<number | null>(null); // plan whose leftovers were dealt with at the day's end
+  const carriedOverBlockEnd = useRef<string | null>(null); // `${planId}:${endMinutes}` of the last block dealt with
+  // Unfinished tasks waiting for the user to decide where they go
+  const [carryOffer, setCarryOffer] = useState<{ scope: 'block' | 'day'; ids: number[] } | null>(null);
   const [isOutsideBlock, setIsOutsideBlock] = useState(false);
+  // Profile time zone; block and day boundaries are evaluated in it, not the device clock
+  const [timeZone, setTimeZone] = useState<string | null>(null);
+  const [wakingWindows, setWakingWindows] = useState<WakingWindows>({});
 
   // Mock task data
   const [tasks, setTasks] = useState<TaskItem[]>([]);
+  // Today's dated plan, which drag-to-reorder in the task panel updates
+  const [planId, setPlanId] = useState<number | null>(null);
+  // Ids of today's tasks not finished when the plan loaded, for the end-of-day carry-over
+  const [dayTaskIds, setDayTaskIds] = useState<number[]>([]);
+  // Occurrence of a recurring task being edited in the task panel
+  const [editingOccurrence, setEditingOccurrence] = useState<{ index: number; name: string; duration: number | '' } | null>(null);
 
   const currentTask = tasks[currentTaskIndex]?.label || 'No task';
   const nextTask = tasks[currentTaskIndex + 1]?.label || 'All tasks complete';
 
+  useEffect(() => {
+    loadProfileTimeZone().then(setTimeZone);
+    loadWakingWindows().then(setWakingWindows);
+  }, []);
+
   // Update current block and energy level based on time
   useEffect(() => {
     const updateCurrentBlock = () => {
-      const block = getCurrentBlock();
+      const block = getCurrentBlock(new Date(), timeZone, wakingWindows);
       setCurrentBlock(block);
       
       // Set energy level based on block
@@ -70,18 +126,16 @@ export default function HomePage() {
     const interval = setInterval(updateCurrentBlock, 60000); // Update every minute
 
     return () => clearInterval(interval);
-  }, []);
+  }, [timeZone, wakingWindows]);
 
   // Helpers for block end detection
-  const getNowMinutes = () => {
-    const d = new Date();
-    return d.getHours() * 60 + d.getMinutes();
-  };
+  const getNowMinutes = () => Math.floor(getSecondsOfDay(new Date(), timeZone) / 60);
 
   const getBlockEndMinutes = (block: 'morning' | 'afternoon' | 'night') => {
-    if (block === 'morning') return 12 * 60; // 12:00
-    if (block === 'afternoon') return 18 * 60; // 18:00
-    return 24 * 60 - 1; // 23:59 for night
+    const today = getZonedDateTime(new Date(), timeZone).dayOfWeek;
+    const { start, end } = getBlockBoundaries(wakingWindows[today])[block];
+    // Blocks that run past midnight (or started after it) end at 23:59 for today's timer
+    return start >= 24 * 60 || end > 24 * 60 ? 24 * 60 - 1 : end;
   };
 
   const allTasksDone = tasks.length > 0 && tasks.every(t => t.done || t.status === 'completed' || t.status === 'skipped');
@@ -95,98 +149,134 @@ export default function HomePage() {
   useEffect(() => {
     const load = async () => {
       const { data } = await supabase.auth.getSession();
-      const userId = data.session?.user?.id;
-      if (!userId) return;
-      const { data: profile } = await supabase.from('users').select('username').eq('id', userId).single();
-      setUsername(profile?.username ?? null);
+      const token = data.session?.access_token;
+      if (!token) return;
+      const res = await fetch('/api/profile', { headers: { Authorization: `Bearer ${token}` } });
+      const js = await res.json();
+      if (!js?.ok) return;
+      const profile: Profile = js.data;
+      setUsername(profile.username ?? null);
+      setNotificationPrefs(profile.notification_preferences ?? null);
+      setAutoCarryOver(profile.auto_carry_over === true);
+      setTimerMode(profile.timer_mode ?? 'block');
+      if (profile.pomodoro_settings) setPomodoroSettings(profile.pomodoro_settings);
     };
     load();
   }, []);
 
-  // Helper: figure out active session by local device time
-  const computeActiveSession = (sessions: any[]): { session: any | null; startMin: number | null; endMin: number | null } => {
+  // Helper: figure out active block by the time of day in the profile zone
+  const computeActiveSession = (blocks: DayPlanBlock[]): { session: DayPlanBlock | null; startMin: number | null; endMin: number | null } => {
     const toMin = (t:string) => { const [h,m] = t.split(':').map(Number); return h*60+m; };
-    const now = new Date();
-    const nowMin = now.getHours()*60 + now.getMinutes();
-    for (const s of sessions) {
-      const st = toMin((s.template?.start_time as string) || '00:00');
-      const en = toMin((s.template?.end_time as string) || '00:00');
-      if (st <= nowMin && nowMin < en) return { session: s, startMin: st, endMin: en };
+    const nowMin = getNowMinutes();
+    for (const b of blocks) {
+      const st = toMin(b.start_time || '00:00');
+      const en = toMin(b.end_time || '00:00');
+      if (st <= nowMin && nowMin < en) return { session: b, startMin: st, endMin: en };
     }
     return { session: null, startMin: null, endMin: null };
   };
 
-  // Load today's schedule (joined select) and pick the current block's tasks
+  // Load today's dated plan (materialized from the weekday schedule) and pick the current block's tasks
   useEffect(() => {
     const loadTasks = async () => {
       try {
+        if (!timeZone || !timerMode) return;
         const { data: sessionData } = await supabase.auth.getSession();
-        const uid = sessionData.session?.user?.id;
-        if (!uid) return;
-        const weekday = new Date().toLocaleString('en-US', { weekday: 'long' });
-        const { data: schedule } = await supabase
-          .from('schedules')
-          .select(`
-            id,
-            sessions (
-              id,
-              template:session_templates!inner ( id, energy_type, start_time, end_time ),
-              tasks ( id, name, description, duration_minutes, status )
-            )
-          `)
-          .eq('user_id', uid)
-          .eq('day_of_week', weekday)
-          .single();
-        if (!schedule || !schedule.sessions) { setTasks([]); setEnergyTheme(null); setIsOutsideBlock(false); return; }
+        const token = sessionData.session?.access_token;
+        if (!token) return;
+        const res = await fetch(`/api/plans?date=${toISODate(new Date(), timeZone)}`, {
+          headers: { Authorization: `Bearer ${token}` }
+        });
+        const js = await res.json();
+        if (!res.ok || !js?.ok) throw new Error(js?.error || 'Failed to load day plan');
+        const dayPlan = js.data as DayPlanView;
+        setPlanId(dayPlan.plan.id);
+        setDayTaskIds(dayPlan.blocks.flatMap(b => b.tasks.filter(t => t.status === 'active').map(t => t.id)));
+        if (dayPlan.blocks.length === 0) { setTasks([]); setEnergyTheme(null); setIsOutsideBlock(false); return; }
         const toMin = (t:string) => { const [h,m] = t.split(':').map(Number); return h*60+m; };
-        const endMins = (schedule.sessions as any[]).map((s:any)=> toMin((s.template?.end_time as string) || '0:0')).filter((n:number)=>!Number.isNaN(n));
+        const endMins = dayPlan.blocks.map(b => toMin(b.end_time || '0:0')).filter(n => !Number.isNaN(n));
         if (endMins.length) setLastBlockEndMinutesState(Math.max(...endMins));
-        const { session: active, startMin, endMin } = computeActiveSession(schedule.sessions as any[]);
+        const { session: active, startMin, endMin } = computeActiveSession(dayPlan.blocks);
         setIsOutsideBlock(!active);
-        if (!active || !endMin) { setTasks([]); setActiveEndMinutes(null); return; }
+        if (!active || !endMin) {
+          setTasks([]);
+          setActiveEndMinutes(null);
+          // Outside every block nothing is running
+          setTimer(null);
+          clearTimer().catch(e => console.error('Failed to clear timer', e));
+          return;
+        }
         setActiveEndMinutes(endMin);
-        setCurrentBlockRange(formatRange(((active.template?.start_time as string)||'00:00').slice(0,5), ((active.template?.end_time as string)||'00:00').slice(0,5)));
-        setCurrentEnergyLabel((active.template?.energy_type as any) || null);
-        const dbTasks = (active.tasks as any[]) || [];
+        const range = formatRange(active.start_time.slice(0,5), active.end_time.slice(0,5));
+        setCurrentBlockRange(range);
+        setCurrentEnergyLabel(active.energy_type);
+        setCurrentBlockName(active.label);
         const energyMap = { High: 'high', Medium: 'medium', Low: 'low' } as const;
-        const mapped: TaskItem[] = (dbTasks||[]).map((t:any) => ({
+        const mapped: TaskItem[] = active.tasks.map(t => ({
           id: t.id,
+          task_id: t.task_id ?? undefined,
+          recurring_task_id: t.recurring_task_id ?? undefined,
           label: t.name,
-          range: formatRange(((active.template?.start_time as string)||'00:00').slice(0,5), ((active.template?.end_time as string)||'00:00').slice(0,5)),
-          energy: energyMap[((active.template?.energy_type as string) || 'Low') as 'High'|'Medium'|'Low'],
+          range,
+          energy: energyMap[active.energy_type],
           done: t.status === 'completed',
-          status: t.status
+          status: t.status,
+          priority: t.priority,
+          duration_minutes: t.duration_minutes,
+          actual_minutes: t.actual_minutes,
+          checklist: t.checklist
         }));
         setTasks(mapped);
         // Derive energy theme from today's templates
         try {
-          const templates = (schedule.sessions as any[]).map((s:any)=> ({
-            energy: (s.template?.energy_type as 'High'|'Medium'|'Low') || 'Low',
-            start: (s.template?.start_time as string) || '00:00',
-            end: (s.template?.end_time as string) || '00:00'
+          const templates = dayPlan.blocks.map(b => ({
+            energy: b.energy_type,
+            label: b.label,
+            start: b.start_time || '00:00',
+            end: b.end_time || '00:00'
           }));
-          setEnergyTheme(getEnergyThemeForNow(templates));
+          setEnergyTheme(getEnergyThemeForNow(templates, new Date(), timeZone));
         } catch { setEnergyTheme(null); }
-        setCurrentTaskIndex(0);
-        // Initialize timer remaining based on local time and active end
-        const now2 = new Date();
-        const nowSec = now2.getHours()*3600 + now2.getMinutes()*60 + now2.getSeconds();
-        const rem = Math.max(0, endMin*60 - nowSec);
-        setTimeRemaining(rem);
+        const firstOpen = Math.max(0, mapped.findIndex(t => !t.done));
+        setCurrentTaskIndex(firstOpen);
         setIsTimerFrozen(false);
+        // Pick up the interval running in another tab or from before a reload, if it
+        // belongs to this block; a new block (or timer mode) starts over with work
+        const today = toISODate(new Date(), timeZone);
+        const nowSec = getSecondsOfDay(new Date(), timeZone);
+        const blockStartedAt = Date.now() - (nowSec - (startMin ?? 0) * 60) * 1000;
+        const stored = restartTimer.current ? null : await loadTimer().catch(() => null);
+        restartTimer.current = false;
+        if (stored && stored.run_date === today && (mapped.some(t => t.id === stored.plan_task_id) || (stored.plan_task_id === null && Date.parse(stored.started_at) >= blockStartedAt))) {
+          setTimer(stored);
+          return;
+        }
+        const rem = Math.max(0, endMin*60 - nowSec);
+        const openTask = mapped.find(t => !t.done);
+        const seconds = intervalSeconds(timerMode, 'work', { settings: pomodoroSettings, blockRemainingSec: rem, taskMinutes: openTask?.duration_minutes });
+        setTimer(startSharedTimer({
+          plan_task_id: openTask?.id ?? null,
+          run_date: today,
+          timer_interval: 'work',
+          duration_seconds: seconds,
+          work_intervals_done: 0
+        }, setTimer));
       } catch (e) {
         console.error('Failed to load tasks', e);
         setTasks([]);
       }
     };
     loadTasks();
-  }, [currentBlock]);
+  }, [currentBlock, timeZone, timerMode, pomodoroSettings]);
 
   // Fetch AI motivational line (based on energy + last day/week metrics)
   useEffect(() => {
     const loadMotivation = async () => {
       try {
-        const res = await fetch('/api/insights');
+        const { data: sessionData } = await supabase.auth.getSession();
+        const token = sessionData.session?.access_token;
+        if (!token) return;
+        const res = await fetch('/api/insights', { headers: { Authorization: `Bearer ${token}` } });
         const js = await res.json();
         if (js?.ok && js?.data?.motivation) setMotivation(js.data.motivation);
         else if (Array.isArray(js?.data?.suggestions) && js.data.suggestions.length) setMotivation(js.data.suggestions[0]);
@@ -197,6 +287,33 @@ export default function HomePage() {
     loadMotivation();
   }, [currentBlock]);
 
+  // Ask the break planner every minute whether a break is due in the active block
+  useEffect(() => {
+    const checkBreaks = async () => {
+      try {
+        const { data: sessionData } = await supabase.auth.getSession();
+        const token = sessionData.session?.access_token;
+        if (!token) return;
+        const res = await fetch('/api/breaks', { headers: { Authorization: `Bearer ${token}` } });
+        const js = await res.json();
+        if (!res.ok || !js?.ok) throw new Error(js?.error || 'Failed to plan breaks');
+        const { block, plan } = js.data as { block: { session_id: number } | null; plan: BreakPlan | null };
+        const next = block && plan?.due ? plan.breaks[0] : null;
+        if (!block || !plan || !next) { setBreakDue(null); return; }
+        setBreakDue({ ...next, session_id: block.session_id, energy_type: plan.energy_type, focus_minutes: plan.focus_minutes });
+        if (alertedBreakAt.current !== next.due_at) {
+          alertedBreakAt.current = next.due_at;
+          alertBreakDue(notificationPrefs, next.minutes);
+        }
+      } catch (e) {
+        console.error('Failed to check for breaks', e);
+      }
+    };
+    checkBreaks();
+    const interval = setInterval(checkBreaks, 60000);
+    return () => clearInterval(interval);
+  }, [currentBlock, timeZone, notificationPrefs, breakChecks]);
+
   // Timer countdown with freeze/pause conditions
   useEffect(() => {
     if (isTimerFrozen || isPaused) return; // do not tick when frozen/paused
@@ -207,23 +324,167 @@ export default function HomePage() {
     }
 
     const tick = () => {
-      setTimeRemaining(prev => (prev <= 0 ? 0 : prev - 1));
+      // Worked out from the shared timer's timestamps, so every tab shows the same time
+      if (timer) setTimeRemaining(remainingSeconds(timer, serverNow()));
+      else setTimeRemaining(prev => (prev <= 0 ? 0 : prev - 1));
       const nowMin = getNowMinutes();
       const endMin = activeEndMinutes ?? getBlockEndMinutes(currentBlock);
       if ((endMin && nowMin >= endMin) || (lastBlockEndMinutes && nowMin >= lastBlockEndMinutes)) {
         setTimeRemaining(0);
         setIsTimerFrozen(true);
+        alertBlockEnd(notificationPrefs, currentBlockName);
       }
     };
 
-    const timer = setInterval(tick, 1000);
-    return () => clearInterval(timer);
-  }, [currentBlock, isTimerFrozen, isPaused, allTasksDone, isAfterLastBlockEnd, isOutsideBlock, activeEndMinutes, lastBlockEndMinutes]);
+    const countdown = setInterval(tick, 1000);
+    return () => clearInterval(countdown);
+  }, [currentBlock, isTimerFrozen, isPaused, allTasksDone, isAfterLastBlockEnd, isOutsideBlock, activeEndMinutes, lastBlockEndMinutes, notificationPrefs, currentBlockName, timer]);
+
+  // Show the shared timer: its interval, whether it is paused and its task
+  useEffect(() => {
+    if (!timer || shownTimerAt.current === timer.updated_at) return;
+    shownTimerAt.current = timer.updated_at;
+    workIntervalsDone.current = timer.work_intervals_done;
+    setTimerInterval(timer.timer_interval);
+    setIntervalLength(timer.duration_seconds);
+    setTimeRemaining(remainingSeconds(timer, serverNow()));
+    setIsPaused(timer.paused_at !== null);
+    const index = tasks.findIndex(t => t.id === timer.plan_task_id);
+    if (index >= 0) setCurrentTaskIndex(index);
+  }, [timer, tasks]);
+
+  // Other tabs say when they change the timer; changes from other devices are
+  // picked up on a poll or when this tab comes back into view
+  useEffect(() => {
+    if (!timerMode) return;
+    const sync = () => {
+      loadTimer()
+        .then(remote => { if (remote) setTimer(prev => (prev?.updated_at === remote.updated_at ? prev : remote)); })
+        .catch(e => console.error('Failed to sync timer', e));
+    };
+    const onVisible = () => { if (document.visibilityState === 'visible') sync(); };
+    const unsubscribe = onTimerChange(sync);
+    const poll = setInterval(sync, 15000);
+    document.addEventListener('visibilitychange', onVisible);
+    return () => {
+      unsubscribe();
+      clearInterval(poll);
+      document.removeEventListener('visibilitychange', onVisible);
+    };
+  }, [timerMode]);
+
+  // Once the day is over nothing is timed; clearing the timer also stops its focus run
+  useEffect(() => {
+    if (!dayEnded || !timer) return;
+    setTimer(null);
+    clearTimer().catch(e => console.error('Failed to clear timer', e));
+  }, [dayEnded, timer]);
+
+  // An interval ran out before the block did: go on to the break or work interval after it
+  useEffect(() => {
+    if (timeRemaining > 0 || isTimerFrozen || isPaused || !timerMode || activeEndMinutes === null) return;
+    const blockRemainingSec = Math.max(0, activeEndMinutes * 60 - getSecondsOfDay(new Date(), timeZone));
+    if (blockRemainingSec <= 0) return; // the block is over; the countdown freezes instead
+    if (timerInterval === 'work') workIntervalsDone.current += 1;
+    const next = nextInterval(timerMode, timerInterval, workIntervalsDone.current, pomodoroSettings);
+    if (!next) return;
+    const seconds = intervalSeconds(timerMode, next, { settings: pomodoroSettings, blockRemainingSec, taskMinutes: tasks[currentTaskIndex]?.duration_minutes });
+    alertIntervalEnd(notificationPrefs, toFocusInterval(next), Math.round(seconds / 60));
+    setTimer(startSharedTimer({
+      plan_task_id: tasks[currentTaskIndex]?.id ?? null,
+      run_date: toISODate(new Date(), timeZone),
+      timer_interval: next,
+      duration_seconds: seconds,
+      work_intervals_done: workIntervalsDone.current
+    }, setTimer));
+  }, [timeRemaining, isTimerFrozen, isPaused, timerMode, activeEndMinutes, timeZone, timerInterval, pomodoroSettings, tasks, currentTaskIndex, notificationPrefs]);
+
+  // Starts a work interval now: the next task in 'task' mode, or the end of a skipped break
+  const startWorkInterval = (task?: TaskItem) => {
+    if (!timerMode || activeEndMinutes === null) return;
+    const blockRemainingSec = Math.max(0, activeEndMinutes * 60 - getSecondsOfDay(new Date(), timeZone));
+    const seconds = intervalSeconds(timerMode, 'work', { settings: pomodoroSettings, blockRemainingSec, taskMinutes: task?.duration_minutes });
+    setTimer(startSharedTimer({
+      plan_task_id: task?.id ?? null,
+      run_date: toISODate(new Date(), timeZone),
+      timer_interval: 'work',
+      duration_seconds: seconds,
+      work_intervals_done: workIntervalsDone.current
+    }, setTimer));
+  };
+
+  // Points the shared timer at the task now current, for the other tabs and the
+  // focus log; without one (the last task is done) the timer is on no task
+  const moveTimerTo = (task?: TaskItem) => {
+    const planTaskId = task?.id ?? null;
+    if (timer && timer.plan_task_id !== planTaskId) setTimer(updateSharedTimer(timer, { plan_task_id: planTaskId }, setTimer));
+  };
+
+  // Answer the break prompt; a break taken runs on the timer, then work picks up again
+  const answerBreak = async (taken: boolean) => {
+    if (!breakDue) return;
+    const proposal = breakDue;
+    setBreakDue(null);
+    if (taken && activeEndMinutes !== null) {
+      const blockRemainingSec = Math.max(0, activeEndMinutes * 60 - getSecondsOfDay(new Date(), timeZone));
+      setTimer(startSharedTimer({
+        plan_task_id: tasks[currentTaskIndex]?.id ?? null,
+        run_date: toISODate(new Date(), timeZone),
+        timer_interval: proposal.minutes > pomodoroSettings.short_break_minutes ? 'long_break' : 'short_break',
+        duration_seconds: Math.min(proposal.minutes * 60, blockRemainingSec),
+        work_intervals_done: workIntervalsDone.current
+      }, setTimer));
+    }
+    try {
+      const { data: sessionData } = await supabase.auth.getSession();
+      const token = sessionData.session?.access_token;
+      if (!token) return;
+
+      const res = await fetch('/api/breaks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify({
+          session_id: proposal.session_id,
+          energy_type: proposal.energy_type,
+          run_date: toISODate(new Date(), timeZone),
+          due_at: proposal.due_at,
+          minutes: proposal.minutes,
+          taken
+        })
+      });
+      if (!res.ok) throw new Error('Failed to record break');
+    } catch (e) {
+      console.error('Failed to record break', e);
+    } finally {
+      setBreakChecks(n => n + 1);
+    }
+  };
+
+  // Switching mode reloads the block, which restarts the timer in the new mode
+  const changeTimerMode = async (mode: TimerMode) => {
+    restartTimer.current = true;
+    setTimerMode(mode);
+    try {
+      const { data: sessionData } = await supabase.auth.getSession();
+      const token = sessionData.session?.access_token;
+      if (!token) return;
+
+      const res = await fetch('/api/profile', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ timer_mode: mode })
+      });
+      if (!res.ok) throw new Error('Failed to save timer mode');
+    } catch (e) {
+      console.error('Failed to save timer mode', e);
+    }
+  };
 
   const handleTaskComplete = () => {
-    setTimeRemaining(25 * 60); // Reset timer
-    // TODO: Mark task as completed in database
-    console.log('Task completed!');
+    // Block countdown reached zero: stop timing the task and wait for the next block
+    moveTimerTo(undefined);
+    setTimeRemaining(0);
+    setIsTimerFrozen(true);
   };
 
   const updateCurrentTaskStatus = async (status: 'completed' | 'skipped') => {
@@ -235,7 +496,7 @@ export default function HomePage() {
       const token = sessionData.session?.access_token;
       if (!token) return;
 
-      await fetch('/api/tasks', {
+      await fetch('/api/plans', {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
         body: JSON.stringify({ id: current.id, status })
@@ -250,7 +511,10 @@ export default function HomePage() {
     setTasks(prev => prev.map((t, i) => i === currentTaskIndex ? { ...t, done: true, status: 'skipped' } : t));
     const nextIndex = Math.min(currentTaskIndex + 1, tasks.length - 1);
     setCurrentTaskIndex(nextIndex);
-    setTimeRemaining(25 * 60);
+    // Only 'task' mode times each task; the other modes keep their interval running.
+    // After the last task the timer goes on no task, which stops its focus run.
+    if (timerMode === 'task') startWorkInterval(tasks[currentTaskIndex + 1]);
+    else moveTimerTo(tasks[currentTaskIndex + 1]);
     if (currentTaskIndex + 1 >= tasks.length) {
       setTimeRemaining(0);
       setIsTimerFrozen(true);
@@ -262,7 +526,10 @@ export default function HomePage() {
     setTasks(prev => prev.map((t, i) => i === currentTaskIndex ? { ...t, done: true, status: 'completed' } : t));
     const nextIndex = Math.min(currentTaskIndex + 1, tasks.length - 1);
     setCurrentTaskIndex(nextIndex);
-    setTimeRemaining(25 * 60);
+    // Only 'task' mode times each task; the other modes keep their interval running.
+    // After the last task the timer goes on no task, which stops its focus run.
+    if (timerMode === 'task') startWorkInterval(tasks[currentTaskIndex + 1]);
+    else moveTimerTo(tasks[currentTaskIndex + 1]);
     if (currentTaskIndex + 1 >= tasks.length) {
       setTimeRemaining(0);
       setIsTimerFrozen(true);
@@ -272,6 +539,7 @@ export default function HomePage() {
   const handlePauseToggle = () => {
     if (isTimerFrozen) return;
     setIsPaused(p => !p);
+    if (timer) setTimer(updateSharedTimer(timer, { paused: !isPaused }, setTimer));
   };
 
   // Single vs double click on Play/Continue: single resumes, double completes current task
@@ -287,6 +555,7 @@ export default function HomePage() {
       if (!isOutsideBlock) {
         if (isTimerFrozen) setIsTimerFrozen(false);
         setIsPaused(false);
+        if (timer?.paused_at) setTimer(updateSharedTimer(timer, { paused: false }, setTimer));
       }
       playClickTimer.current = null;
     }, 220);
@@ -297,6 +566,165 @@ export default function HomePage() {
     ? 'Outside all blocks — use this time to rest.'
     : (motivation || getEnergyMessage(energyLevel));
 
+  // Drag a task in the panel to a new place; the current task stays current
+  const handleReorder = async (from: number, to: number) => {
+    const currentId = tasks[currentTaskIndex]?.id;
+    const next = moveItem(tasks, from, to);
+    setTasks(next);
+    setCurrentTaskIndex(Math.max(0, next.findIndex(t => t.id === currentId)));
+    try {
+      const { data: sessionData } = await supabase.auth.getSession();
+      const token = sessionData.session?.access_token;
+      if (!token || planId === null) return;
+
+      const res = await fetch('/api/plans/order', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ plan_id: planId, plan_task_ids: next.flatMap(t => (t.id ? [t.id] : [])) })
+      });
+      if (!res.ok) throw new Error('Failed to save task order');
+    } catch (e) {
+      console.error('Failed to save task order', e);
+      setError('Could not save the new task order.');
+    }
+  };
+  const taskDragProps = useDragReorder(handleReorder);
+
+  // Move unfinished tasks on; the server leaves alone any finished in the meantime
+  const carryOver = async (ids: number[], to: CarryOverTarget) => {
+    setCarryOffer(null);
+    try {
+      const { data: sessionData } = await supabase.auth.getSession();
+      const token = sessionData.session?.access_token;
+      if (!token) return;
+
+      const res = await fetch('/api/plans/carry-over', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ plan_task_ids: ids, to })
+      });
+      if (!res.ok) throw new Error('Failed to carry tasks over');
+      setTasks(prev => prev.map(t => t.id && ids.includes(t.id) && !t.done ? { ...t, done: true, status: 'skipped' } : t));
+    } catch (e) {
+      console.error('Failed to carry tasks over', e);
+      setError('Could not move the unfinished tasks.');
+    }
+  };
+
+  // Send the rest of today's unfinished tasks back to the inbox instead
+  const rollOverToInbox = async () => {
+    setCarryOffer(null);
+    try {
+      const { data: sessionData } = await supabase.auth.getSession();
+      const token = sessionData.session?.access_token;
+      if (!token || !timeZone) return;
+
+      const res = await fetch('/api/inbox/rollover', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ plan_date: toISODate(new Date(), timeZone) })
+      });
+      if (!res.ok) throw new Error('Failed to roll tasks over to the inbox');
+    } catch (e) {
+      console.error('Failed to roll unfinished tasks over to the inbox', e);
+      setError('Could not send the unfinished tasks to the inbox.');
+    }
+  };
+
+  // When a block runs out with tasks unfinished, carry them to the next block
+  // of the same energy, or ask first unless the user turned on auto carry-over
+  useEffect(() => {
+    if (activeEndMinutes === null || planId === null || !timeZone || autoCarryOver === null) return;
+    // The day's last block is left to the end-of-day carry-over below
+    if (lastBlockEndMinutesState !== null && activeEndMinutes >= lastBlockEndMinutesState) return;
+    const key = `${planId}:${activeEndMinutes}`;
+    if (carriedOverBlockEnd.current === key) return;
+    const ids = tasks.flatMap(t => (t.id && !t.done && t.status === 'active' ? [t.id] : []));
+    if (ids.length === 0) return;
+    // Only the block's end decides; the timer also stops at zero when the last task in the list is done
+    const offer = () => {
+      carriedOverBlockEnd.current = key;
+      if (autoCarryOver) carryOver(ids, 'next_block');
+      else setCarryOffer({ scope: 'block', ids });
+    };
+    const msLeft = (activeEndMinutes * 60 - getSecondsOfDay(new Date(), timeZone)) * 1000;
+    if (msLeft <= 0) { offer(); return; }
+    const id = setTimeout(offer, msLeft);
+    return () => clearTimeout(id);
+  }, [activeEndMinutes, lastBlockEndMinutesState, planId, timeZone, tasks, autoCarryOver]);
+
+  // Once the day's last block is over, whatever is left moves to tomorrow (or waits for the user to choose)
+  useEffect(() => {
+    if (!isAfterLastBlockEnd || lastBlockEndMinutesState === null || planId === null || !timeZone || autoCarryOver === null) return;
+    if (carriedOverPlanId.current === planId) return;
+    carriedOverPlanId.current = planId;
+    if (dayTaskIds.length === 0) return;
+    if (autoCarryOver) carryOver(dayTaskIds, 'tomorrow');
+    else setCarryOffer({ scope: 'day', ids: dayTaskIds });
+  }, [isAfterLastBlockEnd, lastBlockEndMinutesState, planId, timeZone, dayTaskIds, autoCarryOver]);
+
+  // Check off one step of a task; checking the last one completes the task
+  const handleChecklistToggle = async (taskIndex: number, itemIndex: number) => {
+    const task = tasks[taskIndex];
+    if (!task?.id || !task.checklist) return;
+    const checklist = task.checklist.map((item, i) => i === itemIndex ? { ...item, done: !item.done } : item);
+    const status = statusForChecklist(checklist) ?? task.status;
+    setTasks(prev => prev.map((t, i) => i === taskIndex ? { ...t, checklist, status, done: status !== 'active' } : t));
+    if (taskIndex === currentTaskIndex && status === 'completed') {
+      const nextIndex = Math.min(currentTaskIndex + 1, tasks.length - 1);
+      setCurrentTaskIndex(nextIndex);
+      moveTimerTo(tasks[currentTaskIndex + 1]);
+    }
+    try {
+      const { data: sessionData } = await supabase.auth.getSession();
+      const token = sessionData.session?.access_token;
+      if (!token) return;
+
+      const res = await fetch('/api/plans', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ id: task.id, checklist })
+      });
+      if (!res.ok) throw new Error('Failed to save checklist');
+    } catch (e) {
+      console.error('Failed to save checklist', e);
+      setError('Could not save the checklist.');
+    }
+  };
+
+  // 'this' changes only today's occurrence; 'future' also changes the recurring
+  // task from tomorrow on, so today's keeps its place in the block
+  const saveOccurrenceEdit = async (scope: 'this' | 'future') => {
+    if (!editingOccurrence) return;
+    const task = tasks[editingOccurrence.index];
+    const name = editingOccurrence.name.trim();
+    if (!task?.id || !name) return;
+    const changes = { name, duration_minutes: editingOccurrence.duration || null };
+    setEditingOccurrence(null);
+    setTasks(prev => prev.map(t => t.id === task.id ? { ...t, label: changes.name, duration_minutes: changes.duration_minutes } : t));
+    try {
+      const { data: sessionData } = await supabase.auth.getSession();
+      const token = sessionData.session?.access_token;
+      if (!token) return;
+      const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+
+      const res = await fetch('/api/plans', { method: 'PATCH', headers, body: JSON.stringify({ id: task.id, ...changes }) });
+      if (!res.ok) throw new Error('Failed to save the occurrence');
+      if (scope === 'future' && task.recurring_task_id) {
+        const from = addDays(toISODate(new Date(), timeZone), 1);
+        const series = await fetch('/api/recurring', {
+          method: 'PATCH',
+          headers,
+          body: JSON.stringify({ id: task.recurring_task_id, from, ...changes })
+        });
+        if (!series.ok) throw new Error('Failed to save the recurring task');
+      }
+    } catch (e) {
+      console.error('Failed to edit recurring task', e);
+      setError('Could not save the change to this task.');
+    }
+  };
+
   const controlsDisabled = dayEnded || tasks.length === 0;
 
   // Lock body scroll when sidebar open
@@ -337,7 +765,7 @@ export default function HomePage() {
           <div className="inline-flex items-center space-x-2 px-4 py-2 bg-white/60 rounded-lg backdrop-blur-sm shadow-sm">
             <span className="text-sm font-medium text-gray-700">Current Block:</span>
             <span className="text-sm font-semibold text-gray-900">
-              {isOutsideBlock ? 'Outside all blocks — rest' : isAfterLastBlockEnd ? 'All blocks completed' : (currentEnergyLabel || (energyLevel.charAt(0).toUpperCase()+energyLevel.slice(1)))}
+              {isOutsideBlock ? 'Outside all blocks — rest' : isAfterLastBlockEnd ? 'All blocks completed' : (currentBlockName || currentEnergyLabel || (energyLevel.charAt(0).toUpperCase()+energyLevel.slice(1)))}
               {!isOutsideBlock && !isAfterLastBlockEnd && currentBlockRange ? ` • ${currentBlockRange}` : ''}
             </span>
           </div>
@@ -363,11 +791,52 @@ export default function HomePage() {
               <CircularTimer
                 currentTask={currentTask}
                 timeRemainingSec={timeRemaining}
+                intervalSec={intervalLength ?? undefined}
+                interval={timerMode && timerMode !== 'block' && !dayEnded ? timerInterval : undefined}
                 energyLevel={energyLevel}
                 onComplete={handleTaskComplete}
               />
           </div>
 
+          {/* Timer mode, and a way out of a break */}
+          <div className="mt-4 flex items-center gap-3">
+            <select
+              value={timerMode ?? 'block'}
+              onChange={(e) => changeTimerMode(e.target.value as TimerMode)}
+              disabled={!timerMode}
+              className="rounded-lg bg-white/70 backdrop-blur-sm border border-white/30 px-3 py-1.5 text-sm text-slate-900"
+              aria-label="Timer mode"
+            >
+              {(Object.keys(TIMER_MODE_LABELS) as TimerMode[]).map(mode => (
+                <option key={mode} value={mode}>{TIMER_MODE_LABELS[mode]}</option>
+              ))}
+            </select>
+            {timerInterval !== 'work' && !dayEnded && (
+              <button
+                onClick={() => startWorkInterval(tasks[currentTaskIndex])}
+                className="rounded-lg bg-white/70 backdrop-blur-sm border border-white/30 px-3 py-1.5 text-sm text-slate-900 hover:bg-white"
+              >
+                Skip break
+              </button>
+            )}
+          </div>
+
+          {/* Break prompt from the break planner */}
+          {breakDue && timerInterval === 'work' && !dayEnded && (
+            <div className="mt-4 flex flex-wrap items-center justify-center gap-2 rounded-lg bg-white/70 backdrop-blur-sm border border-white/30 px-4 py-3 text-sm text-slate-900">
+              <Coffee className="h-4 w-4" />
+              <span className="mr-2">
+                {breakDue.focus_minutes} minutes of focus in this {breakDue.energy_type} block. Time for a {breakDue.minutes}-minute break.
+              </span>
+              <button onClick={() => answerBreak(true)} className="rounded-md bg-black px-3 py-1.5 text-white hover:bg-black/90">
+                Take break
+              </button>
+              <button onClick={() => answerBreak(false)} className="rounded-md px-3 py-1.5 text-slate-600 hover:text-slate-900">
+                Not now
+              </button>
+            </div>
+          )}
+
           {/* Next Task below */}
           <div className="text-center mt-6">
             <div className={`text-xs ${textColors.secondary}`}>Next</div>
@@ -386,6 +855,29 @@ export default function HomePage() {
               <ArrowRight className="h-5 w-5" />
             </button>
             </div>
+
+          {/* Where unfinished tasks go when their block or the day is over */}
+          {carryOffer && (
+            <div className="mt-6 flex flex-wrap items-center justify-center gap-2 rounded-lg bg-white/70 backdrop-blur-sm border border-white/30 px-4 py-3 text-sm text-slate-900">
+              <span className="mr-2">
+                {carryOffer.scope === 'block'
+                  ? `${carryOffer.ids.length} unfinished ${carryOffer.ids.length === 1 ? 'task' : 'tasks'} left in this block.`
+                  : 'Some tasks were left unfinished today.'}
+              </span>
+              {carryOffer.scope === 'block' && (
+                <button onClick={() => carryOver(carryOffer.ids, 'next_block')} className="rounded-md bg-black px-3 py-1.5 text-white hover:bg-black/90">
+                  Next {currentEnergyLabel ? `${currentEnergyLabel} ` : ''}block
+                </button>
+              )}
+              <button onClick={() => carryOver(carryOffer.ids, 'tomorrow')} className={`rounded-md px-3 py-1.5 ${carryOffer.scope === 'day' ? 'bg-black text-white hover:bg-black/90' : 'bg-white hover:bg-slate-100'}`}>
+                Tomorrow
+              </button>
+              {carryOffer.scope === 'day' && (
+                <button onClick={rollOverToInbox} className="rounded-md bg-white px-3 py-1.5 hover:bg-slate-100">Inbox</button>
+              )}
+              <button onClick={() => setCarryOffer(null)} className="rounded-md px-3 py-1.5 text-slate-600 hover:text-slate-900">Leave them</button>
+            </div>
+          )}
           </motion.div>
 
         {/* Hidden task list for now; can add below if needed */}
@@ -403,8 +895,9 @@ export default function HomePage() {
             <ul className="space-y-2">
               {tasks.map((t, idx) => (
                 <li
-                  key={idx}
-                  className={`flex items-start justify-between rounded-lg border p-3 ${
+                  key={t.id ?? idx}
+                  {...taskDragProps(idx)}
+                  className={`flex items-start justify-between rounded-lg border p-3 cursor-grab ${
                     t.energy === 'high'
                       ? 'border-emerald-200 bg-emerald-50/70'
                       : t.energy === 'medium'
@@ -413,8 +906,68 @@ export default function HomePage() {
                   }`}
                 >
                   <div className="mr-3">
-                    <div className="text-sm font-medium text-gray-900">{t.label}</div>
-                    <div className="text-xs text-gray-600">{t.range}</div>
+                    <div className="text-sm font-medium text-gray-900">
+                      {t.recurring_task_id && <Repeat className="inline h-3 w-3 mr-1 text-gray-500" aria-label="Recurring" />}
+                      {t.label}
+                      {t.priority === 'high' && <span className="ml-1 text-xs text-red-600">!</span>}
+                      {t.recurring_task_id && t.id && (
+                        <button
+                          onClick={() => setEditingOccurrence({ index: idx, name: t.label, duration: t.duration_minutes ?? '' })}
+                          className="ml-1 text-gray-400 hover:text-gray-700 align-middle"
+                          aria-label={`Edit ${t.label}`}
+                        >
+                          <Pencil className="h-3 w-3" />
+                        </button>
+                      )}
+                    </div>
+                    {editingOccurrence?.index === idx && (
+                      <div className="mt-2 space-y-1">
+                        <input
+                          type="text"
+                          value={editingOccurrence.name}
+                          onChange={(e) => setEditingOccurrence({ ...editingOccurrence, name: e.target.value })}
+                          className="w-full px-2 py-1 rounded border border-gray-300 text-xs text-gray-900"
+                          aria-label="Task name"
+                        />
+                        <input
+                          type="number"
+                          min={1}
+                          value={editingOccurrence.duration}
+                          onChange={(e) => setEditingOccurrence({ ...editingOccurrence, duration: parseInt(e.target.value) || '' })}
+                          placeholder="Minutes"
+                          className="w-full px-2 py-1 rounded border border-gray-300 text-xs text-gray-900"
+                          aria-label="Duration in minutes"
+                        />
+                        <div className="flex flex-wrap gap-1">
+                          <button onClick={() => saveOccurrenceEdit('this')} className="px-2 py-1 rounded bg-slate-900 text-white text-xs">This occurrence</button>
+                          <button onClick={() => saveOccurrenceEdit('future')} className="px-2 py-1 rounded bg-slate-900 text-white text-xs">All future</button>
+                          <button onClick={() => setEditingOccurrence(null)} className="px-2 py-1 rounded border border-gray-300 text-gray-700 text-xs">Cancel</button>
+                        </div>
+                      </div>
+                    )}
+                    <div className="text-xs text-gray-600">
+                      {t.range}
+                      {t.duration_minutes ? ` · est. ${t.duration_minutes}m` : ''}
+                      {typeof t.actual_minutes === 'number' ? ` · actual ${t.actual_minutes}m` : ''}
+                      {t.checklist?.length ? ` · ${t.checklist.filter(item => item.done).length}/${t.checklist.length}` : ''}
+                    </div>
+                    {t.checklist && t.checklist.length > 0 && (
+                      <ul className="mt-2 space-y-1">
+                        {t.checklist.map((item, itemIdx) => (
+                          <li key={itemIdx}>
+                            <label className="flex items-center gap-2 text-xs text-gray-700 cursor-pointer">
+                              <input
+                                type="checkbox"
+                                checked={item.done}
+                                onChange={() => handleChecklistToggle(idx, itemIdx)}
+                                className="h-3.5 w-3.5 rounded border-gray-300"
+                              />
+                              <span className={item.done ? 'line-through text-gray-400' : ''}>{item.name}</span>
+                            </label>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
                   </div>
                   <span className={`shrink-0 text-xs px-2 py-0.5 rounded-full ${
                     t.status === 'completed'
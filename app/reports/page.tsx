@@ -16,21 +16,38 @@ import { motion } from 'framer-motion';
 import AuthGuard from '@/components/AuthGuard';
 import ScheduleGuard from '@/components/ScheduleGuard';
 import ErrorMessage from '@/components/ErrorMessage';
-import { getCurrentBlock, getBlockTheme, getEnergyThemeForNow } from '@/lib/time';
+import { getCurrentBlock, getBlockTheme, getEnergyThemeForNow, toISODate, addDays, getDayOfWeek } from '@/lib/time';
+import type { WakingWindows } from '@/lib/time';
+import { computeFocusSeconds } from '@/lib/focus';
+import { loadProfileTimeZone } from '@/lib/profileTimeZone';
+import { loadWakingWindows } from '@/lib/wakingWindows';
 import { supabase } from '@/lib/supabaseClient';
 
 type EnergyKey = 'High' | 'Medium' | 'Low';
 
+// Inclusive YYYY-MM-DD bounds for the selected range in the profile zone (weeks start on Monday)
+const getRangeDates = (range: 'today' | 'this_week' | 'last_week', timeZone: string): { from: string; to: string } => {
+  const today = toISODate(new Date(), timeZone);
+  if (range === 'today') return { from: today, to: today };
+  const weekdays = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+  const monday = addDays(today, -weekdays.indexOf(getDayOfWeek(today)));
+  if (range === 'this_week') return { from: monday, to: today };
+  return { from: addDays(monday, -7), to: addDays(monday, -1) };
+};
+
 export default function ReportsPage() {
   const [currentBlock, setCurrentBlock] = useState<'morning' | 'afternoon' | 'night'>(getCurrentBlock());
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [range, setRange] = useState<'today' | 'this_week' | 'last_week'>('today');
+  const [timeZone, setTimeZone] = useState<string | null>(null);
+  const [wakingWindows, setWakingWindows] = useState<WakingWindows>({});
   const [stats, setStats] = useState<{
     totalSessions: number;
     totalTasks: number;
     completedTasks: number;
     totalFocusMinutes: number;
+    totalBreakMinutes: number;
     avgTaskMinutes: number;
     energyDurations: Record<EnergyKey, number>;
     energyCounts: Record<EnergyKey, number>;
@@ -42,6 +59,7 @@ export default function ReportsPage() {
     totalTasks: 0,
     completedTasks: 0,
     totalFocusMinutes: 0,
+    totalBreakMinutes: 0,
     avgTaskMinutes: 0,
     energyDurations: { High: 0, Medium: 0, Low: 0 },
     energyCounts: { High: 0, Medium: 0, Low: 0 },
@@ -51,12 +69,19 @@ export default function ReportsPage() {
   });
 
   useEffect(() => {
-    const id = setInterval(() => setCurrentBlock(getCurrentBlock()), 60000);
-    return () => clearInterval(id as unknown as number);
+    loadProfileTimeZone().then(setTimeZone);
+    loadWakingWindows().then(setWakingWindows);
   }, []);
 
+  useEffect(() => {
+    setCurrentBlock(getCurrentBlock(new Date(), timeZone, wakingWindows));
+    const id = setInterval(() => setCurrentBlock(getCurrentBlock(new Date(), timeZone, wakingWindows)), 60000);
+    return () => clearInterval(id as unknown as number);
+  }, [timeZone, wakingWindows]);
+
   useEffect(() => {
     const load = async () => {
+      if (!timeZone) return;
       try {
         setLoading(true);
         setError(null);
@@ -64,67 +89,81 @@ export default function ReportsPage() {
         const uid = sessionData.session?.user?.id;
         if (!uid) throw new Error('Not authenticated');
 
-        const weekday = new Date().toLocaleString('en-US', { weekday: 'long' });
-        const daysOfWeek = ['Monday','Tuesday','Wednesday','Thursday','Friday','Saturday','Sunday'];
+        // Completion comes from the dated day plans, so each day in the range counts separately
+        const { from, to } = getRangeDates(range, timeZone);
+        const { data: plans } = await supabase
+          .from('day_plans')
+          .select(`
+            id,
+            plan_date,
+            plan_tasks (
+              id, session_id, energy_type, status, duration_minutes,
+              session:sessions ( template:session_templates ( start_time, end_time ) )
+            )
+          `)
+          .eq('user_id', uid)
+          .gte('plan_date', from)
+          .lte('plan_date', to);
 
-        let sessions: any[] = [];
-        if (range === 'today') {
-          const { data: schedule } = await supabase
-            .from('schedules')
-            .select(`
-              id,
-              sessions (
-                id,
-                template:session_templates!inner ( id, energy_type, start_time, end_time ),
-                tasks ( id, status, duration_minutes )
-              )
-            `)
-            .eq('user_id', uid)
-            .eq('day_of_week', weekday)
-            .single();
-          sessions = (schedule?.sessions as any[]) || [];
-        } else {
-          const { data: schedules } = await supabase
-            .from('schedules')
-            .select(`
-              id,
-              day_of_week,
-              sessions (
-                id,
-                template:session_templates!inner ( id, energy_type, start_time, end_time ),
-                tasks ( id, status, duration_minutes )
-              )
-            `)
-            .eq('user_id', uid)
-            .in('day_of_week', daysOfWeek);
-          const arr = Array.isArray(schedules) ? schedules : [];
-          sessions = arr.flatMap(s => (s.sessions as any[]) || []);
-        }
+        // Group each plan's tasks into its energy blocks
+        type PlanTaskRow = {
+          session_id: number | null;
+          energy_type: EnergyKey | null;
+          status: string;
+          duration_minutes: number | null;
+          session?: { template?: { start_time: string; end_time: string } | null } | null;
+        };
+        const sessionMap = new Map<string, { template: { energy_type: EnergyKey | null; start_time?: string; end_time?: string }; tasks: PlanTaskRow[] }>();
+        ((plans || []) as unknown as Array<{ id: number; plan_tasks: PlanTaskRow[] | null }>).forEach(p => {
+          (p.plan_tasks || []).forEach(t => {
+            const key = `${p.id}:${t.session_id ?? t.energy_type}`;
+            if (!sessionMap.has(key)) {
+              sessionMap.set(key, {
+                template: { energy_type: t.energy_type, start_time: t.session?.template?.start_time, end_time: t.session?.template?.end_time },
+                tasks: []
+              });
+            }
+            sessionMap.get(key)!.tasks.push(t);
+          });
+        });
+        const sessions = Array.from(sessionMap.values());
 
         const energyCounts: Record<EnergyKey, number> = { High: 0, Medium: 0, Low: 0 };
         const energyDurations: Record<EnergyKey, number> = { High: 0, Medium: 0, Low: 0 };
         const completedByEnergy: Record<EnergyKey, number> = { High: 0, Medium: 0, Low: 0 };
         let totalTasks = 0;
         let completedTasks = 0;
-        let totalFocusMinutes = 0;
+        let plannedMinutes = 0;
         const blocks: Array<{ energy: EnergyKey; start: string; end: string }> = [];
-        sessions.forEach((s: any) => {
+        sessions.forEach(s => {
           const energy = (s.template?.energy_type || 'Low') as EnergyKey;
           energyCounts[energy] += 1;
           blocks.push({ energy, start: s.template?.start_time || '00:00', end: s.template?.end_time || '00:00' });
-          const tasks = (s.tasks as any[]) || [];
+          const tasks = s.tasks || [];
           totalTasks += tasks.length;
           tasks.forEach(t => {
             if (t.status === 'completed') {
               completedTasks += 1;
               completedByEnergy[energy] += 1;
             }
-            const dur = Number(t.duration_minutes || 0);
-            totalFocusMinutes += dur;
-            energyDurations[energy] += dur;
+            plannedMinutes += Number(t.duration_minutes || 0);
           });
         });
-        const avgTaskMinutes = totalTasks > 0 ? totalFocusMinutes / totalTasks : 0;
+        const avgTaskMinutes = totalTasks > 0 ? plannedMinutes / totalTasks : 0;
+
+        // Focus time comes from the timer's focus log, not from planned durations
+        const { data: runs } = await supabase
+          .from('focus_runs')
+          .select('task_id, plan_task_id, energy_type, run_date, event, interval_kind, occurred_at')
+          .eq('user_id', uid)
+          .gte('run_date', from)
+          .lte('run_date', to);
+        const focus = computeFocusSeconds(runs || [], range === 'today' ? new Date() : undefined);
+        const totalFocusMinutes = Math.round(focus.totalSeconds / 60);
+        const totalBreakMinutes = Math.round(focus.breakSeconds / 60);
+        (['High', 'Medium', 'Low'] as const).forEach(e => {
+          energyDurations[e] = focus.byEnergy[e] / 60;
+        });
 
         // AI suggestions (auth required)
         let suggestions: string[] = [];
@@ -143,6 +182,7 @@ export default function ReportsPage() {
           totalTasks,
           completedTasks,
           totalFocusMinutes,
+          totalBreakMinutes,
           avgTaskMinutes,
           energyDurations,
           energyCounts,
@@ -157,7 +197,7 @@ export default function ReportsPage() {
       }
     };
     load();
-  }, [range]);
+  }, [range, timeZone]);
 
   const completionRate = useMemo(() => stats.totalTasks > 0 ? Math.round((stats.completedTasks / stats.totalTasks) * 100) : 0, [stats.completedTasks, stats.totalTasks]);
 
@@ -300,7 +340,8 @@ export default function ReportsPage() {
           </div>
           <div className="rounded-2xl p-4 bg-white/70 backdrop-blur-sm border border-white/30">
             <div className="text-xs text-slate-600">Focus Time</div>
-            <div className="text-2xl font-semibold text-slate-900">{stats.totalTasks > 0 ? `${Math.floor(stats.totalFocusMinutes/60)}h ${stats.totalFocusMinutes%60}m` : 'null'}</div>
+            <div className="text-2xl font-semibold text-slate-900">{stats.totalFocusMinutes > 0 ? `${Math.floor(stats.totalFocusMinutes/60)}h ${stats.totalFocusMinutes%60}m` : 'null'}</div>
+            {stats.totalBreakMinutes > 0 && <div className="text-xs text-slate-600">+ {stats.totalBreakMinutes}m on breaks</div>}
           </div>
           <div className="rounded-2xl p-4 bg-white/70 backdrop-blur-sm border border-white/30">
             <div className="text-xs text-slate-600">Tasks Completed</div>
@@ -16,9 +16,18 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { Skeleton } from '@/components/Skeleton';
 import AIWidget from '@/components/AIWidget';
 import AuthGuard from '@/components/AuthGuard';
-import { getCurrentBlock, getBlockTheme, formatRange, getEnergyThemeForNow } from '@/lib/time';
+import { getCurrentBlock, getBlockTheme, formatRange, getEnergyThemeForNow, getZonedDateTime, toISODate } from '@/lib/time';
+import type { WakingWindows } from '@/lib/time';
+import { loadProfileTimeZone } from '@/lib/profileTimeZone';
+import { loadWakingWindows } from '@/lib/wakingWindows';
+import { findBusyOverlaps } from '@/lib/ical';
+import type { BusyInterval, CalendarImportResponse, Profile } from '@/lib/types';
 import { supabase } from '@/lib/supabaseClient';
 import ErrorMessage from '@/components/ErrorMessage';
+import InboxPanel, { INBOX_DRAG_TYPE } from '@/components/InboxPanel';
+import RecurringTasksPanel from '@/components/RecurringTasksPanel';
+import type { ChecklistItem, DbInboxTask, DbRecurringTask, DbTask, EnergyLevelDb, RecurrenceRule, TaskPriority, WeekScheduleDay } from '@/lib/db/types';
+import { moveItem, useDragReorder } from '@/lib/reorder';
 import { 
   Plus, 
   ArrowLeft, 
@@ -44,21 +53,19 @@ interface Task {
   description: string;
   repeat?: 'weekday' | 'weekend' | null;
   locked?: boolean;
+  priority?: TaskPriority;
+  checklist?: ChecklistItem[]; // one item per line while editing; blank lines are dropped on save
 }
 
-interface EnergyBlock {
-  high: TimeBlock;
-  medium: TimeBlock;
-  low: TimeBlock;
+// One block of a day, in order; several blocks may share an energy rating
+interface DayBlock extends TimeBlock {
+  label: string;
+  energy: EnergyLevelDb;
+  tasks: Task[];
 }
 
 interface DaySchedule {
-  times: EnergyBlock;
-  tasks: {
-    high: Task[];
-    medium: Task[];
-    low: Task[];
-  };
+  blocks: DayBlock[];
   wakeTime: string;
   sleepTime: string;
 }
@@ -75,6 +82,14 @@ const daysOfWeek = [
   'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'
 ];
 
+const MAX_BLOCKS = 8;
+
+const createDefaultBlocks = (): DayBlock[] => [
+  { label: 'High Energy', energy: 'High', startTime: '06:00', endTime: '12:00', tasks: [] },
+  { label: 'Medium Energy', energy: 'Medium', startTime: '12:00', endTime: '18:00', tasks: [] },
+  { label: 'Low Energy', energy: 'Low', startTime: '18:00', endTime: '22:00', tasks: [] }
+];
+
 // Status options removed; tasks only collect name/description/duration and optional repeat
 
 export default function SchedulePage() {
@@ -82,8 +97,20 @@ export default function SchedulePage() {
   const [energyLevel, setEnergyLevel] = useState<'high' | 'medium' | 'low'>('high');
   const [insightsOpen, setInsightsOpen] = useState(false);
   const [currentStep, setCurrentStep] = useState<'times' | 'tasks' | 'repeat' | 'overview'>('times');
-  const [currentTaskBlock, setCurrentTaskBlock] = useState<'high' | 'medium' | 'low'>('high');
+  // Index into the current day's blocks shown in the tasks step
+  const [currentTaskBlock, setCurrentTaskBlock] = useState<number>(0);
+  // Today's weekday, from the device until the profile time zone has loaded
   const [currentDay, setCurrentDay] = useState<string>(new Date().toLocaleString('en-US', { weekday: 'long' }));
+  // Day whose block times are being edited in the times step; blocks can differ per weekday
+  const [timesDay, setTimesDay] = useState<string>(currentDay);
+  const [sameTimesEveryDay, setSameTimesEveryDay] = useState(true);
+  // Profile time zone; "today" is the weekday in this zone
+  const [timeZone, setTimeZone] = useState<string | null>(null);
+  const [wakingWindows, setWakingWindows] = useState<WakingWindows>({});
+  // Busy times from an imported .ics file, shown over the block timeline
+  const [busyIntervals, setBusyIntervals] = useState<BusyInterval[]>([]);
+  const [savedConflicts, setSavedConflicts] = useState<CalendarImportResponse['conflicts']>([]);
+  const [importingCalendar, setImportingCalendar] = useState(false);
   const [showModal, setShowModal] = useState(false);
   const [showCancelConfirm, setShowCancelConfirm] = useState(false);
   const [, setLoading] = useState(false);
@@ -91,9 +118,9 @@ export default function SchedulePage() {
   const [success, setSuccess] = useState<string | null>(null);
 
   // Sync block/energy like Home page
-  useState(() => {
+  useEffect(() => {
     const update = () => {
-      const block = getCurrentBlock();
+      const block = getCurrentBlock(new Date(), timeZone, wakingWindows);
       setCurrentBlock(block);
       const map: Record<string, 'high' | 'medium' | 'low'> = { morning: 'high', afternoon: 'medium', night: 'low' };
       setEnergyLevel(map[block]);
@@ -101,23 +128,14 @@ export default function SchedulePage() {
     update();
     const id = setInterval(update, 60000);
     return () => clearInterval(id as unknown as number);
-  });
+  }, [timeZone, wakingWindows]);
 
   // Initialize schedule data for all days
   const initializeScheduleData = (): ScheduleData => {
     const days: Record<string, DaySchedule> = {};
     daysOfWeek.forEach(day => {
       days[day] = {
-        times: {
-          high: { startTime: '06:00', endTime: '12:00' },
-          medium: { startTime: '12:00', endTime: '18:00' },
-          low: { startTime: '18:00', endTime: '22:00' }
-        },
-        tasks: {
-          high: [],
-          medium: [],
-          low: []
-        },
+        blocks: createDefaultBlocks(),
         wakeTime: '06:00',
         sleepTime: '22:30'
       };
@@ -134,17 +152,23 @@ export default function SchedulePage() {
   const [scheduleData, setScheduleData] = useState<ScheduleData>(initializeScheduleData());
   const [savedSchedule, setSavedSchedule] = useState<ScheduleData | null>(null);
   const [dayBlocks, setDayBlocks] = useState<{
-    energy: 'High' | 'Medium' | 'Low';
+    label: string;
+    position: number;
+    energy: EnergyLevelDb;
     sessionId: number;
+    templateId: number;
     start_time: string;
     end_time: string;
-    tasks: { id: number; name: string; description: string | null; duration_minutes: number | null; status: 'active' | 'completed' | 'skipped' }[];
+    tasks: Pick<DbTask, 'id' | 'client_key' | 'name' | 'description' | 'duration_minutes' | 'status' | 'position' | 'priority' | 'checklist'>[];
   }[] | undefined>(undefined);
   const [editingTaskId, setEditingTaskId] = useState<number | null>(null);
+  const [inboxTasks, setInboxTasks] = useState<DbInboxTask[]>([]);
+  const [draggedInboxTask, setDraggedInboxTask] = useState<DbInboxTask | null>(null);
+  const [recurringTasks, setRecurringTasks] = useState<DbRecurringTask[]>([]);
   const [deletePromptTaskId, setDeletePromptTaskId] = useState<number | null>(null);
   // Time edit modal state
   const [showTimeEdit, setShowTimeEdit] = useState(false);
-  const [timeEditEnergy, setTimeEditEnergy] = useState<'High'|'Medium'|'Low'|null>(null);
+  const [timeEditIndex, setTimeEditIndex] = useState<number | null>(null);
   const [timeEditStart, setTimeEditStart] = useState<string>('');
   const [timeEditEnd, setTimeEditEnd] = useState<string>('');
   const [timeEditError, setTimeEditError] = useState<string | null>(null);
@@ -155,14 +179,14 @@ export default function SchedulePage() {
   const [newTaskDuration, setNewTaskDuration] = useState<number | ''>('');
   const [newTaskError, setNewTaskError] = useState<string | null>(null);
   // Duration overfill popup state
-  const [showDurationOverfill, setShowDurationOverfill] = useState<{ open: boolean; block: 'High'|'Medium'|'Low'|null } | null>(null);
+  const [showDurationOverfill, setShowDurationOverfill] = useState<{ open: boolean; block: string | null } | null>(null);
   const [shakeTaskId, setShakeTaskId] = useState<number | string | null>(null);
 
   const getCurrentBlockRemaining = (): number => {
-    const currentDayData = scheduleData.days[currentDay];
-    const times = currentDayData.times[currentTaskBlock];
-    const total = getBlockDuration(times.startTime, times.endTime);
-    const used = currentDayData.tasks[currentTaskBlock].reduce((sum, t) => sum + t.duration, 0);
+    const block = scheduleData.days[currentDay].blocks[currentTaskBlock];
+    if (!block) return 0;
+    const total = getBlockDuration(block.startTime, block.endTime);
+    const used = block.tasks.reduce((sum, t) => sum + t.duration, 0);
     return Math.max(0, total - used);
   };
 
@@ -173,14 +197,18 @@ export default function SchedulePage() {
     return (end.getTime() - start.getTime()) / (1000 * 60);
   };
 
-  // Validate times for current day (end must be after start; no overnight)
-  const validateTimes = (): boolean => {
-    const currentDayData = scheduleData.days[currentDay];
-    const { high, medium, low } = currentDayData.times;
-    
-    // Check if times are valid
-    if (!high.startTime || !high.endTime || !medium.startTime || !medium.endTime || !low.startTime || !low.endTime) {
-      setError('Please fill in all time fields');
+  // Validate times for a day (end must be after start; no overnight)
+  const validateTimes = (day: string): boolean => {
+    const { blocks } = scheduleData.days[day];
+
+    if (blocks.length === 0) {
+      setError(`Add at least one block (${day})`);
+      return false;
+    }
+
+    // Check if every block is named and timed
+    if (blocks.some(b => !b.label.trim() || !b.startTime || !b.endTime)) {
+      setError('Please name every block and fill in all time fields');
       return false;
     }
 
@@ -190,134 +218,97 @@ export default function SchedulePage() {
       const [h, m] = t.split(':').map(Number);
       return h * 60 + m;
     };
-    const hS = toMin(high.startTime), hE = toMin(high.endTime);
-    const mS = toMin(medium.startTime), mE = toMin(medium.endTime);
-    const lS = toMin(low.startTime), lE = toMin(low.endTime);
 
-    if ([hS, hE, mS, mE, lS, lE].some(n => Number.isNaN(n))) {
+    if (blocks.some(b => Number.isNaN(toMin(b.startTime)) || Number.isNaN(toMin(b.endTime)))) {
       setError('Please enter valid times in HH:MM format');
       return false;
     }
 
     // Enforce end strictly after start (no overnight wraps)
-    if (!(hE > hS) || !(mE > mS) || !(lE > lS)) {
-      setError('End time must be after start time for each block');
+    if (blocks.some(b => !(toMin(b.endTime) > toMin(b.startTime)))) {
+      setError(`End time must be after start time for each block (${day})`);
       return false;
     }
 
     return true;
   };
 
-  const hasOverlapSimple = (times: { high: TimeBlock; medium: TimeBlock; low: TimeBlock }): boolean => {
+  const hasOverlapSimple = (blocks: TimeBlock[]): boolean => {
     const toMin = (t:string)=>{ const [h,m] = t.split(':').map(Number); return h*60+m; };
-    const hS = toMin(times.high.startTime), hE = toMin(times.high.endTime);
-    const mS = toMin(times.medium.startTime), mE = toMin(times.medium.endTime);
-    const lS = toMin(times.low.startTime), lE = toMin(times.low.endTime);
-    const overlap = (aS:number,aE:number,bS:number,bE:number)=> (aS < bE && bS < aE);
-    return overlap(hS,hE,mS,mE) || overlap(hS,hE,lS,lE) || overlap(mS,mE,lS,lE);
+    const overlap = (a: TimeBlock, b: TimeBlock)=> (toMin(a.startTime) < toMin(b.endTime) && toMin(b.startTime) < toMin(a.endTime));
+    return blocks.some((a, i) => blocks.slice(i + 1).some(b => overlap(a, b)));
   };
 
-  const autoAdjustContinuous = (times: { high: TimeBlock; medium: TimeBlock; low: TimeBlock }): { high: TimeBlock; medium: TimeBlock; low: TimeBlock } => {
+  // Keep blocks in list order: each block starts no earlier than the previous one ends
+  const autoAdjustContinuous = <T extends TimeBlock>(blocks: T[]): T[] => {
     const toMin = (t:string)=>{ const [h,m] = t.split(':').map(Number); return h*60+m; };
     const fromMin = (x:number)=> `${String(Math.floor(x/60)).padStart(2,'0')}:${String(x%60).padStart(2,'0')}`;
-    const dur = (s:number,e:number)=> Math.max(1, e - s);
-    let hS = toMin(times.high.startTime), hE = toMin(times.high.endTime);
-    let mS = toMin(times.medium.startTime), mE = toMin(times.medium.endTime);
-    let lS = toMin(times.low.startTime), lE = toMin(times.low.endTime);
-    const mDur = dur(mS,mE), lDur = dur(lS,lE);
-    if (mS < hE) mS = hE; mE = mS + mDur;
-    if (lS < mE) lS = mE; lE = lS + lDur;
-    return {
-      high: { startTime: fromMin(hS), endTime: fromMin(hE) },
-      medium: { startTime: fromMin(mS), endTime: fromMin(mE) },
-      low: { startTime: fromMin(lS), endTime: fromMin(lE) }
-    };
+    let prevEnd = -1;
+    return blocks.map(block => {
+      let s = toMin(block.startTime);
+      const dur = Math.max(1, toMin(block.endTime) - s);
+      if (s < prevEnd) s = prevEnd;
+      prevEnd = s + dur;
+      return { ...block, startTime: fromMin(s), endTime: fromMin(s + dur) };
+    });
   };
 
   // Adjust nearest adjacent blocks when a single block is changed to prevent overlaps
-  const adjustAdjacentForChange = (
-    base: { high: TimeBlock; medium: TimeBlock; low: TimeBlock },
-    changed: 'High'|'Medium'|'Low',
+  const adjustAdjacentForChange = <T extends TimeBlock>(
+    base: T[],
+    changed: number,
     startTime: string,
     endTime: string
-  ): { high: TimeBlock; medium: TimeBlock; low: TimeBlock } => {
+  ): T[] => {
     const toMin = (t:string)=>{ const [h,m]=t.split(':').map(Number); return h*60+m; };
     const fromMin = (x:number)=> `${String(Math.floor(x/60)).padStart(2,'0')}:${String(x%60).padStart(2,'0')}`;
-    const res = JSON.parse(JSON.stringify(base)) as { high: TimeBlock; medium: TimeBlock; low: TimeBlock };
+    const res = base.map(b => ({ ...b }));
     // Set changed
-    const key = changed.toLowerCase() as 'high'|'medium'|'low';
-    res[key] = { startTime, endTime };
-
-    const hS = toMin(res.high.startTime), hE = toMin(res.high.endTime);
-    let mS = toMin(res.medium.startTime), mE = toMin(res.medium.endTime);
-    let lS = toMin(res.low.startTime), lE = toMin(res.low.endTime);
-
-    // Maintain chronological order High -> Medium -> Low by clamping adjacent edges
-    // Fix overlap with High↔Medium
-    if (hE > mS) {
-      if (changed === 'High') {
-        // pull Medium start to High end
-        mS = hE;
-      } else {
-        // push High end back to Medium start
-        // ensure at least 1 minute duration
-        const newHE = Math.max(hS + 1, mS);
-        res.high.endTime = fromMin(newHE);
-      }
+    res[changed] = { ...res[changed], startTime, endTime };
+
+    // Earlier blocks: pull their end back to the next block's start (at least 1 minute long)
+    for (let i = changed - 1; i >= 0; i--) {
+      const nextStart = toMin(res[i + 1].startTime);
+      const s = toMin(res[i].startTime);
+      const e = toMin(res[i].endTime);
+      if (e > nextStart) res[i].endTime = fromMin(Math.max(s + 1, nextStart));
     }
-    // Apply Medium start update
-    res.medium.startTime = fromMin(mS);
-    // Recompute overlap after any change
-    const newHE2 = toMin(res.high.endTime);
-    mS = toMin(res.medium.startTime);
-    // Ensure Medium end > start
-    if (mE <= mS) mE = mS + 1;
-
-    // Fix overlap with Medium↔Low
-    if (mE > lS) {
-      if (changed === 'Medium') {
-        lS = mE;
-      } else if (changed === 'Low') {
-        mE = Math.max(mS + 1, lS);
-      } else {
-        // changed High -> keep Medium then move Low start if needed
-        lS = Math.max(lS, mE);
-      }
+    // Later blocks: push their start to the previous block's end
+    for (let i = changed + 1; i < res.length; i++) {
+      const prevEnd = toMin(res[i - 1].endTime);
+      let s = toMin(res[i].startTime);
+      let e = toMin(res[i].endTime);
+      if (s < prevEnd) s = prevEnd;
+      if (e <= s) e = s + 1;
+      res[i].startTime = fromMin(s);
+      res[i].endTime = fromMin(e);
     }
-
-    // Apply results
-    res.medium.endTime = fromMin(mE);
-    res.low.startTime = fromMin(lS);
-    if (lE <= lS) lE = lS + 1;
-    res.low.endTime = fromMin(lE);
-    // Ensure High end consistent
-    res.high.endTime = fromMin(newHE2);
     return res;
   };
 
-  const applyTemplateTimesToBackend = async (updated: { high: TimeBlock; medium: TimeBlock; low: TimeBlock }) => {
+  // Update today's templates only; other weekdays keep their own block windows
+  const applyTemplateTimesToBackend = async (updated: TimeBlock[]) => {
     try {
-      const { data: sessionData } = await supabase.auth.getSession();
-      const uid = sessionData.session?.user?.id;
-      if (!uid) return;
-      // Update three templates by energy_type
-      await supabase.from('session_templates').update({ start_time: updated.high.startTime, end_time: updated.high.endTime }).eq('user_id', uid).eq('energy_type', 'High');
-      await supabase.from('session_templates').update({ start_time: updated.medium.startTime, end_time: updated.medium.endTime }).eq('user_id', uid).eq('energy_type', 'Medium');
-      await supabase.from('session_templates').update({ start_time: updated.low.startTime, end_time: updated.low.endTime }).eq('user_id', uid).eq('energy_type', 'Low');
+      if (!Array.isArray(dayBlocks)) return;
+      const templates = dayBlocks.flatMap((block, i) => {
+        const times = updated[i];
+        return times ? [{ id: block.templateId, start_time: times.startTime, end_time: times.endTime }] : [];
+      });
+      if (templates.length === 0) return;
+      await inboxRequest('/api/schedule', { method: 'PATCH', body: JSON.stringify({ templates }) });
     } catch (e) { console.error('Failed to update templates', e); }
   };
 
   // Validate tasks for current block and day
   const validateTasks = (): boolean => {
-    const currentDayData = scheduleData.days[currentDay];
-    const currentTasks = currentDayData.tasks[currentTaskBlock];
-    const currentTimes = currentDayData.times[currentTaskBlock];
-    const blockDuration = getBlockDuration(currentTimes.startTime, currentTimes.endTime);
-    const totalTaskDuration = currentTasks.reduce((sum, task) => sum + task.duration, 0);
+    const block = scheduleData.days[currentDay].blocks[currentTaskBlock];
+    if (!block) return true;
+    const blockDuration = getBlockDuration(block.startTime, block.endTime);
+    const totalTaskDuration = block.tasks.reduce((sum, task) => sum + task.duration, 0);
 
     if (totalTaskDuration > blockDuration) {
-      console.log('[DurationValidation] Builder save blocked:', { block: currentTaskBlock, totalTaskDuration, blockDuration });
-      setShowDurationOverfill({ open: true, block: (currentTaskBlock === 'high' ? 'High' : currentTaskBlock === 'medium' ? 'Medium' : 'Low') });
+      console.log('[DurationValidation] Builder save blocked:', { block: block.label, totalTaskDuration, blockDuration });
+      setShowDurationOverfill({ open: true, block: block.label });
       return false;
     }
 
@@ -325,20 +316,17 @@ export default function SchedulePage() {
   };
 
   // Validate proposed duration change for DB-backed edit (BlocksView)
-  const validateDbEditDuration = (energy: 'High'|'Medium'|'Low', taskId: number, proposedMinutes: number): boolean => {
+  const validateDbEditDuration = (sessionId: number, taskId: number, proposedMinutes: number): boolean => {
     try {
       if (!Array.isArray(dayBlocks)) return true; // nothing to validate against
-      const toKey = (e:'High'|'Medium'|'Low') => (e==='High'?'high':e==='Medium'?'medium':'low') as 'high'|'medium'|'low';
-      const key = toKey(energy);
-      const times = scheduleData.days[currentDay].times[key];
-      const blockDuration = getBlockDuration(times.startTime, times.endTime);
-      const block = dayBlocks.find(b => b.energy === energy);
+      const block = dayBlocks.find(b => b.sessionId === sessionId);
       if (!block) return true;
+      const blockDuration = getBlockDuration(block.start_time.slice(0,5), block.end_time.slice(0,5));
       const otherSum = block.tasks.reduce((acc, t) => acc + (t.id === taskId ? 0 : (t.duration_minutes || 0)), 0);
       const total = otherSum + Math.max(0, proposedMinutes);
-      console.log('[DurationValidation] DB edit check:', { energy, taskId, proposedMinutes, otherSum, total, blockDuration });
+      console.log('[DurationValidation] DB edit check:', { block: block.label, taskId, proposedMinutes, otherSum, total, blockDuration });
       if (total > blockDuration) {
-        setShowDurationOverfill({ open: true, block: energy });
+        setShowDurationOverfill({ open: true, block: block.label });
         return false;
       }
       return true;
@@ -348,14 +336,25 @@ export default function SchedulePage() {
     }
   };
 
-  // Validate at least one task exists in ANY energy block
+  // Validate at least one task exists in ANY block
   const hasAtLeastOneTask = (): boolean => {
-    const dayData = scheduleData.days[currentDay];
-    return (
-      dayData.tasks.high.length > 0 ||
-      dayData.tasks.medium.length > 0 ||
-      dayData.tasks.low.length > 0
-    );
+    return scheduleData.days[currentDay].blocks.some(block => block.tasks.length > 0);
+  };
+
+  // Apply an update to the tasks of the block open in the tasks step
+  const updateCurrentBlockTasks = (update: (tasks: Task[]) => Task[]) => {
+    setScheduleData(prev => ({
+      ...prev,
+      days: {
+        ...prev.days,
+        [currentDay]: {
+          ...prev.days[currentDay],
+          blocks: prev.days[currentDay].blocks.map((block, i) =>
+            i === currentTaskBlock ? { ...block, tasks: update(block.tasks) } : block
+          )
+        }
+      }
+    }));
   };
 
   // Add new task
@@ -369,66 +368,71 @@ export default function SchedulePage() {
       locked: false
     };
 
-    setScheduleData(prev => ({
-      ...prev,
-      days: {
-        ...prev.days,
-        [currentDay]: {
-          ...prev.days[currentDay],
-          tasks: {
-            ...prev.days[currentDay].tasks,
-            [currentTaskBlock]: [...prev.days[currentDay].tasks[currentTaskBlock], newTask]
-          }
-        }
-      }
-    }));
+    updateCurrentBlockTasks(tasks => [...tasks, newTask]);
   };
 
   // Update task
-  const updateTask = (taskId: string, field: keyof Task, value: string | number | boolean | null) => {
+  const updateTask = (taskId: string, field: keyof Task, value: string | number | boolean | ChecklistItem[] | null) => {
+    updateCurrentBlockTasks(tasks => tasks.map(task =>
+      task.id === taskId ? { ...task, [field]: value } : task
+    ));
+  };
+
+  // Remove task
+  const removeTask = (taskId: string) => {
+    updateCurrentBlockTasks(tasks => tasks.filter(task => task.id !== taskId));
+  };
+
+  // Drag a task card to reorder the block; the save stores tasks in list order
+  const taskDragProps = useDragReorder((from, to) => updateCurrentBlockTasks(tasks => moveItem(tasks, from, to)));
+
+  // Update one block of the day being edited in the times step
+  const updateTimesBlock = (index: number, patch: Partial<DayBlock>) => {
     setScheduleData(prev => ({
       ...prev,
       days: {
         ...prev.days,
-        [currentDay]: {
-          ...prev.days[currentDay],
-          tasks: {
-            ...prev.days[currentDay].tasks,
-            [currentTaskBlock]: prev.days[currentDay].tasks[currentTaskBlock].map(task =>
-              task.id === taskId ? { ...task, [field]: value } : task
-            )
-          }
+        [timesDay]: {
+          ...prev.days[timesDay],
+          blocks: prev.days[timesDay].blocks.map((block, i) => (i === index ? { ...block, ...patch } : block))
         }
       }
     }));
   };
 
-  // Remove task
-  const removeTask = (taskId: string) => {
+  // Add a block after the last one, starting where it ends
+  const addTimesBlock = () => {
+    setScheduleData(prev => {
+      const blocks = prev.days[timesDay].blocks;
+      if (blocks.length >= MAX_BLOCKS) return prev;
+      const start = blocks[blocks.length - 1]?.endTime || '09:00';
+      const [h, m] = start.split(':').map(Number);
+      const endMin = Math.min(23 * 60 + 59, h * 60 + m + 60);
+      const end = `${String(Math.floor(endMin / 60)).padStart(2, '0')}:${String(endMin % 60).padStart(2, '0')}`;
+      const block: DayBlock = { label: `Block ${blocks.length + 1}`, energy: 'Medium', startTime: start, endTime: end, tasks: [] };
+      return { ...prev, days: { ...prev.days, [timesDay]: { ...prev.days[timesDay], blocks: [...blocks, block] } } };
+    });
+  };
+
+  const removeTimesBlock = (index: number) => {
     setScheduleData(prev => ({
       ...prev,
       days: {
         ...prev.days,
-        [currentDay]: {
-          ...prev.days[currentDay],
-          tasks: {
-            ...prev.days[currentDay].tasks,
-            [currentTaskBlock]: prev.days[currentDay].tasks[currentTaskBlock].filter(task => task.id !== taskId)
-          }
-        }
+        [timesDay]: { ...prev.days[timesDay], blocks: prev.days[timesDay].blocks.filter((_, i) => i !== index) }
       }
     }));
+    setCurrentTaskBlock(0);
   };
 
-  // Apply times to selected days based on repeat settings
-  const applyTimesToSelectedDays = (times: EnergyBlock) => {
-    // Copy to every day of the week unconditionally
+  // Copy one day's blocks (names, ratings and times) to every day of the week
+  const applyTimesToAllDays = (blocks: DayBlock[]) => {
     setScheduleData(prev => {
       const newDays = { ...prev.days };
       daysOfWeek.forEach(day => {
         newDays[day] = {
           ...newDays[day],
-          times: { ...times }
+          blocks: blocks.map((block, i) => ({ ...block, tasks: newDays[day].blocks[i]?.tasks ?? [] }))
         };
       });
       return { ...prev, days: newDays };
@@ -451,29 +455,35 @@ export default function SchedulePage() {
     }
   };
 
-  // Save times and apply to selected days
+  // Save times: either copy the edited day to the whole week, or keep each day's own times
   const handleSaveTimes = () => {
-    if (!validateTimes()) return;
-    
-    let currentTimes = scheduleData.days[currentDay].times;
-    if (hasOverlapSimple(currentTimes)) {
-      const ok = window.confirm('Your blocks overlap. Auto-adjust the other blocks to remove overlaps and keep times continuous?');
+    const days = sameTimesEveryDay ? [timesDay] : daysOfWeek;
+    if (!days.every(day => validateTimes(day))) return;
+
+    const overlapping = days.filter(day => hasOverlapSimple(scheduleData.days[day].blocks));
+    if (overlapping.length > 0) {
+      const ok = window.confirm(`Your blocks overlap on ${overlapping.join(', ')}. Auto-adjust the other blocks to remove overlaps and keep times continuous?`);
       if (!ok) { setError('Please resolve overlaps or allow auto-adjust.'); return; }
-      const adjusted = autoAdjustContinuous(currentTimes);
-      setScheduleData(prev => ({
-        ...prev,
-        days: {
-          ...prev.days,
-          [currentDay]: { ...prev.days[currentDay], times: adjusted }
-        }
-      }));
-      currentTimes = adjusted;
     }
+    const adjustedByDay: Record<string, DayBlock[]> = {};
+    days.forEach(day => {
+      const blocks = scheduleData.days[day].blocks;
+      adjustedByDay[day] = overlapping.includes(day) ? autoAdjustContinuous(blocks) : blocks;
+    });
 
-    applyTimesToSelectedDays(currentTimes);
-    
-    setSuccess('Block times updated across all selected days.');
+    if (sameTimesEveryDay) {
+      applyTimesToAllDays(adjustedByDay[timesDay]);
+    } else {
+      setScheduleData(prev => {
+        const newDays = { ...prev.days };
+        days.forEach(day => { newDays[day] = { ...newDays[day], blocks: adjustedByDay[day] }; });
+        return { ...prev, days: newDays };
+      });
+    }
+
+    setSuccess(sameTimesEveryDay ? 'Block times updated across all days.' : 'Block times saved for each day.');
     setTimeout(() => setSuccess(null), 3000);
+    setCurrentTaskBlock(0);
     setCurrentStep('tasks');
   };
 
@@ -493,8 +503,7 @@ export default function SchedulePage() {
       // Get auth token for API routes (RLS)
       const { data: sessionData } = await supabase.auth.getSession();
       const token = sessionData.session?.access_token;
-      const userId = sessionData.session?.user?.id;
-      if (!token || !userId) {
+      if (!token) {
         throw new Error('You must be signed in to save a schedule.');
       }
 
@@ -508,73 +517,56 @@ export default function SchedulePage() {
 
       // Expand tasks according to repeat selection
       const selectedDays = getSelectedDays();
-
-      // Map frontend status to backend TaskStatus
-      const mapStatus = (): 'active' | 'completed' | 'skipped' => 'active';
-
-      // Build promises per day to run in parallel
-      const perDayPromises = selectedDays.map(async (day) => {
+      // Other days are only sent when the wizard changed them, e.g. their block times
+      const editedDays = savedSchedule
+        ? daysOfWeek.filter(day => JSON.stringify(scheduleData.days[day]) !== JSON.stringify(savedSchedule.days[day]))
+        : [];
+
+      // Every selected day gets the 'currentDay' blueprint's tasks; each block's
+      // tasks go to the block at the same position on the target day. Edited
+      // days outside the selection keep their own tasks
+      const days = daysOfWeek.filter(day => selectedDays.includes(day) || editedDays.includes(day)).map(day => {
         const dayData = scheduleData.days[day];
-        const sessionsPayload = [
-          { energy_type: 'High', start_time: dayData.times.high.startTime, end_time: dayData.times.high.endTime },
-          { energy_type: 'Medium', start_time: dayData.times.medium.startTime, end_time: dayData.times.medium.endTime },
-          { energy_type: 'Low', start_time: dayData.times.low.startTime, end_time: dayData.times.low.endTime }
-        ];
-
-        const scheduleRes = await fetch('/api/schedule', {
-          method: 'POST',
-          headers: authHeaders,
-          body: JSON.stringify({
-            user_id: userId,
-            day_of_week: day,
-            sleep_time: dayData.sleepTime,
-            wake_time: dayData.wakeTime,
-            sessions: sessionsPayload
-          })
-        });
-        const scheduleJson = await scheduleRes.json();
-        if (!scheduleRes.ok || !scheduleJson?.ok) {
-          throw new Error(scheduleJson?.error || 'Failed to create schedule.');
-        }
-
-        const sessionIds: number[] = scheduleJson.data.session_ids;
-        const blockToSessionId: Record<'high' | 'medium' | 'low', number> = {
-          high: sessionIds[0],
-          medium: sessionIds[1],
-          low: sessionIds[2]
+        const source = selectedDays.includes(day) ? scheduleData.days[currentDay] : dayData;
+        return {
+          day_of_week: day,
+          sleep_time: dayData.sleepTime,
+          wake_time: dayData.wakeTime,
+          sessions: dayData.blocks.map((block, i) => ({
+            label: block.label,
+            energy_type: block.energy,
+            start_time: block.startTime,
+            end_time: block.endTime,
+            tasks: (source.blocks[i]?.tasks ?? [])
+              .filter(task => task.name)
+              .map(task => ({
+                client_key: task.id,
+                name: task.name,
+                description: task.description || null,
+                duration_minutes: task.duration,
+                priority: task.priority ?? 'normal',
+                checklist: (task.checklist ?? []).filter(item => item.name.trim())
+              }))
+          }))
         };
-
-        // Create tasks under corresponding sessions (from the 'currentDay' blueprint) in parallel
-        const source = scheduleData.days[currentDay];
-        const taskRequests: Promise<Response>[] = [];
-        (['high','medium','low'] as const).forEach((block) => {
-          source.tasks[block].forEach((task) => {
-            if (!task.name) return;
-            taskRequests.push(
-              fetch('/api/sessions', {
-                method: 'POST',
-                headers: authHeaders,
-                body: JSON.stringify({
-                  session_id: blockToSessionId[block],
-                  name: task.name,
-                  description: task.description || null,
-                  duration_minutes: task.duration,
-                  status: mapStatus()
-                })
-              })
-            );
-          });
-        });
-        await Promise.all(taskRequests);
       });
 
-      await Promise.all(perDayPromises);
+      // One request for the whole week: the server saves all of it or none of it
+      const saveRes = await fetch('/api/schedule/week', {
+        method: 'POST',
+        headers: authHeaders,
+        body: JSON.stringify({ days })
+      });
+      const saveJson = await saveRes.json();
+      if (!saveRes.ok || !saveJson?.ok) {
+        throw new Error(saveJson?.error || 'Failed to save schedule.');
+      }
       
       setSavedSchedule(scheduleData);
       setCurrentStep('overview');
       setSuccess('Schedule saved successfully!');
       setTimeout(() => setSuccess(null), 2000);
-      await loadTodayBlocks();
+      await loadWeekSchedule();
     } catch {
       setError('Failed to save schedule. Please try again.');
       setShowModal(false);
@@ -604,6 +596,64 @@ export default function SchedulePage() {
     setShowCancelConfirm(false);
   };
 
+  // Upload an .ics file; the server parses it into busy intervals per weekday
+  const handleImportCalendar = async (file: File) => {
+    setImportingCalendar(true);
+    try {
+      const { data: sessionData } = await supabase.auth.getSession();
+      const token = sessionData.session?.access_token;
+      if (!token) return;
+      const form = new FormData();
+      form.append('file', file);
+      form.append('time_zone', Intl.DateTimeFormat().resolvedOptions().timeZone);
+      const res = await fetch('/api/calendar/import', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}` },
+        body: form
+      });
+      const js = await res.json();
+      if (!res.ok || !js?.ok) throw new Error(js?.error || 'Failed to import calendar');
+      const result = js.data as CalendarImportResponse;
+      setBusyIntervals(result.busy);
+      setSavedConflicts(result.conflicts);
+      setSuccess(`Imported ${result.busy.length} busy period(s) from your calendar.`);
+      setTimeout(() => setSuccess(null), 3000);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to import calendar. Please try again.');
+    } finally {
+      setImportingCalendar(false);
+    }
+  };
+
+  // Position of an HH:MM window on the 24h timeline
+  const timelineStyle = (start: string, end: string) => {
+    const toMin = (t:string)=>{ const [h,m] = t.split(':').map(Number); return h*60+m; };
+    const s = toMin(start), e = toMin(end);
+    return { left: `${(s / 1440) * 100}%`, width: `${(Math.max(0, e - s) / 1440) * 100}%` };
+  };
+
+  // Copy the .ics subscription link so the weekly plan shows up in calendar apps
+  const handleCopyCalendarLink = async () => {
+    try {
+      const { data: sessionData } = await supabase.auth.getSession();
+      const token = sessionData.session?.access_token;
+      if (!token) return;
+      const res = await fetch('/api/calendar/token', { headers: { Authorization: `Bearer ${token}` } });
+      const js = await res.json();
+      if (!res.ok || !js?.ok) throw new Error(js?.error || 'Failed to load calendar link');
+      try {
+        await navigator.clipboard.writeText(js.data.url);
+        setSuccess('Calendar link copied. Add it as a subscription in your calendar app.');
+      } catch {
+        window.prompt('Subscribe to this URL in your calendar app:', js.data.url);
+      }
+      setTimeout(() => setSuccess(null), 3000);
+    } catch (e) {
+      console.error(e);
+      setError('Failed to load calendar link. Please try again.');
+    }
+  };
+
   // Edit schedule
   const handleEditSchedule = () => {
     setOriginalScheduleData(scheduleData);
@@ -619,7 +669,95 @@ export default function SchedulePage() {
           <div className="space-y-6">
             <div className="text-center">
               <h2 className="text-2xl font-bold text-gray-900 mb-2">Set Your Energy Block Times</h2>
-              <p className="text-gray-600">These times will be applied to every day of the week</p>
+              <p className="text-gray-600">
+                {sameTimesEveryDay ? 'These times will be applied to every day of the week' : `Editing times for ${timesDay}`}
+              </p>
+            </div>
+
+            <div className="rounded-xl p-4 border border-white/30 bg-white/60 backdrop-blur-sm shadow-sm space-y-3">
+              <label className="flex items-center space-x-2 text-sm text-gray-800">
+                <input
+                  type="checkbox"
+                  checked={sameTimesEveryDay}
+                  onChange={(e) => setSameTimesEveryDay(e.target.checked)}
+                  className="rounded border-gray-300"
+                />
+                <span>Same times every day</span>
+              </label>
+              {!sameTimesEveryDay && (
+                <div className="flex flex-wrap gap-2">
+                  {daysOfWeek.map((day) => (
+                    <button
+                      key={day}
+                      type="button"
+                      onClick={() => setTimesDay(day)}
+                      className={`px-3 py-1 rounded-lg text-sm border ${timesDay === day ? 'bg-blue-600 text-white border-blue-600' : 'bg-white/90 text-gray-700 border-gray-300 hover:bg-gray-50'}`}
+                    >
+                      {day.slice(0, 3)}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="rounded-xl p-4 border border-white/30 bg-white/60 backdrop-blur-sm shadow-sm space-y-3">
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <div className="text-sm font-medium text-gray-900">Import busy times</div>
+                  <div className="text-xs text-gray-600">Upload an .ics export to see meetings next to your blocks</div>
+                </div>
+                <label className={`inline-flex items-center gap-2 px-3 py-2 rounded-lg text-sm border border-gray-300 bg-white/90 text-gray-800 ${importingCalendar ? 'opacity-60 cursor-wait' : 'cursor-pointer hover:bg-gray-50'}`}>
+                  <Calendar className="h-4 w-4" />
+                  <span>{importingCalendar ? 'Importing…' : 'Choose .ics file'}</span>
+                  <input
+                    type="file"
+                    accept=".ics,text/calendar"
+                    className="hidden"
+                    disabled={importingCalendar}
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) handleImportCalendar(file);
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+              </div>
+              {busyIntervals.length > 0 && (
+                <div className="space-y-1">
+                  <div className="relative h-10 rounded-lg bg-white/80 border border-gray-200 overflow-hidden">
+                    {scheduleData.days[timesDay].blocks.map((block, i) => (
+                      <div
+                        key={`block-${i}`}
+                        className={`absolute inset-y-1 rounded ${block.energy === 'High' ? 'bg-emerald-300/70' : block.energy === 'Medium' ? 'bg-amber-300/70' : 'bg-rose-300/70'}`}
+                        style={timelineStyle(block.startTime, block.endTime)}
+                        title={`${block.label} ${block.startTime}–${block.endTime}`}
+                      />
+                    ))}
+                    {busyIntervals.filter(b => b.day_of_week === timesDay).map((b, i) => (
+                      <div
+                        key={`busy-${i}`}
+                        className="absolute inset-y-0 bg-red-500/40 border-x border-red-600"
+                        style={timelineStyle(b.start, b.end)}
+                        title={`${b.summary} ${b.start}–${b.end}`}
+                      />
+                    ))}
+                  </div>
+                  <div className="flex justify-between text-[10px] text-gray-500">
+                    <span>00:00</span><span>06:00</span><span>12:00</span><span>18:00</span><span>24:00</span>
+                  </div>
+                  <div className="text-xs text-gray-600">{timesDay}: blocks in color, busy times in red</div>
+                </div>
+              )}
+              {savedConflicts.length > 0 && (
+                <div className="text-sm text-red-700 space-y-1">
+                  <div className="font-medium">Saved High blocks overlapping meetings:</div>
+                  {savedConflicts.map(c => (
+                    <div key={c.template_id}>
+                      {c.day_of_week} · {c.label} ({formatRange(c.start_time.slice(0,5), c.end_time.slice(0,5))}): {Array.from(new Set(c.busy.map(b => b.summary))).join(', ')}
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
 
             <div className="space-y-6">
@@ -628,63 +766,95 @@ export default function SchedulePage() {
                   Block times are fixed based on your initial setup. Use AI recommendations in Reports to adjust for productivity.
                 </div>
               )}
-              {(['high','medium','low'] as const).map((blockKey) => {
-                const times = scheduleData.days[currentDay].times[blockKey];
+              {scheduleData.days[timesDay].blocks.map((block, index) => {
                 const locked = Array.isArray(dayBlocks) && dayBlocks.length > 0;
+                const inputClass = `w-full px-3 py-2 ${locked ? 'bg-gray-100 text-gray-500 cursor-not-allowed' : 'bg-white/90 text-gray-900'} border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent`;
+                // High blocks should sit in free time; with shared times the block applies to every day
+                const highOverlaps = block.energy === 'High'
+                  ? (sameTimesEveryDay ? daysOfWeek : [timesDay]).flatMap(day => findBusyOverlaps(busyIntervals, day, block.startTime, block.endTime))
+                  : [];
                 return (
-                  <div key={blockKey} className="rounded-xl p-4 border border-white/30 bg-white/60 backdrop-blur-sm shadow-sm">
-                  <h3 className="text-lg font-semibold text-gray-900 mb-4 capitalize">
-                      {blockKey} Energy Block
-                  </h3>
+                  <div key={index} className="rounded-xl p-4 border border-white/30 bg-white/60 backdrop-blur-sm shadow-sm">
+                  <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-lg font-semibold text-gray-900">
+                      {block.label || `Block ${index + 1}`}
+                    </h3>
+                    {!locked && scheduleData.days[timesDay].blocks.length > 1 && (
+                      <button
+                        type="button"
+                        onClick={() => removeTimesBlock(index)}
+                        className="text-sm text-red-600 hover:text-red-700"
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                  <div className="grid grid-cols-2 gap-4 mb-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+                      <input
+                        type="text"
+                        value={block.label}
+                        onChange={(e) => updateTimesBlock(index, { label: e.target.value })}
+                        placeholder="e.g. Deep work, Recovery"
+                        disabled={locked}
+                        className={inputClass}
+                      />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Energy</label>
+                      <select
+                        value={block.energy}
+                        onChange={(e) => updateTimesBlock(index, { energy: e.target.value as EnergyLevelDb })}
+                        disabled={locked}
+                        className={inputClass}
+                      >
+                        <option value="High">High</option>
+                        <option value="Medium">Medium</option>
+                        <option value="Low">Low</option>
+                      </select>
+                    </div>
+                  </div>
                   <div className="grid grid-cols-2 gap-4">
                     <div>
                         <label className="block text-sm font-medium text-gray-700 mb-2">Start Time</label>
                       <input
                         type="time"
-                        value={times.startTime}
-                        onChange={(e) => setScheduleData(prev => ({
-                          ...prev,
-                          days: {
-                            ...prev.days,
-                            [currentDay]: {
-                              ...prev.days[currentDay],
-                              times: {
-                                ...prev.days[currentDay].times,
-                                  [blockKey]: { ...times, startTime: e.target.value }
-                              }
-                            }
-                          }
-                        }))}
+                        value={block.startTime}
+                        onChange={(e) => updateTimesBlock(index, { startTime: e.target.value })}
                           disabled={locked}
-                          className={`w-full px-3 py-2 ${locked ? 'bg-gray-100 text-gray-500 cursor-not-allowed' : 'bg-white/90 text-gray-900'} border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent`}
+                          className={inputClass}
                       />
                     </div>
                     <div>
                         <label className="block text-sm font-medium text-gray-700 mb-2">End Time</label>
                       <input
                         type="time"
-                        value={times.endTime}
-                        onChange={(e) => setScheduleData(prev => ({
-                          ...prev,
-                          days: {
-                            ...prev.days,
-                            [currentDay]: {
-                              ...prev.days[currentDay],
-                              times: {
-                                ...prev.days[currentDay].times,
-                                  [blockKey]: { ...times, endTime: e.target.value }
-                              }
-                            }
-                          }
-                        }))}
+                        value={block.endTime}
+                        onChange={(e) => updateTimesBlock(index, { endTime: e.target.value })}
                           disabled={locked}
-                          className={`w-full px-3 py-2 ${locked ? 'bg-gray-100 text-gray-500 cursor-not-allowed' : 'bg-white/90 text-gray-900'} border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent`}
+                          className={inputClass}
                       />
                     </div>
                   </div>
+                  {highOverlaps.length > 0 && (
+                    <div className="mt-3 text-sm text-red-700">
+                      Overlaps meetings{sameTimesEveryDay ? ` on ${Array.from(new Set(highOverlaps.map(b => b.day_of_week.slice(0, 3)))).join(', ')}` : ''}: {Array.from(new Set(highOverlaps.map(b => b.summary))).join(', ')}
+                    </div>
+                  )}
                 </div>
                 );
               })}
+              {!(Array.isArray(dayBlocks) && dayBlocks.length > 0) && scheduleData.days[timesDay].blocks.length < MAX_BLOCKS && (
+                <button
+                  type="button"
+                  onClick={addTimesBlock}
+                  className="w-full inline-flex items-center justify-center gap-2 px-4 py-3 rounded-xl border border-dashed border-gray-400 text-gray-700 hover:bg-white/60"
+                >
+                  <Plus className="h-4 w-4" />
+                  <span>Add block</span>
+                </button>
+              )}
             </div>
 
             <div className="flex justify-between">
@@ -709,36 +879,40 @@ export default function SchedulePage() {
           </div>
         );
 
-      case 'tasks':
+      case 'tasks': {
+        const dayBlockList = scheduleData.days[currentDay].blocks;
+        const taskBlock = dayBlockList[currentTaskBlock] ?? dayBlockList[0];
+        const taskBlockTasks = taskBlock?.tasks ?? [];
+        const blockCount = Math.max(1, dayBlockList.length);
         return (
           <div className="space-y-6">
             <div className="text-left">
               <h2 className="text-2xl font-bold text-gray-900 mb-1">Define Your Tasks</h2>
-              <p className="text-gray-600">Add tasks for each energy block</p>
+              <p className="text-gray-600">Add tasks for each block</p>
             </div>
 
             {/* Block Navigation pill */}
             <div className="flex items-center justify-center">
               <div className="flex items-center gap-6">
                 <button
-                  onClick={() => setCurrentTaskBlock(prev => prev === 'high' ? 'low' : prev === 'medium' ? 'high' : 'medium')}
+                  onClick={() => setCurrentTaskBlock(prev => (prev - 1 + blockCount) % blockCount)}
                   className="px-2 py-2 rounded-lg text-slate-900 hover:text-slate-700"
                   aria-label="Previous block"
                 >
                   ‹
                 </button>
                 <div className={`inline-flex items-center gap-2 px-5 py-3 rounded-xl border ${
-                  currentTaskBlock==='high' ? 'bg-emerald-50 border-emerald-200 text-emerald-800' :
-                  currentTaskBlock==='medium' ? 'bg-amber-50 border-amber-200 text-amber-800' :
+                  taskBlock?.energy==='High' ? 'bg-emerald-50 border-emerald-200 text-emerald-800' :
+                  taskBlock?.energy==='Medium' ? 'bg-amber-50 border-amber-200 text-amber-800' :
                   'bg-rose-50 border-rose-200 text-rose-800'
                 }`}>
                   <span className="inline-flex h-7 w-7 items-center justify-center rounded-full bg-white/80">
-                    {currentTaskBlock==='high' ? <Zap className="h-4 w-4"/> : currentTaskBlock==='medium' ? <Square className="h-4 w-4"/> : <Moon className="h-4 w-4"/>}
+                    {taskBlock?.energy==='High' ? <Zap className="h-4 w-4"/> : taskBlock?.energy==='Medium' ? <Square className="h-4 w-4"/> : <Moon className="h-4 w-4"/>}
                   </span>
-                  <span className="font-medium capitalize">{currentTaskBlock} Energy</span>
+                  <span className="font-medium">{taskBlock?.label}</span>
             </div>
                 <button
-                  onClick={() => setCurrentTaskBlock(prev => prev === 'high' ? 'medium' : prev === 'medium' ? 'low' : 'high')}
+                  onClick={() => setCurrentTaskBlock(prev => (prev + 1) % blockCount)}
                   className="px-2 py-2 rounded-lg text-slate-900 hover:text-slate-700"
                   aria-label="Next block"
                 >
@@ -800,19 +974,7 @@ export default function SchedulePage() {
                       repeat: null,
                       locked: false,
                     };
-                    setScheduleData(prev => ({
-                      ...prev,
-                      days: {
-                        ...prev.days,
-                        [currentDay]: {
-                          ...prev.days[currentDay],
-                          tasks: {
-                            ...prev.days[currentDay].tasks,
-                            [currentTaskBlock]: [...prev.days[currentDay].tasks[currentTaskBlock], newTask]
-                          }
-                        }
-                      }
-                    }));
+                    updateCurrentBlockTasks(tasks => [...tasks, newTask]);
                     setNewTaskName('');
                     setNewTaskDuration('');
                     setNewTaskError(null);
@@ -831,13 +993,13 @@ export default function SchedulePage() {
             <div className="bg-gray-50 rounded-lg p-6">
               <div className="flex justify-between items-center mb-4">
                 <h3 className="text-lg font-semibold text-gray-900">{currentDay}</h3>
-                <div className="text-sm text-gray-600">{scheduleData.days[currentDay].tasks[currentTaskBlock].length} task(s)</div>
+                <div className="text-sm text-gray-600">{taskBlockTasks.length} task(s)</div>
               </div>
 
               <div className="space-y-4">
-                {scheduleData.days[currentDay].tasks[currentTaskBlock].map((task) => (
-                  <div key={task.id} className="rounded-lg p-4 border border-white/30 bg-white/70 backdrop-blur-sm">
-                    <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                {taskBlockTasks.map((task, index) => (
+                  <div key={task.id} {...taskDragProps(index)} className="rounded-lg p-4 border border-white/30 bg-white/70 backdrop-blur-sm cursor-grab">
+                    <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
                       <div className="md:col-span-2">
                         <label className="block text-sm font-medium text-gray-700 mb-1">Task Name</label>
                         <input
@@ -858,6 +1020,19 @@ export default function SchedulePage() {
                           className={`w-full px-3 py-2 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${task.locked ? 'bg-gray-100 text-gray-500 cursor-not-allowed' : 'bg-white/90 border border-gray-300 text-slate-900'}`}
                         />
                       </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Priority</label>
+                        <select
+                          value={task.priority ?? 'normal'}
+                          onChange={(e) => !task.locked && updateTask(task.id, 'priority', e.target.value)}
+                          disabled={task.locked}
+                          className={`w-full px-3 py-2 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${task.locked ? 'bg-gray-100 text-gray-500 cursor-not-allowed' : 'bg-white/90 border border-gray-300 text-slate-900'}`}
+                        >
+                          <option value="high">High</option>
+                          <option value="normal">Normal</option>
+                          <option value="low">Low</option>
+                        </select>
+                      </div>
                       <div className="flex items-end gap-2">
                         <button
                           onClick={() => updateTask(task.id, 'locked', !task.locked)}
@@ -883,12 +1058,25 @@ export default function SchedulePage() {
                         className={`w-full px-3 py-2 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${task.locked ? 'bg-gray-100 text-gray-500 cursor-not-allowed' : 'bg-white/90 border border-gray-300 text-slate-900'}`}
                       />
                     </div>
+                    <div className="mt-3">
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Checklist (Optional, one step per line)</label>
+                      <textarea
+                        value={(task.checklist ?? []).map(item => item.name).join('\n')}
+                        onChange={(e) => !task.locked && updateTask(task.id, 'checklist', e.target.value.split('\n').map(name => ({
+                          name,
+                          done: task.checklist?.find(item => item.name === name)?.done ?? false
+                        })))}
+                        placeholder={'Outline\nFirst draft\nReview'}
+                        rows={3}
+                        className={`w-full px-3 py-2 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${task.locked ? 'bg-gray-100 text-gray-500 cursor-not-allowed' : 'bg-white/90 border border-gray-300 text-slate-900'}`}
+                      />
+                    </div>
                   </div>
                 ))}
               </div>
 
               <div className="flex justify-start items-center mt-6 text-sm text-gray-700">
-                  Total duration: {scheduleData.days[currentDay].tasks[currentTaskBlock].reduce((sum, task) => sum + task.duration, 0)} minutes
+                  Total duration: {taskBlockTasks.reduce((sum, task) => sum + task.duration, 0)} minutes
               </div>
             </div>
 
@@ -908,7 +1096,7 @@ export default function SchedulePage() {
                   <span>Back</span>
                 </button>
                 <button
-                  onClick={() => hasAtLeastOneTask() ? setCurrentStep('repeat') : setError('Add at least one task to any energy block before continuing.')}
+                  onClick={() => hasAtLeastOneTask() ? setCurrentStep('repeat') : setError('Add at least one task to any block before continuing.')}
                   className={`inline-flex items-center space-x-2 px-4 py-2 rounded-lg transition-colors ${hasAtLeastOneTask() ? 'bg-slate-900 text-white hover:bg-slate-800' : 'bg-gray-300 text-gray-600 cursor-not-allowed'}`}
                 >
                   <span>Continue</span>
@@ -918,6 +1106,7 @@ export default function SchedulePage() {
             </div>
           </div>
         );
+      }
 
       case 'repeat':
         return (
@@ -1035,69 +1224,165 @@ export default function SchedulePage() {
     }
   };
 
-  // Load today's blocks (sessions + tasks) from DB
-  const loadTodayBlocks = async () => {
+  // Load every saved weekday into the wizard, and today's blocks (sessions + tasks) for the page
+  const loadWeekSchedule = async () => {
     try {
-      const { data: sessionData } = await supabase.auth.getSession();
-      const uid = sessionData.session?.user?.id;
-      if (!uid) return;
-      const { data: profile } = await supabase.from('users').select('username').eq('id', uid).single();
-      setUsername(profile?.username ?? null);
-      const weekday = new Date().toLocaleString('en-US', { weekday: 'long' });
-      const { data: schedule } = await supabase
-        .from('schedules')
-        .select(`
-          id,
-          sessions (
-            id,
-            template:session_templates!inner ( id, energy_type, start_time, end_time ),
-            tasks ( id, name, description, duration_minutes, status )
-          )
-        `)
-        .eq('user_id', uid)
-        .eq('day_of_week', weekday)
-        .single();
-      if (!schedule || !schedule.sessions) { setDayBlocks([]); return; }
-      const sorted = (schedule.sessions as any[])
-        .map((s:any) => ({
-          energy: s.template?.energy_type || 'High',
-          sessionId: s.id,
-          start_time: (s.template?.start_time as string) || '00:00',
-          end_time: (s.template?.end_time as string) || '00:00',
-          tasks: (s.tasks as any[]) || []
-        }))
-        .sort((a,b) => (a.energy === 'High' ? 0 : a.energy === 'Medium' ? 1 : 2) - (b.energy === 'High' ? 0 : b.energy === 'Medium' ? 1 : 2));
-      setDayBlocks(sorted);
-
-      // Prefill times with existing templates so they remain constant when editing
-      if (sorted && sorted.length === 3) {
-        const toHHMM = (t: string) => (t || '00:00').slice(0,5);
-        const find = (e: 'High'|'Medium'|'Low') => sorted.find(b => b.energy === e);
-        const high = find('High');
-        const med = find('Medium');
-        const low = find('Low');
-        setScheduleData(prev => ({
-          ...prev,
-          days: {
-            ...prev.days,
-            [currentDay]: {
-              ...prev.days[currentDay],
-              times: {
-                high: { startTime: toHHMM(high?.start_time || '00:00'), endTime: toHHMM(high?.end_time || '00:00') },
-                medium: { startTime: toHHMM(med?.start_time || '00:00'), endTime: toHHMM(med?.end_time || '00:00') },
-                low: { startTime: toHHMM(low?.start_time || '00:00'), endTime: toHHMM(low?.end_time || '00:00') }
-              }
-            }
-          }
-        }));
-      }
+      const [profile, week] = await Promise.all([
+        inboxRequest('/api/profile') as Promise<Profile | null>,
+        inboxRequest('/api/schedule/week') as Promise<WeekScheduleDay[] | null>
+      ]);
+      if (!profile || !week) return;
+      setUsername(profile.username);
+      const zone = await loadProfileTimeZone();
+      setTimeZone(zone);
+      setWakingWindows(await loadWakingWindows());
+      // The device may be in another zone; "today" is the weekday in the profile's zone
+      const weekday = getZonedDateTime(new Date(), zone).dayOfWeek;
+      setCurrentDay(weekday);
+      setTimesDay(weekday);
+
+      const toBlocks = (day: WeekScheduleDay) => day.blocks.map(b => ({
+        label: b.label || `${b.energy_type} Energy`,
+        position: b.position,
+        energy: b.energy_type,
+        sessionId: b.session_id,
+        templateId: b.template_id,
+        start_time: b.start_time,
+        end_time: b.end_time,
+        tasks: b.tasks
+      }));
+      const today = week.find(d => d.day_of_week === weekday);
+      setDayBlocks(today ? toBlocks(today) : []);
+
+      // Prefill every weekday with its saved blocks, tasks and wake/sleep times so
+      // they remain constant when editing; days never saved start from the defaults.
+      // A save replaces each block's task list, matching tasks by client_key
+      const toHHMM = (t: string) => (t || '00:00').slice(0,5);
+      const days: Record<string, DaySchedule> = {};
+      daysOfWeek.forEach(day => {
+        const saved = week.find(d => d.day_of_week === day);
+        days[day] = {
+          blocks: saved && saved.blocks.length > 0
+            ? toBlocks(saved).map(b => ({
+              label: b.label,
+              energy: b.energy,
+              startTime: toHHMM(b.start_time),
+              endTime: toHHMM(b.end_time),
+              tasks: b.tasks.map((t): Task => ({
+                id: t.client_key ?? `task-${t.id}`,
+                name: t.name,
+                duration: t.duration_minutes ?? 30,
+                description: t.description ?? '',
+                repeat: null,
+                locked: false,
+                priority: t.priority,
+                checklist: t.checklist ?? []
+              }))
+            }))
+            : createDefaultBlocks(),
+          wakeTime: saved?.wake_time?.slice(0, 5) || profile.wake_time || '06:00',
+          sleepTime: saved?.sleep_time?.slice(0, 5) || profile.sleep_time || '22:30'
+        };
+      });
+      // Once anything is saved, an edit applies to today unless the user picks more days,
+      // and block times are only copied across the week if every saved day shares them
+      const layouts = week.map(d => JSON.stringify(days[d.day_of_week].blocks.map(b => [b.label, b.energy, b.startTime, b.endTime])));
+      setSameTimesEveryDay(new Set(layouts).size <= 1);
+      setScheduleData(prev => ({
+        days,
+        repeat: week.length > 0 ? { frequency: 'custom', days: [weekday] } : prev.repeat
+      }));
+      setSavedSchedule({ days, repeat: { frequency: 'custom', days: [] } });
     } catch (e) {
       console.error('Failed to load day blocks', e);
       setDayBlocks([]);
     }
   };
 
-  useEffect(() => { loadTodayBlocks(); }, []);
+  // Inbox and recurring tasks: tasks that are not tied to one weekday's blocks
+  const inboxRequest = async (path: string, init: RequestInit = {}) => {
+    const { data: sessionData } = await supabase.auth.getSession();
+    const token = sessionData.session?.access_token;
+    if (!token) return null;
+    const res = await fetch(path, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` }
+    });
+    const js = await res.json();
+    if (!res.ok || !js?.ok) throw new Error(js?.error || `Request to ${path} failed`);
+    return js.data;
+  };
+
+  const loadInbox = async () => {
+    try {
+      const items = await inboxRequest('/api/inbox');
+      if (items) setInboxTasks(items as DbInboxTask[]);
+    } catch (e) {
+      console.error('Failed to load inbox', e);
+    }
+  };
+
+  const loadRecurring = async () => {
+    try {
+      const items = await inboxRequest('/api/recurring');
+      if (items) setRecurringTasks(items as DbRecurringTask[]);
+    } catch (e) {
+      console.error('Failed to load recurring tasks', e);
+    }
+  };
+
+  useEffect(() => { loadWeekSchedule(); loadInbox(); loadRecurring(); }, []);
+
+  const addInboxTask = async (input: { name: string; energy_type: EnergyLevelDb | null; duration_minutes: number | null }) => {
+    try {
+      await inboxRequest('/api/inbox', { method: 'POST', body: JSON.stringify(input) });
+      await loadInbox();
+    } catch (e) {
+      console.error('Failed to add inbox task', e);
+      setError('Could not add the task to your inbox.');
+    }
+  };
+
+  const deleteInboxTask = async (id: number) => {
+    try {
+      await inboxRequest(`/api/inbox?id=${id}`, { method: 'DELETE' });
+      setInboxTasks(prev => prev.filter(t => t.id !== id));
+    } catch (e) {
+      console.error('Failed to delete inbox task', e);
+    }
+  };
+
+  const addRecurringTask = async (input: { name: string; energy_type: EnergyLevelDb | null; duration_minutes: number | null; rule: RecurrenceRule; starts_on: string }) => {
+    try {
+      await inboxRequest('/api/recurring', { method: 'POST', body: JSON.stringify(input) });
+      await loadRecurring();
+    } catch (e) {
+      console.error('Failed to add recurring task', e);
+      setError('Could not add the recurring task.');
+    }
+  };
+
+  // Stops the task from today on; earlier days keep their occurrences
+  const endRecurringTask = async (id: number) => {
+    try {
+      await inboxRequest(`/api/recurring?id=${id}`, { method: 'DELETE' });
+      await loadRecurring();
+    } catch (e) {
+      console.error('Failed to stop recurring task', e);
+    }
+  };
+
+  // Dropping an inbox task on a block moves it to the end of that block's tasks
+  const scheduleInboxTask = async (id: number, sessionId: number) => {
+    setDraggedInboxTask(null);
+    try {
+      await inboxRequest('/api/inbox/schedule', { method: 'POST', body: JSON.stringify({ id, session_id: sessionId }) });
+      await Promise.all([loadInbox(), loadWeekSchedule()]);
+    } catch (e) {
+      console.error('Failed to schedule inbox task', e);
+      setError('Could not move the task into that block.');
+    }
+  };
 
           const updateTaskField = async (taskId: number, payload: Partial<{ name: string; description: string | null; duration_minutes: number | null; status: 'active'|'completed'|'skipped' }>) => {
     try {
@@ -1109,7 +1394,7 @@ export default function SchedulePage() {
         headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
         body: JSON.stringify({ id: taskId, ...payload })
       });
-      await loadTodayBlocks();
+      await loadWeekSchedule();
       setEditingTaskId(null);
     } catch (e) { console.error(e); }
   };
@@ -1123,7 +1408,7 @@ export default function SchedulePage() {
                 method: 'DELETE',
                 headers: { Authorization: `Bearer ${token}` }
               });
-              await loadTodayBlocks();
+              await loadWeekSchedule();
               setEditingTaskId(null);
             } catch (e) { console.error(e); }
           };
@@ -1132,23 +1417,36 @@ export default function SchedulePage() {
     if (!dayBlocks) return null;
     return (
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-        {dayBlocks.map(block => {
+        {dayBlocks.map((block, blockIndex) => {
           const icon = block.energy === 'High' ? <Zap className="h-5 w-5 text-emerald-700" /> : block.energy === 'Medium' ? <Square className="h-5 w-5 text-amber-700" /> : <Moon className="h-5 w-5 text-rose-700" />;
           const bg = block.energy === 'High' ? 'bg-emerald-50/70 border-emerald-200' : block.energy === 'Medium' ? 'bg-amber-50/70 border-amber-200' : 'bg-rose-50/70 border-rose-200';
           const chip = `${block.energy === 'High' ? 'text-emerald-700 bg-emerald-100/80' : block.energy === 'Medium' ? 'text-amber-700 bg-amber-100/80' : 'text-rose-700 bg-rose-100/80'} inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium`;
           return (
-            <div key={block.sessionId} className={`rounded-2xl p-6 backdrop-blur-sm border ${bg}`}>
+            <div
+              key={block.sessionId}
+              onDragOver={(e) => { if (e.dataTransfer.types.includes(INBOX_DRAG_TYPE)) e.preventDefault(); }}
+              onDrop={(e) => {
+                const id = Number(e.dataTransfer.getData(INBOX_DRAG_TYPE));
+                if (id) { e.preventDefault(); scheduleInboxTask(id, block.sessionId); }
+              }}
+              className={`rounded-2xl p-6 backdrop-blur-sm border ${bg} ${
+                draggedInboxTask && (!draggedInboxTask.energy_type || draggedInboxTask.energy_type === block.energy) ? 'ring-2 ring-slate-900/40' : ''
+              }`}
+            >
               <div className="flex items-center justify-between mb-3">
                 <div className="flex items-center gap-2">
                   <div className={`h-9 w-9 rounded-full flex items-center justify-center shadow-sm ${
                     block.energy==='High'?'bg-emerald-100': block.energy==='Medium'?'bg-amber-100':'bg-rose-100'
                   }`}>{icon}</div>
-                  <div className="font-semibold text-slate-900">{block.energy} Energy</div>
+                  <div>
+                    <div className="font-semibold text-slate-900">{block.label}</div>
+                    <div className="text-xs text-slate-600">{block.energy} energy</div>
+                  </div>
                 </div>
                 <div className="text-xs text-slate-700 flex items-center gap-2">
                   <Clock className="h-4 w-4" />
                     <button
-                    onClick={()=>{ setTimeEditEnergy(block.energy as any); setTimeEditStart((block.start_time||'00:00').slice(0,5)); setTimeEditEnd((block.end_time||'00:00').slice(0,5)); setShowTimeEdit(true); setTimeEditError(null); }}
+                    onClick={()=>{ setTimeEditIndex(blockIndex); setTimeEditStart((block.start_time||'00:00').slice(0,5)); setTimeEditEnd((block.end_time||'00:00').slice(0,5)); setShowTimeEdit(true); setTimeEditError(null); }}
                     className="hover:underline"
                     title="Edit times"
                   >
@@ -1195,7 +1493,7 @@ export default function SchedulePage() {
                               defaultValue={t.duration_minutes || 0}
                               onBlur={(e)=>{
                                 const val = parseInt(e.target.value)||0;
-                                const ok = validateDbEditDuration(block.energy as 'High'|'Medium'|'Low', t.id, val);
+                                const ok = validateDbEditDuration(block.sessionId, t.id, val);
                                 if (!ok) {
                                   setShakeTaskId(t.id);
                                   setTimeout(()=> setShakeTaskId(null), 400);
@@ -1241,12 +1539,8 @@ export default function SchedulePage() {
   return (
     <AuthGuard>
     <div className={`min-h-screen gradient-transition ${
-      Array.isArray(dayBlocks) && dayBlocks.length === 3
-        ? getEnergyThemeForNow([
-            { energy: 'High', start: dayBlocks.find(b=>b.energy==='High')?.start_time || '00:00', end: dayBlocks.find(b=>b.energy==='High')?.end_time || '00:00' },
-            { energy: 'Medium', start: dayBlocks.find(b=>b.energy==='Medium')?.start_time || '00:00', end: dayBlocks.find(b=>b.energy==='Medium')?.end_time || '00:00' },
-            { energy: 'Low', start: dayBlocks.find(b=>b.energy==='Low')?.start_time || '00:00', end: dayBlocks.find(b=>b.energy==='Low')?.end_time || '00:00' }
-          ])
+      Array.isArray(dayBlocks) && dayBlocks.length > 0
+        ? getEnergyThemeForNow(dayBlocks.map(b => ({ energy: b.energy, label: b.label, start: b.start_time || '00:00', end: b.end_time || '00:00' })), new Date(), timeZone)
         : getBlockTheme(currentBlock)
     } relative overflow-hidden`}>
       <div className="grain-overlay"></div>
@@ -1288,7 +1582,14 @@ export default function SchedulePage() {
           </div>
         ) : dayBlocks.length > 0 ? (
           <div className="max-w-6xl mx-auto">
-            <div className="flex justify-end mb-4">
+            <div className="flex justify-end gap-3 mb-4">
+              <button
+                onClick={handleCopyCalendarLink}
+                className="inline-flex items-center space-x-2 px-4 py-2 bg-white/70 backdrop-blur-sm border border-white/30 rounded-lg text-slate-900 hover:bg-white"
+              >
+                <Calendar className="h-4 w-4" />
+                <span>Subscribe in Calendar</span>
+              </button>
               <button
                 onClick={() => { setCurrentStep('tasks'); setShowModal(true); }}
                 className="inline-flex items-center space-x-2 px-4 py-2 bg-white/70 backdrop-blur-sm border border-white/30 rounded-lg text-slate-900 hover:bg-white"
@@ -1297,6 +1598,12 @@ export default function SchedulePage() {
               </button>
             </div>
             <BlocksView />
+            <div className="mt-6">
+              <InboxPanel items={inboxTasks} onAdd={addInboxTask} onDelete={deleteInboxTask} onDragChange={setDraggedInboxTask} />
+            </div>
+            <div className="mt-6">
+              <RecurringTasksPanel items={recurringTasks} today={toISODate(new Date(), timeZone)} onAdd={addRecurringTask} onEnd={endRecurringTask} />
+            </div>
           </div>
         ) : (
           <div className="text-center py-12">
@@ -1364,7 +1671,7 @@ export default function SchedulePage() {
             >
               <div className="p-6">
                 <div className="mb-4">
-                  <h3 className="text-lg font-semibold text-slate-900">Edit {timeEditEnergy || ''} Block</h3>
+                  <h3 className="text-lg font-semibold text-slate-900">Edit {timeEditIndex !== null ? dayBlocks?.[timeEditIndex]?.label || '' : ''} Block</h3>
                   <p className="text-sm text-slate-600">Update start and end times</p>
                 </div>
                 {timeEditError && (
@@ -1381,23 +1688,20 @@ export default function SchedulePage() {
                   </div>
                 </div>
                 <div className="mt-6 flex justify-end gap-3">
-                  <button onClick={()=> { setShowTimeEdit(false); setTimeEditEnergy(null); }} className="px-4 py-2 text-slate-700 hover:text-slate-900">Cancel</button>
+                  <button onClick={()=> { setShowTimeEdit(false); setTimeEditIndex(null); }} className="px-4 py-2 text-slate-700 hover:text-slate-900">Cancel</button>
                   <button
                     onClick={async ()=>{
-                      if (!timeEditEnergy) return;
-                      const key = timeEditEnergy.toLowerCase() as 'high'|'medium'|'low';
-                      const nextTimes = { ...scheduleData.days[currentDay].times } as any;
+                      if (timeEditIndex === null) return;
                       // basic validation
                       const toMin = (t:string)=>{ const [h,m]=t.split(':').map(Number); return h*60+m; };
                       if (!(toMin(timeEditEnd) > toMin(timeEditStart))) { setTimeEditError('End time must be after start time.'); return; }
-                      nextTimes[key] = { startTime: timeEditStart, endTime: timeEditEnd };
                       // Adjust adjacent automatically to remove overlaps
-                      const adjusted = adjustAdjacentForChange({ high: nextTimes.high, medium: nextTimes.medium, low: nextTimes.low }, timeEditEnergy, timeEditStart, timeEditEnd);
-                      setScheduleData(prev=>({ ...prev, days: { ...prev.days, [currentDay]: { ...prev.days[currentDay], times: adjusted } } }));
+                      const adjusted = adjustAdjacentForChange(scheduleData.days[currentDay].blocks, timeEditIndex, timeEditStart, timeEditEnd);
+                      setScheduleData(prev=>({ ...prev, days: { ...prev.days, [currentDay]: { ...prev.days[currentDay], blocks: adjusted } } }));
                       await applyTemplateTimesToBackend(adjusted);
-                      await loadTodayBlocks();
+                      await loadWeekSchedule();
                       setShowTimeEdit(false);
-                      setTimeEditEnergy(null);
+                      setTimeEditIndex(null);
                       setSuccess('Schedule updated to prevent overlapping times.');
                       setTimeout(()=> setSuccess(null), 2000);
                     }}
@@ -2,7 +2,8 @@
  * Settings Page
  * 
  * User profile and preferences management interface.
- * Features account settings, notification preferences, and AI personalization.
+ * Features account settings, notification preferences, carry-over of
+ * unfinished tasks, the focus timer mode, and AI personalization.
  * 
  * TODO: Add profile picture upload
  * TODO: Add password change functionality
@@ -11,50 +12,140 @@
 
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
 import { motion } from 'framer-motion';
 import Navbar from '@/components/Navbar';
 import Footer from '@/components/Footer';
 import ErrorMessage from '@/components/ErrorMessage';
-import { User, Bell, Brain, Save, LogOut } from 'lucide-react';
+import AuthGuard from '@/components/AuthGuard';
+import { User, Bell, Brain, CalendarClock, Timer, Save, LogOut } from 'lucide-react';
+import { supabase } from '@/lib/supabaseClient';
+import { getDeviceTimeZone } from '@/lib/time';
+import { DEFAULT_POMODORO_SETTINGS, TIMER_MODE_LABELS } from '@/lib/timerModes';
+import type { Profile } from '@/lib/types';
+import type { PomodoroSettings, TimerMode } from '@/lib/db/types';
+
+const POMODORO_FIELDS: Array<{ key: keyof PomodoroSettings; label: string; max: number }> = [
+  { key: 'work_minutes', label: 'Work (min)', max: 180 },
+  { key: 'short_break_minutes', label: 'Short break (min)', max: 60 },
+  { key: 'long_break_minutes', label: 'Long break (min)', max: 120 },
+  { key: 'cycles', label: 'Work intervals before a long break', max: 12 }
+];
+
+// IANA zones offered in the time zone picker (older browsers get free text)
+const TIME_ZONES: string[] = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+
+const authHeaders = async (): Promise<Record<string, string> | null> => {
+  const { data: sessionData } = await supabase.auth.getSession();
+  const token = sessionData.session?.access_token;
+  return token ? { Authorization: `Bearer ${token}` } : null;
+};
 
 export default function SettingsPage() {
+  const router = useRouter();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
 
   // Form state
   const [profile, setProfile] = useState({
-    username: 'john_doe',
-    email: 'john@example.com',
+    username: '',
+    email: '',
     wakeTime: '06:00',
-    sleepTime: '22:00'
+    sleepTime: '22:00',
+    timeZone: getDeviceTimeZone()
   });
 
   const [preferences, setPreferences] = useState({
     soundNotifications: true,
     visualAlerts: true,
     aiPersonalization: true,
+    autoCarryOver: false,
     emailReports: false,
     weeklyDigest: true
   });
 
+  const [timerMode, setTimerMode] = useState<TimerMode>('block');
+  const [pomodoro, setPomodoro] = useState<PomodoroSettings>(DEFAULT_POMODORO_SETTINGS);
+
+  const applyProfile = (data: Profile) => {
+    setProfile(prev => ({
+      username: data.username ?? '',
+      email: data.email ?? '',
+      wakeTime: data.wake_time ?? prev.wakeTime,
+      sleepTime: data.sleep_time ?? prev.sleepTime,
+      timeZone: data.time_zone ?? prev.timeZone
+    }));
+    setPreferences({
+      soundNotifications: data.notification_preferences.sound_notifications,
+      visualAlerts: data.notification_preferences.visual_alerts,
+      aiPersonalization: data.ai_personalization,
+      autoCarryOver: data.auto_carry_over,
+      emailReports: data.notification_preferences.email_reports,
+      weeklyDigest: data.notification_preferences.weekly_digest
+    });
+    setTimerMode(data.timer_mode);
+    setPomodoro(data.pomodoro_settings);
+  };
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const headers = await authHeaders();
+        if (!headers) return;
+        const res = await fetch('/api/profile', { headers });
+        const js = await res.json();
+        if (!res.ok || !js?.ok) throw new Error(js?.error || 'Failed to load profile');
+        applyProfile(js.data as Profile);
+      } catch (err) {
+        setError('Failed to load your settings.');
+        console.error('Error loading settings:', err);
+      }
+    };
+    load();
+  }, []);
+
   const handleSave = async () => {
     setLoading(true);
     setError(null);
     setSuccess(null);
 
     try {
-      // TODO: Replace with actual API call
-      // const response = await fetch('/api/profile', {
-      //   method: 'PUT',
-      //   headers: { 'Content-Type': 'application/json' },
-      //   body: JSON.stringify({ profile, preferences })
-      // });
-      
-      // Mock success
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
+      const headers = await authHeaders();
+      if (!headers) throw new Error('Not signed in');
+      const response = await fetch('/api/profile', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify({
+          username: profile.username,
+          email: profile.email.trim() || null,
+          wake_time: profile.wakeTime || null,
+          sleep_time: profile.sleepTime || null,
+          time_zone: profile.timeZone,
+          ai_personalization: preferences.aiPersonalization,
+          auto_carry_over: preferences.autoCarryOver,
+          timer_mode: timerMode,
+          pomodoro_settings: pomodoro,
+          notification_preferences: {
+            sound_notifications: preferences.soundNotifications,
+            visual_alerts: preferences.visualAlerts,
+            email_reports: preferences.emailReports,
+            weekly_digest: preferences.weeklyDigest
+          }
+        })
+      });
+      const js = await response.json();
+      if (!response.ok || !js?.ok) {
+        const issue = js?.issues?.[0];
+        setError(issue ? `${issue.path}: ${issue.message}` : js?.error || 'Failed to save settings. Please try again.');
+        return;
+      }
+      applyProfile(js.data as Profile);
+      // Visual alerts need the browser's permission; ask while the user is here
+      if (preferences.visualAlerts && typeof Notification !== 'undefined' && Notification.permission === 'default') {
+        Notification.requestPermission().catch(() => {});
+      }
       setSuccess('Settings saved successfully!');
     } catch (err) {
       setError('Failed to save settings. Please try again.');
@@ -64,12 +155,13 @@ export default function SettingsPage() {
     }
   };
 
-  const handleLogout = () => {
-    // TODO: Implement actual logout with Supabase
-    console.log('Logout');
+  const handleLogout = async () => {
+    await supabase.auth.signOut();
+    router.replace('/login');
   };
 
   return (
+    <AuthGuard>
     <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
       <Navbar />
       
@@ -157,6 +249,25 @@ export default function SettingsPage() {
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                   />
                 </div>
+
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Time Zone
+                  </label>
+                  <input
+                    type="text"
+                    list="time-zones"
+                    value={profile.timeZone}
+                    onChange={(e) => setProfile(prev => ({ ...prev, timeZone: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <datalist id="time-zones">
+                    {TIME_ZONES.map(zone => <option key={zone} value={zone} />)}
+                  </datalist>
+                  <p className="mt-1 text-sm text-gray-500">
+                    Days and blocks follow this zone on every device. Wake and sleep times prefill new weekday schedules.
+                  </p>
+                </div>
               </div>
             </motion.div>
 
@@ -201,6 +312,90 @@ export default function SettingsPage() {
               </div>
             </motion.div>
 
+            {/* Unfinished Tasks */}
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.6, delay: 0.25 }}
+              className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6"
+            >
+              <div className="flex items-center space-x-2 mb-6">
+                <CalendarClock className="h-5 w-5 text-blue-600" />
+                <h2 className="text-xl font-semibold text-gray-900">Unfinished Tasks</h2>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div>
+                  <div className="text-sm font-medium text-gray-900">Carry Over Automatically</div>
+                  <div className="text-sm text-gray-500">
+                    Move tasks left at the end of a block to the next block of the same energy, and tasks left at the end of the day to tomorrow, without asking
+                  </div>
+                </div>
+                <label className="relative inline-flex items-center cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={preferences.autoCarryOver}
+                    onChange={(e) => setPreferences(prev => ({
+                      ...prev,
+                      autoCarryOver: e.target.checked
+                    }))}
+                    className="sr-only peer"
+                  />
+                  <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+                </label>
+              </div>
+            </motion.div>
+
+            {/* Focus Timer */}
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.6, delay: 0.275 }}
+              className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6"
+            >
+              <div className="flex items-center space-x-2 mb-6">
+                <Timer className="h-5 w-5 text-blue-600" />
+                <h2 className="text-xl font-semibold text-gray-900">Focus Timer</h2>
+              </div>
+
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Timer Mode</label>
+                  <select
+                    value={timerMode}
+                    onChange={(e) => setTimerMode(e.target.value as TimerMode)}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {(Object.keys(TIMER_MODE_LABELS) as TimerMode[]).map(mode => (
+                      <option key={mode} value={mode}>{TIMER_MODE_LABELS[mode]}</option>
+                    ))}
+                  </select>
+                  <p className="text-sm text-gray-500 mt-1">
+                    Count down the whole block, alternate work and breaks, or give each task its estimated time. No interval runs past the end of its block.
+                  </p>
+                </div>
+
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  {POMODORO_FIELDS.map(field => (
+                    <div key={field.key}>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">{field.label}</label>
+                      <input
+                        type="number"
+                        min={1}
+                        max={field.max}
+                        value={pomodoro[field.key]}
+                        onChange={(e) => setPomodoro(prev => ({ ...prev, [field.key]: parseInt(e.target.value) || 1 }))}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </div>
+                  ))}
+                </div>
+                <p className="text-sm text-gray-500">
+                  Pomodoro uses all four; 52/17 is fixed; task mode takes the short break after each task and the work length for tasks without an estimate.
+                </p>
+              </div>
+            </motion.div>
+
             {/* AI Personalization */}
             <motion.div
               initial={{ opacity: 0, y: 20 }}
@@ -265,5 +460,6 @@ export default function SettingsPage() {
 
       <Footer />
     </div>
+    </AuthGuard>
   );
 }
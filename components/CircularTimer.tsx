@@ -2,7 +2,8 @@
  * CircularTimer Component
  * 
  * A circular progress timer that displays remaining time and current task.
- * Color-coded by energy level with smooth animations.
+ * Color-coded by energy level with smooth animations; break intervals of the
+ * Pomodoro-style timer modes get their own ring and label.
  * 
  * TODO: Add WebSocket support for real-time updates
  * TODO: Add sound notifications
@@ -14,10 +15,13 @@
 import { useEffect, useState } from 'react';
 import { CircularTimerProps } from '@/lib/types';
 import { secondsToMMSS } from '@/lib/time';
+import { INTERVAL_LABELS } from '@/lib/timerModes';
 
 export default function CircularTimer({ 
   currentTask, 
   timeRemainingSec, 
+  intervalSec,
+  interval,
   energyLevel, 
   onComplete 
 }: CircularTimerProps) {
@@ -37,8 +41,9 @@ export default function CircularTimer({
     }
   }, [displayTime, isRunning, onComplete]);
 
-  // Calculate progress percentage relative to the provided timeRemainingSec baseline
-  const maxSeconds = Math.max(timeRemainingSec, 1);
+  // Calculate progress percentage relative to the interval length (or the provided timeRemainingSec baseline)
+  const maxSeconds = Math.max(intervalSec ?? timeRemainingSec, 1);
+  const onBreak = interval === 'short_break' || interval === 'long_break';
   const progress = Math.max(0, Math.min(100, (displayTime / maxSeconds) * 100));
   const radius = 120; // bigger radius for larger circle
   const circumference = 2 * Math.PI * radius;
@@ -85,7 +90,7 @@ export default function CircularTimer({
             fill="none"
             strokeDasharray={circumference}
             strokeDashoffset={strokeDashoffset}
-            className={`${energyColors[energyLevel]} transition-all duration-1000 ease-linear`}
+            className={`${onBreak ? 'stroke-sky-400' : energyColors[energyLevel]} transition-all duration-1000 ease-linear`}
             strokeLinecap="round"
           />
         </svg>
@@ -96,7 +101,11 @@ export default function CircularTimer({
             <div className={`text-5xl font-bold ${energyBgColors[energyLevel]}`}>
               {secondsToMMSS(displayTime)}
             </div>
-            {/* no extra caption to keep contrast in night theme */}
+            {interval && (
+              <div className={`mt-1 text-sm font-medium uppercase tracking-wide ${onBreak ? 'text-sky-100' : 'text-white/80'}`}>
+                {INTERVAL_LABELS[interval]}
+              </div>
+            )}
           </div>
         </div>
       </div>
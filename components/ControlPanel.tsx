@@ -2,7 +2,8 @@
  * ControlPanel Component
  * 
  * Main control interface for starting, pausing, and managing work sessions.
- * Handles different states and provides user feedback.
+ * Handles different states and provides user feedback. During a break
+ * interval of the timer the status says so and Stop becomes Skip Break.
  * 
  * TODO: Add session persistence
  * TODO: Add keyboard shortcuts
@@ -12,7 +13,8 @@
 'use client';
 
 import { useState } from 'react';
-import { Play, Pause, Square, RotateCcw } from 'lucide-react';
+import { Play, Pause, Square, RotateCcw, FastForward } from 'lucide-react';
+import type { TimerInterval } from '@/lib/timerModes';
 
 type SessionState = 'idle' | 'running' | 'paused' | 'completed';
 
@@ -22,6 +24,8 @@ interface ControlPanelProps {
   onResume?: () => void;
   onStop?: () => void;
   onReset?: () => void;
+  onSkipBreak?: () => void;
+  interval?: TimerInterval; // the timer's current interval, 'work' when not set
   disabled?: boolean;
   error?: string | null;
 }
@@ -32,10 +36,13 @@ export default function ControlPanel({
   onResume,
   onStop,
   onReset,
+  onSkipBreak,
+  interval = 'work',
   disabled = false,
   error
 }: ControlPanelProps) {
   const [sessionState, setSessionState] = useState<SessionState>('idle');
+  const onBreak = interval !== 'work';
 
   const handleStart = () => {
     setSessionState('running');
@@ -63,6 +70,7 @@ export default function ControlPanel({
   };
 
   const getButtonConfig = () => {
+    const skipBreak = { label: 'Skip Break', icon: FastForward, onClick: () => onSkipBreak?.(), variant: 'secondary' };
     switch (sessionState) {
       case 'idle':
         return {
@@ -72,12 +80,12 @@ export default function ControlPanel({
       case 'running':
         return {
           primary: { label: 'Pause', icon: Pause, onClick: handlePause, variant: 'pause' },
-          secondary: { label: 'Stop', icon: Square, onClick: handleStop, variant: 'stop' }
+          secondary: onBreak && onSkipBreak ? skipBreak : { label: 'Stop', icon: Square, onClick: handleStop, variant: 'stop' }
         };
       case 'paused':
         return {
           primary: { label: 'Resume', icon: Play, onClick: handleResume, variant: 'start' },
-          secondary: { label: 'Stop', icon: Square, onClick: handleStop, variant: 'stop' }
+          secondary: onBreak && onSkipBreak ? skipBreak : { label: 'Stop', icon: Square, onClick: handleStop, variant: 'stop' }
         };
       case 'completed':
         return {
@@ -144,13 +152,14 @@ export default function ControlPanel({
       {/* Session status */}
       <div className="text-center">
         <div className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${
+          sessionState === 'running' && onBreak ? 'bg-sky-100 text-sky-700' :
           sessionState === 'running' ? 'bg-green-100 text-green-700' :
           sessionState === 'paused' ? 'bg-yellow-100 text-yellow-700' :
           sessionState === 'completed' ? 'bg-blue-100 text-blue-700' :
           'bg-gray-100 text-gray-700'
         }`}>
-          {sessionState === 'running' && 'Session Active'}
-          {sessionState === 'paused' && 'Session Paused'}
+          {sessionState === 'running' && (onBreak ? (interval === 'long_break' ? 'Long Break' : 'On a Break') : 'Session Active')}
+          {sessionState === 'paused' && (onBreak ? 'Break Paused' : 'Session Paused')}
           {sessionState === 'completed' && 'Session Completed'}
           {sessionState === 'idle' && 'Ready to Start'}
         </div>
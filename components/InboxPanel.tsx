@@ -0,0 +1,123 @@
+/**
+ * InboxPanel Component
+ *
+ * Lists tasks that are not scheduled yet, each tagged with the energy it
+ * needs, with a quick-add form. Items can be dragged onto a block of the
+ * schedule; the drop target reads the task id under INBOX_DRAG_TYPE.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Inbox, Trash2 } from 'lucide-react';
+import type { DbInboxTask, EnergyLevelDb } from '@/lib/db/types';
+
+export const INBOX_DRAG_TYPE = 'application/x-thirds-inbox-task';
+
+interface InboxPanelProps {
+  items: DbInboxTask[];
+  onAdd: (input: { name: string; energy_type: EnergyLevelDb | null; duration_minutes: number | null }) => void;
+  onDelete: (id: number) => void;
+  onDragChange?: (item: DbInboxTask | null) => void; // the item being dragged, null when the drag ends
+}
+
+const energyChips: Record<EnergyLevelDb, string> = {
+  High: 'text-emerald-700 bg-emerald-100/80',
+  Medium: 'text-amber-700 bg-amber-100/80',
+  Low: 'text-rose-700 bg-rose-100/80'
+};
+
+export default function InboxPanel({ items, onAdd, onDelete, onDragChange }: InboxPanelProps) {
+  const [name, setName] = useState('');
+  const [energy, setEnergy] = useState<EnergyLevelDb | ''>('');
+  const [duration, setDuration] = useState<number | ''>('');
+
+  const handleAdd = () => {
+    if (!name.trim()) return;
+    onAdd({ name: name.trim(), energy_type: energy || null, duration_minutes: duration || null });
+    setName('');
+    setDuration('');
+  };
+
+  return (
+    <div className="rounded-2xl p-6 backdrop-blur-sm border border-white/30 bg-white/60">
+      <div className="flex items-center gap-2 mb-1">
+        <Inbox className="h-5 w-5 text-slate-700" />
+        <h3 className="font-semibold text-slate-900">Inbox</h3>
+        <span className="text-xs text-slate-600">{items.length} unscheduled</span>
+      </div>
+      <p className="text-xs text-slate-600 mb-4">Drag a task onto a block to schedule it. Unfinished tasks can be sent back here at the end of the day.</p>
+
+      <div className="grid grid-cols-1 md:grid-cols-6 gap-2 mb-4">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleAdd(); }}
+          placeholder="Capture a task"
+          className="md:col-span-3 px-3 py-2 rounded-lg bg-white/90 border border-gray-300 text-slate-900"
+          aria-label="Inbox task name"
+        />
+        <select
+          value={energy}
+          onChange={(e) => setEnergy(e.target.value as EnergyLevelDb | '')}
+          className="px-3 py-2 rounded-lg bg-white/90 border border-gray-300 text-slate-900"
+          aria-label="Energy the task needs"
+        >
+          <option value="">Any energy</option>
+          <option value="High">High</option>
+          <option value="Medium">Medium</option>
+          <option value="Low">Low</option>
+        </select>
+        <input
+          type="number"
+          min={1}
+          value={duration}
+          onChange={(e) => setDuration(parseInt(e.target.value) || '')}
+          placeholder="Min"
+          className="px-3 py-2 rounded-lg bg-white/90 border border-gray-300 text-slate-900"
+          aria-label="Duration in minutes"
+        />
+        <button onClick={handleAdd} className="px-3 py-2 rounded-lg bg-slate-900 text-white hover:bg-slate-800">
+          Add
+        </button>
+      </div>
+
+      {items.length === 0 ? (
+        <div className="rounded-xl border border-white/30 bg-white/80 p-3 text-sm text-slate-600">Nothing waiting to be scheduled.</div>
+      ) : (
+        <ul className="space-y-2">
+          {items.map(item => (
+            <li
+              key={item.id}
+              draggable
+              onDragStart={(e) => {
+                e.dataTransfer.setData(INBOX_DRAG_TYPE, String(item.id));
+                e.dataTransfer.effectAllowed = 'move';
+                onDragChange?.(item);
+              }}
+              onDragEnd={() => onDragChange?.(null)}
+              className="flex items-center justify-between rounded-xl border border-white/30 bg-white/80 p-3 cursor-grab"
+            >
+              <div className="min-w-0">
+                <div className="font-medium text-slate-900 truncate">{item.name}</div>
+                <div className="text-xs text-slate-600">
+                  {item.duration_minutes ? `${item.duration_minutes} min` : 'No estimate'}
+                  {item.plan_task_id !== null ? ' · left over' : ''}
+                </div>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${item.energy_type ? energyChips[item.energy_type] : 'text-slate-700 bg-slate-100'}`}>
+                  {item.energy_type ?? 'Any'}
+                </span>
+                <button onClick={() => onDelete(item.id)} className="text-slate-400 hover:text-red-600" aria-label={`Delete ${item.name}`}>
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
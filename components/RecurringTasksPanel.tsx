@@ -0,0 +1,194 @@
+/**
+ * RecurringTasksPanel Component
+ *
+ * Lists the recurring tasks still running with their rule, and a form to add
+ * one: every weekday, some weekdays every N weeks, the nth weekday of each
+ * month, or a number of times per week on whichever days suit. Day plans add
+ * the occurrences; ending a task keeps the ones already done.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Repeat, Trash2 } from 'lucide-react';
+import { describeRule } from '@/lib/recurrence';
+import type { DayOfWeek, DbRecurringTask, EnergyLevelDb, RecurrenceRule } from '@/lib/db/types';
+
+interface RecurringTasksPanelProps {
+  items: DbRecurringTask[];
+  today: string; // YYYY-MM-DD in the user's zone
+  onAdd: (input: { name: string; energy_type: EnergyLevelDb | null; duration_minutes: number | null; rule: RecurrenceRule; starts_on: string }) => void;
+  onEnd: (id: number) => void;
+}
+
+type Repeats = 'weekdays' | 'weekly' | 'monthly' | 'times_per_week';
+
+const DAYS: DayOfWeek[] = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+const WEEKDAYS = DAYS.slice(0, 5);
+const MONTH_WEEKS: Array<{ value: 1 | 2 | 3 | 4 | -1; label: string }> = [
+  { value: 1, label: 'First' },
+  { value: 2, label: 'Second' },
+  { value: 3, label: 'Third' },
+  { value: 4, label: 'Fourth' },
+  { value: -1, label: 'Last' }
+];
+
+const inputClass = 'px-3 py-2 rounded-lg bg-white/90 border border-gray-300 text-slate-900';
+
+export default function RecurringTasksPanel({ items, today, onAdd, onEnd }: RecurringTasksPanelProps) {
+  const [name, setName] = useState('');
+  const [energy, setEnergy] = useState<EnergyLevelDb | ''>('');
+  const [duration, setDuration] = useState<number | ''>('');
+  const [repeats, setRepeats] = useState<Repeats>('weekdays');
+  const [days, setDays] = useState<DayOfWeek[]>(['Monday']);
+  const [weekInterval, setWeekInterval] = useState(1);
+  const [monthWeek, setMonthWeek] = useState<1 | 2 | 3 | 4 | -1>(1);
+  const [monthDay, setMonthDay] = useState<DayOfWeek>('Monday');
+  const [times, setTimes] = useState(3);
+
+  const rule = (): RecurrenceRule => {
+    switch (repeats) {
+      case 'weekdays':
+        return { kind: 'weekly', days: WEEKDAYS, interval: 1 };
+      case 'weekly':
+        return { kind: 'weekly', days: DAYS.filter(d => days.includes(d)), interval: weekInterval };
+      case 'monthly':
+        return { kind: 'monthly', week: monthWeek, day: monthDay };
+      case 'times_per_week':
+        return { kind: 'times_per_week', times };
+    }
+  };
+
+  const handleAdd = () => {
+    if (!name.trim() || (repeats === 'weekly' && days.length === 0)) return;
+    onAdd({ name: name.trim(), energy_type: energy || null, duration_minutes: duration || null, rule: rule(), starts_on: today });
+    setName('');
+    setDuration('');
+  };
+
+  const toggleDay = (day: DayOfWeek) =>
+    setDays(prev => (prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day]));
+
+  // Ended tasks only matter to the plans they already added to
+  const running = items.filter(t => t.ends_on === null || t.ends_on >= today);
+
+  return (
+    <div className="rounded-2xl p-6 backdrop-blur-sm border border-white/30 bg-white/60">
+      <div className="flex items-center gap-2 mb-1">
+        <Repeat className="h-5 w-5 text-slate-700" />
+        <h3 className="font-semibold text-slate-900">Recurring Tasks</h3>
+        <span className="text-xs text-slate-600">{running.length} running</span>
+      </div>
+      <p className="text-xs text-slate-600 mb-4">
+        Each one joins the day&apos;s plan on the days it comes up, in the first block of its energy. Edit a single day or every day after it from the home page.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-6 gap-2 mb-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleAdd(); }}
+          placeholder="Task that repeats"
+          className={`md:col-span-3 ${inputClass}`}
+          aria-label="Recurring task name"
+        />
+        <select
+          value={energy}
+          onChange={(e) => setEnergy(e.target.value as EnergyLevelDb | '')}
+          className={inputClass}
+          aria-label="Energy the task needs"
+        >
+          <option value="">Any energy</option>
+          <option value="High">High</option>
+          <option value="Medium">Medium</option>
+          <option value="Low">Low</option>
+        </select>
+        <input
+          type="number"
+          min={1}
+          value={duration}
+          onChange={(e) => setDuration(parseInt(e.target.value) || '')}
+          placeholder="Min"
+          className={inputClass}
+          aria-label="Duration in minutes"
+        />
+        <button onClick={handleAdd} className="px-3 py-2 rounded-lg bg-slate-900 text-white hover:bg-slate-800">
+          Add
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+        <select value={repeats} onChange={(e) => setRepeats(e.target.value as Repeats)} className={inputClass} aria-label="How often it repeats">
+          <option value="weekdays">Every weekday</option>
+          <option value="weekly">On chosen days</option>
+          <option value="monthly">Once a month</option>
+          <option value="times_per_week">Times per week</option>
+        </select>
+
+        {repeats === 'weekly' && (
+          <>
+            {DAYS.map(day => (
+              <button
+                key={day}
+                type="button"
+                onClick={() => toggleDay(day)}
+                aria-pressed={days.includes(day)}
+                className={`px-2.5 py-1 rounded-full text-xs font-medium ${days.includes(day) ? 'bg-slate-900 text-white' : 'bg-white/80 text-slate-700 border border-gray-300'}`}
+              >
+                {day.slice(0, 3)}
+              </button>
+            ))}
+            <select value={weekInterval} onChange={(e) => setWeekInterval(Number(e.target.value))} className={inputClass} aria-label="Weeks between occurrences">
+              <option value={1}>every week</option>
+              <option value={2}>every other week</option>
+              <option value={3}>every 3 weeks</option>
+              <option value={4}>every 4 weeks</option>
+            </select>
+          </>
+        )}
+
+        {repeats === 'monthly' && (
+          <>
+            <select value={monthWeek} onChange={(e) => setMonthWeek(Number(e.target.value) as 1 | 2 | 3 | 4 | -1)} className={inputClass} aria-label="Week of the month">
+              {MONTH_WEEKS.map(w => <option key={w.value} value={w.value}>{w.label}</option>)}
+            </select>
+            <select value={monthDay} onChange={(e) => setMonthDay(e.target.value as DayOfWeek)} className={inputClass} aria-label="Day of the week">
+              {DAYS.map(day => <option key={day} value={day}>{day}</option>)}
+            </select>
+          </>
+        )}
+
+        {repeats === 'times_per_week' && (
+          <select value={times} onChange={(e) => setTimes(Number(e.target.value))} className={inputClass} aria-label="Times per week">
+            {[1, 2, 3, 4, 5, 6, 7].map(n => <option key={n} value={n}>{n === 1 ? 'once' : `${n} times`}</option>)}
+          </select>
+        )}
+      </div>
+
+      {running.length === 0 ? (
+        <div className="rounded-xl border border-white/30 bg-white/80 p-3 text-sm text-slate-600">No recurring tasks yet.</div>
+      ) : (
+        <ul className="space-y-2">
+          {running.map(item => (
+            <li key={item.id} className="flex items-center justify-between rounded-xl border border-white/30 bg-white/80 p-3">
+              <div className="min-w-0">
+                <div className="font-medium text-slate-900 truncate">{item.name}</div>
+                <div className="text-xs text-slate-600">
+                  {describeRule(item.rule)}
+                  {item.duration_minutes ? ` · ${item.duration_minutes} min` : ''}
+                  {item.energy_type ? ` · ${item.energy_type} energy` : ''}
+                  {item.starts_on > today ? ` · from ${item.starts_on}` : ''}
+                  {item.ends_on ? ` · until ${item.ends_on}` : ''}
+                </div>
+              </div>
+              <button onClick={() => onEnd(item.id)} className="text-slate-400 hover:text-red-600 shrink-0" aria-label={`Stop ${item.name}`}>
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -3,8 +3,9 @@
  * 
  * Displays a list of tasks with energy levels and completion status.
  * Auto-checks completed items and shows empty state when no tasks.
+ * Tasks can be dragged into a new order when onReorder is given, and show
+ * their checklist items under the task name.
  * 
- * TODO: Add drag-and-drop reordering
  * TODO: Add task editing functionality
  * TODO: Add task deletion
  */
@@ -12,13 +13,16 @@
 'use client';
 
 import { useState } from 'react';
-import { Check, Clock, Zap, Battery, Moon } from 'lucide-react';
+import { Check, Clock, Zap, Battery, Moon, GripVertical, Flag } from 'lucide-react';
 import { TaskItem } from '@/lib/types';
+import { useDragReorder } from '@/lib/reorder';
 import EmptyState from './EmptyState';
 
 interface TaskListProps {
   items: TaskItem[];
   onTaskToggle?: (index: number) => void;
+  onReorder?: (from: number, to: number) => void;
+  onChecklistToggle?: (index: number, itemIndex: number) => void;
 }
 
 const energyIcons = {
@@ -33,15 +37,24 @@ const energyColors = {
   low: 'text-slate-600 bg-slate-100'
 };
 
-export default function TaskList({ items, onTaskToggle }: TaskListProps) {
-  const [completedTasks, setCompletedTasks] = useState<Set<number>>(new Set());
+const priorityColors = {
+  high: 'text-red-600',
+  low: 'text-gray-400'
+};
+
+export default function TaskList({ items, onTaskToggle, onReorder, onChecklistToggle }: TaskListProps) {
+  // Checked items by DB id (or index for items without one), so they survive reordering
+  const [completedTasks, setCompletedTasks] = useState<Set<number | string>>(new Set());
+  const dragProps = useDragReorder((from, to) => onReorder?.(from, to));
+  const keyOf = (item: TaskItem, index: number) => item.id ?? `index-${index}`;
 
   const handleTaskToggle = (index: number) => {
+    const key = keyOf(items[index], index);
     const newCompleted = new Set(completedTasks);
-    if (completedTasks.has(index)) {
-      newCompleted.delete(index);
+    if (completedTasks.has(key)) {
+      newCompleted.delete(key);
     } else {
-      newCompleted.add(index);
+      newCompleted.add(key);
     }
     setCompletedTasks(newCompleted);
     onTaskToggle?.(index);
@@ -70,18 +83,23 @@ export default function TaskList({ items, onTaskToggle }: TaskListProps) {
       </h3>
       
       {items.map((item, index) => {
-        const isCompleted = completedTasks.has(index) || item.done;
+        const isCompleted = completedTasks.has(keyOf(item, index)) || item.done;
         const EnergyIcon = energyIcons[item.energy];
         
         return (
           <div
-            key={index}
+            key={keyOf(item, index)}
+            {...(onReorder ? dragProps(index) : {})}
             className={`flex items-center space-x-3 p-4 rounded-lg border transition-all ${
               isCompleted
                 ? 'bg-gray-50 border-gray-200 opacity-75'
                 : 'bg-white border-gray-200 hover:border-gray-300'
             }`}
           >
+            {onReorder && (
+              <GripVertical className="h-4 w-4 text-gray-300 cursor-grab shrink-0" aria-hidden="true" />
+            )}
+
             {/* Checkbox */}
             <button
               onClick={() => handleTaskToggle(index)}
@@ -107,12 +125,45 @@ export default function TaskList({ items, onTaskToggle }: TaskListProps) {
                   <EnergyIcon className="h-3 w-3" />
                   <span>{item.energy}</span>
                 </div>
+                {item.priority && item.priority !== 'normal' && (
+                  <Flag className={`h-3 w-3 ${priorityColors[item.priority]}`} aria-label={`${item.priority} priority`} />
+                )}
               </div>
               
               <div className="flex items-center space-x-1 text-xs text-gray-500">
                 <Clock className="h-3 w-3" />
                 <span>{item.range}</span>
+                {item.duration_minutes ? <span>· est. {item.duration_minutes}m</span> : null}
+                {typeof item.actual_minutes === 'number' ? <span>· actual {item.actual_minutes}m</span> : null}
+                {item.checklist?.length ? (
+                  <span>· {item.checklist.filter(step => step.done).length}/{item.checklist.length} steps</span>
+                ) : null}
               </div>
+
+              {/* Checklist items */}
+              {item.checklist && item.checklist.length > 0 && (
+                <ul className="mt-2 space-y-1">
+                  {item.checklist.map((step, stepIndex) => (
+                    <li key={stepIndex} className="flex items-center space-x-2">
+                      <button
+                        onClick={() => onChecklistToggle?.(index, stepIndex)}
+                        disabled={!onChecklistToggle}
+                        className={`w-4 h-4 rounded border flex items-center justify-center transition-colors ${
+                          step.done
+                            ? 'bg-green-500 border-green-500 text-white'
+                            : 'border-gray-300 hover:border-gray-400'
+                        }`}
+                        aria-label={`Mark ${step.name} as ${step.done ? 'not done' : 'done'}`}
+                      >
+                        {step.done && <Check className="h-2.5 w-2.5" />}
+                      </button>
+                      <span className={`text-xs ${step.done ? 'text-gray-400 line-through' : 'text-gray-700'}`}>
+                        {step.name}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
             </div>
           </div>
         );
@@ -4,5 +4,8 @@ create index if not exists idx_schedules_user_day on schedules(user_id, day_of_w
 create index if not exists idx_sessions_schedule_id on sessions(schedule_id);
 create index if not exists idx_templates_user_energy on session_templates(user_id, energy_type);
 create index if not exists idx_tasks_session_id on tasks(session_id);
-
-
+create index if not exists idx_focus_runs_user_date on focus_runs(user_id, run_date);
+create index if not exists idx_plan_tasks_plan_id on plan_tasks(plan_id);
+create index if not exists idx_inbox_tasks_user_id on inbox_tasks(user_id);
+create index if not exists idx_recurring_tasks_user_id on recurring_tasks(user_id);
+create index if not exists idx_break_prompts_user_date on break_prompts(user_id, run_date);
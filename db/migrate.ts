@@ -0,0 +1,200 @@
+/**
+ * Database migration runner
+ *
+ * Applies the numbered files in db/migrations to the database at DATABASE_URL
+ * and records every applied version in schema_migrations. Each version is a
+ * pair of files, NNNN_name.up.sql and NNNN_name.down.sql, and runs in its own
+ * transaction together with its bookkeeping row.
+ *
+ *   npm run db:migrate                apply everything pending
+ *   npm run db:migrate -- up 3        apply pending versions up to 3
+ *   npm run db:migrate -- down        roll back the latest version
+ *   npm run db:migrate -- down 2      roll back the latest two versions
+ *   npm run db:migrate -- status      list applied and pending versions
+ *
+ * On a plain Postgres (no Supabase) load db/tests/supabase_stub.sql first so
+ * auth.users and auth.uid() exist.
+ */
+
+import { readdirSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import { Client } from 'pg';
+
+const MIGRATIONS_DIR = path.join(__dirname, 'migrations');
+const MIGRATION_FILE = /^(\d{4})_([a-z0-9_]+)\.(up|down)\.sql$/;
+
+// Any constant works; it only has to be the same for every runner
+const MIGRATION_LOCK_ID = 4_270_301;
+
+interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  down: string;
+}
+
+interface AppliedMigration {
+  version: number;
+  name: string;
+  applied_at: Date;
+}
+
+function label(migration: { version: number; name: string }): string {
+  return `${String(migration.version).padStart(4, '0')}_${migration.name}`;
+}
+
+function loadMigrations(): Migration[] {
+  const found = new Map<number, Partial<Migration> & { version: number; name: string }>();
+
+  for (const file of readdirSync(MIGRATIONS_DIR).sort()) {
+    if (!file.endsWith('.sql')) continue;
+    const match = MIGRATION_FILE.exec(file);
+    if (!match) throw new Error(`Unexpected file in db/migrations: ${file} (expected NNNN_name.up.sql or NNNN_name.down.sql)`);
+
+    const [, digits, name, direction] = match;
+    const version = Number(digits);
+    const entry = found.get(version) ?? { version, name };
+    if (entry.name !== name) throw new Error(`Version ${digits} is used by both ${entry.name} and ${name}`);
+
+    entry[direction as 'up' | 'down'] = readFileSync(path.join(MIGRATIONS_DIR, file), 'utf8');
+    found.set(version, entry);
+  }
+
+  return [...found.values()]
+    .sort((a, b) => a.version - b.version)
+    .map(entry => {
+      if (entry.up === undefined || entry.down === undefined) {
+        throw new Error(`Migration ${label(entry)} needs both an .up.sql and a .down.sql file`);
+      }
+      return entry as Migration;
+    });
+}
+
+async function ensureMigrationsTable(client: Client): Promise<void> {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INT PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+    );
+    -- No policies: keeps the table out of reach of the Supabase API roles
+    ALTER TABLE schema_migrations ENABLE ROW LEVEL SECURITY;
+  `);
+}
+
+async function listApplied(client: Client): Promise<AppliedMigration[]> {
+  const { rows } = await client.query<AppliedMigration>(
+    'SELECT version, name, applied_at FROM schema_migrations ORDER BY version'
+  );
+  return rows;
+}
+
+async function runInTransaction(client: Client, work: () => Promise<void>): Promise<void> {
+  await client.query('BEGIN');
+  try {
+    await work();
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  }
+}
+
+async function migrateUp(client: Client, migrations: Migration[], target?: number): Promise<void> {
+  const applied = new Set((await listApplied(client)).map(row => row.version));
+  const pending = migrations.filter(m => !applied.has(m.version) && (target === undefined || m.version <= target));
+
+  if (pending.length === 0) {
+    console.log('Database is up to date');
+    return;
+  }
+
+  for (const migration of pending) {
+    try {
+      await runInTransaction(client, async () => {
+        await client.query(migration.up);
+        await client.query('INSERT INTO schema_migrations (version, name) VALUES ($1, $2)', [migration.version, migration.name]);
+      });
+    } catch (error) {
+      throw new Error(`Migration ${label(migration)} failed: ${error instanceof Error ? error.message : error}`);
+    }
+    console.log(`Applied ${label(migration)}`);
+  }
+}
+
+async function migrateDown(client: Client, migrations: Migration[], steps: number): Promise<void> {
+  const byVersion = new Map(migrations.map(m => [m.version, m]));
+  const latest = (await listApplied(client)).reverse().slice(0, steps);
+
+  if (latest.length === 0) {
+    console.log('Nothing to roll back');
+    return;
+  }
+
+  for (const row of latest) {
+    const migration = byVersion.get(row.version);
+    if (!migration) throw new Error(`Cannot roll back ${label(row)}: its files are missing from db/migrations`);
+
+    try {
+      await runInTransaction(client, async () => {
+        await client.query(migration.down);
+        await client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version]);
+      });
+    } catch (error) {
+      throw new Error(`Rollback of ${label(migration)} failed: ${error instanceof Error ? error.message : error}`);
+    }
+    console.log(`Rolled back ${label(migration)}`);
+  }
+}
+
+async function printStatus(client: Client, migrations: Migration[]): Promise<void> {
+  const applied = new Map((await listApplied(client)).map(row => [row.version, row]));
+
+  for (const migration of migrations) {
+    const row = applied.get(migration.version);
+    console.log(row ? `[x] ${label(migration)}  applied ${row.applied_at.toISOString()}` : `[ ] ${label(migration)}`);
+  }
+  for (const row of applied.values()) {
+    if (!migrations.some(m => m.version === row.version)) {
+      console.log(`[?] ${label(row)}  applied ${row.applied_at.toISOString()}, but its files are missing`);
+    }
+  }
+}
+
+function parseCount(value: string | undefined, what: string): number | undefined {
+  if (value === undefined) return undefined;
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1) throw new Error(`Expected ${what} to be a positive whole number, got "${value}"`);
+  return count;
+}
+
+async function main(): Promise<void> {
+  const [command = 'up', arg] = process.argv.slice(2);
+  if (!['up', 'down', 'status'].includes(command)) {
+    throw new Error(`Unknown command "${command}". Use up [version], down [steps] or status`);
+  }
+
+  const connectionString = process.env.DATABASE_URL;
+  if (!connectionString) throw new Error('DATABASE_URL is not set');
+
+  const migrations = loadMigrations();
+  const client = new Client({ connectionString });
+  await client.connect();
+
+  try {
+    // Two runners at once would race on the same versions
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_ID]);
+    await ensureMigrationsTable(client);
+
+    if (command === 'up') await migrateUp(client, migrations, parseCount(arg, 'the target version'));
+    else if (command === 'down') await migrateDown(client, migrations, parseCount(arg, 'the number of steps') ?? 1);
+    else await printStatus(client, migrations);
+  } finally {
+    await client.end(); // also releases the advisory lock
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
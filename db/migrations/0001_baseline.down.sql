@@ -0,0 +1,16 @@
+-- 0001 BASELINE (down)
+-- Removes every app object. This deletes all app data; auth.users is left alone.
+
+DROP FUNCTION IF EXISTS calendar_feed(UUID);
+
+DROP TABLE IF EXISTS focus_runs;
+DROP TABLE IF EXISTS plan_tasks;
+DROP TABLE IF EXISTS day_plans;
+DROP TABLE IF EXISTS reports;
+DROP TABLE IF EXISTS tasks;
+DROP TABLE IF EXISTS sessions;
+DROP TABLE IF EXISTS session_templates;
+DROP TABLE IF EXISTS schedules;
+DROP TABLE IF EXISTS users;
+
+DROP TYPE IF EXISTS energy_level;
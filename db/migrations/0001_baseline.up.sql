@@ -0,0 +1,352 @@
+-- 0001 BASELINE
+-- The schema as it stood before versioned migrations (db/schema.sql plus
+-- db/indexes.sql). Every statement is idempotent, so databases that were set
+-- up from those scripts can apply this version without changes.
+
+-- ENERGY LEVEL ENUM
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'energy_level') THEN
+    CREATE TYPE energy_level AS ENUM ('High', 'Medium', 'Low');
+  END IF;
+END$$;
+
+
+-- USERS TABLE
+CREATE TABLE IF NOT EXISTS users (
+  id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  username TEXT,
+  calendar_token UUID UNIQUE, -- secret for the .ics feed; NULL until first requested
+  time_zone TEXT, -- IANA name, e.g. 'Europe/Berlin'; NULL until the first signed-in visit
+  email TEXT, -- contact address for reports; the sign-in address lives in auth.users
+  default_wake_time TIME, -- prefilled into new weekday schedules
+  default_sleep_time TIME,
+  ai_personalization BOOLEAN NOT NULL DEFAULT TRUE, -- FALSE keeps insights rule-based (no OpenAI calls)
+  notification_preferences JSONB NOT NULL DEFAULT '{"sound_notifications": true, "visual_alerts": true, "email_reports": false, "weekly_digest": true}',
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS calendar_token UUID UNIQUE;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS time_zone TEXT;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS email TEXT;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS default_wake_time TIME;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS default_sleep_time TIME;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS ai_personalization BOOLEAN NOT NULL DEFAULT TRUE;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS notification_preferences JSONB NOT NULL DEFAULT '{"sound_notifications": true, "visual_alerts": true, "email_reports": false, "weekly_digest": true}';
+
+-- SCHEDULE TABLE
+CREATE TABLE IF NOT EXISTS schedules (
+  id SERIAL PRIMARY KEY,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  day_of_week TEXT CHECK (
+    day_of_week IN ('Monday','Tuesday','Wednesday','Thursday','Friday','Saturday','Sunday')
+  ) NOT NULL,
+  sleep_time TIME,
+  wake_time TIME,
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (user_id, day_of_week)
+);
+
+
+-- SESSION TEMPLATE
+-- Block windows belong to one weekday schedule, so each day can differ.
+-- A day is an ordered list of blocks; energy_type is the block's rating and
+-- several blocks may share one (e.g. two High blocks around lunch)
+CREATE TABLE IF NOT EXISTS session_templates (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  schedule_id INT REFERENCES schedules(id) ON DELETE CASCADE,
+  label TEXT NOT NULL,
+  position SMALLINT NOT NULL DEFAULT 0,
+  energy_type energy_level NOT NULL,
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (schedule_id, position)
+);
+
+-- Upgrade from per-user windows: give every schedule its own copy of the
+-- templates its sessions were sharing, then re-key the unique constraint
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'session_templates' AND column_name = 'schedule_id'
+  ) THEN
+    ALTER TABLE session_templates ADD COLUMN schedule_id INT REFERENCES schedules(id) ON DELETE CASCADE;
+    ALTER TABLE session_templates DROP CONSTRAINT IF EXISTS session_templates_user_id_energy_type_key;
+
+    INSERT INTO session_templates (user_id, schedule_id, energy_type, start_time, end_time)
+      SELECT t.user_id, s.schedule_id, t.energy_type, t.start_time, t.end_time
+      FROM sessions s
+      JOIN session_templates t ON t.id = s.template_id;
+
+    UPDATE sessions s
+      SET template_id = copy.id
+      FROM session_templates shared, session_templates copy
+      WHERE shared.id = s.template_id
+        AND copy.schedule_id = s.schedule_id
+        AND copy.energy_type = shared.energy_type;
+
+    DELETE FROM session_templates WHERE schedule_id IS NULL;
+    ALTER TABLE session_templates ADD CONSTRAINT session_templates_schedule_id_energy_type_key UNIQUE (schedule_id, energy_type);
+  END IF;
+END$$;
+
+-- Upgrade from fixed High/Medium/Low blocks: label and order the existing ones
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'session_templates' AND column_name = 'position'
+  ) THEN
+    ALTER TABLE session_templates ADD COLUMN label TEXT;
+    ALTER TABLE session_templates ADD COLUMN position SMALLINT NOT NULL DEFAULT 0;
+
+    UPDATE session_templates
+      SET label = energy_type::TEXT || ' Energy',
+          position = CASE energy_type WHEN 'High' THEN 0 WHEN 'Medium' THEN 1 ELSE 2 END;
+
+    ALTER TABLE session_templates ALTER COLUMN label SET NOT NULL;
+    ALTER TABLE session_templates DROP CONSTRAINT IF EXISTS session_templates_schedule_id_energy_type_key;
+    ALTER TABLE session_templates ADD CONSTRAINT session_templates_schedule_id_position_key UNIQUE (schedule_id, position);
+  END IF;
+END$$;
+
+
+-- SESSION TABLE
+CREATE TABLE IF NOT EXISTS sessions (
+  id SERIAL PRIMARY KEY,
+  schedule_id INT REFERENCES schedules(id) ON DELETE CASCADE,
+  template_id INT REFERENCES session_templates(id) ON DELETE CASCADE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (schedule_id, template_id)
+);
+
+
+-- TASKS TABLE
+CREATE TABLE IF NOT EXISTS tasks (
+  id SERIAL PRIMARY KEY,
+  session_id INT REFERENCES sessions(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  duration_minutes INT CHECK (duration_minutes > 0),
+  status TEXT CHECK (status IN ('active','completed','skipped')) DEFAULT 'active',
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+
+-- REPORTS TABLE
+CREATE TABLE IF NOT EXISTS reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  report_date DATE NOT NULL DEFAULT current_date,
+  total_focus_seconds INTEGER DEFAULT 0,
+  most_productive_block energy_level,
+  most_paused_block energy_level,
+  ai_recommendation TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+
+-- FOCUS RUNS TABLE
+-- Append-only log of timer events; focus time is derived by pairing
+-- start/resume with the next pause/stop for the same task and date.
+CREATE TABLE IF NOT EXISTS focus_runs (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  task_id INT REFERENCES tasks(id) ON DELETE SET NULL,
+  energy_type energy_level,
+  run_date DATE NOT NULL DEFAULT current_date,
+  event TEXT CHECK (event IN ('start','pause','resume','stop')) NOT NULL,
+  occurred_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+
+-- DAY PLANS TABLE
+-- A dated instance of a weekday schedule. The schedule row is the blueprint;
+-- each plan keeps its own copy of the tasks so history survives edits.
+CREATE TABLE IF NOT EXISTS day_plans (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  schedule_id INT REFERENCES schedules(id) ON DELETE SET NULL,
+  plan_date DATE NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (user_id, plan_date)
+);
+
+
+-- PLAN TASKS TABLE
+CREATE TABLE IF NOT EXISTS plan_tasks (
+  id SERIAL PRIMARY KEY,
+  plan_id INT NOT NULL REFERENCES day_plans(id) ON DELETE CASCADE,
+  session_id INT REFERENCES sessions(id) ON DELETE SET NULL,
+  task_id INT REFERENCES tasks(id) ON DELETE SET NULL,
+  energy_type energy_level,
+  name TEXT NOT NULL,
+  description TEXT,
+  duration_minutes INT CHECK (duration_minutes > 0),
+  status TEXT CHECK (status IN ('active','completed','skipped')) DEFAULT 'active',
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (plan_id, task_id)
+);
+
+ALTER TABLE focus_runs ADD COLUMN IF NOT EXISTS plan_task_id INT REFERENCES plan_tasks(id) ON DELETE SET NULL;
+
+
+-- CALENDAR FEED
+-- Calendar clients subscribe by URL and cannot send a session, so the feed is
+-- read through this function by secret token instead of through RLS.
+CREATE OR REPLACE FUNCTION calendar_feed(p_token UUID)
+RETURNS TABLE (
+  template_id INT,
+  day_of_week TEXT,
+  label TEXT,
+  "position" SMALLINT,
+  energy_type energy_level,
+  start_time TIME,
+  end_time TIME,
+  tasks JSONB
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    t.id,
+    sc.day_of_week,
+    t.label,
+    t.position,
+    t.energy_type,
+    t.start_time,
+    t.end_time,
+    COALESCE(
+      (SELECT jsonb_agg(jsonb_build_object('name', k.name, 'duration_minutes', k.duration_minutes) ORDER BY k.id)
+       FROM tasks k
+       WHERE k.session_id = se.id),
+      '[]'::jsonb
+    )
+  FROM users u
+  JOIN schedules sc ON sc.user_id = u.id
+  JOIN sessions se ON se.schedule_id = sc.id
+  JOIN session_templates t ON t.id = se.template_id
+  WHERE p_token IS NOT NULL AND u.calendar_token = p_token
+  ORDER BY sc.day_of_week, t.position;
+$$;
+
+GRANT EXECUTE ON FUNCTION calendar_feed(UUID) TO anon, authenticated;
+
+
+-- ROW LEVEL SECURITY
+-- Every table is private to its owner. The API calls Supabase with the
+-- signed-in user's token, so these policies are what keep one user's rows
+-- away from another. sessions, tasks and plan_tasks have no user_id of their
+-- own and are owned through their parent rows. Policies are dropped and
+-- recreated so re-running this file picks up changes.
+ALTER TABLE users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE session_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tasks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE focus_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE day_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE plan_tasks ENABLE ROW LEVEL SECURITY;
+
+-- Profiles can be read, created and edited by their owner only; deleting
+-- happens through auth.users ON DELETE CASCADE
+DROP POLICY IF EXISTS users_select_own ON users;
+CREATE POLICY users_select_own ON users
+  FOR SELECT TO authenticated
+  USING (id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS users_insert_own ON users;
+CREATE POLICY users_insert_own ON users
+  FOR INSERT TO authenticated
+  WITH CHECK (id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS users_update_own ON users;
+CREATE POLICY users_update_own ON users
+  FOR UPDATE TO authenticated
+  USING (id = (SELECT auth.uid()))
+  WITH CHECK (id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS schedules_owner ON schedules;
+CREATE POLICY schedules_owner ON schedules
+  FOR ALL TO authenticated
+  USING (user_id = (SELECT auth.uid()))
+  WITH CHECK (user_id = (SELECT auth.uid()));
+
+-- A template must also hang off one of the owner's own schedules
+DROP POLICY IF EXISTS session_templates_owner ON session_templates;
+CREATE POLICY session_templates_owner ON session_templates
+  FOR ALL TO authenticated
+  USING (user_id = (SELECT auth.uid()))
+  WITH CHECK (
+    user_id = (SELECT auth.uid())
+    AND (
+      schedule_id IS NULL
+      OR EXISTS (SELECT 1 FROM schedules sc WHERE sc.id = schedule_id AND sc.user_id = (SELECT auth.uid()))
+    )
+  );
+
+-- Sessions are owned through their schedule; the template must be the owner's too
+DROP POLICY IF EXISTS sessions_owner ON sessions;
+CREATE POLICY sessions_owner ON sessions
+  FOR ALL TO authenticated
+  USING (EXISTS (SELECT 1 FROM schedules sc WHERE sc.id = schedule_id AND sc.user_id = (SELECT auth.uid())))
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM schedules sc WHERE sc.id = schedule_id AND sc.user_id = (SELECT auth.uid()))
+    AND (
+      template_id IS NULL
+      OR EXISTS (SELECT 1 FROM session_templates t WHERE t.id = template_id AND t.user_id = (SELECT auth.uid()))
+    )
+  );
+
+-- Tasks are owned through session -> schedule
+DROP POLICY IF EXISTS tasks_owner ON tasks;
+CREATE POLICY tasks_owner ON tasks
+  FOR ALL TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM sessions se JOIN schedules sc ON sc.id = se.schedule_id
+    WHERE se.id = session_id AND sc.user_id = (SELECT auth.uid())
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM sessions se JOIN schedules sc ON sc.id = se.schedule_id
+    WHERE se.id = session_id AND sc.user_id = (SELECT auth.uid())
+  ));
+
+DROP POLICY IF EXISTS reports_owner ON reports;
+CREATE POLICY reports_owner ON reports
+  FOR ALL TO authenticated
+  USING (user_id = (SELECT auth.uid()))
+  WITH CHECK (user_id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS focus_runs_owner ON focus_runs;
+CREATE POLICY focus_runs_owner ON focus_runs
+  FOR ALL TO authenticated
+  USING (user_id = (SELECT auth.uid()))
+  WITH CHECK (user_id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS day_plans_owner ON day_plans;
+CREATE POLICY day_plans_owner ON day_plans
+  FOR ALL TO authenticated
+  USING (user_id = (SELECT auth.uid()))
+  WITH CHECK (user_id = (SELECT auth.uid()));
+
+-- Plan tasks are owned through their dated plan
+DROP POLICY IF EXISTS plan_tasks_owner ON plan_tasks;
+CREATE POLICY plan_tasks_owner ON plan_tasks
+  FOR ALL TO authenticated
+  USING (EXISTS (SELECT 1 FROM day_plans dp WHERE dp.id = plan_id AND dp.user_id = (SELECT auth.uid())))
+  WITH CHECK (EXISTS (SELECT 1 FROM day_plans dp WHERE dp.id = plan_id AND dp.user_id = (SELECT auth.uid())));
+
+
+-- INDEXES
+create index if not exists idx_schedules_user_day on schedules(user_id, day_of_week);
+create index if not exists idx_sessions_schedule_id on sessions(schedule_id);
+create index if not exists idx_templates_user_energy on session_templates(user_id, energy_type);
+create index if not exists idx_tasks_session_id on tasks(session_id);
+create index if not exists idx_focus_runs_user_date on focus_runs(user_id, run_date);
+create index if not exists idx_plan_tasks_plan_id on plan_tasks(plan_id);
@@ -0,0 +1,3 @@
+-- 0002 SAVE WEEK SCHEDULE (down)
+
+DROP FUNCTION IF EXISTS save_week_schedule(JSONB);
@@ -0,0 +1,95 @@
+-- 0003 TASK CLIENT KEYS (down)
+-- Restores the 0002 save_week_schedule and drops the column. Tasks removed as
+-- duplicates are not brought back.
+
+-- SAVE WEEK SCHEDULE, as of 0002
+-- Writes several weekday schedules, their blocks and new blueprint tasks in a
+-- single transaction, so the wizard never leaves a half-saved week behind.
+-- Runs as the caller (RLS applies) and always saves for auth.uid().
+-- Blocks are matched by position; blocks past the last one sent are removed.
+-- Returns one entry per day with the schedule, session and task ids written.
+CREATE OR REPLACE FUNCTION save_week_schedule(p_days JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user UUID := auth.uid();
+  v_day JSONB;
+  v_block JSONB;
+  v_task JSONB;
+  v_position INT;
+  v_schedule_id INT;
+  v_template_id INT;
+  v_session_id INT;
+  v_task_id INT;
+  v_session_ids INT[];
+  v_task_ids INT[];
+  v_result JSONB := '[]'::jsonb;
+BEGIN
+  IF v_user IS NULL THEN
+    RAISE EXCEPTION 'save_week_schedule requires a signed-in user' USING ERRCODE = '28000';
+  END IF;
+
+  FOR v_day IN SELECT value FROM jsonb_array_elements(p_days) LOOP
+    INSERT INTO schedules (user_id, day_of_week, sleep_time, wake_time)
+    VALUES (v_user, v_day->>'day_of_week', (v_day->>'sleep_time')::TIME, (v_day->>'wake_time')::TIME)
+    ON CONFLICT (user_id, day_of_week) DO UPDATE
+      SET sleep_time = EXCLUDED.sleep_time, wake_time = EXCLUDED.wake_time
+    RETURNING id INTO v_schedule_id;
+
+    v_session_ids := '{}';
+    v_task_ids := '{}';
+    v_position := 0;
+    FOR v_block IN SELECT value FROM jsonb_array_elements(v_day->'sessions') LOOP
+      INSERT INTO session_templates (user_id, schedule_id, label, position, energy_type, start_time, end_time)
+      VALUES (
+        v_user,
+        v_schedule_id,
+        COALESCE(NULLIF(v_block->>'label', ''), (v_block->>'energy_type') || ' Energy'),
+        v_position,
+        (v_block->>'energy_type')::energy_level,
+        (v_block->>'start_time')::TIME,
+        (v_block->>'end_time')::TIME
+      )
+      ON CONFLICT (schedule_id, position) DO UPDATE
+        SET label = EXCLUDED.label,
+            energy_type = EXCLUDED.energy_type,
+            start_time = EXCLUDED.start_time,
+            end_time = EXCLUDED.end_time
+      RETURNING id INTO v_template_id;
+
+      -- The no-op update makes RETURNING yield the existing session's id
+      INSERT INTO sessions (schedule_id, template_id)
+      VALUES (v_schedule_id, v_template_id)
+      ON CONFLICT (schedule_id, template_id) DO UPDATE SET template_id = EXCLUDED.template_id
+      RETURNING id INTO v_session_id;
+      v_session_ids := v_session_ids || v_session_id;
+
+      FOR v_task IN SELECT value FROM jsonb_array_elements(COALESCE(v_block->'tasks', '[]'::jsonb)) LOOP
+        INSERT INTO tasks (session_id, name, description, duration_minutes)
+        VALUES (v_session_id, v_task->>'name', v_task->>'description', (v_task->>'duration_minutes')::INT)
+        RETURNING id INTO v_task_id;
+        v_task_ids := v_task_ids || v_task_id;
+      END LOOP;
+
+      v_position := v_position + 1;
+    END LOOP;
+
+    -- Their sessions and blueprint tasks go with them (ON DELETE CASCADE)
+    DELETE FROM session_templates WHERE schedule_id = v_schedule_id AND position >= v_position;
+
+    v_result := v_result || jsonb_build_array(jsonb_build_object(
+      'day_of_week', v_day->>'day_of_week',
+      'schedule_id', v_schedule_id,
+      'session_ids', to_jsonb(v_session_ids),
+      'task_ids', to_jsonb(v_task_ids)
+    ));
+  END LOOP;
+
+  RETURN v_result;
+END$$;
+
+ALTER TABLE tasks DROP CONSTRAINT IF EXISTS tasks_session_id_client_key_key;
+ALTER TABLE tasks DROP COLUMN IF EXISTS client_key;
@@ -0,0 +1,3 @@
+-- 0006 INBOX (down)
+
+DROP TABLE IF EXISTS inbox_tasks;
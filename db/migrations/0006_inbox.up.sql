@@ -0,0 +1,26 @@
+-- 0006 INBOX
+-- A per-user list of tasks that are not scheduled yet, each tagged with the
+-- energy it needs, until it is moved into a weekday block.
+
+CREATE TABLE IF NOT EXISTS inbox_tasks (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  duration_minutes INT CHECK (duration_minutes > 0),
+  energy_type energy_level, -- energy the task needs; NULL fits any block
+  priority TEXT NOT NULL DEFAULT 'normal' CHECK (priority IN ('high','normal','low')),
+  checklist JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(checklist) = 'array'),
+  plan_task_id INT UNIQUE REFERENCES plan_tasks(id) ON DELETE SET NULL, -- unfinished dated task it rolled back from
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+create index if not exists idx_inbox_tasks_user_id on inbox_tasks(user_id);
+
+ALTER TABLE inbox_tasks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS inbox_tasks_owner ON inbox_tasks;
+CREATE POLICY inbox_tasks_owner ON inbox_tasks
+  FOR ALL TO authenticated
+  USING (user_id = (SELECT auth.uid()))
+  WITH CHECK (user_id = (SELECT auth.uid()));
@@ -0,0 +1,6 @@
+-- 0007 CARRY-OVER (down)
+
+ALTER TABLE plan_tasks DROP COLUMN IF EXISTS carried_from_id;
+ALTER TABLE plan_tasks DROP COLUMN IF EXISTS deferral_count;
+
+ALTER TABLE users DROP COLUMN IF EXISTS auto_carry_over;
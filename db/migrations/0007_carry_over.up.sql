@@ -0,0 +1,9 @@
+-- 0007 CARRY-OVER
+-- Unfinished plan tasks can be carried to a later block or to the next day.
+-- Each carried copy remembers the task it came from and how many times the
+-- task has been put off; users choose whether that happens automatically.
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS auto_carry_over BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE plan_tasks ADD COLUMN IF NOT EXISTS deferral_count SMALLINT NOT NULL DEFAULT 0 CHECK (deferral_count >= 0);
+ALTER TABLE plan_tasks ADD COLUMN IF NOT EXISTS carried_from_id INT UNIQUE REFERENCES plan_tasks(id) ON DELETE SET NULL;
@@ -0,0 +1,5 @@
+-- 0008 RECURRING TASKS (down)
+
+ALTER TABLE plan_tasks DROP COLUMN IF EXISTS recurring_task_id;
+
+DROP TABLE IF EXISTS recurring_tasks;
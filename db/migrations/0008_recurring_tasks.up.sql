@@ -0,0 +1,33 @@
+-- 0008 RECURRING TASKS
+-- Tasks that recur by rule (some weekdays every n weeks, the nth weekday of
+-- the month, or n times a week on any day). Each day plan gets an occurrence
+-- of every recurring task that comes up that day.
+
+CREATE TABLE IF NOT EXISTS recurring_tasks (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  duration_minutes INT CHECK (duration_minutes > 0),
+  energy_type energy_level, -- block the occurrences go into; NULL takes the day's first block
+  priority TEXT NOT NULL DEFAULT 'normal' CHECK (priority IN ('high','normal','low')),
+  checklist JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(checklist) = 'array'),
+  rule JSONB NOT NULL CHECK (rule->>'kind' IN ('weekly','monthly','times_per_week')), -- validated by the API
+  starts_on DATE NOT NULL,
+  ends_on DATE CHECK (ends_on >= starts_on),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+create index if not exists idx_recurring_tasks_user_id on recurring_tasks(user_id);
+
+ALTER TABLE plan_tasks ADD COLUMN IF NOT EXISTS recurring_task_id INT REFERENCES recurring_tasks(id) ON DELETE SET NULL;
+-- One occurrence per recurring task and day
+CREATE UNIQUE INDEX IF NOT EXISTS plan_tasks_plan_id_recurring_task_id_key ON plan_tasks(plan_id, recurring_task_id);
+
+ALTER TABLE recurring_tasks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS recurring_tasks_owner ON recurring_tasks;
+CREATE POLICY recurring_tasks_owner ON recurring_tasks
+  FOR ALL TO authenticated
+  USING (user_id = (SELECT auth.uid()))
+  WITH CHECK (user_id = (SELECT auth.uid()));
@@ -0,0 +1,6 @@
+-- 0009 TIMER MODES (down)
+
+ALTER TABLE focus_runs DROP COLUMN IF EXISTS interval_kind;
+
+ALTER TABLE users DROP COLUMN IF EXISTS pomodoro_settings;
+ALTER TABLE users DROP COLUMN IF EXISTS timer_mode;
@@ -0,0 +1,13 @@
+-- 0009 TIMER MODES
+-- The focus timer can count down the whole block, run Pomodoro or 52/17
+-- work/break intervals, or give each task its estimated duration. The user's
+-- choice and Pomodoro lengths live on the users row, and the focus log marks
+-- break intervals so they are not counted as focus time.
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS timer_mode TEXT NOT NULL DEFAULT 'block'
+  CHECK (timer_mode IN ('block','pomodoro','52_17','task'));
+ALTER TABLE users ADD COLUMN IF NOT EXISTS pomodoro_settings JSONB NOT NULL
+  DEFAULT '{"work_minutes": 25, "short_break_minutes": 5, "long_break_minutes": 15, "cycles": 4}';
+
+ALTER TABLE focus_runs ADD COLUMN IF NOT EXISTS interval_kind TEXT NOT NULL DEFAULT 'work'
+  CHECK (interval_kind IN ('work','break'));
@@ -0,0 +1,3 @@
+-- 0010 BREAK PROMPTS (down)
+
+DROP TABLE IF EXISTS break_prompts;
@@ -0,0 +1,26 @@
+-- 0010 BREAK PROMPTS
+-- The home page proposes breaks from the active block's energy and the focus
+-- time logged since the last rest. Each prompt the user answers is recorded
+-- with whether the break was taken, and answered prompts restart the count.
+
+CREATE TABLE IF NOT EXISTS break_prompts (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  session_id INT REFERENCES sessions(id) ON DELETE SET NULL, -- block the break was proposed in
+  energy_type energy_level NOT NULL,
+  run_date DATE NOT NULL,
+  due_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  minutes INT NOT NULL CHECK (minutes > 0), -- proposed length
+  taken BOOLEAN NOT NULL,
+  answered_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+create index if not exists idx_break_prompts_user_date on break_prompts(user_id, run_date);
+
+ALTER TABLE break_prompts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS break_prompts_owner ON break_prompts;
+CREATE POLICY break_prompts_owner ON break_prompts
+  FOR ALL TO authenticated
+  USING (user_id = (SELECT auth.uid()))
+  WITH CHECK (user_id = (SELECT auth.uid()));
@@ -0,0 +1,3 @@
+-- 0011 TIMER STATES (down)
+
+DROP TABLE IF EXISTS timer_states;
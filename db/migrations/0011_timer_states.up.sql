@@ -0,0 +1,25 @@
+-- 0011 TIMER STATES
+-- The running focus timer is kept server-side, one row per user, so a reload,
+-- a second tab or another device picks up the same interval. Only timestamps
+-- are stored; clients work out the time remaining from them.
+
+CREATE TABLE IF NOT EXISTS timer_states (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  plan_task_id INT REFERENCES plan_tasks(id) ON DELETE SET NULL, -- task being worked on
+  run_date DATE NOT NULL,
+  timer_interval TEXT NOT NULL DEFAULT 'work' CHECK (timer_interval IN ('work','short_break','long_break')),
+  work_intervals_done SMALLINT NOT NULL DEFAULT 0 CHECK (work_intervals_done >= 0), -- in the block, for Pomodoro long breaks
+  duration_seconds INT NOT NULL CHECK (duration_seconds >= 0), -- full length of the interval
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  paused_at TIMESTAMP WITH TIME ZONE, -- set while paused
+  paused_seconds INT NOT NULL DEFAULT 0 CHECK (paused_seconds >= 0), -- earlier pauses of this interval
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE timer_states ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS timer_states_owner ON timer_states;
+CREATE POLICY timer_states_owner ON timer_states
+  FOR ALL TO authenticated
+  USING (user_id = (SELECT auth.uid()))
+  WITH CHECK (user_id = (SELECT auth.uid()));
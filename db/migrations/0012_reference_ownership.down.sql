@@ -0,0 +1,32 @@
+-- 0012 REFERENCE OWNERSHIP (down)
+
+-- Plan tasks are owned through their dated plan
+DROP POLICY IF EXISTS plan_tasks_owner ON plan_tasks;
+CREATE POLICY plan_tasks_owner ON plan_tasks
+  FOR ALL TO authenticated
+  USING (EXISTS (SELECT 1 FROM day_plans dp WHERE dp.id = plan_id AND dp.user_id = (SELECT auth.uid())))
+  WITH CHECK (EXISTS (SELECT 1 FROM day_plans dp WHERE dp.id = plan_id AND dp.user_id = (SELECT auth.uid())));
+
+DROP POLICY IF EXISTS inbox_tasks_owner ON inbox_tasks;
+CREATE POLICY inbox_tasks_owner ON inbox_tasks
+  FOR ALL TO authenticated
+  USING (user_id = (SELECT auth.uid()))
+  WITH CHECK (user_id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS focus_runs_owner ON focus_runs;
+CREATE POLICY focus_runs_owner ON focus_runs
+  FOR ALL TO authenticated
+  USING (user_id = (SELECT auth.uid()))
+  WITH CHECK (user_id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS break_prompts_owner ON break_prompts;
+CREATE POLICY break_prompts_owner ON break_prompts
+  FOR ALL TO authenticated
+  USING (user_id = (SELECT auth.uid()))
+  WITH CHECK (user_id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS timer_states_owner ON timer_states;
+CREATE POLICY timer_states_owner ON timer_states
+  FOR ALL TO authenticated
+  USING (user_id = (SELECT auth.uid()))
+  WITH CHECK (user_id = (SELECT auth.uid()));
@@ -0,0 +1,103 @@
+-- 0012 REFERENCE OWNERSHIP
+-- Rows that point at a block, task or plan task may only point at the
+-- signed-in user's own. Before this the policies only checked user_id, so a
+-- user could attach focus time, breaks or a timer to someone else's rows.
+
+-- Plan tasks are owned through their dated plan; the block, blueprint task
+-- and recurring task they copy must be the owner's too
+DROP POLICY IF EXISTS plan_tasks_owner ON plan_tasks;
+CREATE POLICY plan_tasks_owner ON plan_tasks
+  FOR ALL TO authenticated
+  USING (EXISTS (SELECT 1 FROM day_plans dp WHERE dp.id = plan_id AND dp.user_id = (SELECT auth.uid())))
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM day_plans dp WHERE dp.id = plan_id AND dp.user_id = (SELECT auth.uid()))
+    AND (
+      plan_tasks.session_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM sessions se JOIN schedules sc ON sc.id = se.schedule_id
+        WHERE se.id = plan_tasks.session_id AND sc.user_id = (SELECT auth.uid())
+      )
+    )
+    AND (
+      plan_tasks.task_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM tasks t JOIN sessions se ON se.id = t.session_id JOIN schedules sc ON sc.id = se.schedule_id
+        WHERE t.id = plan_tasks.task_id AND sc.user_id = (SELECT auth.uid())
+      )
+    )
+    AND (
+      plan_tasks.recurring_task_id IS NULL
+      OR EXISTS (SELECT 1 FROM recurring_tasks r WHERE r.id = plan_tasks.recurring_task_id AND r.user_id = (SELECT auth.uid()))
+    )
+  );
+
+-- An inbox task can only roll back from one of the owner's plan tasks
+DROP POLICY IF EXISTS inbox_tasks_owner ON inbox_tasks;
+CREATE POLICY inbox_tasks_owner ON inbox_tasks
+  FOR ALL TO authenticated
+  USING (user_id = (SELECT auth.uid()))
+  WITH CHECK (
+    user_id = (SELECT auth.uid())
+    AND (
+      inbox_tasks.plan_task_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM plan_tasks pt JOIN day_plans dp ON dp.id = pt.plan_id
+        WHERE pt.id = inbox_tasks.plan_task_id AND dp.user_id = (SELECT auth.uid())
+      )
+    )
+  );
+
+-- Focus time can only be logged against the owner's own tasks
+DROP POLICY IF EXISTS focus_runs_owner ON focus_runs;
+CREATE POLICY focus_runs_owner ON focus_runs
+  FOR ALL TO authenticated
+  USING (user_id = (SELECT auth.uid()))
+  WITH CHECK (
+    user_id = (SELECT auth.uid())
+    AND (
+      focus_runs.task_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM tasks t JOIN sessions se ON se.id = t.session_id JOIN schedules sc ON sc.id = se.schedule_id
+        WHERE t.id = focus_runs.task_id AND sc.user_id = (SELECT auth.uid())
+      )
+    )
+    AND (
+      focus_runs.plan_task_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM plan_tasks pt JOIN day_plans dp ON dp.id = pt.plan_id
+        WHERE pt.id = focus_runs.plan_task_id AND dp.user_id = (SELECT auth.uid())
+      )
+    )
+  );
+
+-- Breaks can only be recorded in the owner's own blocks
+DROP POLICY IF EXISTS break_prompts_owner ON break_prompts;
+CREATE POLICY break_prompts_owner ON break_prompts
+  FOR ALL TO authenticated
+  USING (user_id = (SELECT auth.uid()))
+  WITH CHECK (
+    user_id = (SELECT auth.uid())
+    AND (
+      break_prompts.session_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM sessions se JOIN schedules sc ON sc.id = se.schedule_id
+        WHERE se.id = break_prompts.session_id AND sc.user_id = (SELECT auth.uid())
+      )
+    )
+  );
+
+-- The timer can only run on one of the owner's plan tasks
+DROP POLICY IF EXISTS timer_states_owner ON timer_states;
+CREATE POLICY timer_states_owner ON timer_states
+  FOR ALL TO authenticated
+  USING (user_id = (SELECT auth.uid()))
+  WITH CHECK (
+    user_id = (SELECT auth.uid())
+    AND (
+      timer_states.plan_task_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM plan_tasks pt JOIN day_plans dp ON dp.id = pt.plan_id
+        WHERE pt.id = timer_states.plan_task_id AND dp.user_id = (SELECT auth.uid())
+      )
+    )
+  );
@@ -0,0 +1,5 @@
+-- 0013 RECURRING SERIES (down)
+
+ALTER TABLE recurring_tasks DROP COLUMN IF EXISTS series_id;
+ALTER TABLE recurring_tasks DROP CONSTRAINT IF EXISTS recurring_tasks_id_user_id_key;
+ALTER TABLE recurring_tasks DROP COLUMN IF EXISTS anchor_date;
@@ -0,0 +1,13 @@
+-- 0013 RECURRING SERIES
+-- Editing a recurring task from a later day ends it and a copy takes over.
+-- The copy keeps the first task's week anchor, so every-n-weeks rules stay on
+-- their weeks, and its series, so 'times_per_week' completions earlier in the
+-- week still count toward the quota.
+
+ALTER TABLE recurring_tasks ADD COLUMN IF NOT EXISTS anchor_date DATE CHECK (anchor_date <= starts_on); -- NULL counts weeks from starts_on
+
+-- Keyed with user_id so a copy can only continue one of the owner's own tasks
+ALTER TABLE recurring_tasks ADD CONSTRAINT recurring_tasks_id_user_id_key UNIQUE (id, user_id);
+ALTER TABLE recurring_tasks ADD COLUMN IF NOT EXISTS series_id INT;
+ALTER TABLE recurring_tasks ADD CONSTRAINT recurring_tasks_series_id_fkey
+  FOREIGN KEY (series_id, user_id) REFERENCES recurring_tasks(id, user_id) ON DELETE SET NULL (series_id);
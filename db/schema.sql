@@ -1,4 +1,8 @@
-- ENERGY LEVEL ENUM
+-- Full current schema, for a fresh Supabase project (paste into the SQL editor).
+-- Every change also ships as a numbered migration in db/migrations so existing
+-- databases can be upgraded with `npm run db:migrate`; keep the two in step.
+
+-- ENERGY LEVEL ENUM
 DO $$
 BEGIN
   IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'energy_level') THEN
@@ -11,9 +15,30 @@ END$$;
 CREATE TABLE IF NOT EXISTS users (
   id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
   username TEXT,
+  calendar_token UUID UNIQUE, -- secret for the .ics feed; NULL until first requested
+  time_zone TEXT, -- IANA name, e.g. 'Europe/Berlin'; NULL until the first signed-in visit
+  email TEXT, -- contact address for reports; the sign-in address lives in auth.users
+  default_wake_time TIME, -- prefilled into new weekday schedules
+  default_sleep_time TIME,
+  ai_personalization BOOLEAN NOT NULL DEFAULT TRUE, -- FALSE keeps insights rule-based (no OpenAI calls)
+  auto_carry_over BOOLEAN NOT NULL DEFAULT FALSE, -- TRUE carries unfinished tasks on without asking
+  timer_mode TEXT NOT NULL DEFAULT 'block' CHECK (timer_mode IN ('block','pomodoro','52_17','task')), -- how the focus timer splits a block
+  pomodoro_settings JSONB NOT NULL DEFAULT '{"work_minutes": 25, "short_break_minutes": 5, "long_break_minutes": 15, "cycles": 4}',
+  notification_preferences JSONB NOT NULL DEFAULT '{"sound_notifications": true, "visual_alerts": true, "email_reports": false, "weekly_digest": true}',
   created_at TIMESTAMP DEFAULT NOW()
 );
 
+ALTER TABLE users ADD COLUMN IF NOT EXISTS calendar_token UUID UNIQUE;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS time_zone TEXT;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS email TEXT;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS default_wake_time TIME;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS default_sleep_time TIME;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS ai_personalization BOOLEAN NOT NULL DEFAULT TRUE;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS auto_carry_over BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS timer_mode TEXT NOT NULL DEFAULT 'block' CHECK (timer_mode IN ('block','pomodoro','52_17','task'));
+ALTER TABLE users ADD COLUMN IF NOT EXISTS pomodoro_settings JSONB NOT NULL DEFAULT '{"work_minutes": 25, "short_break_minutes": 5, "long_break_minutes": 15, "cycles": 4}';
+ALTER TABLE users ADD COLUMN IF NOT EXISTS notification_preferences JSONB NOT NULL DEFAULT '{"sound_notifications": true, "visual_alerts": true, "email_reports": false, "weekly_digest": true}';
+
 -- SCHEDULE TABLE
 CREATE TABLE IF NOT EXISTS schedules (
   id SERIAL PRIMARY KEY,
@@ -29,16 +54,70 @@ CREATE TABLE IF NOT EXISTS schedules (
 
 
 -- SESSION TEMPLATE
+-- Block windows belong to one weekday schedule, so each day can differ.
+-- A day is an ordered list of blocks; energy_type is the block's rating and
+-- several blocks may share one (e.g. two High blocks around lunch)
 CREATE TABLE IF NOT EXISTS session_templates (
   id SERIAL PRIMARY KEY,
   user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  schedule_id INT REFERENCES schedules(id) ON DELETE CASCADE,
+  label TEXT NOT NULL,
+  position SMALLINT NOT NULL DEFAULT 0,
   energy_type energy_level NOT NULL,
   start_time TIME NOT NULL,
   end_time TIME NOT NULL,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-  UNIQUE (user_id, energy_type)
+  UNIQUE (schedule_id, position)
 );
 
+-- Upgrade from per-user windows: give every schedule its own copy of the
+-- templates its sessions were sharing, then re-key the unique constraint
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'session_templates' AND column_name = 'schedule_id'
+  ) THEN
+    ALTER TABLE session_templates ADD COLUMN schedule_id INT REFERENCES schedules(id) ON DELETE CASCADE;
+    ALTER TABLE session_templates DROP CONSTRAINT IF EXISTS session_templates_user_id_energy_type_key;
+
+    INSERT INTO session_templates (user_id, schedule_id, energy_type, start_time, end_time)
+      SELECT t.user_id, s.schedule_id, t.energy_type, t.start_time, t.end_time
+      FROM sessions s
+      JOIN session_templates t ON t.id = s.template_id;
+
+    UPDATE sessions s
+      SET template_id = copy.id
+      FROM session_templates shared, session_templates copy
+      WHERE shared.id = s.template_id
+        AND copy.schedule_id = s.schedule_id
+        AND copy.energy_type = shared.energy_type;
+
+    DELETE FROM session_templates WHERE schedule_id IS NULL;
+    ALTER TABLE session_templates ADD CONSTRAINT session_templates_schedule_id_energy_type_key UNIQUE (schedule_id, energy_type);
+  END IF;
+END$$;
+
+-- Upgrade from fixed High/Medium/Low blocks: label and order the existing ones
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'session_templates' AND column_name = 'position'
+  ) THEN
+    ALTER TABLE session_templates ADD COLUMN label TEXT;
+    ALTER TABLE session_templates ADD COLUMN position SMALLINT NOT NULL DEFAULT 0;
+
+    UPDATE session_templates
+      SET label = energy_type::TEXT || ' Energy',
+          position = CASE energy_type WHEN 'High' THEN 0 WHEN 'Medium' THEN 1 ELSE 2 END;
+
+    ALTER TABLE session_templates ALTER COLUMN label SET NOT NULL;
+    ALTER TABLE session_templates DROP CONSTRAINT IF EXISTS session_templates_schedule_id_energy_type_key;
+    ALTER TABLE session_templates ADD CONSTRAINT session_templates_schedule_id_position_key UNIQUE (schedule_id, position);
+  END IF;
+END$$;
+
 
 -- SESSION TABLE
 CREATE TABLE IF NOT EXISTS sessions (
@@ -54,13 +133,44 @@ CREATE TABLE IF NOT EXISTS sessions (
 CREATE TABLE IF NOT EXISTS tasks (
   id SERIAL PRIMARY KEY,
   session_id INT REFERENCES sessions(id) ON DELETE CASCADE,
+  client_key TEXT, -- stable id chosen by the client; saving it again updates the task
   name TEXT NOT NULL,
   description TEXT,
   duration_minutes INT CHECK (duration_minutes > 0),
   status TEXT CHECK (status IN ('active','completed','skipped')) DEFAULT 'active',
-  created_at TIMESTAMP DEFAULT NOW()
+  position SMALLINT NOT NULL DEFAULT 0, -- order within the block
+  priority TEXT NOT NULL DEFAULT 'normal' CHECK (priority IN ('high','normal','low')),
+  actual_minutes INT CHECK (actual_minutes >= 0), -- focus time of the latest dated copy
+  checklist JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(checklist) = 'array'), -- [{ name, done }]
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (session_id, client_key)
 );
 
+-- Upgrade: tasks get a client_key so saving the same task again updates it
+-- instead of adding a copy. Copies made before that are removed, keeping the
+-- oldest task of each session with the same name, description and duration.
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tasks' AND column_name = 'client_key'
+  ) THEN
+    ALTER TABLE tasks ADD COLUMN client_key TEXT;
+
+    DELETE FROM tasks t
+    USING (
+      SELECT id, row_number() OVER (
+        PARTITION BY session_id, lower(btrim(name)), description, duration_minutes
+        ORDER BY id
+      ) AS copy_number
+      FROM tasks
+    ) d
+    WHERE t.id = d.id AND d.copy_number > 1;
+
+    ALTER TABLE tasks ADD CONSTRAINT tasks_session_id_client_key_key UNIQUE (session_id, client_key);
+  END IF;
+END$$;
+
 
 -- REPORTS TABLE
 CREATE TABLE IF NOT EXISTS reports (
@@ -73,3 +183,574 @@ CREATE TABLE IF NOT EXISTS reports (
   ai_recommendation TEXT,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
+
+
+-- FOCUS RUNS TABLE
+-- Append-only log of timer events; focus time is derived by pairing
+-- start/resume with the next pause/stop for the same task and date.
+CREATE TABLE IF NOT EXISTS focus_runs (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  task_id INT REFERENCES tasks(id) ON DELETE SET NULL,
+  energy_type energy_level,
+  run_date DATE NOT NULL DEFAULT current_date,
+  event TEXT CHECK (event IN ('start','pause','resume','stop')) NOT NULL,
+  occurred_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+
+-- DAY PLANS TABLE
+-- A dated instance of a weekday schedule. The schedule row is the blueprint;
+-- each plan keeps its own copy of the tasks so history survives edits.
+CREATE TABLE IF NOT EXISTS day_plans (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  schedule_id INT REFERENCES schedules(id) ON DELETE SET NULL,
+  plan_date DATE NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (user_id, plan_date)
+);
+
+
+-- PLAN TASKS TABLE
+CREATE TABLE IF NOT EXISTS plan_tasks (
+  id SERIAL PRIMARY KEY,
+  plan_id INT NOT NULL REFERENCES day_plans(id) ON DELETE CASCADE,
+  session_id INT REFERENCES sessions(id) ON DELETE SET NULL,
+  task_id INT REFERENCES tasks(id) ON DELETE SET NULL,
+  energy_type energy_level,
+  name TEXT NOT NULL,
+  description TEXT,
+  duration_minutes INT CHECK (duration_minutes > 0),
+  status TEXT CHECK (status IN ('active','completed','skipped')) DEFAULT 'active',
+  position SMALLINT NOT NULL DEFAULT 0, -- order within the block, copied from the task
+  priority TEXT NOT NULL DEFAULT 'normal' CHECK (priority IN ('high','normal','low')),
+  actual_minutes INT CHECK (actual_minutes >= 0), -- focus time recorded by the timer
+  checklist JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(checklist) = 'array'), -- copied with done reset
+  deferral_count SMALLINT NOT NULL DEFAULT 0 CHECK (deferral_count >= 0), -- times the task was carried over
+  carried_from_id INT UNIQUE REFERENCES plan_tasks(id) ON DELETE SET NULL, -- unfinished task this copy continues
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (plan_id, task_id)
+);
+
+-- Upgrade: tasks and their dated copies get an order, a priority and the
+-- focus time the timer recorded. Existing tasks keep their insertion order.
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tasks' AND column_name = 'position'
+  ) THEN
+    ALTER TABLE tasks
+      ADD COLUMN position SMALLINT NOT NULL DEFAULT 0,
+      ADD COLUMN priority TEXT NOT NULL DEFAULT 'normal' CHECK (priority IN ('high','normal','low')),
+      ADD COLUMN actual_minutes INT CHECK (actual_minutes >= 0);
+    UPDATE tasks t SET position = o.position
+    FROM (SELECT id, row_number() OVER (PARTITION BY session_id ORDER BY id) - 1 AS position FROM tasks) o
+    WHERE t.id = o.id;
+  END IF;
+
+  -- plan_tasks may already have them, if it was created after tasks was upgraded
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'plan_tasks' AND column_name = 'position'
+  ) THEN
+    ALTER TABLE plan_tasks
+      ADD COLUMN position SMALLINT NOT NULL DEFAULT 0,
+      ADD COLUMN priority TEXT NOT NULL DEFAULT 'normal' CHECK (priority IN ('high','normal','low')),
+      ADD COLUMN actual_minutes INT CHECK (actual_minutes >= 0);
+    UPDATE plan_tasks t SET position = o.position
+    FROM (SELECT id, row_number() OVER (PARTITION BY plan_id, session_id ORDER BY id) - 1 AS position FROM plan_tasks) o
+    WHERE t.id = o.id;
+  END IF;
+END$$;
+
+-- INBOX TASKS TABLE
+-- Tasks that are not scheduled yet, each tagged with the energy it needs,
+-- until they are moved into a weekday block. Unfinished plan tasks can roll
+-- back here at the end of their day.
+CREATE TABLE IF NOT EXISTS inbox_tasks (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  duration_minutes INT CHECK (duration_minutes > 0),
+  energy_type energy_level, -- energy the task needs; NULL fits any block
+  priority TEXT NOT NULL DEFAULT 'normal' CHECK (priority IN ('high','normal','low')),
+  checklist JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(checklist) = 'array'),
+  plan_task_id INT UNIQUE REFERENCES plan_tasks(id) ON DELETE SET NULL, -- unfinished dated task it rolled back from
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Upgrade: checklist items inside a task, each with its own done flag
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS checklist JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(checklist) = 'array');
+ALTER TABLE plan_tasks ADD COLUMN IF NOT EXISTS checklist JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(checklist) = 'array');
+
+ALTER TABLE focus_runs ADD COLUMN IF NOT EXISTS plan_task_id INT REFERENCES plan_tasks(id) ON DELETE SET NULL;
+
+-- Upgrade: unfinished tasks carried to a later block or day
+ALTER TABLE plan_tasks ADD COLUMN IF NOT EXISTS deferral_count SMALLINT NOT NULL DEFAULT 0 CHECK (deferral_count >= 0);
+ALTER TABLE plan_tasks ADD COLUMN IF NOT EXISTS carried_from_id INT UNIQUE REFERENCES plan_tasks(id) ON DELETE SET NULL;
+
+-- RECURRING TASKS TABLE
+-- Tasks that recur by rule (some weekdays every n weeks, the nth weekday of
+-- the month, or n times a week on any day). Each day plan gets an occurrence
+-- of every recurring task that comes up that day.
+CREATE TABLE IF NOT EXISTS recurring_tasks (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  duration_minutes INT CHECK (duration_minutes > 0),
+  energy_type energy_level, -- block the occurrences go into; NULL takes the day's first block
+  priority TEXT NOT NULL DEFAULT 'normal' CHECK (priority IN ('high','normal','low')),
+  checklist JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(checklist) = 'array'),
+  rule JSONB NOT NULL CHECK (rule->>'kind' IN ('weekly','monthly','times_per_week')), -- validated by the API
+  starts_on DATE NOT NULL,
+  ends_on DATE CHECK (ends_on >= starts_on),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+ALTER TABLE plan_tasks ADD COLUMN IF NOT EXISTS recurring_task_id INT REFERENCES recurring_tasks(id) ON DELETE SET NULL;
+-- One occurrence per recurring task and day
+CREATE UNIQUE INDEX IF NOT EXISTS plan_tasks_plan_id_recurring_task_id_key ON plan_tasks(plan_id, recurring_task_id);
+
+-- Upgrade: an edit from a later day ends the task and a copy takes over; the
+-- copy keeps the first task's week anchor and series, so every-n-weeks rules
+-- stay on their weeks and 'times_per_week' completions count across the split
+ALTER TABLE recurring_tasks ADD COLUMN IF NOT EXISTS anchor_date DATE CHECK (anchor_date <= starts_on); -- NULL counts weeks from starts_on
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'recurring_tasks' AND column_name = 'series_id'
+  ) THEN
+    -- Keyed with user_id so a copy can only continue one of the owner's own tasks
+    ALTER TABLE recurring_tasks ADD CONSTRAINT recurring_tasks_id_user_id_key UNIQUE (id, user_id);
+    ALTER TABLE recurring_tasks ADD COLUMN series_id INT;
+    ALTER TABLE recurring_tasks ADD CONSTRAINT recurring_tasks_series_id_fkey
+      FOREIGN KEY (series_id, user_id) REFERENCES recurring_tasks(id, user_id) ON DELETE SET NULL (series_id);
+  END IF;
+END$$;
+
+-- Upgrade: breaks between timer intervals are logged but are not focus time
+ALTER TABLE focus_runs ADD COLUMN IF NOT EXISTS interval_kind TEXT NOT NULL DEFAULT 'work' CHECK (interval_kind IN ('work','break'));
+
+-- BREAK PROMPTS TABLE
+-- Breaks proposed from the active block's energy and the focus time logged
+-- since the last rest, with whether the user took each one.
+CREATE TABLE IF NOT EXISTS break_prompts (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  session_id INT REFERENCES sessions(id) ON DELETE SET NULL, -- block the break was proposed in
+  energy_type energy_level NOT NULL,
+  run_date DATE NOT NULL,
+  due_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  minutes INT NOT NULL CHECK (minutes > 0), -- proposed length
+  taken BOOLEAN NOT NULL,
+  answered_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- TIMER STATES TABLE
+-- The running focus timer, one row per user, so reloads, other tabs and other
+-- devices pick up the same interval. Clients work out the time remaining from
+-- the timestamps.
+CREATE TABLE IF NOT EXISTS timer_states (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  plan_task_id INT REFERENCES plan_tasks(id) ON DELETE SET NULL, -- task being worked on
+  run_date DATE NOT NULL,
+  timer_interval TEXT NOT NULL DEFAULT 'work' CHECK (timer_interval IN ('work','short_break','long_break')),
+  work_intervals_done SMALLINT NOT NULL DEFAULT 0 CHECK (work_intervals_done >= 0), -- in the block, for Pomodoro long breaks
+  duration_seconds INT NOT NULL CHECK (duration_seconds >= 0), -- full length of the interval
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  paused_at TIMESTAMP WITH TIME ZONE, -- set while paused
+  paused_seconds INT NOT NULL DEFAULT 0 CHECK (paused_seconds >= 0), -- earlier pauses of this interval
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+
+-- CALENDAR FEED
+-- Calendar clients subscribe by URL and cannot send a session, so the feed is
+-- read through this function by secret token instead of through RLS.
+CREATE OR REPLACE FUNCTION calendar_feed(p_token UUID)
+RETURNS TABLE (
+  template_id INT,
+  day_of_week TEXT,
+  label TEXT,
+  "position" SMALLINT,
+  energy_type energy_level,
+  start_time TIME,
+  end_time TIME,
+  tasks JSONB
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    t.id,
+    sc.day_of_week,
+    t.label,
+    t.position,
+    t.energy_type,
+    t.start_time,
+    t.end_time,
+    COALESCE(
+      (SELECT jsonb_agg(jsonb_build_object('name', k.name, 'duration_minutes', k.duration_minutes) ORDER BY k.position, k.id)
+       FROM tasks k
+       WHERE k.session_id = se.id),
+      '[]'::jsonb
+    )
+  FROM users u
+  JOIN schedules sc ON sc.user_id = u.id
+  JOIN sessions se ON se.schedule_id = sc.id
+  JOIN session_templates t ON t.id = se.template_id
+  WHERE p_token IS NOT NULL AND u.calendar_token = p_token
+  ORDER BY sc.day_of_week, t.position;
+$$;
+
+GRANT EXECUTE ON FUNCTION calendar_feed(UUID) TO anon, authenticated;
+
+
+-- SAVE WEEK SCHEDULE
+-- Writes several weekday schedules, their blocks and blueprint tasks in a
+-- single transaction, so the wizard never leaves a half-saved week behind.
+-- Runs as the caller (RLS applies) and always saves for auth.uid().
+-- Blocks are matched by position; blocks past the last one sent are removed.
+-- Each block's tasks replace its task list: a task is matched by client_key,
+-- or else adopts the oldest unmatched keyless task of the same name, so
+-- saving again updates tasks in place instead of adding copies. Tasks are
+-- stored in the order sent, each with the checklist sent for it.
+-- Returns one entry per day with the schedule, session and task ids written.
+CREATE OR REPLACE FUNCTION save_week_schedule(p_days JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user UUID := auth.uid();
+  v_day JSONB;
+  v_block JSONB;
+  v_task JSONB;
+  v_position INT;
+  v_schedule_id INT;
+  v_template_id INT;
+  v_session_id INT;
+  v_task_id INT;
+  v_session_ids INT[];
+  v_task_ids INT[];
+  v_block_task_ids INT[];
+  v_task_position INT;
+  v_result JSONB := '[]'::jsonb;
+BEGIN
+  IF v_user IS NULL THEN
+    RAISE EXCEPTION 'save_week_schedule requires a signed-in user' USING ERRCODE = '28000';
+  END IF;
+
+  FOR v_day IN SELECT value FROM jsonb_array_elements(p_days) LOOP
+    INSERT INTO schedules (user_id, day_of_week, sleep_time, wake_time)
+    VALUES (v_user, v_day->>'day_of_week', (v_day->>'sleep_time')::TIME, (v_day->>'wake_time')::TIME)
+    ON CONFLICT (user_id, day_of_week) DO UPDATE
+      SET sleep_time = EXCLUDED.sleep_time, wake_time = EXCLUDED.wake_time
+    RETURNING id INTO v_schedule_id;
+
+    v_session_ids := '{}';
+    v_task_ids := '{}';
+    v_position := 0;
+    FOR v_block IN SELECT value FROM jsonb_array_elements(v_day->'sessions') LOOP
+      INSERT INTO session_templates (user_id, schedule_id, label, position, energy_type, start_time, end_time)
+      VALUES (
+        v_user,
+        v_schedule_id,
+        COALESCE(NULLIF(v_block->>'label', ''), (v_block->>'energy_type') || ' Energy'),
+        v_position,
+        (v_block->>'energy_type')::energy_level,
+        (v_block->>'start_time')::TIME,
+        (v_block->>'end_time')::TIME
+      )
+      ON CONFLICT (schedule_id, position) DO UPDATE
+        SET label = EXCLUDED.label,
+            energy_type = EXCLUDED.energy_type,
+            start_time = EXCLUDED.start_time,
+            end_time = EXCLUDED.end_time
+      RETURNING id INTO v_template_id;
+
+      -- The no-op update makes RETURNING yield the existing session's id
+      INSERT INTO sessions (schedule_id, template_id)
+      VALUES (v_schedule_id, v_template_id)
+      ON CONFLICT (schedule_id, template_id) DO UPDATE SET template_id = EXCLUDED.template_id
+      RETURNING id INTO v_session_id;
+      v_session_ids := v_session_ids || v_session_id;
+
+      v_block_task_ids := '{}';
+      v_task_position := 0;
+      FOR v_task IN SELECT value FROM jsonb_array_elements(COALESCE(v_block->'tasks', '[]'::jsonb)) LOOP
+        v_task_id := NULL;
+        IF v_task->>'client_key' IS NOT NULL THEN
+          SELECT id INTO v_task_id FROM tasks
+          WHERE session_id = v_session_id AND client_key = v_task->>'client_key';
+        END IF;
+        IF v_task_id IS NULL THEN
+          -- A task saved before it had a key, or sent without one
+          SELECT id INTO v_task_id FROM tasks
+          WHERE session_id = v_session_id
+            AND client_key IS NULL
+            AND name = v_task->>'name'
+            AND id <> ALL (v_block_task_ids)
+          ORDER BY id
+          LIMIT 1;
+        END IF;
+
+        IF v_task_id IS NULL THEN
+          INSERT INTO tasks (session_id, client_key, name, description, duration_minutes, position, priority, checklist)
+          VALUES (
+            v_session_id,
+            v_task->>'client_key',
+            v_task->>'name',
+            v_task->>'description',
+            (v_task->>'duration_minutes')::INT,
+            v_task_position,
+            COALESCE(v_task->>'priority', 'normal'),
+            COALESCE(v_task->'checklist', '[]'::jsonb)
+          )
+          RETURNING id INTO v_task_id;
+        ELSE
+          UPDATE tasks
+            SET client_key = COALESCE(v_task->>'client_key', client_key),
+                name = v_task->>'name',
+                description = v_task->>'description',
+                duration_minutes = (v_task->>'duration_minutes')::INT,
+                position = v_task_position,
+                priority = COALESCE(v_task->>'priority', 'normal'),
+                checklist = COALESCE(v_task->'checklist', '[]'::jsonb)
+            WHERE id = v_task_id;
+        END IF;
+        v_block_task_ids := v_block_task_ids || v_task_id;
+        v_task_position := v_task_position + 1;
+      END LOOP;
+
+      -- Plan copies of removed tasks stay in their dated plans (ON DELETE SET NULL)
+      DELETE FROM tasks WHERE session_id = v_session_id AND id <> ALL (v_block_task_ids);
+      v_task_ids := v_task_ids || v_block_task_ids;
+
+      v_position := v_position + 1;
+    END LOOP;
+
+    -- Their sessions and blueprint tasks go with them (ON DELETE CASCADE)
+    DELETE FROM session_templates WHERE schedule_id = v_schedule_id AND position >= v_position;
+
+    v_result := v_result || jsonb_build_array(jsonb_build_object(
+      'day_of_week', v_day->>'day_of_week',
+      'schedule_id', v_schedule_id,
+      'session_ids', to_jsonb(v_session_ids),
+      'task_ids', to_jsonb(v_task_ids)
+    ));
+  END LOOP;
+
+  RETURN v_result;
+END$$;
+
+GRANT EXECUTE ON FUNCTION save_week_schedule(JSONB) TO authenticated;
+
+
+-- ROW LEVEL SECURITY
+-- Every table is private to its owner. The API calls Supabase with the
+-- signed-in user's token, so these policies are what keep one user's rows
+-- away from another. sessions, tasks and plan_tasks have no user_id of their
+-- own and are owned through their parent rows. Policies are dropped and
+-- recreated so re-running this file picks up changes.
+ALTER TABLE users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE session_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tasks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE focus_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE day_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE plan_tasks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE inbox_tasks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE recurring_tasks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE break_prompts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE timer_states ENABLE ROW LEVEL SECURITY;
+
+-- Profiles can be read, created and edited by their owner only; deleting
+-- happens through auth.users ON DELETE CASCADE
+DROP POLICY IF EXISTS users_select_own ON users;
+CREATE POLICY users_select_own ON users
+  FOR SELECT TO authenticated
+  USING (id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS users_insert_own ON users;
+CREATE POLICY users_insert_own ON users
+  FOR INSERT TO authenticated
+  WITH CHECK (id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS users_update_own ON users;
+CREATE POLICY users_update_own ON users
+  FOR UPDATE TO authenticated
+  USING (id = (SELECT auth.uid()))
+  WITH CHECK (id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS schedules_owner ON schedules;
+CREATE POLICY schedules_owner ON schedules
+  FOR ALL TO authenticated
+  USING (user_id = (SELECT auth.uid()))
+  WITH CHECK (user_id = (SELECT auth.uid()));
+
+-- A template must also hang off one of the owner's own schedules
+DROP POLICY IF EXISTS session_templates_owner ON session_templates;
+CREATE POLICY session_templates_owner ON session_templates
+  FOR ALL TO authenticated
+  USING (user_id = (SELECT auth.uid()))
+  WITH CHECK (
+    user_id = (SELECT auth.uid())
+    AND (
+      schedule_id IS NULL
+      OR EXISTS (SELECT 1 FROM schedules sc WHERE sc.id = schedule_id AND sc.user_id = (SELECT auth.uid()))
+    )
+  );
+
+-- Sessions are owned through their schedule; the template must be the owner's too
+DROP POLICY IF EXISTS sessions_owner ON sessions;
+CREATE POLICY sessions_owner ON sessions
+  FOR ALL TO authenticated
+  USING (EXISTS (SELECT 1 FROM schedules sc WHERE sc.id = schedule_id AND sc.user_id = (SELECT auth.uid())))
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM schedules sc WHERE sc.id = schedule_id AND sc.user_id = (SELECT auth.uid()))
+    AND (
+      template_id IS NULL
+      OR EXISTS (SELECT 1 FROM session_templates t WHERE t.id = template_id AND t.user_id = (SELECT auth.uid()))
+    )
+  );
+
+-- Tasks are owned through session -> schedule
+DROP POLICY IF EXISTS tasks_owner ON tasks;
+CREATE POLICY tasks_owner ON tasks
+  FOR ALL TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM sessions se JOIN schedules sc ON sc.id = se.schedule_id
+    WHERE se.id = session_id AND sc.user_id = (SELECT auth.uid())
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM sessions se JOIN schedules sc ON sc.id = se.schedule_id
+    WHERE se.id = session_id AND sc.user_id = (SELECT auth.uid())
+  ));
+
+DROP POLICY IF EXISTS reports_owner ON reports;
+CREATE POLICY reports_owner ON reports
+  FOR ALL TO authenticated
+  USING (user_id = (SELECT auth.uid()))
+  WITH CHECK (user_id = (SELECT auth.uid()));
+
+-- Focus time can only be logged against the owner's own tasks
+DROP POLICY IF EXISTS focus_runs_owner ON focus_runs;
+CREATE POLICY focus_runs_owner ON focus_runs
+  FOR ALL TO authenticated
+  USING (user_id = (SELECT auth.uid()))
+  WITH CHECK (
+    user_id = (SELECT auth.uid())
+    AND (
+      focus_runs.task_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM tasks t JOIN sessions se ON se.id = t.session_id JOIN schedules sc ON sc.id = se.schedule_id
+        WHERE t.id = focus_runs.task_id AND sc.user_id = (SELECT auth.uid())
+      )
+    )
+    AND (
+      focus_runs.plan_task_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM plan_tasks pt JOIN day_plans dp ON dp.id = pt.plan_id
+        WHERE pt.id = focus_runs.plan_task_id AND dp.user_id = (SELECT auth.uid())
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS day_plans_owner ON day_plans;
+CREATE POLICY day_plans_owner ON day_plans
+  FOR ALL TO authenticated
+  USING (user_id = (SELECT auth.uid()))
+  WITH CHECK (user_id = (SELECT auth.uid()));
+
+-- Plan tasks are owned through their dated plan; the block, blueprint task
+-- and recurring task they copy must be the owner's too
+DROP POLICY IF EXISTS plan_tasks_owner ON plan_tasks;
+CREATE POLICY plan_tasks_owner ON plan_tasks
+  FOR ALL TO authenticated
+  USING (EXISTS (SELECT 1 FROM day_plans dp WHERE dp.id = plan_id AND dp.user_id = (SELECT auth.uid())))
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM day_plans dp WHERE dp.id = plan_id AND dp.user_id = (SELECT auth.uid()))
+    AND (
+      plan_tasks.session_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM sessions se JOIN schedules sc ON sc.id = se.schedule_id
+        WHERE se.id = plan_tasks.session_id AND sc.user_id = (SELECT auth.uid())
+      )
+    )
+    AND (
+      plan_tasks.task_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM tasks t JOIN sessions se ON se.id = t.session_id JOIN schedules sc ON sc.id = se.schedule_id
+        WHERE t.id = plan_tasks.task_id AND sc.user_id = (SELECT auth.uid())
+      )
+    )
+    AND (
+      plan_tasks.recurring_task_id IS NULL
+      OR EXISTS (SELECT 1 FROM recurring_tasks r WHERE r.id = plan_tasks.recurring_task_id AND r.user_id = (SELECT auth.uid()))
+    )
+  );
+
+-- An inbox task can only roll back from one of the owner's plan tasks
+DROP POLICY IF EXISTS inbox_tasks_owner ON inbox_tasks;
+CREATE POLICY inbox_tasks_owner ON inbox_tasks
+  FOR ALL TO authenticated
+  USING (user_id = (SELECT auth.uid()))
+  WITH CHECK (
+    user_id = (SELECT auth.uid())
+    AND (
+      inbox_tasks.plan_task_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM plan_tasks pt JOIN day_plans dp ON dp.id = pt.plan_id
+        WHERE pt.id = inbox_tasks.plan_task_id AND dp.user_id = (SELECT auth.uid())
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS recurring_tasks_owner ON recurring_tasks;
+CREATE POLICY recurring_tasks_owner ON recurring_tasks
+  FOR ALL TO authenticated
+  USING (user_id = (SELECT auth.uid()))
+  WITH CHECK (user_id = (SELECT auth.uid()));
+
+-- Breaks can only be recorded in the owner's own blocks
+DROP POLICY IF EXISTS break_prompts_owner ON break_prompts;
+CREATE POLICY break_prompts_owner ON break_prompts
+  FOR ALL TO authenticated
+  USING (user_id = (SELECT auth.uid()))
+  WITH CHECK (
+    user_id = (SELECT auth.uid())
+    AND (
+      break_prompts.session_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM sessions se JOIN schedules sc ON sc.id = se.schedule_id
+        WHERE se.id = break_prompts.session_id AND sc.user_id = (SELECT auth.uid())
+      )
+    )
+  );
+
+-- The timer can only run on one of the owner's plan tasks
+DROP POLICY IF EXISTS timer_states_owner ON timer_states;
+CREATE POLICY timer_states_owner ON timer_states
+  FOR ALL TO authenticated
+  USING (user_id = (SELECT auth.uid()))
+  WITH CHECK (
+    user_id = (SELECT auth.uid())
+    AND (
+      timer_states.plan_task_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM plan_tasks pt JOIN day_plans dp ON dp.id = pt.plan_id
+        WHERE pt.id = timer_states.plan_task_id AND dp.user_id = (SELECT auth.uid())
+      )
+    )
+  );
@@ -0,0 +1,335 @@
+-- ROW LEVEL SECURITY TEST
+-- Proves that one signed-in user cannot read or change another user's rows.
+-- Run through db/tests/run-rls.sh, which loads the stub and schema first.
+-- Everything happens in one transaction that is rolled back at the end.
+
+\set ON_ERROR_STOP on
+
+-- Supabase grants these to the API roles by default; RLS does the filtering
+GRANT USAGE ON SCHEMA public TO anon, authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON ALL TABLES IN SCHEMA public TO anon, authenticated;
+GRANT USAGE, SELECT ON ALL SEQUENCES IN SCHEMA public TO anon, authenticated;
+
+BEGIN;
+
+-- Fixtures, created as the table owner (RLS does not apply yet).
+-- Alice owns every id ending in 1, Bob every id ending in 2.
+INSERT INTO auth.users (id) VALUES
+  ('a11ce000-0000-4000-8000-000000000001'),
+  ('b0b00000-0000-4000-8000-000000000002');
+
+INSERT INTO users (id, username) VALUES
+  ('a11ce000-0000-4000-8000-000000000001', 'alice'),
+  ('b0b00000-0000-4000-8000-000000000002', 'bob');
+
+INSERT INTO schedules (id, user_id, day_of_week) VALUES
+  (900001, 'a11ce000-0000-4000-8000-000000000001', 'Monday'),
+  (900002, 'b0b00000-0000-4000-8000-000000000002', 'Monday');
+
+INSERT INTO session_templates (id, user_id, schedule_id, label, position, energy_type, start_time, end_time) VALUES
+  (900001, 'a11ce000-0000-4000-8000-000000000001', 900001, 'Deep work', 0, 'High', '09:00', '11:00'),
+  (900002, 'b0b00000-0000-4000-8000-000000000002', 900002, 'Deep work', 0, 'High', '09:00', '11:00');
+
+INSERT INTO sessions (id, schedule_id, template_id) VALUES
+  (900001, 900001, 900001),
+  (900002, 900002, 900002);
+
+INSERT INTO tasks (id, session_id, name) VALUES
+  (900001, 900001, 'Alice task'),
+  (900002, 900002, 'Bob task');
+
+INSERT INTO reports (id, user_id) VALUES
+  ('a11ce000-0000-4000-8000-0000000000f1', 'a11ce000-0000-4000-8000-000000000001'),
+  ('b0b00000-0000-4000-8000-0000000000f2', 'b0b00000-0000-4000-8000-000000000002');
+
+INSERT INTO day_plans (id, user_id, schedule_id, plan_date) VALUES
+  (900001, 'a11ce000-0000-4000-8000-000000000001', 900001, '2030-01-07'),
+  (900002, 'b0b00000-0000-4000-8000-000000000002', 900002, '2030-01-07');
+
+INSERT INTO plan_tasks (id, plan_id, session_id, task_id, name) VALUES
+  (900001, 900001, 900001, 900001, 'Alice task'),
+  (900002, 900002, 900002, 900002, 'Bob task');
+
+INSERT INTO focus_runs (id, user_id, task_id, plan_task_id, event) VALUES
+  (900001, 'a11ce000-0000-4000-8000-000000000001', 900001, 900001, 'start'),
+  (900002, 'b0b00000-0000-4000-8000-000000000002', 900002, 900002, 'start');
+
+INSERT INTO inbox_tasks (id, user_id, name) VALUES
+  (900001, 'a11ce000-0000-4000-8000-000000000001', 'Alice idea'),
+  (900002, 'b0b00000-0000-4000-8000-000000000002', 'Bob idea');
+
+INSERT INTO recurring_tasks (id, user_id, name, rule, starts_on) VALUES
+  (900001, 'a11ce000-0000-4000-8000-000000000001', 'Alice standup', '{"kind": "weekly", "days": ["Monday"], "interval": 1}', '2030-01-07'),
+  (900002, 'b0b00000-0000-4000-8000-000000000002', 'Bob standup', '{"kind": "times_per_week", "times": 2}', '2030-01-07');
+
+INSERT INTO break_prompts (id, user_id, session_id, energy_type, run_date, due_at, minutes, taken) VALUES
+  (900001, 'a11ce000-0000-4000-8000-000000000001', 900001, 'Low', '2030-01-07', '2030-01-07 15:40+00', 15, true),
+  (900002, 'b0b00000-0000-4000-8000-000000000002', 900002, 'Low', '2030-01-07', '2030-01-07 15:40+00', 15, false);
+
+INSERT INTO timer_states (user_id, plan_task_id, run_date, duration_seconds, started_at) VALUES
+  ('a11ce000-0000-4000-8000-000000000001', 900001, '2030-01-07', 1500, '2030-01-07 09:00+00'),
+  ('b0b00000-0000-4000-8000-000000000002', 900002, '2030-01-07', 1500, '2030-01-07 09:00+00');
+
+-- From here on we are Alice, signed in through the API
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "a11ce000-0000-4000-8000-000000000001", "role": "authenticated"}', true);
+
+-- Reads: Alice sees exactly her own row in every table
+DO $$
+DECLARE
+  t TEXT;
+  own INT;
+  total INT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['users', 'schedules', 'session_templates', 'sessions', 'tasks', 'reports', 'day_plans', 'plan_tasks', 'focus_runs', 'inbox_tasks', 'recurring_tasks', 'break_prompts', 'timer_states'] LOOP
+    EXECUTE format('SELECT count(*) FROM %I', t) INTO total;
+    IF total <> 1 THEN
+      RAISE EXCEPTION 'RLS: alice can see % row(s) in %, expected only her own', total, t;
+    END IF;
+  END LOOP;
+
+  SELECT count(*) INTO own FROM tasks WHERE name = 'Alice task';
+  IF own <> 1 THEN
+    RAISE EXCEPTION 'RLS: alice cannot see her own task';
+  END IF;
+END$$;
+
+-- Updates and deletes of Bob's rows match nothing
+DO $$
+DECLARE
+  n INT;
+  changed INT := 0;
+BEGIN
+  UPDATE users SET username = 'pwned' WHERE id = 'b0b00000-0000-4000-8000-000000000002';
+  GET DIAGNOSTICS n = ROW_COUNT; changed := changed + n;
+  UPDATE schedules SET wake_time = '05:00' WHERE id = 900002;
+  GET DIAGNOSTICS n = ROW_COUNT; changed := changed + n;
+  UPDATE session_templates SET label = 'pwned' WHERE id = 900002;
+  GET DIAGNOSTICS n = ROW_COUNT; changed := changed + n;
+  UPDATE tasks SET name = 'pwned' WHERE id = 900002;
+  GET DIAGNOSTICS n = ROW_COUNT; changed := changed + n;
+  UPDATE reports SET ai_recommendation = 'pwned' WHERE user_id = 'b0b00000-0000-4000-8000-000000000002';
+  GET DIAGNOSTICS n = ROW_COUNT; changed := changed + n;
+  UPDATE plan_tasks SET status = 'skipped' WHERE id = 900002;
+  GET DIAGNOSTICS n = ROW_COUNT; changed := changed + n;
+  DELETE FROM tasks WHERE id = 900002;
+  GET DIAGNOSTICS n = ROW_COUNT; changed := changed + n;
+  DELETE FROM sessions WHERE id = 900002;
+  GET DIAGNOSTICS n = ROW_COUNT; changed := changed + n;
+  DELETE FROM schedules WHERE id = 900002;
+  GET DIAGNOSTICS n = ROW_COUNT; changed := changed + n;
+  DELETE FROM day_plans WHERE id = 900002;
+  GET DIAGNOSTICS n = ROW_COUNT; changed := changed + n;
+  DELETE FROM focus_runs WHERE id = 900002;
+  GET DIAGNOSTICS n = ROW_COUNT; changed := changed + n;
+  UPDATE inbox_tasks SET name = 'pwned' WHERE id = 900002;
+  GET DIAGNOSTICS n = ROW_COUNT; changed := changed + n;
+  DELETE FROM recurring_tasks WHERE id = 900002;
+  GET DIAGNOSTICS n = ROW_COUNT; changed := changed + n;
+  UPDATE break_prompts SET taken = true WHERE id = 900002;
+  GET DIAGNOSTICS n = ROW_COUNT; changed := changed + n;
+  UPDATE timer_states SET paused_at = NOW() WHERE user_id = 'b0b00000-0000-4000-8000-000000000002';
+  GET DIAGNOSTICS n = ROW_COUNT; changed := changed + n;
+  IF changed <> 0 THEN
+    RAISE EXCEPTION 'RLS: alice changed % of bob''s rows', changed;
+  END IF;
+END$$;
+
+-- Writes that would create rows owned by, or attached to, Bob are rejected
+CREATE FUNCTION pg_temp.expect_denied(statement TEXT, what TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  EXECUTE statement;
+  RAISE EXCEPTION 'RLS: alice could %', what;
+EXCEPTION WHEN insufficient_privilege THEN
+  NULL; -- new row violates row-level security policy
+END$$;
+
+SELECT pg_temp.expect_denied(
+  $sql$INSERT INTO schedules (user_id, day_of_week) VALUES ('b0b00000-0000-4000-8000-000000000002', 'Tuesday')$sql$,
+  'create a schedule for bob');
+SELECT pg_temp.expect_denied(
+  $sql$INSERT INTO session_templates (user_id, schedule_id, label, position, energy_type, start_time, end_time)
+       VALUES ('a11ce000-0000-4000-8000-000000000001', 900002, 'Sneaky', 5, 'Low', '20:00', '21:00')$sql$,
+  'add a block to bob''s schedule');
+SELECT pg_temp.expect_denied(
+  $sql$INSERT INTO sessions (schedule_id, template_id) VALUES (900002, 900001)$sql$,
+  'add a session to bob''s schedule');
+SELECT pg_temp.expect_denied(
+  $sql$INSERT INTO sessions (schedule_id, template_id) VALUES (900001, 900002)$sql$,
+  'reuse bob''s block template');
+SELECT pg_temp.expect_denied(
+  $sql$INSERT INTO tasks (session_id, name) VALUES (900002, 'Sneaky')$sql$,
+  'add a task to bob''s session');
+SELECT pg_temp.expect_denied(
+  $sql$INSERT INTO reports (user_id) VALUES ('b0b00000-0000-4000-8000-000000000002')$sql$,
+  'write a report for bob');
+SELECT pg_temp.expect_denied(
+  $sql$INSERT INTO focus_runs (user_id, event) VALUES ('b0b00000-0000-4000-8000-000000000002', 'start')$sql$,
+  'log focus time for bob');
+SELECT pg_temp.expect_denied(
+  $sql$INSERT INTO plan_tasks (plan_id, name) VALUES (900002, 'Sneaky')$sql$,
+  'add a task to bob''s day plan');
+SELECT pg_temp.expect_denied(
+  $sql$INSERT INTO inbox_tasks (user_id, name) VALUES ('b0b00000-0000-4000-8000-000000000002', 'Sneaky')$sql$,
+  'add a task to bob''s inbox');
+SELECT pg_temp.expect_denied(
+  $sql$INSERT INTO recurring_tasks (user_id, name, rule, starts_on) VALUES ('b0b00000-0000-4000-8000-000000000002', 'Sneaky', '{"kind": "times_per_week", "times": 1}', '2030-01-07')$sql$,
+  'add a recurring task for bob');
+SELECT pg_temp.expect_denied(
+  $sql$INSERT INTO break_prompts (user_id, energy_type, run_date, due_at, minutes, taken) VALUES ('b0b00000-0000-4000-8000-000000000002', 'High', '2030-01-07', NOW(), 10, false)$sql$,
+  'record a break for bob');
+SELECT pg_temp.expect_denied(
+  $sql$UPDATE timer_states SET user_id = 'b0b00000-0000-4000-8000-000000000002' WHERE user_id = 'a11ce000-0000-4000-8000-000000000001'$sql$,
+  'hand her timer over to bob');
+SELECT pg_temp.expect_denied(
+  $sql$UPDATE schedules SET user_id = 'b0b00000-0000-4000-8000-000000000002' WHERE id = 900001$sql$,
+  'hand her schedule over to bob');
+SELECT pg_temp.expect_denied(
+  $sql$UPDATE tasks SET session_id = 900002 WHERE id = 900001$sql$,
+  'move her task into bob''s session');
+SELECT pg_temp.expect_denied(
+  $sql$INSERT INTO focus_runs (user_id, task_id, event) VALUES ('a11ce000-0000-4000-8000-000000000001', 900002, 'start')$sql$,
+  'log focus time on bob''s task');
+SELECT pg_temp.expect_denied(
+  $sql$INSERT INTO focus_runs (user_id, plan_task_id, event) VALUES ('a11ce000-0000-4000-8000-000000000001', 900002, 'start')$sql$,
+  'log focus time on bob''s plan task');
+SELECT pg_temp.expect_denied(
+  $sql$INSERT INTO plan_tasks (plan_id, session_id, name) VALUES (900001, 900002, 'Sneaky')$sql$,
+  'put a plan task in bob''s block');
+SELECT pg_temp.expect_denied(
+  $sql$INSERT INTO plan_tasks (plan_id, task_id, name) VALUES (900001, 900002, 'Sneaky')$sql$,
+  'copy bob''s task into her plan');
+SELECT pg_temp.expect_denied(
+  $sql$INSERT INTO plan_tasks (plan_id, recurring_task_id, name) VALUES (900001, 900002, 'Sneaky')$sql$,
+  'copy bob''s recurring task into her plan');
+SELECT pg_temp.expect_denied(
+  $sql$INSERT INTO inbox_tasks (user_id, name, plan_task_id) VALUES ('a11ce000-0000-4000-8000-000000000001', 'Sneaky', 900002)$sql$,
+  'roll bob''s plan task into her inbox');
+SELECT pg_temp.expect_denied(
+  $sql$INSERT INTO break_prompts (user_id, session_id, energy_type, run_date, due_at, minutes, taken) VALUES ('a11ce000-0000-4000-8000-000000000001', 900002, 'High', '2030-01-07', NOW(), 10, false)$sql$,
+  'record a break in bob''s block');
+SELECT pg_temp.expect_denied(
+  $sql$UPDATE timer_states SET plan_task_id = 900002 WHERE user_id = 'a11ce000-0000-4000-8000-000000000001'$sql$,
+  'run her timer on bob''s plan task');
+SELECT pg_temp.expect_denied(
+  $sql$INSERT INTO users (id) VALUES ('c0ffee00-0000-4000-8000-000000000003')$sql$,
+  'create a profile for someone else');
+
+-- Alice can still manage her own data
+DO $$
+DECLARE
+  n INT;
+BEGIN
+  INSERT INTO tasks (session_id, name) VALUES (900001, 'Another Alice task');
+  UPDATE schedules SET wake_time = '06:30' WHERE id = 900001;
+  GET DIAGNOSTICS n = ROW_COUNT;
+  IF n <> 1 THEN
+    RAISE EXCEPTION 'RLS: alice cannot update her own schedule';
+  END IF;
+
+  -- Her own tasks and blocks can be referenced
+  INSERT INTO focus_runs (user_id, task_id, plan_task_id, event) VALUES ('a11ce000-0000-4000-8000-000000000001', 900001, 900001, 'pause');
+  INSERT INTO break_prompts (user_id, session_id, energy_type, run_date, due_at, minutes, taken)
+  VALUES ('a11ce000-0000-4000-8000-000000000001', 900001, 'High', '2030-01-07', NOW(), 10, true);
+  UPDATE timer_states SET plan_task_id = 900001, paused_at = NOW() WHERE user_id = 'a11ce000-0000-4000-8000-000000000001';
+  GET DIAGNOSTICS n = ROW_COUNT;
+  IF n <> 1 THEN
+    RAISE EXCEPTION 'RLS: alice cannot update her own timer';
+  END IF;
+  -- Editing her recurring task from a later day adds a copy in the same series,
+  -- which cannot continue someone else's
+  INSERT INTO recurring_tasks (user_id, name, rule, starts_on, anchor_date, series_id)
+  VALUES ('a11ce000-0000-4000-8000-000000000001', 'Alice standup', '{"kind": "weekly", "days": ["Monday"], "interval": 2}', '2030-01-14', '2030-01-07', 900001);
+  BEGIN
+    INSERT INTO recurring_tasks (user_id, name, rule, starts_on, anchor_date, series_id)
+    VALUES ('a11ce000-0000-4000-8000-000000000001', 'Sneaky', '{"kind": "times_per_week", "times": 2}', '2030-01-09', '2030-01-07', 900002);
+    RAISE EXCEPTION 'RLS: alice could continue bob''s recurring task';
+  EXCEPTION WHEN foreign_key_violation THEN
+    NULL;
+  END;
+
+  -- Carrying a task over adds a copy that points back at it, once
+  INSERT INTO plan_tasks (plan_id, session_id, name, deferral_count, carried_from_id)
+  VALUES (900001, 900001, 'Alice task', 1, 900001);
+  BEGIN
+    INSERT INTO plan_tasks (plan_id, session_id, name, deferral_count, carried_from_id)
+    VALUES (900001, 900001, 'Alice task', 1, 900001);
+    RAISE EXCEPTION 'carry-over: a task was carried over twice';
+  EXCEPTION WHEN unique_violation THEN
+    NULL;
+  END;
+END$$;
+
+-- save_week_schedule writes only for the caller, all or nothing, and saving
+-- the same tasks again updates them instead of adding copies
+DO $$
+DECLARE
+  week CONSTANT JSONB := '[
+    {"day_of_week": "Tuesday", "wake_time": "07:00", "sleep_time": "23:00", "sessions": [
+      {"label": "Deep work", "energy_type": "High", "start_time": "09:00", "end_time": "11:00",
+       "tasks": [{"client_key": "write", "name": "Write", "duration_minutes": 45,
+                  "checklist": [{"name": "Outline", "done": true}, {"name": "Draft", "done": false}]}]}
+    ]}
+  ]';
+  saved JSONB;
+  again JSONB;
+  n INT;
+BEGIN
+  saved := save_week_schedule(week);
+  IF jsonb_array_length(saved) <> 1 OR jsonb_array_length(saved->0->'task_ids') <> 1 THEN
+    RAISE EXCEPTION 'save_week_schedule: unexpected result %', saved;
+  END IF;
+  again := save_week_schedule(week);
+  SELECT count(*) INTO n FROM tasks WHERE name = 'Write';
+  IF again->0->'task_ids' <> saved->0->'task_ids' OR n <> 1 THEN
+    RAISE EXCEPTION 'save_week_schedule: saving again duplicated tasks (% then %)', saved, again;
+  END IF;
+  SELECT count(*) INTO n FROM tasks WHERE name = 'Write' AND checklist->0->>'name' = 'Outline' AND jsonb_array_length(checklist) = 2;
+  IF n <> 1 THEN
+    RAISE EXCEPTION 'save_week_schedule: the checklist was not saved';
+  END IF;
+  SELECT count(*) INTO n FROM schedules
+  WHERE day_of_week = 'Tuesday' AND user_id = 'a11ce000-0000-4000-8000-000000000001';
+  IF n <> 1 THEN
+    RAISE EXCEPTION 'save_week_schedule: alice''s Tuesday was not saved';
+  END IF;
+
+  BEGIN
+    PERFORM save_week_schedule('[
+      {"day_of_week": "Wednesday", "sessions": [{"energy_type": "High", "start_time": "09:00", "end_time": "11:00"}]},
+      {"day_of_week": "Thursday", "sessions": [{"energy_type": "Extreme", "start_time": "09:00", "end_time": "11:00"}]}
+    ]');
+    RAISE EXCEPTION 'save_week_schedule: accepted an invalid energy level';
+  EXCEPTION WHEN invalid_text_representation THEN
+    NULL;
+  END;
+  SELECT count(*) INTO n FROM schedules WHERE day_of_week = 'Wednesday';
+  IF n <> 0 THEN
+    RAISE EXCEPTION 'save_week_schedule: a failed save left Wednesday behind';
+  END IF;
+END$$;
+
+-- Signed out (anon) sees nothing at all
+RESET ROLE;
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claims', '', true);
+
+DO $$
+DECLARE
+  t TEXT;
+  total INT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['users', 'schedules', 'session_templates', 'sessions', 'tasks', 'reports', 'day_plans', 'plan_tasks', 'focus_runs', 'inbox_tasks', 'recurring_tasks', 'break_prompts', 'timer_states'] LOOP
+    EXECUTE format('SELECT count(*) FROM %I', t) INTO total;
+    IF total <> 0 THEN
+      RAISE EXCEPTION 'RLS: anon can see % row(s) in %', total, t;
+    END IF;
+  END LOOP;
+END$$;
+
+ROLLBACK;
+
+\echo 'RLS tests passed'
@@ -0,0 +1,20 @@
+#!/bin/sh
+# Loads the schema into a scratch Postgres database and checks that the row
+# level security policies keep users apart. Point DATABASE_URL at a throwaway
+# local database, never at the Supabase project.
+#
+#   DATABASE_URL=postgres://postgres@localhost:5432/energy_test npm run test:rls
+set -e
+
+if [ -z "$DATABASE_URL" ]; then
+  echo "DATABASE_URL must point to a local scratch database" >&2
+  exit 1
+fi
+
+cd "$(dirname "$0")/../.."
+
+psql "$DATABASE_URL" -v ON_ERROR_STOP=1 -q \
+  -f db/tests/supabase_stub.sql \
+  -f db/schema.sql \
+  -f db/indexes.sql \
+  -f db/tests/rls_test.sql
@@ -0,0 +1,57 @@
+/**
+ * Block-end, timer interval and break alerts for the dashboard
+ *
+ * Honors the sound and visual switches from the profile's notification
+ * preferences. Browser notifications ask for permission the first time.
+ */
+
+import type { FocusInterval, NotificationPreferences } from './db/types';
+
+// Short two-tone chime; no audio files to ship
+function playChime() {
+  const AudioCtx = window.AudioContext || (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+  if (!AudioCtx) return;
+  const ctx = new AudioCtx();
+  [880, 660].forEach((frequency, i) => {
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.2, ctx.currentTime + i * 0.25);
+    gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + i * 0.25 + 0.4);
+    osc.connect(gain).connect(ctx.destination);
+    osc.start(ctx.currentTime + i * 0.25);
+    osc.stop(ctx.currentTime + i * 0.25 + 0.4);
+  });
+  setTimeout(() => ctx.close(), 1000);
+}
+
+async function showNotification(title: string, body: string) {
+  if (typeof Notification === 'undefined') return;
+  if (Notification.permission === 'default') await Notification.requestPermission();
+  if (Notification.permission === 'granted') new Notification(title, { body });
+}
+
+function notify(prefs: NotificationPreferences | null, title: string, body: string) {
+  if (!prefs) return;
+  try {
+    if (prefs.sound_notifications) playChime();
+    if (prefs.visual_alerts) showNotification(title, body).catch(() => {});
+  } catch (e) {
+    console.error('Failed to play timer alert', e);
+  }
+}
+
+export function alertBlockEnd(prefs: NotificationPreferences | null, blockName: string | null) {
+  notify(prefs, 'Block finished', `${blockName || 'Your block'} has ended. Time for a break.`);
+}
+
+// A work interval or break of the timer modes ran out; `next` is the one starting
+export function alertIntervalEnd(prefs: NotificationPreferences | null, next: FocusInterval, minutes: number) {
+  if (next === 'break') notify(prefs, 'Time for a break', `Step away for ${minutes} minutes.`);
+  else notify(prefs, 'Break over', `Back to it: ${minutes} minutes of focus.`);
+}
+
+// The break planner has a break due in the current block
+export function alertBreakDue(prefs: NotificationPreferences | null, minutes: number) {
+  notify(prefs, 'Break due', `You have been focused for a while. Take ${minutes} minutes to recharge.`);
+}
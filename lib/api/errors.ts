@@ -0,0 +1,20 @@
+/**
+ * Error responses for API routes
+ *
+ * Routes hand whatever their repository calls threw to `errorResponse`.
+ * Rows that do not exist or belong to someone else get a 404 naming the row;
+ * anything else is a 500 with the route's own message.
+ */
+
+import { NextResponse } from 'next/server';
+import { NotFoundError } from '@/lib/db/repository';
+import type { ApiResponse } from '@/lib/types';
+
+export function errorResponse(error: unknown, message: string): NextResponse {
+  if (error instanceof NotFoundError) {
+    const response: ApiResponse = { ok: false, error: error.message };
+    return NextResponse.json(response, { status: 404 });
+  }
+  const response: ApiResponse = { ok: false, error: message };
+  return NextResponse.json(response, { status: 500 });
+}
@@ -0,0 +1,54 @@
+/**
+ * Focus log writes for API routes
+ *
+ * The focus route appends the events a client sends; the timer route appends
+ * the ones its own changes imply, so a change is logged once by the request
+ * that makes it, however many tabs show the timer. A pause or stop of work
+ * also records the plan task's focus time so far as its actual_minutes.
+ */
+
+import { computeFocusSeconds } from '@/lib/focus';
+import { focusEventsBetween } from '@/lib/timerState';
+import type { Repository } from '@/lib/db/repository';
+import type { DbFocusRun, DbTimerState } from '@/lib/db/types';
+
+export async function recordFocusEvent(repo: Repository, input: Parameters<Repository['logFocusRun']>[0]): Promise<DbFocusRun> {
+  const run = await repo.logFocusRun(input);
+
+  if (run.plan_task_id && run.interval_kind === 'work' && (run.event === 'pause' || run.event === 'stop')) {
+    const runs = await repo.listFocusRuns({ user_id: input.user_id, from: run.run_date, to: run.run_date });
+    const seconds = computeFocusSeconds(runs).byPlanTask[run.plan_task_id] ?? 0;
+    const actual_minutes = Math.round(seconds / 60);
+    const planTask = await repo.updatePlanTask({ user_id: input.user_id, id: run.plan_task_id }, { actual_minutes });
+    // The blueprint task shows the latest day's actual next to its estimate
+    if (planTask.task_id !== null) {
+      await repo.updateTask({ user_id: input.user_id, id: planTask.task_id }, { actual_minutes });
+    }
+  }
+
+  return run;
+}
+
+// Logs what changing the user's timer from `prev` to `next` started, paused, resumed or stopped
+export async function logTimerChange(repo: Repository, user_id: string, prev: DbTimerState | null, next: DbTimerState | null): Promise<void> {
+  const events = focusEventsBetween(prev, next);
+  if (events.length === 0) return;
+
+  // Filed under the plan task's blueprint task and block energy, for the reports
+  const run_date = (next ?? prev)!.run_date;
+  const plan = await repo.getDayPlan({ user_id, plan_date: run_date });
+  const planTasks = plan?.blocks.flatMap(b => b.tasks) ?? [];
+  for (const e of events) {
+    const owner = e.plan_task_id ?? next?.plan_task_id ?? prev?.plan_task_id ?? null;
+    const planTask = planTasks.find(t => t.id === owner);
+    await recordFocusEvent(repo, {
+      user_id,
+      task_id: e.plan_task_id === null ? null : planTask?.task_id ?? null,
+      plan_task_id: e.plan_task_id,
+      energy_type: planTask?.energy_type ?? null,
+      run_date: e.event === 'stop' && prev ? prev.run_date : run_date,
+      event: e.event,
+      interval_kind: e.interval_kind
+    });
+  }
+}
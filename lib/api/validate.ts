@@ -0,0 +1,45 @@
+/**
+ * Request validation for API routes
+ *
+ * Parses a JSON body or the query string against a schema from lib/db/schemas.
+ * On failure the caller returns the prepared 400 response, which lists every
+ * failing field.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { z } from 'zod';
+import type { ApiResponse, ValidationIssue } from '@/lib/types';
+
+type Parsed<T> = { ok: true; data: T } | { ok: false; response: NextResponse };
+
+export function toValidationIssues(error: z.ZodError): ValidationIssue[] {
+  return error.issues.map(issue => ({
+    path: issue.path.join('.') || '(body)',
+    message: issue.message
+  }));
+}
+
+export function validationError(issues: ValidationIssue[], error = 'Invalid request body'): NextResponse {
+  const response: ApiResponse = { ok: false, error, issues };
+  return NextResponse.json(response, { status: 400 });
+}
+
+export async function parseBody<S extends z.ZodTypeAny>(request: NextRequest, schema: S): Promise<Parsed<z.infer<S>>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return { ok: false, response: validationError([{ path: '(body)', message: 'Body must be valid JSON' }]) };
+  }
+  const result = schema.safeParse(body);
+  if (!result.success) return { ok: false, response: validationError(toValidationIssues(result.error)) };
+  return { ok: true, data: result.data };
+}
+
+// Query values arrive as strings; repeated keys keep the last value
+export function parseQuery<S extends z.ZodTypeAny>(request: NextRequest, schema: S): Parsed<z.infer<S>> {
+  const query = Object.fromEntries(new URL(request.url).searchParams);
+  const result = schema.safeParse(query);
+  if (!result.success) return { ok: false, response: validationError(toValidationIssues(result.error), 'Invalid query parameters') };
+  return { ok: true, data: result.data };
+}
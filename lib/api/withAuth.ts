@@ -0,0 +1,32 @@
+/**
+ * Authenticated route wrapper
+ *
+ * Resolves the signed-in user from the request's bearer token and hands it to
+ * the handler. Missing, invalid or expired tokens get the same 401 on every
+ * route. Handlers must take user ids from here, never from the request body.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { User } from '@supabase/supabase-js';
+import { getBackend } from '@/lib/db/backend';
+import type { Repository } from '@/lib/db/repository';
+import type { ApiResponse } from '@/lib/types';
+
+export interface AuthContext {
+  user: User;
+  repo: Repository; // scoped to the caller's token, so RLS applies
+}
+
+export function withAuth(
+  handler: (request: NextRequest, auth: AuthContext) => Promise<NextResponse>
+): (request: NextRequest) => Promise<NextResponse> {
+  return async (request: NextRequest) => {
+    const { repo, getUser } = getBackend().forRequest(request);
+    const user = await getUser();
+    if (!user) {
+      const response: ApiResponse = { ok: false, error: 'Authentication required' };
+      return NextResponse.json(response, { status: 401 });
+    }
+    return handler(request, { user, repo });
+  };
+}
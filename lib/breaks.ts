@@ -0,0 +1,103 @@
+/**
+ * Break planner for Thirds app
+ *
+ * Proposes breaks inside the active block from its energy and the focus log.
+ * Focus time counts from the last rest: the start of the block, the end of a
+ * break interval on the timer, or the last break prompt the user answered.
+ * Low energy blocks get longer breaks, more often; a break that would run
+ * past the end of the block is not proposed, since the block ends anyway.
+ */
+
+import type { DbBreakPrompt, DbFocusRun, EnergyLevelDb } from './db/types';
+
+// Minutes of focus before a break, and how long the break is
+export const BREAK_POLICY: Record<EnergyLevelDb, { work_minutes: number; break_minutes: number }> = {
+  High: { work_minutes: 90, break_minutes: 10 },
+  Medium: { work_minutes: 60, break_minutes: 10 },
+  Low: { work_minutes: 40, break_minutes: 15 }
+};
+
+export interface ProposedBreak {
+  due_at: string; // ISO timestamp
+  minutes: number;
+}
+
+export interface BreakPlan {
+  energy_type: EnergyLevelDb;
+  focus_minutes: number; // since the last rest
+  on_break: boolean;
+  due: boolean; // breaks[0] is due now
+  breaks: ProposedBreak[]; // the rest of the block, assuming focus carries on
+}
+
+type Run = Pick<DbFocusRun, 'task_id' | 'plan_task_id' | 'run_date' | 'event' | 'occurred_at' | 'interval_kind'>;
+
+// Work and break stretches in the log; one still open ends at `now`
+function segments(runs: Run[], now: Date): Array<{ kind: 'work' | 'break'; start: number; end: number; open: boolean }> {
+  const result: Array<{ kind: 'work' | 'break'; start: number; end: number; open: boolean }> = [];
+  const open = new Map<string, number>();
+  const sorted = runs.slice().sort((a, b) => Date.parse(a.occurred_at) - Date.parse(b.occurred_at));
+  for (const run of sorted) {
+    // Keyed as in computeFocusSeconds, so a break does not close a task's run
+    const task = run.plan_task_id ? `plan:${run.plan_task_id}` : `task:${run.task_id ?? 'none'}:${run.run_date}`;
+    const key = `${run.interval_kind}:${task}`;
+    const at = Date.parse(run.occurred_at);
+    if (run.event === 'start' || run.event === 'resume') {
+      if (!open.has(key)) open.set(key, at);
+    } else if (open.has(key)) {
+      result.push({ kind: run.interval_kind, start: open.get(key)!, end: at, open: false });
+      open.delete(key);
+    }
+  }
+  for (const [key, start] of open) {
+    result.push({ kind: key.startsWith('break:') ? 'break' : 'work', start, end: now.getTime(), open: true });
+  }
+  return result;
+}
+
+// Breaks for the rest of the block, as things stand at `now`
+export function planBreaks(input: {
+  energy_type: EnergyLevelDb;
+  block_start: Date;
+  block_end: Date;
+  runs: Run[];
+  prompts: Array<Pick<DbBreakPrompt, 'taken' | 'minutes' | 'answered_at'>>;
+  now: Date;
+}): BreakPlan {
+  const { energy_type, now } = input;
+  const policy = BREAK_POLICY[energy_type];
+  const nowMs = now.getTime();
+  const stretches = segments(input.runs, now);
+
+  let restEnd = input.block_start.getTime();
+  let onBreak = false;
+  for (const s of stretches) {
+    if (s.kind !== 'break') continue;
+    if (s.open) onBreak = true;
+    else restEnd = Math.max(restEnd, s.end);
+  }
+  for (const p of input.prompts) {
+    const answered = Date.parse(p.answered_at);
+    // A skipped break restarts the count too, so the prompt does not come straight back
+    const end = p.taken ? answered + p.minutes * 60000 : answered;
+    if (end > nowMs) onBreak = true;
+    else restEnd = Math.max(restEnd, end);
+  }
+
+  const focusMs = stretches
+    .filter(s => s.kind === 'work')
+    .reduce((sum, s) => sum + Math.max(0, Math.min(s.end, nowMs) - Math.max(s.start, restEnd)), 0);
+  const plan: BreakPlan = { energy_type, focus_minutes: Math.floor(focusMs / 60000), on_break: onBreak, due: false, breaks: [] };
+  if (onBreak) return plan;
+
+  const workMs = policy.work_minutes * 60000;
+  const breakMs = policy.break_minutes * 60000;
+  // Overdue breaks keep the time they fell due; later ones assume focus goes on
+  let dueAt = nowMs + workMs - focusMs;
+  plan.due = dueAt <= nowMs;
+  for (; Math.max(dueAt, nowMs) + breakMs <= input.block_end.getTime(); dueAt += breakMs + workMs) {
+    plan.breaks.push({ due_at: new Date(dueAt).toISOString(), minutes: policy.break_minutes });
+  }
+  if (plan.breaks.length === 0) plan.due = false;
+  return plan;
+}
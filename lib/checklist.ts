@@ -0,0 +1,25 @@
+/**
+ * Checklist helpers for Thirds app
+ *
+ * A task can hold checklist items, each with its own done flag. Checking the
+ * last item completes the task and unchecking one reopens it; insights count
+ * the checked items of unfinished tasks as partial progress.
+ * Shared by the task and plan API routes, the insights route and the dashboard.
+ */
+
+import type { ChecklistItem, TaskStatus } from './db/types';
+
+// Status a task takes after its checklist changes; undefined leaves it alone
+export function statusForChecklist(items: ChecklistItem[]): TaskStatus | undefined {
+  if (items.length === 0) return undefined;
+  return items.every(item => item.done) ? 'completed' : 'active';
+}
+
+// How much of a task is done, from 0 to 1: completed tasks count in full,
+// others by the share of their checklist that is checked
+export function taskProgress(task: { status: TaskStatus | null; checklist?: ChecklistItem[] | null }): number {
+  if (task.status === 'completed') return 1;
+  const items = task.checklist ?? [];
+  if (items.length === 0) return 0;
+  return items.filter(item => item.done).length / items.length;
+}
@@ -0,0 +1,18 @@
+// The data backend API routes use: the Supabase project unless a test has
+// swapped in another one (e.g. createMemoryBackend from ./memoryRepository).
+
+import { supabaseBackend } from './supabaseRepository';
+import type { Backend } from './repository';
+
+let current: Backend = supabaseBackend;
+
+export function getBackend(): Backend {
+  return current;
+}
+
+// Returns the previous backend so callers can restore it
+export function setBackend(next: Backend): Backend {
+  const previous = current;
+  current = next;
+  return previous;
+}
@@ -0,0 +1,180 @@
+// Day plan assembly shared by the repository implementations: which blueprint
+// tasks and recurring task occurrences to copy into a dated plan, how plan
+// tasks group under blocks, and where unfinished tasks are carried over to.
+
+import { addDays } from '@/lib/time';
+import { occursOn } from '@/lib/recurrence';
+import { byPosition } from './ordering';
+import type {
+  CarryOverTarget,
+  ChecklistItem,
+  DayPlanBlock,
+  DayPlanView,
+  DbPlanTask,
+  DbRecurringTask,
+  EnergyLevelDb,
+  TaskPriority,
+  TaskStatus
+} from './types';
+
+// A weekday schedule's session with its block window and blueprint tasks
+export interface BlueprintSession {
+  id: number;
+  template: { label: string; position: number; energy_type: EnergyLevelDb; start_time: string; end_time: string } | null;
+  tasks: Array<{
+    id: number;
+    name: string;
+    description: string | null;
+    duration_minutes: number | null;
+    position: number;
+    priority: TaskPriority;
+    checklist: ChecklistItem[];
+  }>;
+}
+
+export type PlanTaskCopy = Omit<DbPlanTask, 'id' | 'created_at'>;
+
+export function planTaskCopies(plan_id: number, sessions: BlueprintSession[]): PlanTaskCopy[] {
+  return sessions.flatMap(s =>
+    (s.tasks ?? []).map(t => ({
+      plan_id,
+      session_id: s.id,
+      task_id: t.id,
+      energy_type: s.template?.energy_type ?? null,
+      name: t.name,
+      description: t.description,
+      duration_minutes: t.duration_minutes,
+      status: 'active' as TaskStatus,
+      position: t.position,
+      priority: t.priority,
+      actual_minutes: null,
+      // Each day starts with every item unchecked
+      checklist: (t.checklist ?? []).map(item => ({ ...item, done: false })),
+      deferral_count: 0,
+      carried_from_id: null,
+      recurring_task_id: null
+    }))
+  );
+}
+
+/**
+ * Occurrences of the recurring tasks (all in effect on `plan_date`) whose rule
+ * comes up that day, each appended to the first block of its energy or else
+ * the day's first block. `completedThisWeek` counts each series' occurrences
+ * completed earlier in the week (keyed by `series_id ?? id`), for
+ * 'times_per_week' rules.
+ */
+export function recurringCopies(
+  plan_id: number,
+  plan_date: string,
+  recurring: DbRecurringTask[],
+  blocks: DayPlanBlock[],
+  completedThisWeek: Map<number, number>
+): PlanTaskCopy[] {
+  const nextPosition = new Map<number, number>(); // session_id -> position after its last task
+  return recurring.flatMap(r => {
+    if (!occursOn(r.rule, r.starts_on, plan_date, completedThisWeek.get(r.series_id ?? r.id) ?? 0, r.anchor_date ?? r.starts_on)) return [];
+    if (blocks.some(b => b.tasks.some(t => t.recurring_task_id === r.id))) return []; // already in the plan
+    const block = blocks.find(b => b.energy_type === r.energy_type) ?? blocks[0];
+    if (!block) return [];
+    const position = nextPosition.get(block.session_id) ?? Math.max(-1, ...block.tasks.map(t => t.position)) + 1;
+    nextPosition.set(block.session_id, position + 1);
+    return [{
+      plan_id,
+      session_id: block.session_id,
+      task_id: null,
+      energy_type: block.energy_type,
+      name: r.name,
+      description: r.description,
+      duration_minutes: r.duration_minutes,
+      status: 'active' as TaskStatus,
+      position,
+      priority: r.priority,
+      actual_minutes: null,
+      checklist: r.checklist.map(item => ({ ...item, done: false })),
+      deferral_count: 0,
+      carried_from_id: null,
+      recurring_task_id: r.id
+    }];
+  });
+}
+
+export function groupPlanTasks(sessions: BlueprintSession[], planTasks: DbPlanTask[]): DayPlanBlock[] {
+  const blocks: DayPlanBlock[] = sessions
+    .filter(s => s.template)
+    .map(s => ({
+      session_id: s.id,
+      label: s.template!.label,
+      position: s.template!.position,
+      energy_type: s.template!.energy_type,
+      start_time: s.template!.start_time,
+      end_time: s.template!.end_time,
+      tasks: []
+    }))
+    .sort((a, b) => a.position - b.position);
+  for (const t of planTasks.slice().sort(byPosition)) {
+    // Tasks whose session was removed stay visible under a block of the same energy
+    const block = blocks.find(b => b.session_id === t.session_id) || blocks.find(b => b.energy_type === t.energy_type);
+    block?.tasks.push(t);
+  }
+  return blocks;
+}
+
+/**
+ * Copies of unfinished plan tasks in the blocks they are carried to:
+ * 'next_block' is the first later block of the task's energy that day,
+ * 'tomorrow' (and 'next_block' when no later block matches) is the next day's
+ * first block of that energy, or its first block of any energy. Tasks with
+ * nowhere to go get no copy. `loadDay` returns the plan view for a date.
+ */
+export async function carryOverCopies(
+  tasks: Array<DbPlanTask & { plan_date: string }>,
+  to: CarryOverTarget,
+  loadDay: (plan_date: string) => Promise<DayPlanView>
+): Promise<PlanTaskCopy[]> {
+  const days = new Map<string, Promise<DayPlanView>>();
+  const day = (plan_date: string) => {
+    if (!days.has(plan_date)) days.set(plan_date, loadDay(plan_date));
+    return days.get(plan_date)!;
+  };
+  const nextPosition = new Map<number, number>(); // session_id -> position after its last task
+
+  const copies: PlanTaskCopy[] = [];
+  for (const task of tasks) {
+    let target: { plan: DayPlanView; block: DayPlanBlock } | null = null;
+    if (to === 'next_block') {
+      const plan = await day(task.plan_date);
+      const from = plan.blocks.find(b => b.tasks.some(t => t.id === task.id));
+      const block = from && plan.blocks.find(b => b.position > from.position && b.energy_type === task.energy_type);
+      if (block) target = { plan, block };
+    }
+    if (!target) {
+      const plan = await day(addDays(task.plan_date, 1));
+      const block = plan.blocks.find(b => b.energy_type === task.energy_type) ?? plan.blocks[0];
+      if (block) target = { plan, block };
+    }
+    if (!target) continue;
+
+    const { block } = target;
+    const position = nextPosition.get(block.session_id) ?? Math.max(-1, ...block.tasks.map(t => t.position)) + 1;
+    nextPosition.set(block.session_id, position + 1);
+    copies.push({
+      plan_id: target.plan.plan.id,
+      session_id: block.session_id,
+      task_id: null, // the blueprint task keeps its own copy in each plan
+      energy_type: task.energy_type,
+      name: task.name,
+      description: task.description,
+      duration_minutes: task.duration_minutes,
+      status: 'active',
+      position,
+      priority: task.priority,
+      actual_minutes: null,
+      checklist: task.checklist,
+      deferral_count: task.deferral_count + 1,
+      carried_from_id: task.id,
+      recurring_task_id: null // the recurring task adds its own occurrence on days it comes up
+    });
+  }
+  return copies;
+}
@@ -0,0 +1,846 @@
+// Repository over plain arrays, for tests and offline development. It mirrors
+// the parts of db/schema.sql the API relies on: unique keys behave as upserts,
+// deletes cascade or null out references, and TIME values come back as HH:MM:SS.
+
+import type { User } from '@supabase/supabase-js';
+import { addDays, getDayOfWeek } from '@/lib/time';
+import { isInEffect, weekStart } from '@/lib/recurrence';
+import { DEFAULT_POMODORO_SETTINGS } from '@/lib/timerModes';
+import { carryOverCopies, groupPlanTasks, planTaskCopies, recurringCopies, type BlueprintSession } from './dayPlans';
+import { byPosition, reorderPositions } from './ordering';
+import { dayOfWeekSchema } from './schemas';
+import { NotFoundError, type Backend, type Repository } from './repository';
+import type {
+  CalendarFeedRow,
+  DbBreakPrompt,
+  DbDayPlan,
+  DbFocusRun,
+  DbInboxTask,
+  DbPlanTask,
+  DbRecurringTask,
+  DbReport,
+  DbSchedule,
+  DbSession,
+  DbSessionTemplate,
+  DbTask,
+  DbTimerState,
+  DbUser,
+  SavedScheduleDay
+} from './types';
+
+export interface MemoryStore {
+  authUsers: Map<string, User>; // bearer token -> signed-in user
+  users: DbUser[];
+  schedules: DbSchedule[];
+  templates: DbSessionTemplate[];
+  sessions: DbSession[];
+  tasks: DbTask[];
+  dayPlans: DbDayPlan[];
+  planTasks: DbPlanTask[];
+  inboxTasks: DbInboxTask[];
+  recurringTasks: DbRecurringTask[];
+  focusRuns: DbFocusRun[];
+  breakPrompts: DbBreakPrompt[];
+  timerStates: DbTimerState[];
+  reports: DbReport[];
+  nextId: number;
+}
+
+export function createMemoryStore(): MemoryStore {
+  return {
+    authUsers: new Map(),
+    users: [],
+    schedules: [],
+    templates: [],
+    sessions: [],
+    tasks: [],
+    dayPlans: [],
+    planTasks: [],
+    inboxTasks: [],
+    recurringTasks: [],
+    focusRuns: [],
+    breakPrompts: [],
+    timerStates: [],
+    reports: [],
+    nextId: 1
+  };
+}
+
+/**
+ * Registers a signed-in user and returns the bearer token that authenticates
+ * as them against createMemoryBackend(store).
+ */
+export function signInMemoryUser(store: MemoryStore, input: { id: string; email?: string }): string {
+  const token = `memory-token-${input.id}`;
+  store.authUsers.set(token, {
+    id: input.id,
+    email: input.email,
+    aud: 'authenticated',
+    app_metadata: {},
+    user_metadata: {},
+    created_at: new Date().toISOString()
+  });
+  return token;
+}
+
+const DEFAULT_NOTIFICATION_PREFERENCES = {
+  sound_notifications: true,
+  visual_alerts: true,
+  email_reports: false,
+  weekly_digest: true
+};
+
+// Postgres TIME columns read back with seconds
+const toDbTime = (time: string) => (time.length === 5 ? `${time}:00` : time);
+const toDbTimeOrNull = (time: string | null | undefined) => (time ? toDbTime(time) : null);
+
+const now = () => new Date().toISOString();
+
+const WEEK = dayOfWeekSchema.options;
+
+export function createMemoryRepository(store: MemoryStore): Repository {
+  const nextId = () => store.nextId++;
+
+  function notFound(kind: string, id: number): never {
+    throw new NotFoundError(kind, id);
+  }
+
+  function ownedSchedule(id: number, user_id: string): DbSchedule {
+    return store.schedules.find(s => s.id === id && s.user_id === user_id) ?? notFound('schedule', id);
+  }
+
+  function ownedSession(id: number, user_id: string): DbSession {
+    const session = store.sessions.find(s => s.id === id);
+    if (!session || !store.schedules.some(s => s.id === session.schedule_id && s.user_id === user_id)) notFound('session', id);
+    return session;
+  }
+
+  function ownedTask(id: number, user_id: string): DbTask {
+    const task = store.tasks.find(t => t.id === id);
+    if (!task) notFound('task', id);
+    ownedSession(task.session_id, user_id);
+    return task;
+  }
+
+  function ownedInboxTask(id: number, user_id: string): DbInboxTask {
+    return store.inboxTasks.find(t => t.id === id && t.user_id === user_id) ?? notFound('inbox_task', id);
+  }
+
+  function ownedRecurringTask(id: number, user_id: string): DbRecurringTask {
+    return store.recurringTasks.find(t => t.id === id && t.user_id === user_id) ?? notFound('recurring_task', id);
+  }
+
+  // ON DELETE behaviour of the rows that point at tasks, sessions, templates and plan tasks
+  function removeTasks(ids: number[]): void {
+    store.tasks = store.tasks.filter(t => !ids.includes(t.id));
+    for (const t of store.planTasks) if (t.task_id !== null && ids.includes(t.task_id)) t.task_id = null;
+    for (const r of store.focusRuns) if (r.task_id !== null && ids.includes(r.task_id)) r.task_id = null;
+  }
+
+  function removeSessions(ids: number[]): void {
+    removeTasks(store.tasks.filter(t => ids.includes(t.session_id)).map(t => t.id));
+    store.sessions = store.sessions.filter(s => !ids.includes(s.id));
+    for (const t of store.planTasks) if (t.session_id !== null && ids.includes(t.session_id)) t.session_id = null;
+  }
+
+  function removeTemplates(ids: number[]): void {
+    removeSessions(store.sessions.filter(s => ids.includes(s.template_id)).map(s => s.id));
+    store.templates = store.templates.filter(t => !ids.includes(t.id));
+  }
+
+  function removePlanTasks(ids: number[]): void {
+    store.planTasks = store.planTasks.filter(t => !ids.includes(t.id));
+    for (const t of store.planTasks) if (t.carried_from_id !== null && ids.includes(t.carried_from_id)) t.carried_from_id = null;
+    for (const t of store.inboxTasks) if (t.plan_task_id !== null && ids.includes(t.plan_task_id)) t.plan_task_id = null;
+    for (const r of store.focusRuns) if (r.plan_task_id !== null && ids.includes(r.plan_task_id)) r.plan_task_id = null;
+  }
+
+  // Unfinished occurrences of a recurring task in plans dated `from` or later
+  function removeOccurrences(recurring: DbRecurringTask, from: string): void {
+    const planIds = store.dayPlans.filter(p => p.user_id === recurring.user_id && p.plan_date >= from).map(p => p.id);
+    removePlanTasks(
+      store.planTasks
+        .filter(t => t.recurring_task_id === recurring.id && t.status === 'active' && planIds.includes(t.plan_id))
+        .map(t => t.id)
+    );
+  }
+
+  // Occurrences completed from the start of the week up to the day before `plan_date`,
+  // per recurring series (a task and the copies that took over from it after edits)
+  function completedThisWeek(user_id: string, plan_date: string): Map<number, number> {
+    const from = weekStart(plan_date);
+    const planIds = store.dayPlans.filter(p => p.user_id === user_id && p.plan_date >= from && p.plan_date < plan_date).map(p => p.id);
+    const counts = new Map<number, number>();
+    for (const t of store.planTasks) {
+      if (t.recurring_task_id === null || t.status !== 'completed' || !planIds.includes(t.plan_id)) continue;
+      const recurring = store.recurringTasks.find(r => r.id === t.recurring_task_id);
+      const series = recurring?.series_id ?? t.recurring_task_id;
+      counts.set(series, (counts.get(series) ?? 0) + 1);
+    }
+    return counts;
+  }
+
+  function blueprintFor(schedule: DbSchedule | undefined): BlueprintSession[] {
+    if (!schedule) return [];
+    return store.sessions
+      .filter(s => s.schedule_id === schedule.id)
+      .map(s => {
+        const template = store.templates.find(t => t.id === s.template_id);
+        return {
+          id: s.id,
+          template: template
+            ? { label: template.label, position: template.position, energy_type: template.energy_type, start_time: template.start_time, end_time: template.end_time }
+            : null,
+          tasks: store.tasks
+            .filter(t => t.session_id === s.id)
+            .map(t => ({
+              id: t.id,
+              name: t.name,
+              description: t.description,
+              duration_minutes: t.duration_minutes,
+              position: t.position,
+              priority: t.priority,
+              checklist: t.checklist
+            }))
+        };
+      });
+  }
+
+  const repo: Repository = {
+    async getUserTimeZone(user_id) {
+      return store.users.find(u => u.id === user_id)?.time_zone || 'UTC';
+    },
+
+    async getUserProfile(user_id) {
+      let user = store.users.find(u => u.id === user_id);
+      if (!user) {
+        user = {
+          id: user_id,
+          username: null,
+          calendar_token: null,
+          time_zone: null,
+          email: null,
+          default_wake_time: null,
+          default_sleep_time: null,
+          ai_personalization: true,
+          auto_carry_over: false,
+          timer_mode: 'block',
+          pomodoro_settings: { ...DEFAULT_POMODORO_SETTINGS },
+          notification_preferences: { ...DEFAULT_NOTIFICATION_PREFERENCES },
+          created_at: now()
+        };
+        store.users.push(user);
+      }
+      return { ...user };
+    },
+
+    async updateUserProfile(user_id, patch) {
+      const user = store.users.find(u => u.id === user_id);
+      if (!user) throw new NotFoundError('user', user_id);
+      Object.assign(user, patch);
+      if (patch.default_wake_time !== undefined) user.default_wake_time = toDbTimeOrNull(patch.default_wake_time);
+      if (patch.default_sleep_time !== undefined) user.default_sleep_time = toDbTimeOrNull(patch.default_sleep_time);
+      return { ...user };
+    },
+
+    async getCalendarToken(input) {
+      const user = store.users.find(u => u.id === input.user_id);
+      if (!user) throw new NotFoundError('user', input.user_id);
+      if (input.rotate || !user.calendar_token) user.calendar_token = crypto.randomUUID();
+      return user.calendar_token;
+    },
+
+    // Same rows and order as the calendar_feed(p_token) database function
+    async getCalendarFeed(token) {
+      const user = store.users.find(u => u.calendar_token === token);
+      if (!user) return [];
+      const rows: CalendarFeedRow[] = [];
+      for (const schedule of store.schedules.filter(s => s.user_id === user.id)) {
+        for (const session of store.sessions.filter(s => s.schedule_id === schedule.id)) {
+          const template = store.templates.find(t => t.id === session.template_id);
+          if (!template) continue;
+          rows.push({
+            template_id: template.id,
+            day_of_week: schedule.day_of_week,
+            label: template.label,
+            position: template.position,
+            energy_type: template.energy_type,
+            start_time: template.start_time,
+            end_time: template.end_time,
+            tasks: store.tasks
+              .filter(t => t.session_id === session.id)
+              .sort((a, b) => a.id - b.id)
+              .map(t => ({ name: t.name, duration_minutes: t.duration_minutes }))
+          });
+        }
+      }
+      return rows.sort((a, b) => a.day_of_week.localeCompare(b.day_of_week) || a.position - b.position);
+    },
+
+    async listSchedules(user_id) {
+      return store.schedules.filter(s => s.user_id === user_id).map(s => ({ ...s }));
+    },
+
+    async upsertSchedule(input) {
+      const values = {
+        sleep_time: toDbTimeOrNull(input.sleep_time),
+        wake_time: toDbTimeOrNull(input.wake_time)
+      };
+      let schedule = store.schedules.find(s => s.user_id === input.user_id && s.day_of_week === input.day_of_week);
+      if (schedule) {
+        Object.assign(schedule, values);
+      } else {
+        schedule = { id: nextId(), user_id: input.user_id, day_of_week: input.day_of_week, ...values, created_at: now() };
+        store.schedules.push(schedule);
+      }
+      return { ...schedule };
+    },
+
+    async saveWeekSchedule(input) {
+      // Like save_week_schedule(p_days), a failure part way leaves the store untouched
+      const snapshot = structuredClone(store);
+      try {
+        const saved: SavedScheduleDay[] = [];
+        for (const day of input.days) {
+          const schedule = await repo.upsertSchedule({
+            user_id: input.user_id,
+            day_of_week: day.day_of_week,
+            sleep_time: day.sleep_time,
+            wake_time: day.wake_time
+          });
+          const session_ids: number[] = [];
+          const task_ids: number[] = [];
+          for (const [position, block] of day.sessions.entries()) {
+            const template = await repo.upsertSessionTemplate({
+              user_id: input.user_id,
+              schedule_id: schedule.id,
+              label: block.label || `${block.energy_type} Energy`,
+              position,
+              energy_type: block.energy_type,
+              start_time: block.start_time,
+              end_time: block.end_time
+            });
+            const session = await repo.createSession({ user_id: input.user_id, schedule_id: schedule.id, template_id: template.id });
+            session_ids.push(session.id);
+            const kept: number[] = [];
+            for (const [position, task] of block.tasks.entries()) {
+              const existing =
+                (task.client_key ? store.tasks.find(t => t.session_id === session.id && t.client_key === task.client_key) : undefined) ??
+                // A task saved before it had a key, or sent without one
+                store.tasks
+                  .filter(t => t.session_id === session.id && t.client_key === null && t.name === task.name && !kept.includes(t.id))
+                  .sort((a, b) => a.id - b.id)[0];
+              if (existing) {
+                Object.assign(existing, {
+                  client_key: task.client_key ?? existing.client_key,
+                  name: task.name,
+                  description: task.description ?? null,
+                  duration_minutes: task.duration_minutes ?? null,
+                  position,
+                  priority: task.priority ?? 'normal',
+                  checklist: task.checklist ?? []
+                });
+                kept.push(existing.id);
+              } else {
+                const added = await repo.addTask({ user_id: input.user_id, session_id: session.id, ...task });
+                store.tasks.find(t => t.id === added.id)!.position = position;
+                kept.push(added.id);
+              }
+            }
+            removeTasks(store.tasks.filter(t => t.session_id === session.id && !kept.includes(t.id)).map(t => t.id));
+            task_ids.push(...kept);
+          }
+          await repo.deleteSessionTemplatesFrom({ user_id: input.user_id, schedule_id: schedule.id, from_position: day.sessions.length });
+          saved.push({ day_of_week: day.day_of_week, schedule_id: schedule.id, session_ids, task_ids });
+        }
+        return saved;
+      } catch (error) {
+        Object.assign(store, snapshot);
+        throw error;
+      }
+    },
+
+    async getWeekSchedule(user_id) {
+      return store.schedules
+        .filter(s => s.user_id === user_id)
+        .sort((a, b) => WEEK.indexOf(a.day_of_week) - WEEK.indexOf(b.day_of_week))
+        .map(schedule => ({
+          schedule_id: schedule.id,
+          day_of_week: schedule.day_of_week,
+          wake_time: schedule.wake_time,
+          sleep_time: schedule.sleep_time,
+          blocks: store.sessions
+            .filter(s => s.schedule_id === schedule.id)
+            .flatMap(session => {
+              const template = store.templates.find(t => t.id === session.template_id);
+              if (!template) return [];
+              return [{
+                session_id: session.id,
+                template_id: template.id,
+                label: template.label,
+                position: template.position,
+                energy_type: template.energy_type,
+                start_time: template.start_time,
+                end_time: template.end_time,
+                tasks: store.tasks.filter(t => t.session_id === session.id).sort(byPosition).map(t => ({ ...t }))
+              }];
+            })
+            .sort((a, b) => a.position - b.position)
+        }));
+    },
+
+    async upsertSessionTemplate(input) {
+      ownedSchedule(input.schedule_id, input.user_id);
+      const values = {
+        user_id: input.user_id,
+        label: input.label,
+        energy_type: input.energy_type,
+        start_time: toDbTime(input.start_time),
+        end_time: toDbTime(input.end_time)
+      };
+      let template = store.templates.find(t => t.schedule_id === input.schedule_id && t.position === input.position);
+      if (template) {
+        Object.assign(template, values);
+      } else {
+        template = { id: nextId(), schedule_id: input.schedule_id, position: input.position, ...values, created_at: now() };
+        store.templates.push(template);
+      }
+      return { ...template };
+    },
+
+    async updateSessionTemplateTimes(input) {
+      const template = store.templates.find(t => t.id === input.id && t.user_id === input.user_id) ?? notFound('template', input.id);
+      template.start_time = toDbTime(input.start_time);
+      template.end_time = toDbTime(input.end_time);
+      return { ...template };
+    },
+
+    async deleteSessionTemplatesFrom(input) {
+      removeTemplates(
+        store.templates
+          .filter(t => t.user_id === input.user_id && t.schedule_id === input.schedule_id && t.position >= input.from_position)
+          .map(t => t.id)
+      );
+    },
+
+    async listTemplatesWithDay(input) {
+      return store.templates
+        .filter(t => t.user_id === input.user_id && (!input.energy_type || t.energy_type === input.energy_type))
+        .flatMap(t => {
+          const schedule = store.schedules.find(s => s.id === t.schedule_id);
+          return schedule ? [{ ...t, day_of_week: schedule.day_of_week }] : [];
+        })
+        .sort((a, b) => a.position - b.position);
+    },
+
+    async createSession(input) {
+      ownedSchedule(input.schedule_id, input.user_id);
+      let session = store.sessions.find(s => s.schedule_id === input.schedule_id && s.template_id === input.template_id);
+      if (!session) {
+        session = { id: nextId(), schedule_id: input.schedule_id, template_id: input.template_id, created_at: now() };
+        store.sessions.push(session);
+      }
+      return { ...session };
+    },
+
+    async listSessionsForSchedule(input) {
+      ownedSchedule(input.schedule_id, input.user_id);
+      return store.sessions
+        .filter(s => s.schedule_id === input.schedule_id)
+        .sort((a, b) => a.id - b.id)
+        .map(s => ({ ...s }));
+    },
+
+    async addTask(input) {
+      ownedSession(input.session_id, input.user_id);
+      const retried = input.client_key && store.tasks.find(t => t.session_id === input.session_id && t.client_key === input.client_key);
+      if (retried) return { ...retried };
+      const task: DbTask = {
+        id: nextId(),
+        session_id: input.session_id,
+        client_key: input.client_key ?? null,
+        name: input.name,
+        description: input.description ?? null,
+        duration_minutes: input.duration_minutes ?? null,
+        status: input.status ?? 'active',
+        position: Math.max(-1, ...store.tasks.filter(t => t.session_id === input.session_id).map(t => t.position)) + 1,
+        priority: input.priority ?? 'normal',
+        actual_minutes: null,
+        checklist: input.checklist ?? [],
+        created_at: now()
+      };
+      store.tasks.push(task);
+      return { ...task };
+    },
+
+    async listTasksForSession(input) {
+      ownedSession(input.session_id, input.user_id);
+      return store.tasks
+        .filter(t => t.session_id === input.session_id)
+        .sort(byPosition)
+        .map(t => ({ ...t }));
+    },
+
+    async updateTask(target, input) {
+      const task = ownedTask(target.id, target.user_id);
+      Object.assign(task, input);
+      return { ...task };
+    },
+
+    async reorderTasks(input) {
+      ownedSession(input.session_id, input.user_id);
+      const tasks = store.tasks.filter(t => t.session_id === input.session_id);
+      const positions = reorderPositions('task', tasks, input.task_ids);
+      for (const t of tasks) t.position = positions.get(t.id)!;
+      return tasks.sort(byPosition).map(t => ({ ...t }));
+    },
+
+    async deleteTask(target) {
+      ownedTask(target.id, target.user_id);
+      removeTasks([target.id]);
+    },
+
+    async materializeDayPlan(input) {
+      const day_of_week = getDayOfWeek(input.plan_date);
+      const schedule = store.schedules.find(s => s.user_id === input.user_id && s.day_of_week === day_of_week);
+      const sessions = blueprintFor(schedule);
+
+      let plan = store.dayPlans.find(p => p.user_id === input.user_id && p.plan_date === input.plan_date);
+      const created = !plan;
+      if (!plan) {
+        plan = { id: nextId(), user_id: input.user_id, schedule_id: schedule?.id ?? null, plan_date: input.plan_date, created_at: now() };
+        store.dayPlans.push(plan);
+      }
+
+      if (created || input.sync) {
+        for (const copy of planTaskCopies(plan.id, sessions)) {
+          // UNIQUE (plan_id, task_id): tasks already copied keep their status
+          if (store.planTasks.some(t => t.plan_id === copy.plan_id && t.task_id === copy.task_id)) continue;
+          store.planTasks.push({ id: nextId(), ...copy, created_at: now() });
+        }
+
+        const recurring = store.recurringTasks
+          .filter(r => r.user_id === input.user_id && isInEffect(r, input.plan_date))
+          .sort((a, b) => a.id - b.id);
+        const blocks = groupPlanTasks(sessions, store.planTasks.filter(t => t.plan_id === plan.id));
+        for (const copy of recurringCopies(plan.id, input.plan_date, recurring, blocks, completedThisWeek(input.user_id, input.plan_date))) {
+          // UNIQUE (plan_id, recurring_task_id): one occurrence per day
+          if (store.planTasks.some(t => t.plan_id === copy.plan_id && t.recurring_task_id === copy.recurring_task_id)) continue;
+          store.planTasks.push({ id: nextId(), ...copy, created_at: now() });
+        }
+      }
+
+      const planTasks = store.planTasks
+        .filter(t => t.plan_id === plan.id)
+        .sort((a, b) => a.id - b.id)
+        .map(t => ({ ...t }));
+      return { plan: { ...plan }, day_of_week, blocks: groupPlanTasks(sessions, planTasks) };
+    },
+
+    async getDayPlan(input) {
+      const plan = store.dayPlans.find(p => p.user_id === input.user_id && p.plan_date === input.plan_date);
+      if (!plan) return null;
+      const day_of_week = getDayOfWeek(input.plan_date);
+      const schedule = store.schedules.find(s => s.user_id === input.user_id && s.day_of_week === day_of_week);
+      const planTasks = store.planTasks
+        .filter(t => t.plan_id === plan.id)
+        .sort((a, b) => a.id - b.id)
+        .map(t => ({ ...t }));
+      return { plan: { ...plan }, day_of_week, blocks: groupPlanTasks(blueprintFor(schedule), planTasks) };
+    },
+
+    async updatePlanTask(target, input) {
+      const task = store.planTasks.find(t => t.id === target.id);
+      if (!task || !store.dayPlans.some(p => p.id === task.plan_id && p.user_id === target.user_id)) notFound('plan_task', target.id);
+      Object.assign(task, input);
+      return { ...task };
+    },
+
+    async reorderPlanTasks(input) {
+      if (!store.dayPlans.some(p => p.id === input.plan_id && p.user_id === input.user_id)) notFound('plan', input.plan_id);
+      // The block of the first listed task; ids from other blocks are not found
+      const first = store.planTasks.find(t => t.plan_id === input.plan_id && t.id === input.plan_task_ids[0]);
+      const tasks = store.planTasks.filter(t => first && t.plan_id === input.plan_id && t.session_id === first.session_id);
+      const positions = reorderPositions('plan_task', tasks, input.plan_task_ids);
+      for (const t of tasks) t.position = positions.get(t.id)!;
+      return tasks.sort(byPosition).map(t => ({ ...t }));
+    },
+
+    async listPlanHistory(input) {
+      return store.dayPlans
+        .filter(p => p.user_id === input.user_id && p.plan_date >= input.from && p.plan_date <= input.to)
+        .sort((a, b) => a.plan_date.localeCompare(b.plan_date))
+        .map(plan => ({
+          id: plan.id,
+          plan_date: plan.plan_date,
+          tasks: store.planTasks
+            .filter(t => t.plan_id === plan.id)
+            .map(t => {
+              const session = store.sessions.find(s => s.id === t.session_id);
+              const template = session && store.templates.find(tpl => tpl.id === session.template_id);
+              return { ...t, start_time: template?.start_time ?? null, end_time: template?.end_time ?? null };
+            })
+        }));
+    },
+
+    async carryOverPlanTasks(input) {
+      const leftovers = input.plan_task_ids.flatMap(id => {
+        const task = store.planTasks.find(t => t.id === id);
+        const plan = task && store.dayPlans.find(p => p.id === task.plan_id && p.user_id === input.user_id);
+        if (!task || !plan) notFound('plan_task', id);
+        return task.status === 'active' ? [{ ...task, plan_date: plan.plan_date }] : [];
+      });
+      const copies = await carryOverCopies(leftovers, input.to, plan_date =>
+        repo.materializeDayPlan({ user_id: input.user_id, plan_date, sync: false })
+      );
+
+      const added: DbPlanTask[] = [];
+      for (const copy of copies) {
+        // UNIQUE (carried_from_id): a task is carried over once
+        if (store.planTasks.some(t => t.carried_from_id === copy.carried_from_id)) continue;
+        const task: DbPlanTask = { id: nextId(), ...copy, created_at: now() };
+        store.planTasks.push(task);
+        added.push({ ...task });
+        store.planTasks.find(t => t.id === copy.carried_from_id)!.status = 'skipped';
+      }
+      return added;
+    },
+
+    async listRecurringTasks(user_id) {
+      return store.recurringTasks
+        .filter(t => t.user_id === user_id)
+        .sort((a, b) => a.id - b.id)
+        .map(t => ({ ...t }));
+    },
+
+    async addRecurringTask(input) {
+      const task: DbRecurringTask = {
+        id: nextId(),
+        user_id: input.user_id,
+        name: input.name,
+        description: input.description ?? null,
+        duration_minutes: input.duration_minutes ?? null,
+        energy_type: input.energy_type ?? null,
+        priority: input.priority ?? 'normal',
+        checklist: input.checklist ?? [],
+        rule: input.rule,
+        starts_on: input.starts_on,
+        ends_on: null,
+        anchor_date: null,
+        series_id: null,
+        created_at: now()
+      };
+      store.recurringTasks.push(task);
+      return { ...task };
+    },
+
+    async updateRecurringTask(target, input) {
+      const task = ownedRecurringTask(target.id, target.user_id);
+      if (task.ends_on !== null && input.from > task.ends_on) notFound('recurring_task', target.id); // no occurrences left to change
+      let updated = task;
+      if (input.from > task.starts_on) {
+        // The copy keeps counting weeks and completions with the task it takes over from
+        updated = {
+          ...task,
+          ...input.changes,
+          id: nextId(),
+          starts_on: input.from,
+          anchor_date: task.anchor_date ?? task.starts_on,
+          series_id: task.series_id ?? task.id,
+          created_at: now()
+        };
+        task.ends_on = addDays(input.from, -1);
+        store.recurringTasks.push(updated);
+      } else {
+        Object.assign(task, input.changes);
+      }
+      removeOccurrences(task, input.from);
+      return { ...updated };
+    },
+
+    async endRecurringTask(target, from) {
+      const task = ownedRecurringTask(target.id, target.user_id);
+      removeOccurrences(task, from);
+      if (from > task.starts_on) {
+        const last = addDays(from, -1);
+        if (task.ends_on === null || last < task.ends_on) task.ends_on = last;
+      } else {
+        store.recurringTasks = store.recurringTasks.filter(t => t.id !== task.id);
+        for (const t of store.planTasks) if (t.recurring_task_id === task.id) t.recurring_task_id = null;
+      }
+    },
+
+    async listInboxTasks(user_id) {
+      return store.inboxTasks
+        .filter(t => t.user_id === user_id)
+        .sort((a, b) => a.id - b.id)
+        .map(t => ({ ...t }));
+    },
+
+    async addInboxTask(input) {
+      const task: DbInboxTask = {
+        id: nextId(),
+        user_id: input.user_id,
+        name: input.name,
+        description: input.description ?? null,
+        duration_minutes: input.duration_minutes ?? null,
+        energy_type: input.energy_type ?? null,
+        priority: input.priority ?? 'normal',
+        checklist: input.checklist ?? [],
+        plan_task_id: null,
+        created_at: now()
+      };
+      store.inboxTasks.push(task);
+      return { ...task };
+    },
+
+    async updateInboxTask(target, input) {
+      const task = ownedInboxTask(target.id, target.user_id);
+      Object.assign(task, input);
+      return { ...task };
+    },
+
+    async deleteInboxTask(target) {
+      ownedInboxTask(target.id, target.user_id);
+      store.inboxTasks = store.inboxTasks.filter(t => t.id !== target.id);
+    },
+
+    async scheduleInboxTask(input) {
+      const inbox = ownedInboxTask(input.id, input.user_id);
+      const task = await repo.addTask({
+        user_id: input.user_id,
+        session_id: input.session_id,
+        name: inbox.name,
+        description: inbox.description,
+        duration_minutes: inbox.duration_minutes,
+        priority: inbox.priority,
+        checklist: inbox.checklist
+      });
+      store.inboxTasks = store.inboxTasks.filter(t => t.id !== inbox.id);
+      return task;
+    },
+
+    async rollOverToInbox(input) {
+      const plan = store.dayPlans.find(p => p.user_id === input.user_id && p.plan_date === input.plan_date);
+      if (!plan) return [];
+      const added: DbInboxTask[] = [];
+      for (const t of store.planTasks.filter(t => t.plan_id === plan.id && t.status === 'active').sort((a, b) => a.id - b.id)) {
+        // UNIQUE (plan_task_id): a task rolls back once
+        if (!store.inboxTasks.some(i => i.plan_task_id === t.id)) {
+          const task: DbInboxTask = {
+            id: nextId(),
+            user_id: input.user_id,
+            name: t.name,
+            description: t.description,
+            duration_minutes: t.duration_minutes,
+            energy_type: t.energy_type,
+            priority: t.priority,
+            checklist: t.checklist,
+            plan_task_id: t.id,
+            created_at: now()
+          };
+          store.inboxTasks.push(task);
+          added.push({ ...task });
+        }
+        t.status = 'skipped';
+      }
+      return added;
+    },
+
+    async logFocusRun(input) {
+      if (input.plan_task_id) {
+        const task = store.planTasks.find(t => t.id === input.plan_task_id);
+        if (!task || !store.dayPlans.some(p => p.id === task.plan_id && p.user_id === input.user_id)) notFound('plan_task', input.plan_task_id);
+      }
+      if (input.task_id !== null) ownedTask(input.task_id, input.user_id);
+      const run: DbFocusRun = {
+        id: nextId(),
+        user_id: input.user_id,
+        task_id: input.task_id,
+        plan_task_id: input.plan_task_id ?? null,
+        energy_type: input.energy_type ?? null,
+        run_date: input.run_date,
+        event: input.event,
+        interval_kind: input.interval_kind ?? 'work',
+        occurred_at: now()
+      };
+      store.focusRuns.push(run);
+      return { ...run };
+    },
+
+    async listFocusRuns(input) {
+      return store.focusRuns
+        .filter(r => r.user_id === input.user_id && r.run_date >= input.from && r.run_date <= input.to)
+        .sort((a, b) => a.occurred_at.localeCompare(b.occurred_at))
+        .map(r => ({ ...r }));
+    },
+
+    async recordBreakPrompt(input) {
+      if (input.session_id !== null) ownedSession(input.session_id, input.user_id);
+      const prompt: DbBreakPrompt = {
+        id: nextId(),
+        user_id: input.user_id,
+        session_id: input.session_id,
+        energy_type: input.energy_type,
+        run_date: input.run_date,
+        due_at: input.due_at,
+        minutes: input.minutes,
+        taken: input.taken,
+        answered_at: now()
+      };
+      store.breakPrompts.push(prompt);
+      return { ...prompt };
+    },
+
+    async listBreakPrompts(input) {
+      return store.breakPrompts
+        .filter(p => p.user_id === input.user_id && p.run_date >= input.from && p.run_date <= input.to)
+        .sort((a, b) => a.answered_at.localeCompare(b.answered_at))
+        .map(p => ({ ...p }));
+    },
+
+    async getTimerState(user_id) {
+      const timer = store.timerStates.find(t => t.user_id === user_id);
+      return timer ? { ...timer } : null;
+    },
+
+    async saveTimerState(input) {
+      if (input.plan_task_id !== null) {
+        const task = store.planTasks.find(t => t.id === input.plan_task_id);
+        if (!task || !store.dayPlans.some(p => p.id === task.plan_id && p.user_id === input.user_id)) notFound('plan_task', input.plan_task_id);
+      }
+      const timer: DbTimerState = { ...input, updated_at: now() };
+      store.timerStates = [...store.timerStates.filter(t => t.user_id !== input.user_id), timer];
+      return { ...timer };
+    },
+
+    async clearTimerState(user_id) {
+      store.timerStates = store.timerStates.filter(t => t.user_id !== user_id);
+    },
+
+    async listReports(input) {
+      return store.reports
+        .filter(r => r.user_id === input.user_id && r.report_date >= input.from)
+        .sort((a, b) => a.report_date.localeCompare(b.report_date))
+        .map(r => ({ ...r }));
+    }
+  };
+  return repo;
+}
+
+// Authenticates bearer tokens from signInMemoryUser(store) and serves every request from the store
+export function createMemoryBackend(store: MemoryStore): Backend {
+  const repo = createMemoryRepository(store);
+  return {
+    forRequest(request) {
+      const header = request.headers.get('authorization');
+      const token = header?.toLowerCase().startsWith('bearer ') ? header.slice('bearer '.length) : null;
+      return {
+        repo,
+        async getUser() {
+          return (token && store.authUsers.get(token)) || null;
+        }
+      };
+    }
+  };
+}
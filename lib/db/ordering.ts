@@ -0,0 +1,26 @@
+// Task ordering shared by the repository implementations
+
+import { NotFoundError } from './repository';
+
+interface Positioned {
+  id: number;
+  position: number;
+}
+
+// Sorts by position, oldest first among equal positions
+export function byPosition(a: Positioned, b: Positioned): number {
+  return a.position - b.position || a.id - b.id;
+}
+
+/**
+ * New positions after a reorder: `ids` come first in the order given, the
+ * remaining rows follow in their current order. Throws when an id is not one
+ * of `rows`, so callers can report it as not found.
+ */
+export function reorderPositions<T extends Positioned>(kind: string, rows: T[], ids: number[]): Map<number, number> {
+  for (const id of ids) {
+    if (!rows.some(r => r.id === id)) throw new NotFoundError(kind, id);
+  }
+  const rest = rows.filter(r => !ids.includes(r.id)).sort(byPosition).map(r => r.id);
+  return new Map([...ids, ...rest].map((id, position) => [id, position]));
+}
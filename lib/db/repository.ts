@@ -0,0 +1,234 @@
+/**
+ * Repository interface
+ *
+ * Everything the API routes read or write goes through a Repository, so the
+ * handlers do not depend on Supabase. supabaseRepository.ts talks to the real
+ * database; memoryRepository.ts keeps the same rows in plain arrays for tests.
+ *
+ * Every method that takes a user_id only touches that user's rows. Rows that
+ * belong to someone else are reported as not found.
+ */
+
+import type { NextRequest } from 'next/server';
+import type { User } from '@supabase/supabase-js';
+import type {
+  CalendarFeedRow,
+  CarryOverTarget,
+  ChecklistItem,
+  DayOfWeek,
+  DayPlanView,
+  DbBreakPrompt,
+  DbFocusRun,
+  DbInboxTask,
+  DbPlanTask,
+  DbRecurringTask,
+  DbReport,
+  DbSchedule,
+  DbSession,
+  DbSessionTemplate,
+  DbTask,
+  DbTimerState,
+  DbUser,
+  EnergyLevelDb,
+  FocusEvent,
+  FocusInterval,
+  PlanHistoryEntry,
+  RecurrenceRule,
+  SavedScheduleDay,
+  TaskPriority,
+  TaskStatus,
+  WeekScheduleDay,
+  WeekScheduleInput
+} from './types';
+
+// A row that does not exist, or belongs to another user
+export class NotFoundError extends Error {
+  constructor(kind: string, id: number | string) {
+    super(`${kind} ${id} not found`);
+    this.name = 'NotFoundError';
+  }
+}
+
+export type ProfilePatch = Partial<Pick<DbUser,
+  | 'username'
+  | 'email'
+  | 'default_wake_time'
+  | 'default_sleep_time'
+  | 'time_zone'
+  | 'ai_personalization'
+  | 'auto_carry_over'
+  | 'timer_mode'
+  | 'pomodoro_settings'
+  | 'notification_preferences'
+>>;
+
+export interface Repository {
+  // Users
+  getUserTimeZone(user_id: string): Promise<string>; // 'UTC' until the profile has a zone
+  getUserProfile(user_id: string): Promise<DbUser>; // creates the row if sign-up did not get that far
+  updateUserProfile(user_id: string, patch: ProfilePatch): Promise<DbUser>;
+  getCalendarToken(input: { user_id: string; rotate?: boolean }): Promise<string>;
+  getCalendarFeed(token: string): Promise<CalendarFeedRow[]>; // by feed token, no signed-in user needed
+
+  // Schedules
+  listSchedules(user_id: string): Promise<DbSchedule[]>;
+  upsertSchedule(input: {
+    user_id: string;
+    day_of_week: DayOfWeek;
+    sleep_time?: string | null;
+    wake_time?: string | null;
+  }): Promise<DbSchedule>;
+  // Schedules, blocks and their task lists for several days at once; all are
+  // saved or none. Tasks are matched by client_key, then by name among keyless ones.
+  saveWeekSchedule(input: { user_id: string; days: WeekScheduleInput['days'] }): Promise<SavedScheduleDay[]>;
+  getWeekSchedule(user_id: string): Promise<WeekScheduleDay[]>; // saved weekdays, Monday first
+
+  // Templates (block windows of a weekday schedule)
+  upsertSessionTemplate(input: {
+    user_id: string;
+    schedule_id: number;
+    label: string;
+    position: number;
+    energy_type: EnergyLevelDb;
+    start_time: string; // HH:MM:SS
+    end_time: string; // HH:MM:SS
+  }): Promise<DbSessionTemplate>;
+  updateSessionTemplateTimes(input: { user_id: string; id: number; start_time: string; end_time: string }): Promise<DbSessionTemplate>;
+  deleteSessionTemplatesFrom(input: { user_id: string; schedule_id: number; from_position: number }): Promise<void>;
+  listTemplatesWithDay(input: { user_id: string; energy_type?: EnergyLevelDb }): Promise<Array<DbSessionTemplate & { day_of_week: DayOfWeek }>>;
+
+  // Sessions
+  createSession(input: { user_id: string; schedule_id: number; template_id: number }): Promise<DbSession>;
+  listSessionsForSchedule(input: { user_id: string; schedule_id: number }): Promise<DbSession[]>;
+
+  // Tasks
+  addTask(input: {
+    user_id: string;
+    session_id: number;
+    client_key?: string | null; // a retry with the same key returns the task created first
+    name: string;
+    description?: string | null;
+    duration_minutes?: number | null;
+    status?: TaskStatus;
+    priority?: TaskPriority;
+    checklist?: ChecklistItem[];
+  }): Promise<DbTask>; // appended after the session's other tasks
+  listTasksForSession(input: { user_id: string; session_id: number }): Promise<DbTask[]>; // in position order
+  updateTask(
+    target: { user_id: string; id: number },
+    input: Partial<Pick<DbTask, 'name' | 'description' | 'duration_minutes' | 'status' | 'priority' | 'actual_minutes' | 'checklist'>>
+  ): Promise<DbTask>;
+  // Listed ids take the first positions; the session's other tasks follow in their old order
+  reorderTasks(input: { user_id: string; session_id: number; task_ids: number[] }): Promise<DbTask[]>;
+  deleteTask(target: { user_id: string; id: number }): Promise<void>;
+
+  // Day plans
+  materializeDayPlan(input: { user_id: string; plan_date: string; sync: boolean }): Promise<DayPlanView>;
+  // The plan as stored, without creating or syncing it; null before it is first materialized
+  getDayPlan(input: { user_id: string; plan_date: string }): Promise<DayPlanView | null>;
+  updatePlanTask(
+    target: { user_id: string; id: number },
+    input: Partial<Pick<DbPlanTask, 'status' | 'actual_minutes' | 'checklist' | 'name' | 'description' | 'duration_minutes' | 'priority'>>
+  ): Promise<DbPlanTask>;
+  // Same rules within the block (session) of the listed plan tasks
+  reorderPlanTasks(input: { user_id: string; plan_id: number; plan_task_ids: number[] }): Promise<DbPlanTask[]>;
+  listPlanHistory(input: { user_id: string; from: string; to: string }): Promise<PlanHistoryEntry[]>; // plans dated `from` to `to`, inclusive
+  // Active tasks among the ids are copied to a later block of their energy
+  // ('next_block', falling back to the next day) or into the next day's plan,
+  // one deferral higher, and marked skipped where they were. Tasks with no
+  // block to go to stay as they are. Returns the copies added.
+  carryOverPlanTasks(input: { user_id: string; plan_task_ids: number[]; to: CarryOverTarget }): Promise<DbPlanTask[]>;
+
+  // Recurring tasks (day plans add their occurrences as they materialize)
+  listRecurringTasks(user_id: string): Promise<DbRecurringTask[]>; // oldest first
+  addRecurringTask(input: {
+    user_id: string;
+    name: string;
+    description?: string | null;
+    duration_minutes?: number | null;
+    energy_type?: EnergyLevelDb | null;
+    priority?: TaskPriority;
+    checklist?: ChecklistItem[];
+    rule: RecurrenceRule;
+    starts_on: string;
+  }): Promise<DbRecurringTask>;
+  // Changes every occurrence from `from` on. A task that started earlier ends
+  // the day before and a copy with the changes takes over, so earlier
+  // occurrences keep pointing at the task as it was. The copy keeps the task's
+  // anchor_date and series_id, so weekly intervals and the week's completions
+  // carry on across the split. Unfinished occurrences
+  // dated `from` or later are removed and added again as plans load.
+  updateRecurringTask(
+    target: { user_id: string; id: number },
+    input: {
+      from: string;
+      changes: Partial<Pick<DbRecurringTask, 'name' | 'description' | 'duration_minutes' | 'energy_type' | 'priority' | 'checklist' | 'rule'>>;
+    }
+  ): Promise<DbRecurringTask>;
+  // Stops the task from `from` on, deleting it if it had not started by then,
+  // and removes its unfinished occurrences dated `from` or later
+  endRecurringTask(target: { user_id: string; id: number }, from: string): Promise<void>;
+
+  // Inbox (tasks not scheduled into a block yet)
+  listInboxTasks(user_id: string): Promise<DbInboxTask[]>; // oldest first
+  addInboxTask(input: {
+    user_id: string;
+    name: string;
+    description?: string | null;
+    duration_minutes?: number | null;
+    energy_type?: EnergyLevelDb | null;
+    priority?: TaskPriority;
+    checklist?: ChecklistItem[];
+  }): Promise<DbInboxTask>;
+  updateInboxTask(
+    target: { user_id: string; id: number },
+    input: Partial<Pick<DbInboxTask, 'name' | 'description' | 'duration_minutes' | 'energy_type' | 'priority' | 'checklist'>>
+  ): Promise<DbInboxTask>;
+  deleteInboxTask(target: { user_id: string; id: number }): Promise<void>;
+  // Appends the task to the block's task list and removes it from the inbox
+  scheduleInboxTask(input: { user_id: string; id: number; session_id: number }): Promise<DbTask>;
+  // Tasks of that day's plan still active move to the inbox and are marked
+  // skipped in the plan; returns the inbox tasks added
+  rollOverToInbox(input: { user_id: string; plan_date: string }): Promise<DbInboxTask[]>;
+
+  // Focus log
+  logFocusRun(input: {
+    user_id: string;
+    task_id: number | null;
+    plan_task_id?: number | null;
+    energy_type?: EnergyLevelDb | null;
+    run_date: string; // YYYY-MM-DD
+    event: FocusEvent;
+    interval_kind?: FocusInterval; // default 'work'
+  }): Promise<DbFocusRun>;
+  listFocusRuns(input: { user_id: string; from: string; to: string }): Promise<DbFocusRun[]>; // YYYY-MM-DD, inclusive
+
+  // Break prompts the user answered
+  recordBreakPrompt(input: {
+    user_id: string;
+    session_id: number | null; // must be the user's block
+    energy_type: EnergyLevelDb;
+    run_date: string; // YYYY-MM-DD
+    due_at: string;
+    minutes: number;
+    taken: boolean;
+  }): Promise<DbBreakPrompt>;
+  listBreakPrompts(input: { user_id: string; from: string; to: string }): Promise<DbBreakPrompt[]>; // YYYY-MM-DD, inclusive, oldest first
+
+  // Shared focus timer, one per user
+  getTimerState(user_id: string): Promise<DbTimerState | null>;
+  // Replaces the user's timer; plan_task_id must be the user's
+  saveTimerState(input: Omit<DbTimerState, 'updated_at'>): Promise<DbTimerState>;
+  clearTimerState(user_id: string): Promise<void>;
+
+  // Reports
+  listReports(input: { user_id: string; from: string }): Promise<DbReport[]>;
+}
+
+// Where a request's data lives and who is asking
+export interface Backend {
+  forRequest(request: NextRequest): {
+    repo: Repository;
+    getUser(): Promise<User | null>; // from the bearer token; null when missing or invalid
+  };
+}
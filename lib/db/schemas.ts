@@ -0,0 +1,315 @@
+// Runtime schemas for the API request contracts.
+// lib/db/types.ts derives its enum and input types from these, so the
+// validators and the TypeScript types cannot drift apart.
+
+import { z } from 'zod';
+import { isValidTimeZone } from '../time';
+
+export const energyLevelSchema = z.enum(['High', 'Medium', 'Low']);
+
+export const dayOfWeekSchema = z.enum(['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday']);
+
+export const taskStatusSchema = z.enum(['active', 'completed', 'skipped']);
+
+export const taskPrioritySchema = z.enum(['high', 'normal', 'low']);
+
+export const carryOverTargetSchema = z.enum(['next_block', 'tomorrow']);
+
+export const focusEventSchema = z.enum(['start', 'pause', 'resume', 'stop']);
+
+// Whether a focus run is work on a task or a break between timer intervals
+export const focusIntervalSchema = z.enum(['work', 'break']);
+
+// How the focus timer splits a block: one countdown to the block's end,
+// Pomodoro or 52/17 work/break intervals, or each task's estimated duration
+export const timerModeSchema = z.enum(['block', 'pomodoro', '52_17', 'task']);
+
+// The interval the focus timer is counting down
+export const timerIntervalSchema = z.enum(['work', 'short_break', 'long_break']);
+
+// HH:MM or HH:MM:SS, 24-hour clock
+export const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/, 'Expected a time as HH:MM');
+
+// Calendar date as YYYY-MM-DD
+export const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date as YYYY-MM-DD');
+
+export const idSchema = z.coerce.number().int().positive();
+
+export const durationMinutesSchema = z.number().int().positive().max(24 * 60);
+
+// Stable task id chosen by the client; sending it again updates that task
+export const clientKeySchema = z.string().trim().min(1).max(100);
+
+export const MAX_BLOCKS_PER_DAY = 8;
+
+export const MAX_TASKS_PER_BLOCK = 50;
+
+export const MAX_CHECKLIST_ITEMS = 30;
+
+// A step inside a task with its own done flag
+export const checklistItemSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  done: z.boolean().default(false)
+});
+
+export const checklistSchema = z.array(checklistItemSchema).max(MAX_CHECKLIST_ITEMS);
+
+// POST /api/schedule
+export const scheduleBlockInputSchema = z.object({
+  label: z.string().trim().max(60).optional(),
+  energy_type: energyLevelSchema,
+  start_time: timeSchema,
+  end_time: timeSchema
+});
+
+// The owner comes from the auth token; a user_id in the body is ignored
+export const scheduleInputSchema = z.object({
+  day_of_week: dayOfWeekSchema,
+  sleep_time: timeSchema.nullable().optional(),
+  wake_time: timeSchema.nullable().optional(),
+  sessions: z.array(scheduleBlockInputSchema).min(1).max(MAX_BLOCKS_PER_DAY)
+});
+
+// PATCH /api/schedule: new start and end times for existing block templates
+export const scheduleTimesUpdateSchema = z.object({
+  templates: z.array(z.object({
+    id: idSchema,
+    start_time: timeSchema,
+    end_time: timeSchema
+  })).min(1).max(MAX_BLOCKS_PER_DAY)
+});
+
+// POST /api/schedule/week: several days with their blocks and tasks, saved together
+export const weekScheduleTaskInputSchema = z.object({
+  client_key: clientKeySchema.optional(),
+  name: z.string().trim().min(1).max(200),
+  description: z.string().max(2000).nullable().optional(),
+  duration_minutes: durationMinutesSchema.nullable().optional(),
+  priority: taskPrioritySchema.optional(),
+  checklist: checklistSchema.optional()
+});
+
+export const weekScheduleInputSchema = z.object({
+  days: z.array(scheduleInputSchema.extend({
+    sessions: z.array(scheduleBlockInputSchema.extend({
+      // The block's whole task list: tasks left out are removed from the block
+      tasks: z.array(weekScheduleTaskInputSchema).max(MAX_TASKS_PER_BLOCK).default([]).refine(
+        tasks => new Set(tasks.flatMap(t => t.client_key ?? [])).size === tasks.filter(t => t.client_key).length,
+        'Each client_key may appear only once per block'
+      )
+    })).min(1).max(MAX_BLOCKS_PER_DAY)
+  })).min(1).max(7).refine(
+    days => new Set(days.map(d => d.day_of_week)).size === days.length,
+    'Each day_of_week may appear only once'
+  )
+});
+
+// POST /api/sessions
+export const taskInputSchema = z.object({
+  session_id: idSchema,
+  client_key: clientKeySchema.optional(),
+  name: z.string().trim().min(1).max(200),
+  description: z.string().max(2000).nullable().optional(),
+  duration_minutes: durationMinutesSchema.nullable().optional(),
+  status: taskStatusSchema.optional(),
+  priority: taskPrioritySchema.optional(),
+  checklist: checklistSchema.optional()
+});
+
+// PATCH /api/tasks: only the editable columns, unknown keys are rejected
+export const taskUpdateSchema = z.object({
+  id: idSchema,
+  name: z.string().trim().min(1).max(200).optional(),
+  description: z.string().max(2000).nullable().optional(),
+  duration_minutes: durationMinutesSchema.nullable().optional(),
+  status: taskStatusSchema.optional(),
+  priority: taskPrioritySchema.optional(),
+  checklist: checklistSchema.optional() // the whole list; completes or reopens the task unless status is sent
+}).strict();
+
+// Ids in their new order; tasks left out keep their relative order after them
+const reorderIdsSchema = z.array(idSchema).min(1).max(MAX_TASKS_PER_BLOCK).refine(
+  ids => new Set(ids).size === ids.length,
+  'Each id may appear only once'
+);
+
+// PATCH /api/tasks/order
+export const taskReorderSchema = z.object({
+  session_id: idSchema,
+  task_ids: reorderIdsSchema
+});
+
+// PATCH /api/plans: one dated task, e.g. a single occurrence of a recurring task
+export const planTaskUpdateSchema = z.object({
+  id: idSchema,
+  status: taskStatusSchema.optional(),
+  checklist: checklistSchema.optional(), // as on PATCH /api/tasks
+  name: z.string().trim().min(1).max(200).optional(),
+  description: z.string().max(2000).nullable().optional(),
+  duration_minutes: durationMinutesSchema.nullable().optional(),
+  priority: taskPrioritySchema.optional()
+}).refine(body => Object.entries(body).some(([key, value]) => key !== 'id' && value !== undefined), 'Send at least one field to change');
+
+// PATCH /api/plans/order: the plan tasks of one block
+export const planTaskReorderSchema = z.object({
+  plan_id: idSchema,
+  plan_task_ids: reorderIdsSchema
+});
+
+// POST /api/plans/carry-over: plan tasks to move on; finished ones are left alone
+export const carryOverSchema = z.object({
+  plan_task_ids: z.array(idSchema).min(1).max(MAX_BLOCKS_PER_DAY * MAX_TASKS_PER_BLOCK),
+  to: carryOverTargetSchema
+});
+
+// When a recurring task comes up: on some weekdays every `interval` weeks
+// (counted from its start), on the nth weekday of each month (-1 for the
+// last), or a number of times per week on whichever days it gets done
+export const recurrenceRuleSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('weekly'),
+    days: z.array(dayOfWeekSchema).min(1).max(7).refine(days => new Set(days).size === days.length, 'Each day may appear only once'),
+    interval: z.number().int().min(1).max(8).default(1)
+  }).strict(),
+  z.object({
+    kind: z.literal('monthly'),
+    week: z.union([z.literal(1), z.literal(2), z.literal(3), z.literal(4), z.literal(-1)]),
+    day: dayOfWeekSchema
+  }).strict(),
+  z.object({
+    kind: z.literal('times_per_week'),
+    times: z.number().int().min(1).max(7)
+  }).strict()
+]);
+
+// POST /api/recurring: a task definition that generates occurrences into day plans
+export const recurringTaskInputSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  description: z.string().max(2000).nullable().optional(),
+  duration_minutes: durationMinutesSchema.nullable().optional(),
+  energy_type: energyLevelSchema.nullable().optional(), // block the occurrences go into; null takes the day's first
+  priority: taskPrioritySchema.optional(),
+  checklist: checklistSchema.optional(),
+  rule: recurrenceRuleSchema,
+  starts_on: dateSchema
+});
+
+// PATCH /api/recurring: changes every occurrence dated `from` or later;
+// a single occurrence is edited through PATCH /api/plans instead
+export const recurringTaskUpdateSchema = recurringTaskInputSchema
+  .omit({ starts_on: true })
+  .partial()
+  .extend({ id: idSchema, from: dateSchema })
+  .strict()
+  .refine(body => Object.entries(body).some(([key, value]) => key !== 'id' && key !== 'from' && value !== undefined), 'Send at least one field to change');
+
+// POST /api/inbox: a task that is not scheduled yet
+export const inboxTaskInputSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  description: z.string().max(2000).nullable().optional(),
+  duration_minutes: durationMinutesSchema.nullable().optional(),
+  energy_type: energyLevelSchema.nullable().optional(), // energy the task needs; null fits any block
+  priority: taskPrioritySchema.optional(),
+  checklist: checklistSchema.optional()
+});
+
+// PATCH /api/inbox: only the editable columns, unknown keys are rejected
+export const inboxTaskUpdateSchema = inboxTaskInputSchema.partial().extend({ id: idSchema }).strict();
+
+// POST /api/inbox/schedule: move an inbox task into a weekday block
+export const inboxScheduleSchema = z.object({
+  id: idSchema,
+  session_id: idSchema
+});
+
+// POST /api/inbox/rollover: the day whose unfinished tasks go back to the inbox
+export const inboxRolloverSchema = z.object({
+  plan_date: dateSchema
+});
+
+// POST /api/focus
+export const focusRunInputSchema = z.object({
+  plan_task_id: idSchema.nullable().optional(),
+  task_id: idSchema.nullable().optional(),
+  event: focusEventSchema,
+  run_date: dateSchema.optional(),
+  energy_type: energyLevelSchema.nullable().optional(),
+  interval_kind: focusIntervalSchema.optional() // default 'work'
+});
+
+// POST /api/breaks: the user's answer to a proposed break
+export const breakPromptInputSchema = z.object({
+  session_id: idSchema.nullable().optional(), // block the break was proposed in
+  energy_type: energyLevelSchema,
+  run_date: dateSchema.optional(),
+  due_at: z.string().datetime({ offset: true }),
+  minutes: z.number().int().min(1).max(120),
+  taken: z.boolean()
+});
+
+// PUT /api/timer: start an interval on the shared timer, now
+export const timerStartSchema = z.object({
+  plan_task_id: idSchema.nullable().optional(),
+  run_date: dateSchema.optional(),
+  timer_interval: timerIntervalSchema,
+  duration_seconds: z.number().int().min(0).max(24 * 3600),
+  work_intervals_done: z.number().int().min(0).max(1000).optional(),
+  paused: z.boolean().optional() // start paused, e.g. a new block while the timer was paused
+});
+
+// PATCH /api/timer: pause, resume or move the running interval to another task
+export const timerUpdateSchema = z.object({
+  paused: z.boolean().optional(),
+  plan_task_id: idSchema.nullable().optional()
+}).strict().refine(body => Object.values(body).some(value => value !== undefined), 'Send at least one field to change');
+
+// POST /api/insights
+export const shiftProposalSchema = z.object({
+  type: z.literal('shift_high_block'),
+  target: z.object({ start: timeSchema, end: timeSchema })
+});
+
+export const notificationPreferencesSchema = z.object({
+  sound_notifications: z.boolean(),
+  visual_alerts: z.boolean(),
+  email_reports: z.boolean(),
+  weekly_digest: z.boolean()
+});
+
+// Interval lengths for the Pomodoro timer mode; a long break replaces every
+// `cycles`th short break
+export const pomodoroSettingsSchema = z.object({
+  work_minutes: z.number().int().min(1).max(180),
+  short_break_minutes: z.number().int().min(1).max(60),
+  long_break_minutes: z.number().int().min(1).max(120),
+  cycles: z.number().int().min(1).max(12)
+});
+
+// PUT /api/profile: any subset of the editable fields
+export const profileUpdateSchema = z.object({
+  username: z.string().trim().min(1).max(50).optional(),
+  email: z.string().trim().email().nullable().optional(),
+  wake_time: timeSchema.nullable().optional(),
+  sleep_time: timeSchema.nullable().optional(),
+  time_zone: z.string().refine(isValidTimeZone, 'Expected an IANA time zone').optional(),
+  ai_personalization: z.boolean().optional(),
+  auto_carry_over: z.boolean().optional(),
+  timer_mode: timerModeSchema.optional(),
+  pomodoro_settings: pomodoroSettingsSchema.partial().strict().optional(),
+  notification_preferences: notificationPreferencesSchema.partial().strict().optional()
+});
+
+// Query strings: every value arrives as text. Ids stay within a serial column
+const queryIdSchema = z.string().regex(/^[1-9]\d{0,8}$/, 'Expected a positive whole number').transform(Number);
+
+// ?id=, e.g. DELETE /api/tasks
+export const idQuerySchema = z.object({ id: queryIdSchema });
+
+// GET /api/sessions
+export const sessionQuerySchema = z.object({ session_id: queryIdSchema });
+
+// GET /api/schedule
+export const scheduleQuerySchema = z.object({ schedule_id: queryIdSchema });
+
+// DELETE /api/recurring: stop the task from `from` on, today by default
+export const recurringEndQuerySchema = z.object({ id: queryIdSchema, from: dateSchema.optional() });
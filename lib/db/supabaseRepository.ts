@@ -0,0 +1,998 @@
+// Repository backed by the Supabase project. Each request gets a client
+// scoped to the caller's token, so RLS applies on top of the checks here.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseFromRequest } from '@/lib/supabaseClient';
+import { addDays, getDayOfWeek } from '@/lib/time';
+import { weekStart } from '@/lib/recurrence';
+import { carryOverCopies, groupPlanTasks, planTaskCopies, recurringCopies, type BlueprintSession } from './dayPlans';
+import { byPosition, reorderPositions } from './ordering';
+import { dayOfWeekSchema } from './schemas';
+import { NotFoundError, type Backend, type Repository } from './repository';
+import type {
+  CalendarFeedRow,
+  DayOfWeek,
+  DbBreakPrompt,
+  DbDayPlan,
+  DbPlanTask,
+  DbRecurringTask,
+  DbReport,
+  DbSchedule,
+  DbSession,
+  DbSessionTemplate,
+  DbTask,
+  DbTimerState,
+  DbFocusRun,
+  DbInboxTask,
+  DbUser,
+  SavedScheduleDay
+} from './types';
+
+const WEEK = dayOfWeekSchema.options;
+
+type Owned = 'schedule' | 'session' | 'task' | 'plan' | 'plan_task' | 'template' | 'inbox_task';
+
+// How each row type leads back to its owner's user_id
+const OWNER_PATHS: Record<Owned, { table: string; select: string; column: string }> = {
+  schedule: { table: 'schedules', select: 'id', column: 'user_id' },
+  template: { table: 'session_templates', select: 'id', column: 'user_id' },
+  session: { table: 'sessions', select: 'id, schedules!inner(user_id)', column: 'schedules.user_id' },
+  task: { table: 'tasks', select: 'id, sessions!inner(schedules!inner(user_id))', column: 'sessions.schedules.user_id' },
+  plan: { table: 'day_plans', select: 'id', column: 'user_id' },
+  plan_task: { table: 'plan_tasks', select: 'id, day_plans!inner(user_id)', column: 'day_plans.user_id' },
+  inbox_task: { table: 'inbox_tasks', select: 'id', column: 'user_id' }
+};
+
+export function createSupabaseRepository(supabase: SupabaseClient): Repository {
+  // Rows reached through a parent have no user_id of their own: confirm the chain
+  // ends at the caller before reading or changing them (RLS enforces the same)
+  async function assertOwned(kind: Owned, id: number, user_id: string): Promise<void> {
+    const path = OWNER_PATHS[kind];
+    const { data, error } = await supabase
+      .from(path.table)
+      .select(path.select)
+      .eq('id', id)
+      .eq(path.column, user_id)
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) throw new NotFoundError(kind, id);
+  }
+
+  // Unfinished occurrences of a recurring task in plans dated `from` or later
+  async function removeOccurrences(recurring_task_id: number, user_id: string, from: string): Promise<void> {
+    const { data: plans, error } = await supabase
+      .from('day_plans')
+      .select('id')
+      .eq('user_id', user_id)
+      .gte('plan_date', from);
+    if (error) throw error;
+    if (!plans?.length) return;
+    const { error: delErr } = await supabase
+      .from('plan_tasks')
+      .delete()
+      .eq('recurring_task_id', recurring_task_id)
+      .eq('status', 'active')
+      .in('plan_id', plans.map(p => p.id));
+    if (delErr) throw delErr;
+  }
+
+  // The weekday's schedule with its blocks and blueprint tasks, as day plans copy them
+  async function loadBlueprint(user_id: string, day_of_week: DayOfWeek): Promise<{ id: number; sessions: BlueprintSession[] } | null> {
+    const { data, error } = await supabase
+      .from('schedules')
+      .select(`
+        id,
+        sessions (
+          id,
+          template:session_templates ( label, position, energy_type, start_time, end_time ),
+          tasks ( id, name, description, duration_minutes, position, priority, checklist )
+        )
+      `)
+      .eq('user_id', user_id)
+      .eq('day_of_week', day_of_week)
+      .maybeSingle();
+    if (error) throw error;
+    return data as unknown as { id: number; sessions: BlueprintSession[] } | null;
+  }
+
+  async function loadPlanTasks(plan_id: number): Promise<DbPlanTask[]> {
+    const { data, error } = await supabase
+      .from('plan_tasks')
+      .select('*')
+      .eq('plan_id', plan_id)
+      .order('id', { ascending: true });
+    if (error) throw error;
+    return (data ?? []) as DbPlanTask[];
+  }
+
+  // Occurrences completed from the start of the week up to the day before `plan_date`,
+  // per recurring series (a task and the copies that took over from it after edits)
+  async function completedThisWeek(user_id: string, plan_date: string): Promise<Map<number, number>> {
+    const { data, error } = await supabase
+      .from('plan_tasks')
+      .select('recurring_task_id, recurring_task:recurring_tasks(series_id), day_plans!inner(user_id, plan_date)')
+      .eq('day_plans.user_id', user_id)
+      .gte('day_plans.plan_date', weekStart(plan_date))
+      .lt('day_plans.plan_date', plan_date)
+      .eq('status', 'completed')
+      .not('recurring_task_id', 'is', null);
+    if (error) throw error;
+    const counts = new Map<number, number>();
+    for (const row of (data ?? []) as unknown as Array<{ recurring_task_id: number; recurring_task: { series_id: number | null } | null }>) {
+      const series = row.recurring_task?.series_id ?? row.recurring_task_id;
+      counts.set(series, (counts.get(series) ?? 0) + 1);
+    }
+    return counts;
+  }
+
+  const repo: Repository = {
+    async getUserTimeZone(user_id) {
+      const { data, error } = await supabase
+        .from('users')
+        .select('time_zone')
+        .eq('id', user_id)
+        .maybeSingle();
+      if (error) throw error;
+      return (data?.time_zone as string | null) || 'UTC';
+    },
+
+    async getUserProfile(user_id) {
+      const { data, error } = await supabase
+        .from('users')
+        .select('*')
+        .eq('id', user_id)
+        .maybeSingle();
+      if (error) throw error;
+      if (data) return data as DbUser;
+      const { data: created, error: insertError } = await supabase
+        .from('users')
+        .insert({ id: user_id })
+        .select('*')
+        .single();
+      if (insertError) throw insertError;
+      return created as DbUser;
+    },
+
+    async updateUserProfile(user_id, patch) {
+      const { data, error } = await supabase
+        .from('users')
+        .update(patch)
+        .eq('id', user_id)
+        .select('*')
+        .single();
+      if (error) throw error;
+      return data as DbUser;
+    },
+
+    // With `rotate`, a new token replaces the old one so existing subscriptions stop working
+    async getCalendarToken(input) {
+      if (!input.rotate) {
+        const { data, error } = await supabase
+          .from('users')
+          .select('calendar_token')
+          .eq('id', input.user_id)
+          .single();
+        if (error) throw error;
+        if (data?.calendar_token) return data.calendar_token as string;
+      }
+      const { data, error } = await supabase
+        .from('users')
+        .update({ calendar_token: crypto.randomUUID() })
+        .eq('id', input.user_id)
+        .select('calendar_token')
+        .single();
+      if (error) throw error;
+      return data.calendar_token as string;
+    },
+
+    async getCalendarFeed(token) {
+      const { data, error } = await supabase.rpc('calendar_feed', { p_token: token });
+      if (error) throw error;
+      return (data ?? []) as CalendarFeedRow[];
+    },
+
+    async listSchedules(user_id) {
+      const { data, error } = await supabase
+        .from('schedules')
+        .select('*')
+        .eq('user_id', user_id)
+        .order('id', { ascending: true });
+      if (error) throw error;
+      return (data ?? []) as DbSchedule[];
+    },
+
+    async upsertSchedule(input) {
+      const { data, error } = await supabase
+        .from('schedules')
+        .upsert(
+          [
+            {
+              user_id: input.user_id,
+              day_of_week: input.day_of_week,
+              sleep_time: input.sleep_time ?? null,
+              wake_time: input.wake_time ?? null
+            }
+          ],
+          { onConflict: 'user_id,day_of_week' }
+        )
+        .select()
+        .single();
+      if (error) throw error;
+      return data as DbSchedule;
+    },
+
+    // One database transaction; the function saves for auth.uid(), which is input.user_id
+    async saveWeekSchedule(input) {
+      const { data, error } = await supabase.rpc('save_week_schedule', { p_days: input.days });
+      if (error) throw error;
+      return (data ?? []) as SavedScheduleDay[];
+    },
+
+    async getWeekSchedule(user_id) {
+      const { data, error } = await supabase
+        .from('schedules')
+        .select(`
+          id,
+          day_of_week,
+          wake_time,
+          sleep_time,
+          sessions (
+            id,
+            template:session_templates!inner ( id, label, position, energy_type, start_time, end_time ),
+            tasks ( * )
+          )
+        `)
+        .eq('user_id', user_id);
+      if (error) throw error;
+      const schedules = (data ?? []) as unknown as Array<
+        Pick<DbSchedule, 'id' | 'day_of_week' | 'wake_time' | 'sleep_time'> & {
+          sessions: Array<{
+            id: number;
+            template: Pick<DbSessionTemplate, 'id' | 'label' | 'position' | 'energy_type' | 'start_time' | 'end_time'>;
+            tasks: DbTask[];
+          }>;
+        }
+      >;
+      return schedules
+        .sort((a, b) => WEEK.indexOf(a.day_of_week) - WEEK.indexOf(b.day_of_week))
+        .map(schedule => ({
+          schedule_id: schedule.id,
+          day_of_week: schedule.day_of_week,
+          wake_time: schedule.wake_time,
+          sleep_time: schedule.sleep_time,
+          blocks: schedule.sessions
+            .map(session => ({
+              session_id: session.id,
+              template_id: session.template.id,
+              label: session.template.label,
+              position: session.template.position,
+              energy_type: session.template.energy_type,
+              start_time: session.template.start_time,
+              end_time: session.template.end_time,
+              tasks: (session.tasks ?? []).slice().sort(byPosition)
+            }))
+            .sort((a, b) => a.position - b.position)
+        }));
+    },
+
+    async upsertSessionTemplate(input) {
+      const { data, error } = await supabase
+        .from('session_templates')
+        .upsert(
+          [
+            {
+              user_id: input.user_id,
+              schedule_id: input.schedule_id,
+              label: input.label,
+              position: input.position,
+              energy_type: input.energy_type,
+              start_time: input.start_time,
+              end_time: input.end_time
+            }
+          ],
+          { onConflict: 'schedule_id,position' }
+        )
+        .select()
+        .single();
+      if (error) throw error;
+      return data as DbSessionTemplate;
+    },
+
+    async updateSessionTemplateTimes(input) {
+      await assertOwned('template', input.id, input.user_id);
+      const { data, error } = await supabase
+        .from('session_templates')
+        .update({ start_time: input.start_time, end_time: input.end_time })
+        .eq('id', input.id)
+        .select()
+        .single();
+      if (error) throw error;
+      return data as DbSessionTemplate;
+    },
+
+    // Drops blocks at or past `from_position`, e.g. when a day is saved with fewer blocks.
+    // Their sessions and blueprint tasks go with them (ON DELETE CASCADE).
+    async deleteSessionTemplatesFrom(input) {
+      const { error } = await supabase
+        .from('session_templates')
+        .delete()
+        .eq('user_id', input.user_id)
+        .eq('schedule_id', input.schedule_id)
+        .gte('position', input.from_position);
+      if (error) throw error;
+    },
+
+    async listTemplatesWithDay(input) {
+      let query = supabase
+        .from('session_templates')
+        .select('*, schedule:schedules!inner ( day_of_week )')
+        .eq('user_id', input.user_id)
+        .order('position', { ascending: true });
+      if (input.energy_type) query = query.eq('energy_type', input.energy_type);
+      const { data, error } = await query;
+      if (error) throw error;
+      return ((data ?? []) as Array<DbSessionTemplate & { schedule: { day_of_week: DayOfWeek } }>).map(
+        ({ schedule, ...template }) => ({ ...template, day_of_week: schedule.day_of_week })
+      );
+    },
+
+    async createSession(input) {
+      await assertOwned('schedule', input.schedule_id, input.user_id);
+      const { data, error } = await supabase
+        .from('sessions')
+        .upsert(
+          [
+            {
+              schedule_id: input.schedule_id,
+              template_id: input.template_id
+            }
+          ],
+          { onConflict: 'schedule_id,template_id' }
+        )
+        .select()
+        .single();
+      if (error) throw error;
+      return data as DbSession;
+    },
+
+    async listSessionsForSchedule(input) {
+      await assertOwned('schedule', input.schedule_id, input.user_id);
+      const { data, error } = await supabase
+        .from('sessions')
+        .select('*')
+        .eq('schedule_id', input.schedule_id)
+        .order('id', { ascending: true });
+      if (error) throw error;
+      return (data ?? []) as DbSession[];
+    },
+
+    async addTask(input) {
+      await assertOwned('session', input.session_id, input.user_id);
+      const { data: last, error: lastErr } = await supabase
+        .from('tasks')
+        .select('position')
+        .eq('session_id', input.session_id)
+        .order('position', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (lastErr) throw lastErr;
+      const row = {
+        session_id: input.session_id,
+        client_key: input.client_key ?? null,
+        name: input.name,
+        description: input.description ?? null,
+        duration_minutes: input.duration_minutes ?? null,
+        status: input.status ?? 'active',
+        priority: input.priority ?? 'normal',
+        checklist: input.checklist ?? [],
+        position: last ? (last.position as number) + 1 : 0
+      };
+      if (!row.client_key) {
+        const { data, error } = await supabase.from('tasks').insert([row]).select().single();
+        if (error) throw error;
+        return data as DbTask;
+      }
+
+      // A retry with the same key leaves the first task as it is and returns it
+      const { error: insErr } = await supabase
+        .from('tasks')
+        .upsert([row], { onConflict: 'session_id,client_key', ignoreDuplicates: true });
+      if (insErr) throw insErr;
+      const { data, error } = await supabase
+        .from('tasks')
+        .select('*')
+        .eq('session_id', row.session_id)
+        .eq('client_key', row.client_key)
+        .single();
+      if (error) throw error;
+      return data as DbTask;
+    },
+
+    async listTasksForSession(input) {
+      await assertOwned('session', input.session_id, input.user_id);
+      const { data, error } = await supabase
+        .from('tasks')
+        .select('*')
+        .eq('session_id', input.session_id)
+        .order('position', { ascending: true })
+        .order('id', { ascending: true });
+      if (error) throw error;
+      return (data ?? []) as DbTask[];
+    },
+
+    async updateTask(target, input) {
+      const { id } = target;
+      await assertOwned('task', id, target.user_id);
+      const { data, error } = await supabase
+        .from('tasks')
+        .update(input)
+        .eq('id', id)
+        .select()
+        .single();
+      if (error) throw error;
+      return data as DbTask;
+    },
+
+    async reorderTasks(input) {
+      await assertOwned('session', input.session_id, input.user_id);
+      const { data, error } = await supabase
+        .from('tasks')
+        .select('*')
+        .eq('session_id', input.session_id);
+      if (error) throw error;
+      const tasks = (data ?? []) as DbTask[];
+      const positions = reorderPositions('task', tasks, input.task_ids);
+      for (const task of tasks) {
+        const position = positions.get(task.id)!;
+        if (task.position === position) continue;
+        const { error: updErr } = await supabase.from('tasks').update({ position }).eq('id', task.id);
+        if (updErr) throw updErr;
+        task.position = position;
+      }
+      return tasks.sort(byPosition);
+    },
+
+    async deleteTask(target) {
+      await assertOwned('task', target.id, target.user_id);
+      const { error } = await supabase.from('tasks').delete().eq('id', target.id);
+      if (error) throw error;
+    },
+
+    /**
+     * Returns the dated plan for `plan_date`, creating it from the weekday
+     * blueprint on first access. With `sync`, blueprint tasks added since the plan
+     * was created are copied in as well; past plans should be left untouched.
+     */
+    async materializeDayPlan(input) {
+      const day_of_week = getDayOfWeek(input.plan_date);
+
+      const schedule = await loadBlueprint(input.user_id, day_of_week);
+
+      let { data: plan, error: planErr } = await supabase
+        .from('day_plans')
+        .select('*')
+        .eq('user_id', input.user_id)
+        .eq('plan_date', input.plan_date)
+        .maybeSingle();
+      if (planErr) throw planErr;
+      const created = !plan;
+      if (!plan) {
+        // ignoreDuplicates keeps a concurrent first load from failing on the unique key
+        const { error: insErr } = await supabase
+          .from('day_plans')
+          .upsert(
+            [{ user_id: input.user_id, plan_date: input.plan_date, schedule_id: schedule?.id ?? null }],
+            { onConflict: 'user_id,plan_date', ignoreDuplicates: true }
+          );
+        if (insErr) throw insErr;
+        ({ data: plan, error: planErr } = await supabase
+          .from('day_plans')
+          .select('*')
+          .eq('user_id', input.user_id)
+          .eq('plan_date', input.plan_date)
+          .single());
+        if (planErr) throw planErr;
+      }
+      const dayPlan = plan as DbDayPlan;
+
+      const sessions = schedule?.sessions ?? [];
+
+      if (created || input.sync) {
+        const copies = planTaskCopies(dayPlan.id, sessions);
+        if (copies.length > 0) {
+          const { error: copyErr } = await supabase
+            .from('plan_tasks')
+            .upsert(copies, { onConflict: 'plan_id,task_id', ignoreDuplicates: true });
+          if (copyErr) throw copyErr;
+        }
+      }
+
+      let planTasks = await loadPlanTasks(dayPlan.id);
+
+      if (created || input.sync) {
+        const { data: recurring, error: recurringErr } = await supabase
+          .from('recurring_tasks')
+          .select('*')
+          .eq('user_id', input.user_id)
+          .lte('starts_on', input.plan_date)
+          .or(`ends_on.is.null,ends_on.gte.${input.plan_date}`)
+          .order('id', { ascending: true });
+        if (recurringErr) throw recurringErr;
+        const copies = recurringCopies(
+          dayPlan.id,
+          input.plan_date,
+          (recurring ?? []) as DbRecurringTask[],
+          groupPlanTasks(sessions, planTasks),
+          await completedThisWeek(input.user_id, input.plan_date)
+        );
+        if (copies.length > 0) {
+          // UNIQUE (plan_id, recurring_task_id): a concurrent load does not add a second occurrence
+          const { error: copyErr } = await supabase
+            .from('plan_tasks')
+            .upsert(copies, { onConflict: 'plan_id,recurring_task_id', ignoreDuplicates: true });
+          if (copyErr) throw copyErr;
+          planTasks = await loadPlanTasks(dayPlan.id);
+        }
+      }
+
+      return { plan: dayPlan, day_of_week, blocks: groupPlanTasks(sessions, planTasks) };
+    },
+
+    async getDayPlan(input) {
+      const day_of_week = getDayOfWeek(input.plan_date);
+      const { data: plan, error } = await supabase
+        .from('day_plans')
+        .select('*')
+        .eq('user_id', input.user_id)
+        .eq('plan_date', input.plan_date)
+        .maybeSingle();
+      if (error) throw error;
+      if (!plan) return null;
+      const schedule = await loadBlueprint(input.user_id, day_of_week);
+      const planTasks = await loadPlanTasks(plan.id);
+      return { plan: plan as DbDayPlan, day_of_week, blocks: groupPlanTasks(schedule?.sessions ?? [], planTasks) };
+    },
+
+    async updatePlanTask(target, input) {
+      const { id } = target;
+      await assertOwned('plan_task', id, target.user_id);
+      const { data, error } = await supabase
+        .from('plan_tasks')
+        .update(input)
+        .eq('id', id)
+        .select()
+        .single();
+      if (error) throw error;
+      return data as DbPlanTask;
+    },
+
+    async reorderPlanTasks(input) {
+      await assertOwned('plan', input.plan_id, input.user_id);
+      const { data, error } = await supabase
+        .from('plan_tasks')
+        .select('*')
+        .eq('plan_id', input.plan_id);
+      if (error) throw error;
+      // The block of the first listed task; ids from other blocks are not found
+      const first = ((data ?? []) as DbPlanTask[]).find(t => t.id === input.plan_task_ids[0]);
+      const tasks = ((data ?? []) as DbPlanTask[]).filter(t => first && t.session_id === first.session_id);
+      const positions = reorderPositions('plan_task', tasks, input.plan_task_ids);
+      for (const task of tasks) {
+        const position = positions.get(task.id)!;
+        if (task.position === position) continue;
+        const { error: updErr } = await supabase.from('plan_tasks').update({ position }).eq('id', task.id);
+        if (updErr) throw updErr;
+        task.position = position;
+      }
+      return tasks.sort(byPosition);
+    },
+
+    async listPlanHistory(input) {
+      const { data, error } = await supabase
+        .from('day_plans')
+        .select(`
+          id,
+          plan_date,
+          plan_tasks (
+            *,
+            session:sessions ( template:session_templates ( start_time, end_time ) )
+          )
+        `)
+        .eq('user_id', input.user_id)
+        .gte('plan_date', input.from)
+        .lte('plan_date', input.to)
+        .order('plan_date', { ascending: true });
+      if (error) throw error;
+      type Row = DbPlanTask & { session: { template: { start_time: string; end_time: string } | null } | null };
+      return ((data ?? []) as unknown as Array<{ id: number; plan_date: string; plan_tasks: Row[] }>).map(plan => ({
+        id: plan.id,
+        plan_date: plan.plan_date,
+        tasks: (plan.plan_tasks ?? []).map(({ session, ...task }) => ({
+          ...task,
+          start_time: session?.template?.start_time ?? null,
+          end_time: session?.template?.end_time ?? null
+        }))
+      }));
+    },
+
+    async carryOverPlanTasks(input) {
+      const { data, error } = await supabase
+        .from('plan_tasks')
+        .select('*, day_plans!inner(user_id, plan_date)')
+        .in('id', input.plan_task_ids)
+        .eq('day_plans.user_id', input.user_id);
+      if (error) throw error;
+      type Row = DbPlanTask & { day_plans: { user_id: string; plan_date: string } };
+      const rows = (data ?? []) as Row[];
+      const missing = input.plan_task_ids.find(id => !rows.some(r => r.id === id));
+      if (missing !== undefined) throw new NotFoundError('plan_task', missing);
+
+      // In the order the ids were sent, so copies line up the same way
+      const leftovers = input.plan_task_ids
+        .map(id => rows.find(r => r.id === id)!)
+        .filter(r => r.status === 'active')
+        .map(({ day_plans, ...task }) => ({ ...task, plan_date: day_plans.plan_date }));
+      const copies = await carryOverCopies(leftovers, input.to, plan_date =>
+        repo.materializeDayPlan({ user_id: input.user_id, plan_date, sync: false })
+      );
+      if (copies.length === 0) return [];
+
+      // UNIQUE (carried_from_id): a retry does not carry the same task twice
+      const { data: added, error: insErr } = await supabase
+        .from('plan_tasks')
+        .upsert(copies, { onConflict: 'carried_from_id', ignoreDuplicates: true })
+        .select();
+      if (insErr) throw insErr;
+
+      const { error: updErr } = await supabase
+        .from('plan_tasks')
+        .update({ status: 'skipped' })
+        .in('id', copies.map(c => c.carried_from_id));
+      if (updErr) throw updErr;
+      return ((added ?? []) as DbPlanTask[]).sort((a, b) => a.id - b.id);
+    },
+
+    async listRecurringTasks(user_id) {
+      const { data, error } = await supabase
+        .from('recurring_tasks')
+        .select('*')
+        .eq('user_id', user_id)
+        .order('id', { ascending: true });
+      if (error) throw error;
+      return (data ?? []) as DbRecurringTask[];
+    },
+
+    async addRecurringTask(input) {
+      const { data, error } = await supabase
+        .from('recurring_tasks')
+        .insert([
+          {
+            user_id: input.user_id,
+            name: input.name,
+            description: input.description ?? null,
+            duration_minutes: input.duration_minutes ?? null,
+            energy_type: input.energy_type ?? null,
+            priority: input.priority ?? 'normal',
+            checklist: input.checklist ?? [],
+            rule: input.rule,
+            starts_on: input.starts_on
+          }
+        ])
+        .select()
+        .single();
+      if (error) throw error;
+      return data as DbRecurringTask;
+    },
+
+    async updateRecurringTask(target, input) {
+      const { data: task, error } = await supabase
+        .from('recurring_tasks')
+        .select('*')
+        .eq('id', target.id)
+        .eq('user_id', target.user_id)
+        .maybeSingle();
+      if (error) throw error;
+      // An ended task has no occurrences left to change
+      if (!task || (task.ends_on !== null && input.from > task.ends_on)) throw new NotFoundError('recurring_task', target.id);
+
+      let updated: DbRecurringTask;
+      if (input.from > task.starts_on) {
+        // The copy goes in first, so a failure leaves the task running unchanged.
+        // It keeps counting weeks and completions with the task it takes over from.
+        const { user_id, name, description, duration_minutes, energy_type, priority, checklist, rule, ends_on, anchor_date, series_id, starts_on } =
+          task as DbRecurringTask;
+        const { data: copy, error: insErr } = await supabase
+          .from('recurring_tasks')
+          .insert([
+            {
+              user_id, name, description, duration_minutes, energy_type, priority, checklist, rule, ends_on,
+              ...input.changes,
+              starts_on: input.from,
+              anchor_date: anchor_date ?? starts_on,
+              series_id: series_id ?? target.id
+            }
+          ])
+          .select()
+          .single();
+        if (insErr) throw insErr;
+        const { error: endErr } = await supabase
+          .from('recurring_tasks')
+          .update({ ends_on: addDays(input.from, -1) })
+          .eq('id', target.id);
+        if (endErr) throw endErr;
+        updated = copy as DbRecurringTask;
+      } else {
+        const { data, error: updErr } = await supabase
+          .from('recurring_tasks')
+          .update(input.changes)
+          .eq('id', target.id)
+          .select()
+          .single();
+        if (updErr) throw updErr;
+        updated = data as DbRecurringTask;
+      }
+      await removeOccurrences(target.id, target.user_id, input.from);
+      return updated;
+    },
+
+    async endRecurringTask(target, from) {
+      const { data: task, error } = await supabase
+        .from('recurring_tasks')
+        .select('starts_on, ends_on')
+        .eq('id', target.id)
+        .eq('user_id', target.user_id)
+        .maybeSingle();
+      if (error) throw error;
+      if (!task) throw new NotFoundError('recurring_task', target.id);
+
+      await removeOccurrences(target.id, target.user_id, from);
+      if (from > task.starts_on) {
+        const last = addDays(from, -1);
+        if (task.ends_on !== null && task.ends_on <= last) return;
+        const { error: updErr } = await supabase.from('recurring_tasks').update({ ends_on: last }).eq('id', target.id);
+        if (updErr) throw updErr;
+      } else {
+        const { error: delErr } = await supabase.from('recurring_tasks').delete().eq('id', target.id);
+        if (delErr) throw delErr;
+      }
+    },
+
+    async listInboxTasks(user_id) {
+      const { data, error } = await supabase
+        .from('inbox_tasks')
+        .select('*')
+        .eq('user_id', user_id)
+        .order('id', { ascending: true });
+      if (error) throw error;
+      return (data ?? []) as DbInboxTask[];
+    },
+
+    async addInboxTask(input) {
+      const { data, error } = await supabase
+        .from('inbox_tasks')
+        .insert([
+          {
+            user_id: input.user_id,
+            name: input.name,
+            description: input.description ?? null,
+            duration_minutes: input.duration_minutes ?? null,
+            energy_type: input.energy_type ?? null,
+            priority: input.priority ?? 'normal',
+            checklist: input.checklist ?? []
+          }
+        ])
+        .select()
+        .single();
+      if (error) throw error;
+      return data as DbInboxTask;
+    },
+
+    async updateInboxTask(target, input) {
+      const { id } = target;
+      await assertOwned('inbox_task', id, target.user_id);
+      const { data, error } = await supabase
+        .from('inbox_tasks')
+        .update(input)
+        .eq('id', id)
+        .select()
+        .single();
+      if (error) throw error;
+      return data as DbInboxTask;
+    },
+
+    async deleteInboxTask(target) {
+      await assertOwned('inbox_task', target.id, target.user_id);
+      const { error } = await supabase.from('inbox_tasks').delete().eq('id', target.id);
+      if (error) throw error;
+    },
+
+    async scheduleInboxTask(input) {
+      const { data: inbox, error } = await supabase
+        .from('inbox_tasks')
+        .select('*')
+        .eq('id', input.id)
+        .eq('user_id', input.user_id)
+        .maybeSingle();
+      if (error) throw error;
+      if (!inbox) throw new NotFoundError('inbox_task', input.id);
+      const task = await repo.addTask({
+        user_id: input.user_id,
+        session_id: input.session_id,
+        name: inbox.name,
+        description: inbox.description,
+        duration_minutes: inbox.duration_minutes,
+        priority: inbox.priority,
+        checklist: inbox.checklist
+      });
+      // Removed only once the task is in its block, so a failure cannot lose it
+      const { error: delErr } = await supabase.from('inbox_tasks').delete().eq('id', input.id);
+      if (delErr) throw delErr;
+      return task;
+    },
+
+    async rollOverToInbox(input) {
+      const { data: plan, error: planErr } = await supabase
+        .from('day_plans')
+        .select('id')
+        .eq('user_id', input.user_id)
+        .eq('plan_date', input.plan_date)
+        .maybeSingle();
+      if (planErr) throw planErr;
+      if (!plan) return [];
+
+      const { data: leftovers, error: tasksErr } = await supabase
+        .from('plan_tasks')
+        .select('*')
+        .eq('plan_id', plan.id)
+        .eq('status', 'active')
+        .order('id', { ascending: true });
+      if (tasksErr) throw tasksErr;
+      const tasks = (leftovers ?? []) as DbPlanTask[];
+      if (tasks.length === 0) return [];
+
+      // UNIQUE (plan_task_id): a retry does not add the same task twice
+      const { data: added, error: insErr } = await supabase
+        .from('inbox_tasks')
+        .upsert(
+          tasks.map(t => ({
+            user_id: input.user_id,
+            name: t.name,
+            description: t.description,
+            duration_minutes: t.duration_minutes,
+            energy_type: t.energy_type,
+            priority: t.priority,
+            checklist: t.checklist,
+            plan_task_id: t.id
+          })),
+          { onConflict: 'plan_task_id', ignoreDuplicates: true }
+        )
+        .select();
+      if (insErr) throw insErr;
+
+      const { error: updErr } = await supabase
+        .from('plan_tasks')
+        .update({ status: 'skipped' })
+        .in('id', tasks.map(t => t.id));
+      if (updErr) throw updErr;
+      return ((added ?? []) as DbInboxTask[]).sort((a, b) => a.id - b.id);
+    },
+
+    async logFocusRun(input) {
+      if (input.plan_task_id) await assertOwned('plan_task', input.plan_task_id, input.user_id);
+      if (input.task_id !== null) await assertOwned('task', input.task_id, input.user_id);
+      const { data, error } = await supabase
+        .from('focus_runs')
+        .insert([
+          {
+            user_id: input.user_id,
+            task_id: input.task_id,
+            plan_task_id: input.plan_task_id ?? null,
+            energy_type: input.energy_type ?? null,
+            run_date: input.run_date,
+            event: input.event,
+            interval_kind: input.interval_kind ?? 'work'
+          }
+        ])
+        .select()
+        .single();
+      if (error) throw error;
+      return data as DbFocusRun;
+    },
+
+    async listFocusRuns(input) {
+      const { data, error } = await supabase
+        .from('focus_runs')
+        .select('*')
+        .eq('user_id', input.user_id)
+        .gte('run_date', input.from)
+        .lte('run_date', input.to)
+        .order('occurred_at', { ascending: true });
+      if (error) throw error;
+      return (data ?? []) as DbFocusRun[];
+    },
+
+    async recordBreakPrompt(input) {
+      if (input.session_id !== null) await assertOwned('session', input.session_id, input.user_id);
+      const { data, error } = await supabase
+        .from('break_prompts')
+        .insert([
+          {
+            user_id: input.user_id,
+            session_id: input.session_id,
+            energy_type: input.energy_type,
+            run_date: input.run_date,
+            due_at: input.due_at,
+            minutes: input.minutes,
+            taken: input.taken
+          }
+        ])
+        .select()
+        .single();
+      if (error) throw error;
+      return data as DbBreakPrompt;
+    },
+
+    async listBreakPrompts(input) {
+      const { data, error } = await supabase
+        .from('break_prompts')
+        .select('*')
+        .eq('user_id', input.user_id)
+        .gte('run_date', input.from)
+        .lte('run_date', input.to)
+        .order('answered_at', { ascending: true });
+      if (error) throw error;
+      return (data ?? []) as DbBreakPrompt[];
+    },
+
+    async getTimerState(user_id) {
+      const { data, error } = await supabase
+        .from('timer_states')
+        .select('*')
+        .eq('user_id', user_id)
+        .maybeSingle();
+      if (error) throw error;
+      return (data as DbTimerState | null) ?? null;
+    },
+
+    async saveTimerState(input) {
+      if (input.plan_task_id !== null) await assertOwned('plan_task', input.plan_task_id, input.user_id);
+      const { data, error } = await supabase
+        .from('timer_states')
+        .upsert([{ ...input, updated_at: new Date().toISOString() }], { onConflict: 'user_id' })
+        .select()
+        .single();
+      if (error) throw error;
+      return data as DbTimerState;
+    },
+
+    async clearTimerState(user_id) {
+      const { error } = await supabase.from('timer_states').delete().eq('user_id', user_id);
+      if (error) throw error;
+    },
+
+    async listReports(input) {
+      const { data, error } = await supabase
+        .from('reports')
+        .select('*')
+        .eq('user_id', input.user_id)
+        .gte('report_date', input.from)
+        .order('report_date', { ascending: true });
+      if (error) throw error;
+      return (data ?? []) as DbReport[];
+    }
+  };
+  return repo;
+}
+
+export const supabaseBackend: Backend = {
+  forRequest(request) {
+    const supabase = getSupabaseFromRequest(request);
+    return {
+      repo: createSupabaseRepository(supabase),
+      async getUser() {
+        const { data: { user }, error } = await supabase.auth.getUser();
+        return error ? null : user;
+      }
+    };
+  }
+};
@@ -1,22 +1,76 @@
 // Database model types matching db/schema.sql
+// Enums and request bodies are inferred from the runtime schemas in ./schemas
 
-export type EnergyLevelDb = 'High' | 'Medium' | 'Low';
+import type { z } from 'zod';
+import type {
+  carryOverSchema,
+  carryOverTargetSchema,
+  checklistItemSchema,
+  dayOfWeekSchema,
+  energyLevelSchema,
+  focusEventSchema,
+  focusIntervalSchema,
+  focusRunInputSchema,
+  inboxRolloverSchema,
+  inboxScheduleSchema,
+  inboxTaskInputSchema,
+  inboxTaskUpdateSchema,
+  notificationPreferencesSchema,
+  planTaskUpdateSchema,
+  pomodoroSettingsSchema,
+  profileUpdateSchema,
+  recurrenceRuleSchema,
+  recurringTaskInputSchema,
+  recurringTaskUpdateSchema,
+  scheduleInputSchema,
+  scheduleTimesUpdateSchema,
+  shiftProposalSchema,
+  taskInputSchema,
+  taskPrioritySchema,
+  taskReorderSchema,
+  planTaskReorderSchema,
+  taskStatusSchema,
+  taskUpdateSchema,
+  timerIntervalSchema,
+  timerModeSchema,
+  weekScheduleInputSchema
+} from './schemas';
 
-export type DayOfWeek =
-  | 'Monday'
-  | 'Tuesday'
-  | 'Wednesday'
-  | 'Thursday'
-  | 'Friday'
-  | 'Saturday'
-  | 'Sunday';
+// Energy rating of a block; the block's name is the free-text template label
+export type EnergyLevelDb = z.infer<typeof energyLevelSchema>;
+
+export type DayOfWeek = z.infer<typeof dayOfWeekSchema>;
+
+export type RecurrenceRule = z.infer<typeof recurrenceRuleSchema>;
+
+// Where unfinished plan tasks are carried: a later block that day, or the next day
+export type CarryOverTarget = z.infer<typeof carryOverTargetSchema>;
 
 export interface DbUser {
   id: string; // UUID (auth.users.id)
   username: string | null;
+  calendar_token: string | null; // UUID, secret for the .ics feed
+  time_zone: string | null; // IANA zone all day/block boundaries are evaluated in
+  email: string | null; // contact address, may differ from the sign-in email
+  default_wake_time: string | null; // HH:MM:SS, prefilled into new weekday schedules
+  default_sleep_time: string | null; // HH:MM:SS
+  ai_personalization: boolean; // false keeps insights rule-based
+  auto_carry_over: boolean; // true carries unfinished tasks on without asking
+  timer_mode: TimerMode; // default 'block'
+  pomodoro_settings: PomodoroSettings;
+  notification_preferences: NotificationPreferences;
   created_at: string; // timestamp
 }
 
+export type TimerMode = z.infer<typeof timerModeSchema>;
+
+export type TimerInterval = z.infer<typeof timerIntervalSchema>;
+
+export type PomodoroSettings = z.infer<typeof pomodoroSettingsSchema>;
+
+// sound_notifications: chime when a block ends; visual_alerts: browser notification
+export type NotificationPreferences = z.infer<typeof notificationPreferencesSchema>;
+
 export interface DbSchedule {
   id: number; // serial
   user_id: string; // UUID
@@ -29,6 +83,9 @@ export interface DbSchedule {
 export interface DbSessionTemplate {
   id: number; // serial
   user_id: string; // UUID
+  schedule_id: number; // int, the weekday these windows apply to
+  label: string; // user-defined block name, e.g. "Deep work" or "Recovery"
+  position: number; // order of the block within the day, from 0
   energy_type: EnergyLevelDb;
   start_time: string; // HH:MM:SS
   end_time: string; // HH:MM:SS
@@ -42,16 +99,227 @@ export interface DbSession {
   created_at: string; // timestamp
 }
 
-export type TaskStatus = 'active' | 'completed' | 'skipped';
+export type TaskStatus = z.infer<typeof taskStatusSchema>;
+
+export type TaskPriority = z.infer<typeof taskPrioritySchema>;
+
+export type ChecklistItem = z.infer<typeof checklistItemSchema>;
 
 export interface DbTask {
   id: number; // serial
   session_id: number; // int
+  client_key: string | null; // unique per session
   name: string;
   description: string | null;
-  duration_minutes: number | null; // positive
+  duration_minutes: number | null; // positive, the estimate
+  status: TaskStatus; // default 'active'
+  position: number; // order within the block
+  priority: TaskPriority; // default 'normal'
+  actual_minutes: number | null; // focus time recorded by the timer
+  checklist: ChecklistItem[]; // steps inside the task, in order
+  created_at: string; // timestamp
+}
+
+export type FocusEvent = z.infer<typeof focusEventSchema>;
+
+export type FocusInterval = z.infer<typeof focusIntervalSchema>;
+
+export interface DbFocusRun {
+  id: number; // serial
+  user_id: string; // UUID
+  task_id: number | null; // int, null once the task is deleted
+  plan_task_id: number | null; // dated task instance the run belongs to
+  energy_type: EnergyLevelDb | null;
+  run_date: string; // YYYY-MM-DD
+  event: FocusEvent;
+  interval_kind: FocusInterval; // breaks are logged but are not focus time
+  occurred_at: string; // timestamptz
+}
+
+// The user's running focus timer; the time left is worked out from the timestamps
+export interface DbTimerState {
+  user_id: string; // UUID, one timer per user
+  plan_task_id: number | null; // task being worked on
+  run_date: string; // YYYY-MM-DD
+  timer_interval: TimerInterval;
+  work_intervals_done: number; // in the block, for Pomodoro long breaks
+  duration_seconds: number; // full length of the interval
+  started_at: string; // timestamptz
+  paused_at: string | null; // timestamptz, set while paused
+  paused_seconds: number; // earlier pauses of this interval
+  updated_at: string; // timestamptz
+}
+
+// GET /api/timer; server_time lets clients allow for their own clock being off
+export interface TimerStateView {
+  timer: DbTimerState | null;
+  server_time: string; // ISO timestamp
+}
+
+// A proposed break and whether the user took it
+export interface DbBreakPrompt {
+  id: number; // serial
+  user_id: string; // UUID
+  session_id: number | null; // block the break was proposed in
+  energy_type: EnergyLevelDb;
+  run_date: string; // YYYY-MM-DD
+  due_at: string; // timestamptz
+  minutes: number; // proposed length
+  taken: boolean;
+  answered_at: string; // timestamptz
+}
+
+export interface DbDayPlan {
+  id: number; // serial
+  user_id: string; // UUID
+  schedule_id: number | null; // blueprint schedule for the weekday
+  plan_date: string; // YYYY-MM-DD
+  created_at: string; // timestamp
+}
+
+export interface DbPlanTask {
+  id: number; // serial
+  plan_id: number; // int
+  session_id: number | null; // int
+  task_id: number | null; // blueprint task, null for ad-hoc items
+  energy_type: EnergyLevelDb | null;
+  name: string;
+  description: string | null;
+  duration_minutes: number | null; // positive, the estimate
   status: TaskStatus; // default 'active'
+  position: number; // order within the block
+  priority: TaskPriority; // default 'normal'
+  actual_minutes: number | null; // focus time recorded by the timer
+  checklist: ChecklistItem[]; // copied from the task unchecked, then checked off per day
+  deferral_count: number; // times the task was carried over to a later block or day
+  carried_from_id: number | null; // unfinished plan task this copy continues
+  recurring_task_id: number | null; // recurring task this is an occurrence of
+  created_at: string; // timestamp
+}
+
+// A task that recurs by rule; each matching day's plan gets an occurrence
+export interface DbRecurringTask {
+  id: number; // serial
+  user_id: string; // UUID
+  name: string;
+  description: string | null;
+  duration_minutes: number | null; // positive
+  energy_type: EnergyLevelDb | null; // block the occurrences go into; null takes the day's first
+  priority: TaskPriority;
+  checklist: ChecklistItem[];
+  rule: RecurrenceRule;
+  starts_on: string; // YYYY-MM-DD, first day it can occur
+  ends_on: string | null; // YYYY-MM-DD, last day it can occur
+  anchor_date: string | null; // YYYY-MM-DD, weekly intervals count from its week; null counts from starts_on
+  series_id: number | null; // first task of the series, when this one took over after an edit
   created_at: string; // timestamp
 }
 
+// A task not scheduled into any block yet
+export interface DbInboxTask {
+  id: number; // serial
+  user_id: string; // UUID
+  name: string;
+  description: string | null;
+  duration_minutes: number | null; // positive, the estimate
+  energy_type: EnergyLevelDb | null; // energy the task needs; null fits any block
+  priority: TaskPriority; // default 'normal'
+  checklist: ChecklistItem[];
+  plan_task_id: number | null; // unfinished dated task it rolled back from
+  created_at: string; // timestamp
+}
+
+export interface DbReport {
+  id: string; // UUID
+  user_id: string; // UUID
+  report_date: string; // YYYY-MM-DD
+  total_focus_seconds: number | null;
+  most_productive_block: EnergyLevelDb | null;
+  most_paused_block: EnergyLevelDb | null;
+  ai_recommendation: string | null;
+  created_at: string; // timestamptz
+}
+
+// A plan's tasks grouped under the blueprint's energy blocks
+export interface DayPlanBlock {
+  session_id: number;
+  label: string;
+  position: number;
+  energy_type: EnergyLevelDb;
+  start_time: string; // HH:MM:SS
+  end_time: string; // HH:MM:SS
+  tasks: DbPlanTask[];
+}
+
+export interface DayPlanView {
+  plan: DbDayPlan;
+  day_of_week: DayOfWeek;
+  blocks: DayPlanBlock[];
+}
+
+// A dated plan with each task's block window at read time, for insights
+export interface PlanHistoryEntry {
+  id: number;
+  plan_date: string; // YYYY-MM-DD
+  tasks: Array<DbPlanTask & { start_time: string | null; end_time: string | null }>;
+}
+
+// Row returned by the calendar_feed(p_token) database function
+export interface CalendarFeedRow {
+  template_id: number;
+  day_of_week: DayOfWeek;
+  label: string;
+  position: number;
+  energy_type: EnergyLevelDb;
+  start_time: string; // HH:MM:SS
+  end_time: string; // HH:MM:SS
+  tasks: Array<{ name: string; duration_minutes: number | null }>;
+}
+
+// A weekday's saved blocks with their blueprint tasks, as the schedule wizard edits them
+export interface ScheduleBlock {
+  session_id: number;
+  template_id: number;
+  label: string;
+  position: number;
+  energy_type: EnergyLevelDb;
+  start_time: string; // HH:MM:SS
+  end_time: string; // HH:MM:SS
+  tasks: DbTask[]; // by position
+}
+
+export interface WeekScheduleDay {
+  schedule_id: number;
+  day_of_week: DayOfWeek;
+  wake_time: string | null; // HH:MM:SS
+  sleep_time: string | null; // HH:MM:SS
+  blocks: ScheduleBlock[]; // by position
+}
+
+// Ids written for one day by save_week_schedule(p_days), in block order
+export interface SavedScheduleDay {
+  day_of_week: DayOfWeek;
+  schedule_id: number;
+  session_ids: number[];
+  task_ids: number[];
+}
 
+// Request bodies accepted by the API routes
+export type ScheduleInput = z.infer<typeof scheduleInputSchema>;
+export type ScheduleTimesUpdate = z.infer<typeof scheduleTimesUpdateSchema>;
+export type WeekScheduleInput = z.infer<typeof weekScheduleInputSchema>;
+export type TaskInput = z.infer<typeof taskInputSchema>;
+export type TaskUpdate = z.infer<typeof taskUpdateSchema>;
+export type PlanTaskUpdate = z.infer<typeof planTaskUpdateSchema>;
+export type TaskReorder = z.infer<typeof taskReorderSchema>;
+export type PlanTaskReorder = z.infer<typeof planTaskReorderSchema>;
+export type InboxTaskInput = z.infer<typeof inboxTaskInputSchema>;
+export type InboxTaskUpdate = z.infer<typeof inboxTaskUpdateSchema>;
+export type InboxSchedule = z.infer<typeof inboxScheduleSchema>;
+export type InboxRollover = z.infer<typeof inboxRolloverSchema>;
+export type CarryOver = z.infer<typeof carryOverSchema>;
+export type RecurringTaskInput = z.infer<typeof recurringTaskInputSchema>;
+export type RecurringTaskUpdate = z.infer<typeof recurringTaskUpdateSchema>;
+export type FocusRunInput = z.infer<typeof focusRunInputSchema>;
+export type ShiftProposal = z.infer<typeof shiftProposalSchema>;
+export type ProfileUpdate = z.infer<typeof profileUpdateSchema>;
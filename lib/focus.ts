@@ -0,0 +1,86 @@
+/**
+ * Focus log helpers for Thirds app
+ *
+ * Turns the append-only focus_runs event log into actual focus durations.
+ * Shared by the focus API route, the insights route and the reports page.
+ */
+
+import type { DbFocusRun, EnergyLevelDb, FocusInterval } from './db/types';
+
+export interface FocusSummary {
+  totalSeconds: number;
+  breakSeconds: number; // time on breaks between timer intervals, not in any total below
+  byTask: Record<number, number>; // blueprint task id
+  byPlanTask: Record<number, number>; // dated plan task id
+  byEnergy: Record<EnergyLevelDb, number>;
+  byDate: Record<string, number>; // YYYY-MM-DD
+}
+
+/**
+ * Sums focus time by pairing each start/resume with the next pause/stop of the
+ * same plan task (or blueprint task and date). Runs that are still open only
+ * count when `now` is given (e.g. the live dashboard); otherwise they are ignored.
+ * Break runs pair the same way but only add to breakSeconds.
+ */
+export function computeFocusSeconds(
+  runs: Array<
+    Pick<DbFocusRun, 'task_id' | 'energy_type' | 'run_date' | 'event' | 'occurred_at'> & {
+      plan_task_id?: number | null;
+      interval_kind?: FocusInterval; // missing on runs logged before breaks were
+    }
+  >,
+  now?: Date
+): FocusSummary {
+  const summary: FocusSummary = {
+    totalSeconds: 0,
+    breakSeconds: 0,
+    byTask: {},
+    byPlanTask: {},
+    byEnergy: { High: 0, Medium: 0, Low: 0 },
+    byDate: {}
+  };
+
+  const add = (run: (typeof runs)[number], seconds: number) => {
+    if (seconds <= 0) return;
+    if (run.interval_kind === 'break') {
+      summary.breakSeconds += seconds;
+      return;
+    }
+    summary.totalSeconds += seconds;
+    if (run.task_id !== null) summary.byTask[run.task_id] = (summary.byTask[run.task_id] || 0) + seconds;
+    if (run.plan_task_id) summary.byPlanTask[run.plan_task_id] = (summary.byPlanTask[run.plan_task_id] || 0) + seconds;
+    if (run.energy_type) summary.byEnergy[run.energy_type] += seconds;
+    summary.byDate[run.run_date] = (summary.byDate[run.run_date] || 0) + seconds;
+  };
+
+  // Open segment per plan task (or task/date): the event that started it
+  const open = new Map<string, (typeof runs)[number]>();
+  const sorted = runs
+    .slice()
+    .sort((a, b) => new Date(a.occurred_at).getTime() - new Date(b.occurred_at).getTime());
+
+  for (const run of sorted) {
+    const task = run.plan_task_id ? `plan:${run.plan_task_id}` : `task:${run.task_id ?? 'none'}:${run.run_date}`;
+    const key = run.interval_kind === 'break' ? `break:${task}` : task;
+    const started = open.get(key);
+    if (run.event === 'start' || run.event === 'resume') {
+      // A repeated start (e.g. page reload) keeps the earliest open segment
+      if (!started) open.set(key, run);
+      continue;
+    }
+    if (started) {
+      add(started, (new Date(run.occurred_at).getTime() - new Date(started.occurred_at).getTime()) / 1000);
+      open.delete(key);
+    }
+  }
+
+  if (now) {
+    open.forEach((started) => {
+      add(started, (now.getTime() - new Date(started.occurred_at).getTime()) / 1000);
+    });
+  }
+
+  summary.totalSeconds = Math.round(summary.totalSeconds);
+  summary.breakSeconds = Math.round(summary.breakSeconds);
+  return summary;
+}
@@ -0,0 +1,280 @@
+/**
+ * iCalendar helpers for Thirds app
+ *
+ * Renders the weekly block schedule as recurring VEVENTs (RFC 5545) for the
+ * calendar subscription feed. Times are floating (no TZID), so calendar
+ * clients show them in the device's local time like the rest of the app.
+ * Also parses imported calendars into weekly busy intervals.
+ */
+
+import type { CalendarFeedRow, DayOfWeek } from './db/types';
+import type { BusyInterval } from './types';
+import { toISODate, getDayOfWeek, getZonedDateTime, addDays } from './time';
+
+const WEEK: DayOfWeek[] = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+const BYDAY: Record<DayOfWeek, string> = {
+  Monday: 'MO',
+  Tuesday: 'TU',
+  Wednesday: 'WE',
+  Thursday: 'TH',
+  Friday: 'FR',
+  Saturday: 'SA',
+  Sunday: 'SU'
+};
+
+/**
+ * Escapes a TEXT property value (backslash, semicolon, comma and newlines)
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Folds a content line to 75 octets; continuation lines start with a space
+ */
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const ch of line) {
+    const len = encoder.encode(ch).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (size + len > limit) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += ch;
+    size += len;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+// YYYYMMDD of `day` in the Monday-Sunday week containing `from`
+function weekdayDate(day: DayOfWeek, from: Date): string {
+  const sinceMonday = (from.getDay() + 6) % 7;
+  const date = new Date(from);
+  date.setDate(from.getDate() - sinceMonday + WEEK.indexOf(day));
+  return toISODate(date).replace(/-/g, '');
+}
+
+// HH:MM[:SS] -> HHMMSS
+function toICalTime(time: string): string {
+  const [h = '00', m = '00', s = '00'] = time.split(':');
+  return `${h.padStart(2, '0')}${m.padStart(2, '0')}${s.slice(0, 2).padStart(2, '0')}`;
+}
+
+function toUTCStamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Builds a VCALENDAR with one weekly recurring event per block.
+ * The first occurrence is in the current week so this week's blocks show up too.
+ */
+export function buildCalendarFeed(rows: CalendarFeedRow[], now: Date = new Date()): string {
+  const stamp = toUTCStamp(now);
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Thirds//Weekly Schedule//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:Thirds'
+  ];
+
+  for (const row of rows) {
+    const date = weekdayDate(row.day_of_week, now);
+    const energy = `${row.energy_type} energy`;
+    const summary = row.label.toLowerCase() === energy.toLowerCase() ? row.label : `${row.label} (${energy})`;
+    const description = row.tasks.length > 0
+      ? row.tasks.map(t => `- ${t.name}${t.duration_minutes ? ` (${t.duration_minutes} min)` : ''}`).join('\n')
+      : 'No tasks planned';
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:thirds-template-${row.template_id}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${date}T${toICalTime(row.start_time)}`,
+      `DTEND:${date}T${toICalTime(row.end_time)}`,
+      `RRULE:FREQ=WEEKLY;BYDAY=${BYDAY[row.day_of_week]}`,
+      `SUMMARY:${escapeText(summary)}`,
+      `DESCRIPTION:${escapeText(description)}`,
+      `CATEGORIES:${row.energy_type}`,
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+interface ICalDate {
+  date: string; // YYYY-MM-DD
+  time: string | null; // HH:MM, null for all-day values
+}
+
+interface ParsedEvent {
+  summary: string;
+  start: ICalDate;
+  end: ICalDate | null;
+  rrule: Record<string, string> | null;
+  skip: boolean;
+}
+
+const BYDAY_TO_DAY: Record<string, DayOfWeek> = Object.fromEntries(
+  Object.entries(BYDAY).map(([day, code]) => [code, day as DayOfWeek])
+);
+
+// Wall-clock date and time of an instant in `timeZone`
+function zoned(date: Date, timeZone: string): ICalDate {
+  const { date: isoDate, hours, minutes } = getZonedDateTime(date, timeZone);
+  return { date: isoDate, time: `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}` };
+}
+
+// DATE or DATE-TIME value; UTC times are moved into `timeZone`, TZID and floating times are kept as written
+function parseICalDate(value: string, timeZone: string): ICalDate | null {
+  const m = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!m) return null;
+  const [, y, mo, d, h, mi, , utc] = m;
+  if (!h) return { date: `${y}-${mo}-${d}`, time: null };
+  if (utc) return zoned(new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi)), timeZone);
+  return { date: `${y}-${mo}-${d}`, time: `${h}:${mi}` };
+}
+
+// PT1H30M / P1D style durations, in minutes
+function parseDuration(value: string): number | null {
+  const m = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!m) return null;
+  const [, sign, w, d, h, mi] = m;
+  const minutes = (+(w || 0) * 7 * 24 + +(d || 0) * 24 + +(h || 0)) * 60 + +(mi || 0);
+  return sign === '-' ? -minutes : minutes;
+}
+
+function addMinutes(at: ICalDate, minutes: number): ICalDate {
+  const [h, m] = (at.time || '00:00').split(':').map(Number);
+  const base = new Date(`${at.date}T00:00:00Z`);
+  base.setUTCMinutes(h * 60 + m + minutes);
+  return { date: base.toISOString().slice(0, 10), time: base.toISOString().slice(11, 16) };
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1').trim();
+}
+
+function parseEvents(ics: string, timeZone: string): ParsedEvent[] {
+  const lines = ics.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: ParsedEvent[] = [];
+  let props: Array<{ name: string; params: string; value: string }> | null = null;
+  let nested = 0; // VALARM and other components inside the event
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') { props = []; nested = 0; continue; }
+    if (props && line.startsWith('BEGIN:')) { nested++; continue; }
+    if (props && nested > 0) {
+      if (line.startsWith('END:')) nested--;
+      continue;
+    }
+    if (line === 'END:VEVENT' && props) {
+      const get = (name: string) => props!.find(p => p.name === name);
+      const dtstart = get('DTSTART');
+      const start = dtstart ? parseICalDate(dtstart.value, timeZone) : null;
+      if (start) {
+        const dtend = get('DTEND');
+        const duration = get('DURATION');
+        const durationMin = duration ? parseDuration(duration.value) : null;
+        const end = dtend
+          ? parseICalDate(dtend.value, timeZone)
+          : durationMin !== null ? addMinutes(start, durationMin) : null;
+        const rrule = get('RRULE');
+        events.push({
+          summary: unescapeText(get('SUMMARY')?.value || 'Busy'),
+          start,
+          end,
+          rrule: rrule
+            ? Object.fromEntries(rrule.value.split(';').map(part => part.split('=') as [string, string]))
+            : null,
+          skip: get('TRANSP')?.value === 'TRANSPARENT' || get('STATUS')?.value === 'CANCELLED'
+        });
+      }
+      props = null;
+      continue;
+    }
+    if (!props) continue;
+    const m = line.match(/^([A-Za-z-]+)((?:;[^:]*)?):(.*)$/);
+    if (m) props.push({ name: m[1].toUpperCase(), params: m[2], value: m[3] });
+  }
+  return events;
+}
+
+const toMinutes = (time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+};
+
+/**
+ * Parses an .ics file into busy intervals per weekday.
+ * Weekly and daily recurring events that are still running count on every
+ * matching weekday; one-off events count when they fall in the coming week.
+ * All-day, free (TRANSP:TRANSPARENT) and cancelled events are ignored, and
+ * events running past midnight are cut at the end of the day.
+ */
+export function parseBusyIntervals(
+  ics: string,
+  options: { timeZone?: string; now?: Date } = {}
+): BusyInterval[] {
+  const timeZone = options.timeZone || 'UTC';
+  const today = zoned(options.now ?? new Date(), timeZone).date;
+  const weekEnd = addDays(today, 7);
+  const seen = new Set<string>();
+  const busy: BusyInterval[] = [];
+
+  for (const event of parseEvents(ics, timeZone)) {
+    if (event.skip || !event.start.time || !event.end?.time) continue;
+    const start = event.start.time;
+    const end = event.end.date > event.start.date ? '23:59' : event.end.time;
+    if (toMinutes(end) <= toMinutes(start)) continue;
+
+    let days: DayOfWeek[] = [];
+    if (event.rrule) {
+      const { FREQ, BYDAY: byDay, UNTIL } = event.rrule;
+      const until = UNTIL ? parseICalDate(UNTIL, timeZone) : null;
+      if (until && until.date < today) continue;
+      const listed = (byDay || '')
+        .split(',')
+        .map(code => BYDAY_TO_DAY[code.replace(/^[+-]?\d+/, '')])
+        .filter(Boolean);
+      if (FREQ === 'WEEKLY') days = listed.length ? listed : [getDayOfWeek(event.start.date)];
+      else if (FREQ === 'DAILY') days = listed.length ? listed : WEEK;
+    } else if (event.start.date >= today && event.start.date < weekEnd) {
+      days = [getDayOfWeek(event.start.date)];
+    }
+
+    for (const day of days) {
+      const key = `${day}|${start}|${end}|${event.summary}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      busy.push({ day_of_week: day, start, end, summary: event.summary });
+    }
+  }
+
+  return busy.sort((a, b) =>
+    WEEK.indexOf(a.day_of_week) - WEEK.indexOf(b.day_of_week) || toMinutes(a.start) - toMinutes(b.start)
+  );
+}
+
+/**
+ * Busy intervals on `day` that overlap the [start, end) window (HH:MM[:SS])
+ */
+export function findBusyOverlaps(busy: BusyInterval[], day: string, start: string, end: string): BusyInterval[] {
+  const s = toMinutes(start.slice(0, 5));
+  const e = toMinutes(end.slice(0, 5));
+  return busy.filter(b => b.day_of_week === day && toMinutes(b.start) < e && s < toMinutes(b.end));
+}
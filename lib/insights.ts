@@ -0,0 +1,145 @@
+/**
+ * Rule-based insights
+ *
+ * Suggestions, motivation lines and schedule proposals derived from a user's
+ * data summary without calling OpenAI. The insights route uses them when AI
+ * is unavailable or turned off, and for proposals in every case.
+ */
+
+export interface UserDataSummary {
+  totalSessions: number;
+  totalFocusTime: number;
+  averageSessionDuration: number;
+  completionRate: number;
+  energyLevelPatterns: {
+    high: { count: number; avgDuration: number };
+    medium: { count: number; avgDuration: number };
+    low: { count: number; avgDuration: number };
+  };
+  timeOfDayPatterns: {
+    morning: { sessions: number; avgDuration: number };
+    afternoon: { sessions: number; avgDuration: number };
+    night: { sessions: number; avgDuration: number };
+  };
+  recentTrends: {
+    lastWeekSessions: number;
+    lastWeekFocusTime: number;
+    consistencyScore: number;
+  };
+  scheduleData: {
+    wakeTime: string | null;
+    sleepTime: string | null;
+    hasSchedule: boolean;
+  };
+  // Task completion velocity and windows
+  completionVelocity: {
+    byHour: Array<{ hour: number; completed: number; avgDuration: number }>; // hour: 0-23
+    fastestHour?: number; // smallest avg duration with a minimum sample size
+    fastestAvg?: number;
+    highestThroughputHour?: number; // most completed tasks per hour
+  };
+  highBlock?: { start: string; end: string } | null;
+  // Tasks carried over at least CHRONIC_DEFERRALS times, most deferrals first
+  postponedTasks: Array<{ name: string; deferrals: number }>;
+}
+
+// Carry-overs after which a task counts as chronically postponed
+export const CHRONIC_DEFERRALS = 3;
+
+export type Proposal = {
+  type: 'shift_high_block';
+  target: { start: string; end: string };
+  rationale: string;
+};
+
+// Generate rule-based fallback suggestions
+export function generateRuleBasedSuggestions(userData: UserDataSummary): string[] {
+  const suggestions: string[] = [];
+
+  // Work that keeps moving to later blocks usually needs splitting or a better slot
+  const [postponed] = userData.postponedTasks;
+  if (postponed) {
+    suggestions.push(`"${postponed.name}" has been put off ${postponed.deferrals} times. Break it into smaller steps or give it a block whose energy suits it.`);
+  }
+
+  // Focus time recommendations
+  if (userData.totalFocusTime > 4 * 3600) {
+    suggestions.push("You've completed 4+ hours of deep work today. Consider taking a longer break to recharge.");
+  } else if (userData.totalFocusTime < 2 * 3600 && userData.totalSessions > 0) {
+    suggestions.push("Try extending your focus sessions to build deeper concentration habits.");
+  }
+
+  // Energy level optimization
+  const mostProductiveEnergy = Object.entries(userData.energyLevelPatterns)
+    .sort(([,a], [,b]) => b.avgDuration - a.avgDuration)[0];
+  
+  if (mostProductiveEnergy && mostProductiveEnergy[1].count > 0) {
+    suggestions.push(`Your ${mostProductiveEnergy[0]} energy sessions are most productive. Schedule important tasks during these times.`);
+  }
+
+  // Time of day patterns
+  const mostProductiveTime = Object.entries(userData.timeOfDayPatterns)
+    .sort(([,a], [,b]) => b.avgDuration - a.avgDuration)[0];
+  
+  if (mostProductiveTime && mostProductiveTime[1].sessions > 0) {
+    suggestions.push(`Your ${mostProductiveTime[0]} sessions show the best focus. Consider making this your primary work time.`);
+  }
+
+  // Consistency recommendations
+  if (userData.completionRate > 80) {
+    suggestions.push("Excellent task completion rate! Your consistency is building strong productivity habits.");
+  } else if (userData.completionRate < 50) {
+    suggestions.push("Try breaking tasks into smaller chunks to improve completion rates and build momentum.");
+  }
+
+  // Schedule recommendations
+  if (!userData.scheduleData.hasSchedule) {
+    suggestions.push("Set up a consistent sleep and wake schedule to optimize your energy levels throughout the day.");
+  }
+
+  // Recent activity trends
+  if (userData.recentTrends.lastWeekSessions < 3) {
+    suggestions.push("Increase session frequency to build stronger focus habits. Aim for at least 3 sessions per week.");
+  }
+
+  // Default suggestions if no specific patterns
+  if (suggestions.length === 0) {
+    suggestions.push(
+      "Start tracking your energy levels throughout the day to identify your most productive times.",
+      "Try the Pomodoro technique: 25 minutes of focused work followed by a 5-minute break.",
+      "Schedule your most challenging tasks during your highest energy periods."
+    );
+  }
+
+  return suggestions.slice(0, 6);
+}
+
+export function generateRuleBasedMotivation(userData: UserDataSummary): string {
+  if (userData.completionVelocity.fastestHour !== undefined) {
+    return `Lean into your ${userData.completionVelocity.fastestHour}:00 momentum—keep the streak alive.`;
+  }
+  if (userData.recentTrends.lastWeekSessions > 0) {
+    return 'Consistency compounds—today’s focus moves the needle.';
+  }
+  return 'Start small, finish strong.';
+}
+
+// Create concrete schedule change proposals based on focus velocity
+export function generateScheduleProposals(userData: UserDataSummary): Proposal[] {
+  const proposals: Proposal[] = [];
+  const fastestHour = userData.completionVelocity.fastestHour;
+  if (typeof fastestHour === 'number') {
+    // Propose a 2-hour High block centered on fastestHour when meaningful
+    const startHour = Math.max(0, fastestHour - 1);
+    const endHour = Math.min(23, fastestHour + 1);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const start = `${pad(startHour)}:00`;
+    const end = `${pad(endHour)}:00`;
+    proposals.push({
+      type: 'shift_high_block',
+      target: { start, end },
+      rationale: `Your fastest completion window is around ${pad(fastestHour)}:00; shifting High energy block to ${start}–${end} may improve throughput.`
+    });
+  }
+  return proposals;
+}
@@ -0,0 +1,33 @@
+/**
+ * Profile time zone for client pages
+ *
+ * Day and block boundaries follow the IANA zone stored on the user's profile,
+ * so every device and the API routes agree on "today" and the active block.
+ * Profiles without a zone yet are filled in from the device on first load.
+ */
+
+import { supabase } from './supabaseClient';
+import { getDeviceTimeZone, isValidTimeZone } from './time';
+
+export async function loadProfileTimeZone(): Promise<string> {
+  const device = getDeviceTimeZone();
+  try {
+    const { data: sessionData } = await supabase.auth.getSession();
+    const token = sessionData.session?.access_token;
+    if (!token) return device;
+    const res = await fetch('/api/profile', { headers: { Authorization: `Bearer ${token}` } });
+    const js = await res.json();
+    if (!js?.ok) return device;
+    const stored = js.data?.time_zone as string | null | undefined;
+    if (stored && isValidTimeZone(stored)) return stored;
+    await fetch('/api/profile', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify({ time_zone: device })
+    });
+    return device;
+  } catch (e) {
+    console.error('Failed to load profile time zone', e);
+    return device;
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Recurrence helpers for Thirds app
+ *
+ * A recurring task carries a rule saying which days it comes up on. Day plans
+ * ask occursOn() for each of the user's recurring tasks and add an occurrence
+ * for every match; the schedule page labels rules with describeRule().
+ * Dates are YYYY-MM-DD calendar days, as on day plans.
+ */
+
+import { addDays, getDayOfWeek } from './time';
+import type { DayOfWeek, RecurrenceRule } from './db/types';
+
+const WEEKDAYS: DayOfWeek[] = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'];
+const ORDINALS: Record<number, string> = { 1: 'First', 2: 'Second', 3: 'Third', 4: 'Fourth', [-1]: 'Last' };
+
+// Monday of the week `isoDate` falls in; weeks run Monday to Sunday
+export function weekStart(isoDate: string): string {
+  const day = new Date(`${isoDate}T00:00:00Z`).getUTCDay();
+  return addDays(isoDate, -((day + 6) % 7));
+}
+
+// Whether the task is in effect on `date`, from its first day to its last
+export function isInEffect(task: { starts_on: string; ends_on: string | null }, date: string): boolean {
+  return date >= task.starts_on && (task.ends_on === null || date <= task.ends_on);
+}
+
+/**
+ * Whether a rule that started on `startsOn` comes up on `date`. Flexible
+ * 'times_per_week' rules come up every day until the week's quota is met, so
+ * they need the number of occurrences completed earlier that week. Weekly
+ * intervals count from the week of `anchor`, which stays on the first task's
+ * start when a task is split by an edit.
+ */
+export function occursOn(rule: RecurrenceRule, startsOn: string, date: string, completedThisWeek = 0, anchor = startsOn): boolean {
+  if (date < startsOn) return false;
+  switch (rule.kind) {
+    case 'weekly': {
+      if (!rule.days.includes(getDayOfWeek(date))) return false;
+      const weeks = Math.round((Date.parse(weekStart(date)) - Date.parse(weekStart(anchor))) / (7 * 24 * 3600 * 1000));
+      return weeks % rule.interval === 0;
+    }
+    case 'monthly': {
+      if (getDayOfWeek(date) !== rule.day) return false;
+      const dayOfMonth = Number(date.slice(8, 10));
+      // The last one is the one with no same weekday left in the month
+      if (rule.week === -1) return addDays(date, 7).slice(5, 7) !== date.slice(5, 7);
+      return Math.ceil(dayOfMonth / 7) === rule.week;
+    }
+    case 'times_per_week':
+      return completedThisWeek < rule.times;
+  }
+}
+
+// Short label for a rule, e.g. 'Every other Tuesday' or 'First Monday of the month'
+export function describeRule(rule: RecurrenceRule): string {
+  switch (rule.kind) {
+    case 'weekly': {
+      const isWeekdays = rule.days.length === WEEKDAYS.length && WEEKDAYS.every(d => rule.days.includes(d));
+      const isDaily = rule.days.length === 7;
+      const days = rule.days.join(', ');
+      if (rule.interval === 1) return `Every ${isWeekdays ? 'weekday' : isDaily ? 'day' : days}`;
+      if (rule.interval === 2 && rule.days.length === 1) return `Every other ${days}`;
+      const weeks = rule.interval === 2 ? 'other week' : `${rule.interval} weeks`;
+      return `Every ${weeks} on ${isWeekdays ? 'weekdays' : isDaily ? 'every day' : days}`;
+    }
+    case 'monthly':
+      return `${ORDINALS[rule.week]} ${rule.day} of the month`;
+    case 'times_per_week':
+      return rule.times === 1 ? 'Once a week' : `${rule.times} times a week`;
+  }
+}
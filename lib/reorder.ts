@@ -0,0 +1,46 @@
+/**
+ * Drag-to-reorder helpers for Thirds app
+ *
+ * Plain HTML5 drag and drop for short lists (task lists, the schedule wizard),
+ * so reordering needs no extra dependency.
+ */
+
+import { useRef } from 'react';
+import type { DragEvent } from 'react';
+
+// Returns a copy of `items` with the item at `from` moved to index `to`
+export function moveItem<T>(items: T[], from: number, to: number): T[] {
+  if (from === to || from < 0 || from >= items.length) return items;
+  const next = items.slice();
+  const [moved] = next.splice(from, 1);
+  next.splice(Math.max(0, Math.min(to, next.length)), 0, moved);
+  return next;
+}
+
+/**
+ * Returns a function giving the props for list item `index`: drag it onto
+ * another item and onReorder(from, to) is called with both indexes.
+ */
+export function useDragReorder(onReorder: (from: number, to: number) => void) {
+  const dragged = useRef<number | null>(null);
+
+  return (index: number) => ({
+    draggable: true,
+    onDragStart: (e: DragEvent) => {
+      dragged.current = index;
+      e.dataTransfer.effectAllowed = 'move';
+    },
+    onDragOver: (e: DragEvent) => {
+      if (dragged.current !== null) e.preventDefault(); // allow dropping here
+    },
+    onDrop: (e: DragEvent) => {
+      e.preventDefault();
+      const from = dragged.current;
+      dragged.current = null;
+      if (from !== null && from !== index) onReorder(from, index);
+    },
+    onDragEnd: () => {
+      dragged.current = null;
+    }
+  });
+}
@@ -3,26 +3,159 @@
  * 
  * This file contains helper functions for time formatting, block detection,
  * and theme management based on time of day.
- * TODO: Add timezone support
+ * Clock-based helpers take an optional IANA time zone (the user's profile
+ * zone); without one they fall back to the device or server clock.
+ * Blocks are thirds of the user's waking window for the day.
  * TODO: Add more sophisticated energy level calculations
  */
 
 import { EnergyLevel, Block } from './types';
+import type { DayOfWeek, EnergyLevelDb } from './db/types';
+
+const DAYS: DayOfWeek[] = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export interface ZonedDateTime {
+  date: string; // YYYY-MM-DD
+  hours: number;
+  minutes: number;
+  seconds: number;
+  dayOfWeek: DayOfWeek;
+}
 
 /**
- * Determines the current energy block based on time of day
- * TODO: Make this configurable based on user's wake/sleep times
+ * Returns the wall-clock date and time of an instant in `timeZone`
  */
-export function getCurrentBlock(now: Date = new Date()): Block {
-  const hour = now.getHours();
-  
-  if (hour >= 5 && hour < 12) {
-    return 'morning';
-  } else if (hour >= 12 && hour < 19) {
-    return 'afternoon';
-  } else {
-    return 'night';
+export function getZonedDateTime(date: Date = new Date(), timeZone?: string | null): ZonedDateTime {
+  if (!timeZone) {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return {
+      date: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+      hours: date.getHours(),
+      minutes: date.getMinutes(),
+      seconds: date.getSeconds(),
+      dayOfWeek: DAYS[date.getDay()]
+    };
+  }
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+  const get = (type: string) => parts.find(p => p.type === type)?.value ?? '00';
+  const isoDate = `${get('year')}-${get('month')}-${get('day')}`;
+  return {
+    date: isoDate,
+    hours: Number(get('hour')),
+    minutes: Number(get('minute')),
+    seconds: Number(get('second')),
+    dayOfWeek: getDayOfWeek(isoDate)
+  };
+}
+
+/**
+ * Seconds since local midnight in `timeZone`
+ */
+export function getSecondsOfDay(date: Date = new Date(), timeZone?: string | null): number {
+  const { hours, minutes, seconds } = getZonedDateTime(date, timeZone);
+  return hours * 3600 + minutes * 60 + seconds;
+}
+
+/**
+ * The device's IANA time zone, used to fill in profiles that have none yet
+ */
+export function getDeviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export interface WakingWindow {
+  wake_time: string | null; // HH:MM[:SS]
+  sleep_time: string | null; // HH:MM[:SS], may be after midnight
+}
+
+export type WakingWindows = Partial<Record<DayOfWeek, WakingWindow>>;
+
+export type BlockBoundaries = Record<Block, { start: number; end: number }>;
+
+const DAY_MINUTES = 24 * 60;
+
+// Used when a day has no wake/sleep times: 5-12, 12-19, 19-5
+const DEFAULT_BOUNDARIES: BlockBoundaries = {
+  morning: { start: 5 * 60, end: 12 * 60 },
+  afternoon: { start: 12 * 60, end: 19 * 60 },
+  night: { start: 19 * 60, end: DAY_MINUTES + 5 * 60 }
+};
+
+const toMinutes = (time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + (m || 0);
+};
+
+/**
+ * Splits a day's waking window into thirds: morning, afternoon and night.
+ * Night runs from the last third until the next wake, so the three blocks
+ * cover the full 24 hours. Values are minutes after that day's midnight;
+ * a sleep time at or before the wake time is taken to be after midnight,
+ * so ends can exceed 1440.
+ */
+export function getBlockBoundaries(window?: WakingWindow | null): BlockBoundaries {
+  const waking = getWakingMinutes(window);
+  if (!waking) return DEFAULT_BOUNDARIES;
+  const { wake, sleep } = waking;
+  const third = Math.round((sleep - wake) / 3);
+  return {
+    morning: { start: wake, end: wake + third },
+    afternoon: { start: wake + third, end: wake + 2 * third },
+    night: { start: wake + 2 * third, end: wake + DAY_MINUTES }
+  };
+}
+
+function getWakingMinutes(window?: WakingWindow | null): { wake: number; sleep: number } | null {
+  if (!window?.wake_time || !window.sleep_time) return null;
+  const wake = toMinutes(window.wake_time);
+  const sleep = toMinutes(window.sleep_time);
+  return { wake, sleep: sleep <= wake ? sleep + DAY_MINUTES : sleep };
+}
+
+function blockAt(minutes: number, boundaries: BlockBoundaries): Block {
+  if (minutes >= boundaries.morning.start && minutes < boundaries.morning.end) return 'morning';
+  if (minutes >= boundaries.afternoon.start && minutes < boundaries.afternoon.end) return 'afternoon';
+  return 'night';
+}
+
+/**
+ * Determines the current energy block from the user's waking window for the
+ * day. Until the previous day's sleep time has passed (e.g. 01:00 for a night
+ * owl sleeping at 02:00) that day's window still applies. Without wake/sleep
+ * times the fixed 5-12, 12-19 and 19-5 blocks are used.
+ */
+export function getCurrentBlock(now: Date = new Date(), timeZone?: string | null, windows?: WakingWindows | null): Block {
+  const { date, hours, minutes, dayOfWeek } = getZonedDateTime(now, timeZone);
+  const nowMin = hours * 60 + minutes;
+
+  const yesterday = getDayOfWeek(addDays(date, -1));
+  const previous = getWakingMinutes(windows?.[yesterday]);
+  if (previous && nowMin + DAY_MINUTES < previous.sleep) {
+    return blockAt(nowMin + DAY_MINUTES, getBlockBoundaries(windows?.[yesterday]));
   }
+
+  const today = getBlockBoundaries(windows?.[dayOfWeek]);
+  // Before today's wake time it is still last night
+  if (nowMin < today.morning.start) return 'night';
+  return blockAt(nowMin, today);
 }
 
 /**
@@ -87,12 +220,13 @@ export function getBlockTheme(block: Block): string {
 
 /**
  * Compute energy-based theme class from today's session templates.
+ * - Accepts any number of blocks; the theme follows each block's energy rating, not its label
  * - Returns one of: soft-energy-high | soft-energy-medium | soft-energy-low
  * - Keeps last active energy if current time is between sessions (gap)
  */
-export function getEnergyThemeForNow(templates: Array<{ energy: 'High'|'Medium'|'Low'; start: string; end: string }>, now: Date = new Date()): string {
+export function getEnergyThemeForNow(templates: Array<{ energy: EnergyLevelDb; label?: string; start: string; end: string }>, now: Date = new Date(), timeZone?: string | null): string {
   if (!Array.isArray(templates) || templates.length === 0) return 'soft-energy-low animated-gradient';
-  const nowMin = now.getHours() * 60 + now.getMinutes();
+  const nowMin = Math.floor(getSecondsOfDay(now, timeZone) / 60);
   const toMin = (t: string) => {
     const [h, m] = t.split(':').map(Number); return h * 60 + m;
   };
@@ -142,16 +276,39 @@ export function getEnergyColor(energy: EnergyLevel): string {
 
 /**
  * Gets the current time in HH:MM format
- * TODO: Add timezone support
  */
-export function getCurrentTime(): string {
-  const now = new Date();
-  return now.toTimeString().slice(0, 5);
+export function getCurrentTime(timeZone?: string | null): string {
+  const { hours, minutes } = getZonedDateTime(new Date(), timeZone);
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+/**
+ * Formats a date as YYYY-MM-DD using the calendar day in `timeZone`
+ * (the device's local day when no zone is given)
+ */
+export function toISODate(date: Date = new Date(), timeZone?: string | null): string {
+  return getZonedDateTime(date, timeZone).date;
+}
+
+/**
+ * Moves a YYYY-MM-DD calendar date by whole days
+ */
+export function addDays(isoDate: string, days: number): string {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Returns the weekday name for a YYYY-MM-DD calendar date
+ */
+export function getDayOfWeek(isoDate: string): DayOfWeek {
+  return DAYS[new Date(`${isoDate}T00:00:00Z`).getUTCDay()];
 }
 
 /**
- * Checks if current time is within a given range
- * TODO: Add support for overnight ranges
+ * Checks if current time is within a given range, bounds included.
+ * Ranges that end before they start run overnight (e.g. 22:00-06:00).
  */
 export function isTimeInRange(currentTime: string, startTime: string, endTime: string): boolean {
   const current = timeToMinutes(currentTime);
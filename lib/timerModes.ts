@@ -0,0 +1,73 @@
+/**
+ * Timer mode helpers for Thirds app
+ *
+ * The focus timer runs one interval at a time. In 'block' mode that is a single
+ * countdown to the end of the block; 'pomodoro' and '52_17' alternate work
+ * with breaks; 'task' gives each task its estimated duration, with a short
+ * break after it. No interval runs past the end of the block.
+ */
+
+import type { FocusInterval, PomodoroSettings, TimerInterval, TimerMode } from './db/types';
+
+export type { TimerInterval };
+
+export const DEFAULT_POMODORO_SETTINGS: PomodoroSettings = {
+  work_minutes: 25,
+  short_break_minutes: 5,
+  long_break_minutes: 15,
+  cycles: 4
+};
+
+export const TIMER_MODE_LABELS: Record<TimerMode, string> = {
+  block: 'Block countdown',
+  pomodoro: 'Pomodoro',
+  '52_17': '52/17',
+  task: 'Task duration'
+};
+
+export const INTERVAL_LABELS: Record<TimerInterval, string> = {
+  work: 'Focus',
+  short_break: 'Short break',
+  long_break: 'Long break'
+};
+
+// How the focus log records an interval
+export const toFocusInterval = (interval: TimerInterval): FocusInterval => (interval === 'work' ? 'work' : 'break');
+
+/**
+ * Length in seconds of an interval, cut short at the end of the block.
+ * 'task' work uses the task's estimate, or the Pomodoro work length when it
+ * has none.
+ */
+export function intervalSeconds(
+  mode: TimerMode,
+  interval: TimerInterval,
+  context: { settings: PomodoroSettings; blockRemainingSec: number; taskMinutes?: number | null }
+): number {
+  const { settings, blockRemainingSec } = context;
+  let minutes: number;
+  if (mode === 'block') return Math.max(0, blockRemainingSec);
+  if (mode === '52_17') minutes = interval === 'work' ? 52 : 17;
+  else if (interval === 'short_break') minutes = settings.short_break_minutes;
+  else if (interval === 'long_break') minutes = settings.long_break_minutes;
+  else if (mode === 'task') minutes = context.taskMinutes || settings.work_minutes;
+  else minutes = settings.work_minutes;
+  return Math.max(0, Math.min(minutes * 60, blockRemainingSec));
+}
+
+/**
+ * The interval after `finished`, given how many work intervals are done
+ * including it. 'block' mode has only the one countdown, so after its work
+ * it returns null; a break taken from a break prompt goes back to it.
+ */
+export function nextInterval(
+  mode: TimerMode,
+  finished: TimerInterval,
+  workIntervalsDone: number,
+  settings: PomodoroSettings
+): TimerInterval | null {
+  if (finished !== 'work') return 'work';
+  if (mode === 'block') return null;
+  if (mode === 'pomodoro' && workIntervalsDone > 0 && workIntervalsDone % settings.cycles === 0) return 'long_break';
+  return 'short_break';
+}
@@ -0,0 +1,77 @@
+/**
+ * Shared focus timer helpers for Thirds app
+ *
+ * The running timer is kept as timestamps: when the interval started, how
+ * long it is, and how long it has been paused. Every tab and device works out
+ * the time left from these instead of counting down on its own, so a reload
+ * or a second tab shows the same interval.
+ */
+
+import type { DbTimerState, FocusEvent, FocusInterval } from './db/types';
+
+type Timing = Pick<DbTimerState, 'duration_seconds' | 'started_at' | 'paused_at' | 'paused_seconds'>;
+
+type Run = Pick<DbTimerState, 'plan_task_id' | 'timer_interval' | 'paused_at'>;
+
+// One event the focus log gets for a change of the timer
+export interface FocusLogEntry {
+  event: FocusEvent;
+  plan_task_id: number | null;
+  interval_kind: FocusInterval;
+}
+
+export type TimerStart = Pick<DbTimerState, 'plan_task_id' | 'run_date' | 'timer_interval' | 'duration_seconds' | 'work_intervals_done'> & {
+  paused?: boolean;
+};
+
+// A timer whose interval starts at `now`, as PUT /api/timer stores it
+export function startTimer(input: TimerStart, now: Date): Omit<DbTimerState, 'user_id' | 'updated_at'> {
+  const { paused, ...timer } = input;
+  return { ...timer, started_at: now.toISOString(), paused_at: paused ? now.toISOString() : null, paused_seconds: 0 };
+}
+
+// Seconds the interval has run, not counting pauses
+export function elapsedSeconds(timer: Timing, now: Date): number {
+  const end = timer.paused_at ? Date.parse(timer.paused_at) : now.getTime();
+  return Math.max(0, Math.floor((end - Date.parse(timer.started_at)) / 1000) - timer.paused_seconds);
+}
+
+export function remainingSeconds(timer: Timing, now: Date): number {
+  return Math.max(0, timer.duration_seconds - elapsedSeconds(timer, now));
+}
+
+// The timer paused or resumed at `now`; one already in that state is returned as is
+export function setPaused<T extends Timing>(timer: T, paused: boolean, now: Date): T {
+  if (paused === (timer.paused_at !== null)) return timer;
+  if (paused) return { ...timer, paused_at: now.toISOString() };
+  const pausedFor = Math.max(0, Math.round((now.getTime() - Date.parse(timer.paused_at!)) / 1000));
+  return { ...timer, paused_at: null, paused_seconds: timer.paused_seconds + pausedFor };
+}
+
+// What the timer has open in the focus log: work on its task, or a break.
+// Work without a task is not logged; a paused break still counts as the break.
+function openRun(timer: Run | null): { plan_task_id: number | null; interval_kind: FocusInterval; paused: boolean } | null {
+  if (!timer) return null;
+  if (timer.timer_interval !== 'work') return { plan_task_id: null, interval_kind: 'break', paused: false };
+  if (timer.plan_task_id === null) return null;
+  return { plan_task_id: timer.plan_task_id, interval_kind: 'work', paused: timer.paused_at !== null };
+}
+
+/**
+ * Focus log events for the timer changing from `prev` to `next` (null when
+ * there is none): a pause or resume of the same work, or a stop of what was
+ * open and a start of what is open now. A new interval on the same task, or a
+ * second break after a break, carries on the open run.
+ */
+export function focusEventsBetween(prev: Run | null, next: Run | null): FocusLogEntry[] {
+  const before = openRun(prev);
+  const after = openRun(next);
+  if (before && after && before.interval_kind === after.interval_kind && before.plan_task_id === after.plan_task_id) {
+    if (before.paused === after.paused) return [];
+    return [{ event: after.paused ? 'pause' : 'resume', plan_task_id: after.plan_task_id, interval_kind: after.interval_kind }];
+  }
+  const events: FocusLogEntry[] = [];
+  if (before) events.push({ event: 'stop', plan_task_id: before.plan_task_id, interval_kind: before.interval_kind });
+  if (after && !after.paused) events.push({ event: 'start', plan_task_id: after.plan_task_id, interval_kind: after.interval_kind });
+  return events;
+}
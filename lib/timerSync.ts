@@ -0,0 +1,77 @@
+/**
+ * Shared timer sync for client pages
+ *
+ * Reads and writes the running timer through /api/timer and tells the user's
+ * other tabs when it changes; other devices pick changes up when they next
+ * ask. Changes are shown straight away and replaced by the server's copy.
+ */
+
+import { supabase } from './supabaseClient';
+import { setPaused, startTimer, type TimerStart } from './timerState';
+import type { DbTimerState, TimerStateView } from './db/types';
+
+export type SharedTimer = Omit<DbTimerState, 'user_id'>;
+
+// Server clock minus this device's clock, from the last response
+let clockSkewMs = 0;
+export const serverNow = () => new Date(Date.now() + clockSkewMs);
+
+// One channel per tab: a channel does not hear its own messages
+let channel: BroadcastChannel | null = null;
+const timerChannel = () => {
+  if (!channel && typeof BroadcastChannel !== 'undefined') channel = new BroadcastChannel('thirds-timer');
+  return channel;
+};
+
+async function request(method: 'GET' | 'PUT' | 'PATCH' | 'DELETE', body?: unknown): Promise<SharedTimer | null> {
+  const { data: sessionData } = await supabase.auth.getSession();
+  const token = sessionData.session?.access_token;
+  if (!token) return null;
+  const res = await fetch('/api/timer', {
+    method,
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  const js = await res.json();
+  if (!res.ok || !js?.ok) throw new Error(js?.error || 'Failed to sync timer');
+  const view = js.data as TimerStateView;
+  clockSkewMs = Date.parse(view.server_time) - Date.now();
+  if (method !== 'GET') timerChannel()?.postMessage('changed');
+  return view.timer;
+}
+
+export const loadTimer = () => request('GET');
+
+export const clearTimer = () => request('DELETE');
+
+// Starts an interval now; `saved` gets the server's copy once it is stored
+export function startSharedTimer(input: TimerStart, saved: (timer: SharedTimer) => void): SharedTimer {
+  const now = serverNow();
+  request('PUT', input)
+    .then(timer => { if (timer) saved(timer); })
+    .catch(e => console.error('Failed to save timer', e));
+  return { ...startTimer(input, now), updated_at: now.toISOString() };
+}
+
+// Pauses, resumes or moves the running interval to another task
+export function updateSharedTimer(
+  timer: SharedTimer,
+  change: { paused?: boolean; plan_task_id?: number | null },
+  saved: (timer: SharedTimer) => void
+): SharedTimer {
+  const now = serverNow();
+  request('PATCH', change)
+    .then(next => { if (next) saved(next); })
+    .catch(e => console.error('Failed to save timer', e));
+  const next = change.paused === undefined ? timer : setPaused(timer, change.paused, now);
+  return { ...next, plan_task_id: change.plan_task_id === undefined ? next.plan_task_id : change.plan_task_id, updated_at: now.toISOString() };
+}
+
+// Calls `changed` whenever another tab changes the timer; returns the unsubscribe
+export function onTimerChange(changed: () => void): () => void {
+  const ch = timerChannel();
+  if (!ch) return () => {};
+  const listener = () => changed();
+  ch.addEventListener('message', listener);
+  return () => ch.removeEventListener('message', listener);
+}
@@ -2,19 +2,27 @@
  * Shared TypeScript types and interfaces for Thirds app
  * 
  * This file contains all the core data structures used throughout the application.
- * TODO: Add more specific validation schemas using zod or similar
+ * Runtime schemas for request bodies live in lib/db/schemas.
  */
 
+import type { ChecklistItem, DayOfWeek, NotificationPreferences, PomodoroSettings, TimerMode } from './db/types';
+import type { TimerInterval } from './timerModes';
+
 export type EnergyLevel = 'high' | 'medium' | 'low';
 export type Block = 'morning' | 'afternoon' | 'night';
 
 export interface Profile {
   id: string;
-  username?: string;
-  email?: string;
-  wake_time?: string; // HH:MM format
-  sleep_time?: string; // HH:MM format
+  username: string | null;
+  email: string | null;
+  wake_time: string | null; // HH:MM format, default for weekday schedules
+  sleep_time: string | null; // HH:MM format
+  time_zone: string | null; // IANA zone, e.g. 'Europe/Berlin'
   ai_personalization: boolean;
+  auto_carry_over: boolean; // carry unfinished tasks on without asking
+  timer_mode: TimerMode;
+  pomodoro_settings: PomodoroSettings;
+  notification_preferences: NotificationPreferences;
   created_at: string;
 }
 
@@ -56,17 +64,25 @@ export interface Report {
 
 // UI Component Props
 export interface TaskItem {
-  id?: number; // optional DB id if available
+  id?: number; // optional DB id if available (plan task id on the dashboard)
+  task_id?: number; // blueprint task the item was copied from
+  recurring_task_id?: number; // recurring task the item is an occurrence of
   label: string;
   range: string;
   energy: EnergyLevel;
   done?: boolean;
   status?: 'active' | 'completed' | 'skipped';
+  priority?: 'high' | 'normal' | 'low';
+  duration_minutes?: number | null; // estimate
+  actual_minutes?: number | null; // recorded by the timer
+  checklist?: ChecklistItem[]; // steps inside the task
 }
 
 export interface CircularTimerProps {
   currentTask: string;
   timeRemainingSec: number;
+  intervalSec?: number; // full length of the current interval; the ring empties over it
+  interval?: TimerInterval; // shown under the time when set; breaks draw a different ring
   energyLevel: EnergyLevel;
   onComplete: () => void;
 }
@@ -90,6 +106,12 @@ export interface ApiResponse<T = unknown> {
   ok: boolean;
   data?: T;
   error?: string;
+  issues?: ValidationIssue[]; // set on 400s from schema validation
+}
+
+export interface ValidationIssue {
+  path: string; // dotted field path, e.g. "sessions.0.start_time"
+  message: string;
 }
 
 export interface InsightsResponse {
@@ -101,3 +123,24 @@ export interface InsightsResponse {
   }>;
   motivation?: string;
 }
+
+// A busy period from an imported calendar, projected onto the weekly schedule
+export interface BusyInterval {
+  day_of_week: DayOfWeek;
+  start: string; // HH:MM
+  end: string; // HH:MM
+  summary: string;
+}
+
+export interface CalendarImportResponse {
+  busy: BusyInterval[];
+  // Saved High blocks that overlap imported meetings
+  conflicts: Array<{
+    template_id: number;
+    day_of_week: DayOfWeek;
+    label: string;
+    start_time: string; // HH:MM:SS
+    end_time: string; // HH:MM:SS
+    busy: BusyInterval[];
+  }>;
+}
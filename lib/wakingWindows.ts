@@ -0,0 +1,41 @@
+/**
+ * Waking windows for client pages
+ *
+ * Loads the wake and sleep times saved with each weekday schedule so the
+ * morning/afternoon/night blocks follow the user's own day. Days without
+ * their own times use the profile's default wake and sleep times.
+ */
+
+import { supabase } from './supabaseClient';
+import type { DayOfWeek, WeekScheduleDay } from './db/types';
+import type { Profile } from './types';
+import type { WakingWindows } from './time';
+
+const WEEK: DayOfWeek[] = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+export async function loadWakingWindows(): Promise<WakingWindows> {
+  try {
+    const { data: sessionData } = await supabase.auth.getSession();
+    const token = sessionData.session?.access_token;
+    if (!token) return {};
+    const headers = { Authorization: `Bearer ${token}` };
+    const [scheduleJs, profileJs] = await Promise.all([
+      fetch('/api/schedule/week', { headers }).then(res => res.json()),
+      fetch('/api/profile', { headers }).then(res => res.json())
+    ]);
+    const schedules: WeekScheduleDay[] = scheduleJs?.ok ? scheduleJs.data : [];
+    const profile: Profile | null = profileJs?.ok ? profileJs.data : null;
+    const windows: WakingWindows = {};
+    for (const day of WEEK) {
+      const s = schedules.find(row => row.day_of_week === day);
+      windows[day] = {
+        wake_time: s?.wake_time ?? profile?.wake_time ?? null,
+        sleep_time: s?.sleep_time ?? profile?.sleep_time ?? null
+      };
+    }
+    return windows;
+  } catch (e) {
+    console.error('Failed to load waking windows', e);
+    return {};
+  }
+}
@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GET, POST } from '@/app/api/breaks/route';
+import { POST as logFocus } from '@/app/api/focus/route';
+import { GET as getPlan } from '@/app/api/plans/route';
+import { POST as saveWeek } from '@/app/api/schedule/week/route';
+import type { BreakPlan } from '@/lib/breaks';
+import type { DbBreakPrompt } from '@/lib/db/types';
+import { ALICE_ID, apiRequest, readJson, useMemoryBackend, type TestBackend } from '../helpers';
+
+// 2030-01-07 is a Monday; profiles without a zone are on UTC
+const at = (time: string) => new Date(`2030-01-07T${time}:00Z`);
+
+interface BreaksView {
+  block: { session_id: number; label: string; energy_type: string } | null;
+  plan: BreakPlan | null;
+  prompts: DbBreakPrompt[];
+}
+
+let backend: TestBackend;
+beforeEach(async () => {
+  backend = useMemoryBackend();
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(at('07:00'));
+  await saveWeek(apiRequest('/api/schedule/week', {
+    token: backend.alice,
+    method: 'POST',
+    body: {
+      days: [{
+        day_of_week: 'Monday',
+        sessions: [
+          { label: 'Deep work', energy_type: 'High', start_time: '08:00', end_time: '11:00', tasks: [{ name: 'Write' }] },
+          { label: 'Admin', energy_type: 'Low', start_time: '14:00', end_time: '17:00', tasks: [{ name: 'Inbox zero' }] }
+        ]
+      }]
+    }
+  }));
+  // The home page loads today's plan before it polls for breaks
+  await getPlan(apiRequest('/api/plans?date=2030-01-07', { token: backend.alice }));
+});
+afterEach(() => {
+  vi.useRealTimers();
+  backend.restore();
+});
+
+const breaks = async (token = backend.alice) => (await readJson<BreaksView>(await GET(apiRequest('/api/breaks', { token })))).body.data!;
+const answer = async (body: Record<string, unknown>, token = backend.alice) =>
+  readJson<DbBreakPrompt>(await POST(apiRequest('/api/breaks', { token, method: 'POST', body })));
+const focus = async (time: string, event: string, interval_kind = 'work') => {
+  vi.setSystemTime(at(time));
+  await logFocus(apiRequest('/api/focus', { token: backend.alice, method: 'POST', body: { event, interval_kind } }));
+};
+
+describe('/api/breaks', () => {
+  it('requires a signed-in user', async () => {
+    const { status } = await readJson(await GET(apiRequest('/api/breaks')));
+    expect(status).toBe(401);
+  });
+
+  it('has no plan outside the blocks', async () => {
+    vi.setSystemTime(at('12:00'));
+    expect(await breaks()).toEqual({ block: null, plan: null, prompts: [] });
+  });
+
+  it('only reads the day plan, without creating or syncing it', async () => {
+    vi.setSystemTime(at('14:30'));
+    const planTasks = backend.store.planTasks.length;
+    backend.store.tasks.push({ ...backend.store.tasks[1], id: 9999, name: 'Added later' });
+    expect((await breaks()).block).toMatchObject({ label: 'Admin' });
+    expect(backend.store.planTasks).toHaveLength(planTasks);
+
+    vi.setSystemTime(new Date('2030-01-08T14:30:00Z'));
+    expect((await breaks()).block).toBeNull();
+    expect(backend.store.dayPlans.map(p => p.plan_date)).toEqual(['2030-01-07']);
+  });
+
+  it("plans breaks from the active block's energy and the focus so far", async () => {
+    await focus('14:00', 'start');
+    vi.setSystemTime(at('14:30'));
+    const { block, plan } = await breaks();
+    expect(block).toMatchObject({ label: 'Admin', energy_type: 'Low' });
+    expect(plan).toMatchObject({ energy_type: 'Low', focus_minutes: 30, due: false });
+    expect(plan?.breaks[0]).toEqual({ due_at: at('14:40').toISOString(), minutes: 15 });
+
+    vi.setSystemTime(at('14:45'));
+    expect((await breaks()).plan?.due).toBe(true);
+  });
+
+  it('records whether the break was taken, and counts from the answer', async () => {
+    await focus('14:00', 'start');
+    vi.setSystemTime(at('14:45'));
+    const { block, plan } = await breaks();
+
+    const { status, body } = await answer({ session_id: block!.session_id, energy_type: 'Low', ...plan!.breaks[0], taken: true });
+    expect(status).toBe(200);
+    expect(body.data).toMatchObject({ user_id: ALICE_ID, run_date: '2030-01-07', minutes: 15, taken: true });
+
+    vi.setSystemTime(at('14:50'));
+    expect((await breaks()).plan).toMatchObject({ on_break: true, due: false });
+    vi.setSystemTime(at('15:10'));
+    const after = await breaks();
+    expect(after.plan).toMatchObject({ on_break: false, focus_minutes: 10 });
+    expect(after.prompts.map(p => p.taken)).toEqual([true]);
+  });
+
+  it('treats a break interval on the timer as rest', async () => {
+    await focus('14:00', 'start');
+    await focus('14:30', 'start', 'break');
+    await focus('14:35', 'stop', 'break');
+    vi.setSystemTime(at('14:45'));
+    expect((await breaks()).plan).toMatchObject({ focus_minutes: 10, due: false });
+  });
+
+  it("rejects answers for another user's block", async () => {
+    vi.setSystemTime(at('14:45'));
+    const { block } = await breaks();
+    const { status } = await answer({ session_id: block!.session_id, energy_type: 'Low', due_at: at('14:40').toISOString(), minutes: 15, taken: false }, backend.bob);
+    expect(status).toBe(404);
+    expect(backend.store.breakPrompts).toEqual([]);
+  });
+
+  it('validates the answer', async () => {
+    const { status, body } = await answer({ energy_type: 'Low', due_at: 'soon', minutes: 0, taken: 'yes' });
+    expect(status).toBe(400);
+    expect(body.issues?.map(i => i.path).sort()).toEqual(['due_at', 'minutes', 'taken']);
+  });
+});
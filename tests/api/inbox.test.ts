@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DELETE, GET, PATCH, POST } from '@/app/api/inbox/route';
+import { POST as schedule } from '@/app/api/inbox/schedule/route';
+import { POST as rollover } from '@/app/api/inbox/rollover/route';
+import { GET as getPlan, PATCH as updatePlanTask } from '@/app/api/plans/route';
+import { POST as saveWeek } from '@/app/api/schedule/week/route';
+import type { DayPlanView, DbInboxTask, DbTask } from '@/lib/db/types';
+import { ALICE_ID, apiRequest, readJson, useMemoryBackend, type TestBackend } from '../helpers';
+
+const MONDAY = '2030-01-07';
+
+let backend: TestBackend;
+let sessionIds: number[];
+beforeEach(async () => {
+  backend = useMemoryBackend();
+  const { body } = await readJson<Array<{ session_ids: number[] }>>(await saveWeek(apiRequest('/api/schedule/week', {
+    token: backend.alice,
+    method: 'POST',
+    body: {
+      days: [{
+        day_of_week: 'Monday',
+        sessions: [
+          { energy_type: 'High', start_time: '08:00', end_time: '11:00', tasks: [{ name: 'Write' }, { name: 'Review' }] },
+          { energy_type: 'Low', start_time: '16:00', end_time: '18:00', tasks: [{ name: 'Inbox zero' }] }
+        ]
+      }]
+    }
+  })));
+  sessionIds = body.data![0].session_ids;
+});
+afterEach(() => backend.restore());
+
+const add = async (body: unknown, token = backend.alice) =>
+  readJson<DbInboxTask>(await POST(apiRequest('/api/inbox', { token, method: 'POST', body })));
+
+describe('/api/inbox', () => {
+  it('requires a signed-in user', async () => {
+    const { status } = await readJson(await GET(apiRequest('/api/inbox')));
+    expect(status).toBe(401);
+  });
+
+  it('adds tasks with the energy they need and lists only the caller\'s', async () => {
+    const { status, body } = await add({ name: 'Plan the offsite', energy_type: 'High', duration_minutes: 45 });
+    expect(status).toBe(200);
+    expect(body.data).toMatchObject({ user_id: ALICE_ID, name: 'Plan the offsite', energy_type: 'High', priority: 'normal', plan_task_id: null });
+    await add({ name: "Bob's idea" }, backend.bob);
+
+    const listed = await readJson<DbInboxTask[]>(await GET(apiRequest('/api/inbox', { token: backend.alice })));
+    expect(listed.body.data?.map(t => t.name)).toEqual(['Plan the offsite']);
+  });
+
+  it('rejects an unknown energy level', async () => {
+    const { status, body } = await add({ name: 'Nap', energy_type: 'Sleepy' });
+    expect(status).toBe(400);
+    expect(body.issues?.map(i => i.path)).toEqual(['energy_type']);
+  });
+
+  it('edits only the fields that are sent and rejects others', async () => {
+    const { body: created } = await add({ name: 'Call the bank', energy_type: 'Low' });
+    const edit = (body: unknown) => PATCH(apiRequest('/api/inbox', { token: backend.alice, method: 'PATCH', body }));
+
+    const { body } = await readJson<DbInboxTask>(await edit({ id: created.data!.id, energy_type: null }));
+    expect(body.data).toMatchObject({ name: 'Call the bank', energy_type: null });
+    expect((await readJson(await edit({ id: created.data!.id, user_id: 'x' }))).status).toBe(400);
+  });
+
+  it("cannot delete another user's task", async () => {
+    const { body: created } = await add({ name: 'Mine' });
+    const { status } = await readJson(await DELETE(apiRequest(`/api/inbox?id=${created.data!.id}`, { token: backend.bob, method: 'DELETE' })));
+    expect(status).toBe(404);
+    expect(backend.store.inboxTasks).toHaveLength(1);
+  });
+});
+
+describe('POST /api/inbox/schedule', () => {
+  const move = (body: unknown, token = backend.alice) =>
+    schedule(apiRequest('/api/inbox/schedule', { token, method: 'POST', body }));
+
+  it('appends the task to the block and removes it from the inbox', async () => {
+    const { body: created } = await add({
+      name: 'Plan the offsite',
+      duration_minutes: 45,
+      priority: 'high',
+      checklist: [{ name: 'Pick a venue' }]
+    });
+
+    const { status, body } = await readJson<DbTask>(await move({ id: created.data!.id, session_id: sessionIds[0] }));
+    expect(status).toBe(200);
+    expect(body.data).toMatchObject({
+      session_id: sessionIds[0],
+      name: 'Plan the offsite',
+      duration_minutes: 45,
+      priority: 'high',
+      position: 2,
+      checklist: [{ name: 'Pick a venue', done: false }]
+    });
+    expect(backend.store.inboxTasks).toHaveLength(0);
+  });
+
+  it("keeps the task in the inbox when the block is someone else's", async () => {
+    const { body: created } = await add({ name: 'Plan the offsite' });
+    const { status, body } = await readJson(await move({ id: created.data!.id, session_id: sessionIds[0] }, backend.bob));
+    expect(status).toBe(404);
+    expect(body).toEqual({ ok: false, error: `inbox_task ${created.data!.id} not found` });
+    expect(backend.store.inboxTasks).toHaveLength(1);
+  });
+});
+
+describe('POST /api/inbox/rollover', () => {
+  const rollOver = (plan_date: string) =>
+    rollover(apiRequest('/api/inbox/rollover', { token: backend.alice, method: 'POST', body: { plan_date } }));
+
+  it("moves the day's unfinished tasks to the inbox once", async () => {
+    const plan = (await readJson<DayPlanView>(await getPlan(apiRequest(`/api/plans?date=${MONDAY}`, { token: backend.alice })))).body.data!;
+    const [write] = plan.blocks[0].tasks;
+    await updatePlanTask(apiRequest('/api/plans', { token: backend.alice, method: 'PATCH', body: { id: write.id, status: 'completed' } }));
+
+    const { status, body } = await readJson<DbInboxTask[]>(await rollOver(MONDAY));
+    expect(status).toBe(200);
+    expect(body.data?.map(t => [t.name, t.energy_type])).toEqual([['Review', 'High'], ['Inbox zero', 'Low']]);
+    expect(backend.store.planTasks.map(t => [t.name, t.status])).toEqual([
+      ['Write', 'completed'],
+      ['Review', 'skipped'],
+      ['Inbox zero', 'skipped']
+    ]);
+
+    expect((await readJson<DbInboxTask[]>(await rollOver(MONDAY))).body.data).toEqual([]);
+    expect(backend.store.inboxTasks).toHaveLength(2);
+  });
+
+  it('does nothing for a day without a plan', async () => {
+    const { status, body } = await readJson<DbInboxTask[]>(await rollOver('2030-01-08'));
+    expect(status).toBe(200);
+    expect(body.data).toEqual([]);
+  });
+
+  it('rejects a malformed date', async () => {
+    const { status, body } = await readJson(await rollOver('tomorrow'));
+    expect(status).toBe(400);
+    expect(body.issues?.map(i => i.path)).toEqual(['plan_date']);
+  });
+});
@@ -0,0 +1,247 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GET, PATCH } from '@/app/api/plans/route';
+import { PATCH as reorder } from '@/app/api/plans/order/route';
+import { POST as carryOver } from '@/app/api/plans/carry-over/route';
+import { POST as logFocus } from '@/app/api/focus/route';
+import { POST as saveWeek } from '@/app/api/schedule/week/route';
+import type { DayPlanView, DbPlanTask } from '@/lib/db/types';
+import { apiRequest, readJson, useMemoryBackend, type TestBackend } from '../helpers';
+
+const MONDAY = '2030-01-07';
+
+let backend: TestBackend;
+let plan: DayPlanView;
+beforeEach(async () => {
+  backend = useMemoryBackend();
+  await saveWeek(apiRequest('/api/schedule/week', {
+    token: backend.alice,
+    method: 'POST',
+    body: {
+      days: [{
+        day_of_week: 'Monday',
+        sessions: [{
+          energy_type: 'High',
+          start_time: '08:00',
+          end_time: '11:00',
+          tasks: [
+            { name: 'Write', duration_minutes: 60, priority: 'high', checklist: [{ name: 'Outline', done: true }, { name: 'Draft' }] },
+            { name: 'Review', duration_minutes: 30 },
+            { name: 'Plan', priority: 'low' }
+          ]
+        }]
+      }]
+    }
+  }));
+  plan = (await readJson<DayPlanView>(await GET(apiRequest(`/api/plans?date=${MONDAY}`, { token: backend.alice })))).body.data!;
+});
+afterEach(() => {
+  vi.useRealTimers();
+  backend.restore();
+});
+
+const names = (tasks: DbPlanTask[] | undefined) => tasks?.map(t => t.name);
+
+describe('GET /api/plans', () => {
+  it("copies the blueprint's task order and priorities", () => {
+    expect(plan.blocks[0].tasks.map(t => [t.name, t.position, t.priority, t.actual_minutes])).toEqual([
+      ['Write', 0, 'high', null],
+      ['Review', 1, 'normal', null],
+      ['Plan', 2, 'low', null]
+    ]);
+  });
+
+  it("copies the blueprint's checklist with every item unchecked", () => {
+    expect(plan.blocks[0].tasks[0].checklist).toEqual([{ name: 'Outline', done: false }, { name: 'Draft', done: false }]);
+    expect(backend.store.tasks[0].checklist).toEqual([{ name: 'Outline', done: true }, { name: 'Draft', done: false }]);
+  });
+});
+
+describe('PATCH /api/plans', () => {
+  const update = (body: unknown) => PATCH(apiRequest('/api/plans', { token: backend.alice, method: 'PATCH', body }));
+  const checked = (...done: boolean[]) => [{ name: 'Outline', done: done[0] }, { name: 'Draft', done: done[1] }];
+
+  it('keeps the task active while part of its checklist is checked', async () => {
+    const { status, body } = await readJson<DbPlanTask>(await update({ id: plan.blocks[0].tasks[0].id, checklist: checked(true, false) }));
+    expect(status).toBe(200);
+    expect(body.data).toMatchObject({ checklist: checked(true, false), status: 'active' });
+  });
+
+  it('completes the task when the last item is checked and reopens it when one is unchecked', async () => {
+    const id = plan.blocks[0].tasks[0].id;
+    expect((await readJson<DbPlanTask>(await update({ id, checklist: checked(true, true) }))).body.data?.status).toBe('completed');
+    expect((await readJson<DbPlanTask>(await update({ id, checklist: checked(false, true) }))).body.data?.status).toBe('active');
+  });
+
+  it('lets a status sent with the checklist win', async () => {
+    const { body } = await readJson<DbPlanTask>(await update({ id: plan.blocks[0].tasks[0].id, status: 'skipped', checklist: checked(true, true) }));
+    expect(body.data?.status).toBe('skipped');
+  });
+
+  it('needs a status or a checklist', async () => {
+    const { status } = await readJson(await update({ id: plan.blocks[0].tasks[0].id }));
+    expect(status).toBe(400);
+  });
+});
+
+describe('PATCH /api/plans/order', () => {
+  const send = (body: unknown, token = backend.alice) =>
+    reorder(apiRequest('/api/plans/order', { token, method: 'PATCH', body }));
+
+  it("reorders that day's tasks and leaves the blueprint alone", async () => {
+    const [write, , planTask] = plan.blocks[0].tasks;
+    const { status, body } = await readJson<DbPlanTask[]>(await send({ plan_id: plan.plan.id, plan_task_ids: [planTask.id, write.id] }));
+    expect(status).toBe(200);
+    expect(names(body.data)).toEqual(['Plan', 'Write', 'Review']);
+
+    const reread = await readJson<DayPlanView>(await GET(apiRequest(`/api/plans?date=${MONDAY}`, { token: backend.alice })));
+    expect(names(reread.body.data?.blocks[0].tasks)).toEqual(['Plan', 'Write', 'Review']);
+    expect(backend.store.tasks.map(t => t.name)).toEqual(['Write', 'Review', 'Plan']);
+  });
+
+  it('refuses tasks from another plan', async () => {
+    const { status, body } = await readJson(await send({ plan_id: plan.plan.id + 1000, plan_task_ids: [plan.blocks[0].tasks[0].id] }));
+    expect(status).toBe(404);
+    expect(body).toEqual({ ok: false, error: `plan ${plan.plan.id + 1000} not found` });
+  });
+
+  it("refuses to reorder another user's plan", async () => {
+    const { status } = await readJson(await send({ plan_id: plan.plan.id, plan_task_ids: [plan.blocks[0].tasks[0].id] }, backend.bob));
+    expect(status).toBe(404);
+  });
+});
+
+describe('POST /api/plans/carry-over', () => {
+  const carry = (body: unknown, token = backend.alice) =>
+    carryOver(apiRequest('/api/plans/carry-over', { token, method: 'POST', body }));
+  const block = (energy_type: string, start_time: string, end_time: string, tasks: unknown[] = []) => ({ energy_type, start_time, end_time, tasks });
+  const planOn = (plan_date: string) => backend.store.dayPlans.find(p => p.plan_date === plan_date);
+
+  beforeEach(async () => {
+    // Monday gains a Low and a second High block; Tuesday starts Low, then High
+    await saveWeek(apiRequest('/api/schedule/week', {
+      token: backend.alice,
+      method: 'POST',
+      body: {
+        days: [
+          {
+            day_of_week: 'Monday',
+            sessions: [
+              block('High', '08:00', '11:00', [{ name: 'Write' }, { name: 'Review' }, { name: 'Plan' }]),
+              block('Low', '12:00', '14:00'),
+              block('High', '15:00', '17:00', [{ name: 'Ship' }])
+            ]
+          },
+          { day_of_week: 'Tuesday', sessions: [block('Low', '08:00', '10:00', [{ name: 'Email' }]), block('High', '10:00', '12:00')] }
+        ]
+      }
+    }));
+  });
+
+  it("copies unfinished tasks to the day's next block of the same energy", async () => {
+    const [write, review] = plan.blocks[0].tasks;
+    const { status, body } = await readJson<DbPlanTask[]>(await carry({ plan_task_ids: [write.id, review.id], to: 'next_block' }));
+    expect(status).toBe(200);
+    const lateHigh = backend.store.sessions[backend.store.sessions.length - 3];
+    expect(body.data?.map(t => [t.name, t.plan_id, t.session_id, t.task_id, t.position, t.deferral_count, t.carried_from_id, t.status])).toEqual([
+      ['Write', plan.plan.id, lateHigh.id, null, 0, 1, write.id, 'active'],
+      ['Review', plan.plan.id, lateHigh.id, null, 1, 1, review.id, 'active']
+    ]);
+    expect(body.data?.[0]).toMatchObject({ duration_minutes: 60, priority: 'high', checklist: write.checklist });
+    expect(backend.store.planTasks.filter(t => [write.id, review.id].includes(t.id)).map(t => t.status)).toEqual(['skipped', 'skipped']);
+  });
+
+  it("moves them into the next day's block of their energy", async () => {
+    const { body } = await readJson<DbPlanTask[]>(await carry({ plan_task_ids: [plan.blocks[0].tasks[2].id], to: 'tomorrow' }));
+    const tuesday = planOn('2030-01-08');
+    const tuesdayHigh = backend.store.sessions[backend.store.sessions.length - 1];
+    expect(body.data?.map(t => [t.name, t.plan_id, t.session_id, t.position])).toEqual([['Plan', tuesday?.id, tuesdayHigh.id, 0]]);
+
+    const reread = await readJson<DayPlanView>(await GET(apiRequest('/api/plans?date=2030-01-08', { token: backend.alice })));
+    expect(reread.body.data?.blocks.map(b => names(b.tasks))).toEqual([['Email'], ['Plan']]);
+  });
+
+  it('falls back to the next day when no later block that day matches', async () => {
+    const reread = await readJson<DayPlanView>(await GET(apiRequest(`/api/plans?date=${MONDAY}`, { token: backend.alice })));
+    const ship = reread.body.data!.blocks[2].tasks[0];
+    const { body } = await readJson<DbPlanTask[]>(await carry({ plan_task_ids: [ship.id], to: 'next_block' }));
+    expect(body.data?.map(t => [t.name, t.plan_id])).toEqual([['Ship', planOn('2030-01-08')?.id]]);
+  });
+
+  it('counts one more deferral each time a task is carried again', async () => {
+    const write = plan.blocks[0].tasks[0];
+    const later = (await readJson<DbPlanTask[]>(await carry({ plan_task_ids: [write.id], to: 'next_block' }))).body.data![0];
+    const { body } = await readJson<DbPlanTask[]>(await carry({ plan_task_ids: [later.id], to: 'tomorrow' }));
+    expect(body.data?.map(t => [t.name, t.plan_id, t.deferral_count, t.carried_from_id])).toEqual([['Write', planOn('2030-01-08')?.id, 2, later.id]]);
+    expect(backend.store.planTasks.find(t => t.id === later.id)?.status).toBe('skipped');
+  });
+
+  it('leaves a task active when the next day has no blocks', async () => {
+    const tuesday = (await readJson<DbPlanTask[]>(await carry({ plan_task_ids: [plan.blocks[0].tasks[0].id], to: 'tomorrow' }))).body.data![0];
+    const { body } = await readJson<DbPlanTask[]>(await carry({ plan_task_ids: [tuesday.id], to: 'tomorrow' }));
+    expect(body.data).toEqual([]);
+    expect(backend.store.planTasks.find(t => t.id === tuesday.id)).toMatchObject({ status: 'active', deferral_count: 1 });
+  });
+
+  it('leaves finished tasks alone and carries each task once', async () => {
+    const ids = plan.blocks[0].tasks.map(t => t.id);
+    await PATCH(apiRequest('/api/plans', { token: backend.alice, method: 'PATCH', body: { id: ids[0], status: 'completed' } }));
+
+    const { body } = await readJson<DbPlanTask[]>(await carry({ plan_task_ids: ids, to: 'tomorrow' }));
+    expect(names(body.data)).toEqual(['Review', 'Plan']);
+    const retry = await readJson<DbPlanTask[]>(await carry({ plan_task_ids: ids, to: 'tomorrow' }));
+    expect(retry.body.data).toEqual([]);
+    expect(backend.store.planTasks.find(t => t.id === ids[0])?.status).toBe('completed');
+  });
+
+  it("refuses another user's tasks", async () => {
+    const { status, body } = await readJson(await carry({ plan_task_ids: [plan.blocks[0].tasks[0].id], to: 'tomorrow' }, backend.bob));
+    expect(status).toBe(404);
+    expect(body).toEqual({ ok: false, error: `plan_task ${plan.blocks[0].tasks[0].id} not found` });
+    expect(backend.store.planTasks.every(t => t.status === 'active')).toBe(true);
+  });
+
+  it('rejects an unknown destination', async () => {
+    const { status, body } = await readJson(await carry({ plan_task_ids: [plan.blocks[0].tasks[0].id], to: 'someday' }));
+    expect(status).toBe(400);
+    expect(body.issues?.map(i => i.path)).toEqual(['to']);
+  });
+});
+
+describe('POST /api/focus', () => {
+  it('records focus time as actual minutes on the plan task and its blueprint task', async () => {
+    const [write] = plan.blocks[0].tasks;
+    const event = (name: string) => logFocus(apiRequest('/api/focus', {
+      token: backend.alice,
+      method: 'POST',
+      body: { plan_task_id: write.id, task_id: write.task_id, event: name, run_date: MONDAY }
+    }));
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2030-01-07T08:00:00Z'));
+    await event('start');
+    vi.setSystemTime(new Date('2030-01-07T08:25:20Z'));
+    await event('pause');
+
+    expect(backend.store.planTasks.find(t => t.id === write.id)?.actual_minutes).toBe(25);
+    expect(backend.store.tasks.find(t => t.id === write.task_id)?.actual_minutes).toBe(25);
+
+    vi.setSystemTime(new Date('2030-01-07T09:00:00Z'));
+    await event('resume');
+    vi.setSystemTime(new Date('2030-01-07T09:10:00Z'));
+    await event('stop');
+    expect(backend.store.planTasks.find(t => t.id === write.id)?.actual_minutes).toBe(35);
+  });
+
+  it("refuses another user's tasks without logging anything", async () => {
+    const [write] = plan.blocks[0].tasks;
+    for (const body of [{ plan_task_id: write.id }, { task_id: write.task_id }, { plan_task_id: 9999 }]) {
+      const { status } = await readJson(await logFocus(apiRequest('/api/focus', {
+        token: backend.bob,
+        method: 'POST',
+        body: { ...body, event: 'start', run_date: MONDAY }
+      })));
+      expect(status).toBe(404);
+    }
+    expect(backend.store.focusRuns).toEqual([]);
+  });
+});
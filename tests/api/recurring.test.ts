@@ -0,0 +1,195 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DELETE, GET, PATCH, POST } from '@/app/api/recurring/route';
+import { GET as getPlan, PATCH as updatePlanTask } from '@/app/api/plans/route';
+import { POST as saveWeek } from '@/app/api/schedule/week/route';
+import type { DayPlanView, DbRecurringTask } from '@/lib/db/types';
+import { ALICE_ID, apiRequest, readJson, useMemoryBackend, type TestBackend } from '../helpers';
+
+const MONDAY = '2030-01-07';
+const NEXT_MONDAY = '2030-01-14';
+
+const blocks = [
+  { energy_type: 'High', start_time: '08:00', end_time: '11:00', tasks: [{ name: 'Write' }] },
+  { energy_type: 'Low', start_time: '16:00', end_time: '18:00', tasks: [{ name: 'Inbox zero' }] }
+];
+
+let backend: TestBackend;
+beforeEach(async () => {
+  backend = useMemoryBackend();
+  await saveWeek(apiRequest('/api/schedule/week', {
+    token: backend.alice,
+    method: 'POST',
+    body: { days: [{ day_of_week: 'Monday', sessions: blocks }, { day_of_week: 'Tuesday', sessions: blocks }] }
+  }));
+});
+afterEach(() => backend.restore());
+
+const add = async (body: Record<string, unknown>, token = backend.alice) =>
+  readJson<DbRecurringTask>(await POST(apiRequest('/api/recurring', { token, method: 'POST', body: { starts_on: MONDAY, ...body } })));
+const edit = async (body: unknown, token = backend.alice) =>
+  readJson<DbRecurringTask>(await PATCH(apiRequest('/api/recurring', { token, method: 'PATCH', body })));
+const planOn = async (date: string) =>
+  (await readJson<DayPlanView>(await getPlan(apiRequest(`/api/plans?date=${date}`, { token: backend.alice })))).body.data!;
+const occurrence = (plan: DayPlanView, recurring_task_id: number) =>
+  plan.blocks.flatMap(b => b.tasks).find(t => t.recurring_task_id === recurring_task_id);
+
+const everyMonday = { kind: 'weekly', days: ['Monday'] };
+
+describe('/api/recurring', () => {
+  it('requires a signed-in user', async () => {
+    const { status } = await readJson(await GET(apiRequest('/api/recurring')));
+    expect(status).toBe(401);
+  });
+
+  it("adds tasks with their rule and lists only the caller's", async () => {
+    const { status, body } = await add({ name: 'Weekly review', rule: everyMonday, energy_type: 'Low' });
+    expect(status).toBe(200);
+    expect(body.data).toMatchObject({
+      user_id: ALICE_ID,
+      name: 'Weekly review',
+      rule: { kind: 'weekly', days: ['Monday'], interval: 1 },
+      starts_on: MONDAY,
+      ends_on: null
+    });
+    await add({ name: "Bob's standup", rule: everyMonday }, backend.bob);
+
+    const listed = await readJson<DbRecurringTask[]>(await GET(apiRequest('/api/recurring', { token: backend.alice })));
+    expect(listed.body.data?.map(t => t.name)).toEqual(['Weekly review']);
+  });
+
+  it('rejects rules that cannot come up', async () => {
+    const { status, body } = await add({ name: 'Never', rule: { kind: 'weekly', days: [] } });
+    expect(status).toBe(400);
+    expect(body.issues?.map(i => i.path)).toEqual(['rule.days']);
+    expect((await add({ name: 'Fifth Monday', rule: { kind: 'monthly', week: 5, day: 'Monday' } })).status).toBe(400);
+    expect(backend.store.recurringTasks).toHaveLength(0);
+  });
+
+  it('adds an occurrence to the block of its energy on the days the rule comes up, once', async () => {
+    const { body } = await add({ name: 'Expenses', rule: { kind: 'weekly', days: ['Monday'], interval: 2 }, energy_type: 'Low', duration_minutes: 20 });
+    const id = body.data!.id;
+
+    const monday = await planOn(MONDAY);
+    expect(monday.blocks[1].tasks.map(t => t.name)).toEqual(['Inbox zero', 'Expenses']);
+    expect(occurrence(monday, id)).toMatchObject({ task_id: null, energy_type: 'Low', duration_minutes: 20, status: 'active' });
+    expect(occurrence(await planOn(NEXT_MONDAY), id)).toBeUndefined();
+    expect(occurrence(await planOn('2030-01-21'), id)).toBeDefined();
+
+    await planOn(MONDAY);
+    expect(backend.store.planTasks.filter(t => t.recurring_task_id === id)).toHaveLength(2);
+  });
+
+  it('stops adding a times-per-week task once the week has enough done', async () => {
+    const { body } = await add({ name: 'Run', rule: { kind: 'times_per_week', times: 1 } });
+    const monday = occurrence(await planOn(MONDAY), body.data!.id)!;
+    expect(monday.session_id).toBe((await planOn(MONDAY)).blocks[0].session_id); // no energy: the first block
+
+    await updatePlanTask(apiRequest('/api/plans', { token: backend.alice, method: 'PATCH', body: { id: monday.id, status: 'completed' } }));
+    expect(occurrence(await planOn('2030-01-08'), body.data!.id)).toBeUndefined();
+    expect(occurrence(await planOn('2030-01-14'), body.data!.id)).toBeDefined(); // a new week
+  });
+
+  it('edits one occurrence through the plan without touching the others', async () => {
+    const { body } = await add({ name: 'Weekly review', rule: everyMonday });
+    const first = occurrence(await planOn(MONDAY), body.data!.id)!;
+
+    await updatePlanTask(apiRequest('/api/plans', { token: backend.alice, method: 'PATCH', body: { id: first.id, name: 'Quarterly review', duration_minutes: 90 } }));
+    expect(occurrence(await planOn(MONDAY), body.data!.id)).toMatchObject({ name: 'Quarterly review', duration_minutes: 90 });
+    expect(occurrence(await planOn(NEXT_MONDAY), body.data!.id)).toMatchObject({ name: 'Weekly review', duration_minutes: null });
+  });
+
+  it('changes all future occurrences, keeping earlier ones on the task as it was', async () => {
+    const { body: created } = await add({ name: 'Weekly review', rule: everyMonday });
+    const id = created.data!.id;
+    await planOn(MONDAY);
+    await planOn(NEXT_MONDAY);
+
+    const { status, body } = await edit({ id, from: NEXT_MONDAY, name: 'Weekly planning', energy_type: 'Low' });
+    expect(status).toBe(200);
+    expect(body.data).toMatchObject({ name: 'Weekly planning', energy_type: 'Low', starts_on: NEXT_MONDAY, ends_on: null });
+    expect(backend.store.recurringTasks.find(t => t.id === id)).toMatchObject({ name: 'Weekly review', ends_on: '2030-01-13' });
+
+    expect(occurrence(await planOn(MONDAY), id)?.name).toBe('Weekly review');
+    const next = await planOn(NEXT_MONDAY);
+    expect(occurrence(next, id)).toBeUndefined();
+    expect(next.blocks[1].tasks.map(t => t.name)).toEqual(['Inbox zero', 'Weekly planning']);
+  });
+
+  it('keeps an every-other-week task on its weeks after changing it from a later day', async () => {
+    const { body: created } = await add({ name: 'Expenses', rule: { kind: 'weekly', days: ['Tuesday'], interval: 2 } });
+    expect(occurrence(await planOn('2030-01-08'), created.data!.id)).toBeDefined();
+
+    const { body } = await edit({ id: created.data!.id, from: '2030-01-16', name: 'Receipts' });
+    expect(body.data).toMatchObject({ starts_on: '2030-01-16', anchor_date: MONDAY, series_id: created.data!.id });
+    expect(occurrence(await planOn('2030-01-22'), body.data!.id)).toMatchObject({ name: 'Receipts' });
+    expect(occurrence(await planOn('2030-01-29'), body.data!.id)).toBeUndefined();
+  });
+
+  it("counts the week's finished occurrences across a change from mid-week", async () => {
+    const { body: created } = await add({ name: 'Run', rule: { kind: 'times_per_week', times: 1 } });
+    const monday = occurrence(await planOn(MONDAY), created.data!.id)!;
+    await updatePlanTask(apiRequest('/api/plans', { token: backend.alice, method: 'PATCH', body: { id: monday.id, status: 'completed' } }));
+
+    const { body } = await edit({ id: created.data!.id, from: '2030-01-08', name: 'Long run' });
+    expect(occurrence(await planOn('2030-01-08'), body.data!.id)).toBeUndefined();
+    expect(occurrence(await planOn(NEXT_MONDAY), body.data!.id)).toMatchObject({ name: 'Long run' });
+  });
+
+  it('changes a task in place from its first day', async () => {
+    const { body: created } = await add({ name: 'Weekly review', rule: everyMonday });
+    await planOn(MONDAY);
+
+    const { body } = await edit({ id: created.data!.id, from: MONDAY, rule: { kind: 'weekly', days: ['Tuesday'] } });
+    expect(body.data).toMatchObject({ id: created.data!.id, starts_on: MONDAY, rule: { days: ['Tuesday'] } });
+    expect(backend.store.recurringTasks).toHaveLength(1);
+    expect(occurrence(await planOn(MONDAY), created.data!.id)).toBeUndefined();
+    expect(occurrence(await planOn('2030-01-08'), created.data!.id)).toBeDefined();
+  });
+
+  it('keeps finished occurrences when the task changes', async () => {
+    const { body: created } = await add({ name: 'Weekly review', rule: everyMonday });
+    const done = occurrence(await planOn(MONDAY), created.data!.id)!;
+    await updatePlanTask(apiRequest('/api/plans', { token: backend.alice, method: 'PATCH', body: { id: done.id, status: 'completed' } }));
+
+    await edit({ id: created.data!.id, from: MONDAY, name: 'Weekly planning' });
+    expect(occurrence(await planOn(MONDAY), created.data!.id)).toMatchObject({ id: done.id, name: 'Weekly review', status: 'completed' });
+  });
+
+  it('rejects an edit with nothing to change', async () => {
+    const { body: created } = await add({ name: 'Weekly review', rule: everyMonday });
+    const { status } = await edit({ id: created.data!.id, from: MONDAY });
+    expect(status).toBe(400);
+  });
+
+  it('ends a task from a date, removing its occurrences from then on', async () => {
+    const { body: created } = await add({ name: 'Weekly review', rule: everyMonday });
+    const id = created.data!.id;
+    await planOn(MONDAY);
+    await planOn(NEXT_MONDAY);
+
+    const { status } = await readJson(await DELETE(apiRequest(`/api/recurring?id=${id}&from=${NEXT_MONDAY}`, { token: backend.alice, method: 'DELETE' })));
+    expect(status).toBe(200);
+    expect(backend.store.recurringTasks[0].ends_on).toBe('2030-01-13');
+    expect(occurrence(await planOn(MONDAY), id)).toBeDefined();
+    expect(occurrence(await planOn(NEXT_MONDAY), id)).toBeUndefined();
+  });
+
+  it('deletes a task that has not started by the date, keeping its past occurrences', async () => {
+    const { body: created } = await add({ name: 'Weekly review', rule: everyMonday });
+    const first = occurrence(await planOn(MONDAY), created.data!.id)!;
+    await updatePlanTask(apiRequest('/api/plans', { token: backend.alice, method: 'PATCH', body: { id: first.id, status: 'completed' } }));
+
+    // No date: from today, which is before the task starts
+    await DELETE(apiRequest(`/api/recurring?id=${created.data!.id}`, { token: backend.alice, method: 'DELETE' }));
+    expect(backend.store.recurringTasks).toHaveLength(0);
+    expect(backend.store.planTasks.find(t => t.id === first.id)).toMatchObject({ name: 'Weekly review', recurring_task_id: null });
+  });
+
+  it("cannot change or end another user's task", async () => {
+    const { body: created } = await add({ name: 'Weekly review', rule: everyMonday });
+    expect((await edit({ id: created.data!.id, from: MONDAY, name: 'Mine now' }, backend.bob)).status).toBe(404);
+    const { status } = await readJson(await DELETE(apiRequest(`/api/recurring?id=${created.data!.id}`, { token: backend.bob, method: 'DELETE' })));
+    expect(status).toBe(404);
+    expect(backend.store.recurringTasks).toMatchObject([{ name: 'Weekly review', ends_on: null }]);
+  });
+});
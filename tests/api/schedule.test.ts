@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { GET, PATCH, POST } from '@/app/api/schedule/route';
+import { ALICE_ID, apiRequest, readJson, useMemoryBackend, type TestBackend } from '../helpers';
+
+type Saved = { schedule_id: number; session_ids: number[] };
+
+const monday = {
+  day_of_week: 'Monday',
+  wake_time: '07:00',
+  sleep_time: '23:00',
+  sessions: [
+    { label: 'Deep work', energy_type: 'High', start_time: '08:00', end_time: '11:00' },
+    { energy_type: 'Medium', start_time: '12:00', end_time: '15:00' },
+    { energy_type: 'Low', start_time: '16:00', end_time: '19:00' }
+  ]
+};
+
+let backend: TestBackend;
+beforeEach(() => { backend = useMemoryBackend(); });
+afterEach(() => backend.restore());
+
+describe('POST /api/schedule', () => {
+  it('requires a signed-in user', async () => {
+    const { status, body } = await readJson(await POST(apiRequest('/api/schedule', { method: 'POST', body: monday })));
+    expect(status).toBe(401);
+    expect(body).toEqual({ ok: false, error: 'Authentication required' });
+    expect(backend.store.schedules).toHaveLength(0);
+  });
+
+  it('saves the day with one session per block, in order', async () => {
+    const { status, body } = await readJson<Saved>(await POST(apiRequest('/api/schedule', { token: backend.alice, method: 'POST', body: monday })));
+    expect(status).toBe(200);
+    expect(body.ok).toBe(true);
+    expect(body.data?.session_ids).toHaveLength(3);
+
+    const [schedule] = backend.store.schedules;
+    expect(schedule).toMatchObject({ id: body.data?.schedule_id, user_id: ALICE_ID, day_of_week: 'Monday', wake_time: '07:00:00', sleep_time: '23:00:00' });
+    expect(backend.store.templates.map(t => [t.position, t.label, t.energy_type, t.start_time, t.end_time])).toEqual([
+      [0, 'Deep work', 'High', '08:00:00', '11:00:00'],
+      [1, 'Medium Energy', 'Medium', '12:00:00', '15:00:00'],
+      [2, 'Low Energy', 'Low', '16:00:00', '19:00:00']
+    ]);
+  });
+
+  it('takes the owner from the token, not the body', async () => {
+    await POST(apiRequest('/api/schedule', { token: backend.bob, method: 'POST', body: { ...monday, user_id: ALICE_ID } }));
+    expect(backend.store.schedules.map(s => s.user_id)).not.toContain(ALICE_ID);
+  });
+
+  it('drops trailing blocks when the day is saved with fewer', async () => {
+    await POST(apiRequest('/api/schedule', { token: backend.alice, method: 'POST', body: monday }));
+    const { body } = await readJson<Saved>(await POST(apiRequest('/api/schedule', {
+      token: backend.alice,
+      method: 'POST',
+      body: { ...monday, sessions: monday.sessions.slice(0, 1) }
+    })));
+
+    expect(backend.store.schedules).toHaveLength(1);
+    expect(backend.store.templates.map(t => t.label)).toEqual(['Deep work']);
+    expect(backend.store.sessions.map(s => s.id)).toEqual(body.data?.session_ids);
+  });
+
+  it('rejects invalid bodies with every failing field', async () => {
+    const { status, body } = await readJson(await POST(apiRequest('/api/schedule', {
+      token: backend.alice,
+      method: 'POST',
+      body: { day_of_week: 'Someday', sessions: [{ energy_type: 'High', start_time: '25:00', end_time: '11:00' }] }
+    })));
+    expect(status).toBe(400);
+    expect(body.error).toBe('Invalid request body');
+    expect(body.issues?.map(i => i.path)).toEqual(['day_of_week', 'sessions.0.start_time']);
+    expect(backend.store.schedules).toHaveLength(0);
+  });
+
+  it('rejects a day without blocks', async () => {
+    const { status, body } = await readJson(await POST(apiRequest('/api/schedule', { token: backend.alice, method: 'POST', body: { ...monday, sessions: [] } })));
+    expect(status).toBe(400);
+    expect(body.issues?.[0].path).toBe('sessions');
+  });
+
+  it('rejects a body that is not JSON', async () => {
+    const { status, body } = await readJson(await POST(apiRequest('/api/schedule', { token: backend.alice, method: 'POST', body: '{not json' })));
+    expect(status).toBe(400);
+    expect(body.issues).toEqual([{ path: '(body)', message: 'Body must be valid JSON' }]);
+  });
+});
+
+describe('GET /api/schedule', () => {
+  it('requires schedule_id', async () => {
+    const { status, body } = await readJson(await GET(apiRequest('/api/schedule', { token: backend.alice })));
+    expect(status).toBe(400);
+    expect(body).toEqual({ ok: false, error: 'Invalid query parameters', issues: [{ path: 'schedule_id', message: 'Required' }] });
+  });
+
+  it('rejects a schedule_id that is not a number', async () => {
+    const { status, body } = await readJson(await GET(apiRequest('/api/schedule?schedule_id=1.5', { token: backend.alice })));
+    expect(status).toBe(400);
+    expect(body.issues?.map(i => i.path)).toEqual(['schedule_id']);
+  });
+
+  it('lists the sessions of a schedule', async () => {
+    const saved = await readJson<Saved>(await POST(apiRequest('/api/schedule', { token: backend.alice, method: 'POST', body: monday })));
+    const { status, body } = await readJson<Array<{ id: number; schedule_id: number }>>(
+      await GET(apiRequest(`/api/schedule?schedule_id=${saved.body.data?.schedule_id}`, { token: backend.alice }))
+    );
+    expect(status).toBe(200);
+    expect(body.data?.map(s => s.id)).toEqual(saved.body.data?.session_ids);
+  });
+
+  it("does not return another user's sessions", async () => {
+    const saved = await readJson<Saved>(await POST(apiRequest('/api/schedule', { token: backend.alice, method: 'POST', body: monday })));
+    const { status, body } = await readJson(await GET(apiRequest(`/api/schedule?schedule_id=${saved.body.data?.schedule_id}`, { token: backend.bob })));
+    expect(status).toBe(404);
+    expect(body.ok).toBe(false);
+    expect(body.data).toBeUndefined();
+  });
+});
+
+describe('PATCH /api/schedule', () => {
+  it('moves the blocks to their new times', async () => {
+    await POST(apiRequest('/api/schedule', { token: backend.alice, method: 'POST', body: monday }));
+    const [first, second] = backend.store.templates;
+    const { status, body } = await readJson(await PATCH(apiRequest('/api/schedule', {
+      token: backend.alice,
+      method: 'PATCH',
+      body: { templates: [{ id: first.id, start_time: '08:30', end_time: '11:30' }, { id: second.id, start_time: '11:30', end_time: '15:00' }] }
+    })));
+    expect(status).toBe(200);
+    expect(body.ok).toBe(true);
+    expect(backend.store.templates.map(t => [t.start_time, t.end_time])).toEqual([
+      ['08:30:00', '11:30:00'],
+      ['11:30:00', '15:00:00'],
+      ['16:00:00', '19:00:00']
+    ]);
+  });
+
+  it("answers 404 for another user's block and leaves it unchanged", async () => {
+    await POST(apiRequest('/api/schedule', { token: backend.alice, method: 'POST', body: monday }));
+    const [first] = backend.store.templates;
+    const { status, body } = await readJson(await PATCH(apiRequest('/api/schedule', {
+      token: backend.bob,
+      method: 'PATCH',
+      body: { templates: [{ id: first.id, start_time: '09:00', end_time: '10:00' }] }
+    })));
+    expect(status).toBe(404);
+    expect(body.error).toBe(`template ${first.id} not found`);
+    expect(backend.store.templates[0]).toMatchObject({ start_time: '08:00:00', end_time: '11:00:00' });
+  });
+
+  it('rejects invalid times', async () => {
+    const { status, body } = await readJson(await PATCH(apiRequest('/api/schedule', {
+      token: backend.alice,
+      method: 'PATCH',
+      body: { templates: [{ id: 1, start_time: '8am', end_time: '10:00' }] }
+    })));
+    expect(status).toBe(400);
+    expect(body.issues?.map(i => i.path)).toEqual(['templates.0.start_time']);
+  });
+});
@@ -0,0 +1,180 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GET, POST } from '@/app/api/schedule/week/route';
+import type { WeekScheduleDay } from '@/lib/db/types';
+import { ALICE_ID, apiRequest, readJson, useMemoryBackend, type TestBackend } from '../helpers';
+
+type SavedDay = { day_of_week: string; schedule_id: number; session_ids: number[]; task_ids: number[] };
+
+const blocks = [
+  {
+    label: 'Deep work',
+    energy_type: 'High',
+    start_time: '08:00',
+    end_time: '11:00',
+    tasks: [
+      { name: 'Write the report', description: 'First draft', duration_minutes: 90 },
+      { name: 'Review PRs', duration_minutes: 30 }
+    ]
+  },
+  { energy_type: 'Low', start_time: '16:00', end_time: '19:00', tasks: [{ name: 'Inbox zero' }] }
+];
+
+const week = {
+  days: [
+    { day_of_week: 'Monday', wake_time: '07:00', sleep_time: '23:00', sessions: blocks },
+    { day_of_week: 'Tuesday', wake_time: '06:30', sleep_time: '22:30', sessions: blocks }
+  ]
+};
+
+const save = (token: string | undefined, body: unknown) =>
+  POST(apiRequest('/api/schedule/week', { token, method: 'POST', body }));
+
+let backend: TestBackend;
+beforeEach(() => { backend = useMemoryBackend(); });
+afterEach(() => backend.restore());
+
+describe('POST /api/schedule/week', () => {
+  it('requires a signed-in user', async () => {
+    const { status, body } = await readJson(await save(undefined, week));
+    expect(status).toBe(401);
+    expect(body).toEqual({ ok: false, error: 'Authentication required' });
+    expect(backend.store.schedules).toHaveLength(0);
+  });
+
+  it('saves every day with its blocks and tasks and returns the ids', async () => {
+    const { status, body } = await readJson<SavedDay[]>(await save(backend.alice, week));
+    expect(status).toBe(200);
+    expect(body.data?.map(d => d.day_of_week)).toEqual(['Monday', 'Tuesday']);
+    expect(body.data?.map(d => d.schedule_id)).toEqual(backend.store.schedules.map(s => s.id));
+    expect(body.data?.flatMap(d => d.session_ids)).toEqual(backend.store.sessions.map(s => s.id));
+    expect(body.data?.flatMap(d => d.task_ids)).toEqual(backend.store.tasks.map(t => t.id));
+
+    expect(backend.store.schedules.map(s => [s.user_id, s.day_of_week, s.wake_time])).toEqual([
+      [ALICE_ID, 'Monday', '07:00:00'],
+      [ALICE_ID, 'Tuesday', '06:30:00']
+    ]);
+    expect(backend.store.templates.map(t => t.label)).toEqual(['Deep work', 'Low Energy', 'Deep work', 'Low Energy']);
+
+    const [monday] = body.data!;
+    expect(backend.store.tasks.filter(t => t.session_id === monday.session_ids[0])).toMatchObject([
+      { name: 'Write the report', description: 'First draft', duration_minutes: 90, status: 'active' },
+      { name: 'Review PRs', description: null, duration_minutes: 30 }
+    ]);
+  });
+
+  it('drops trailing blocks of a day saved again with fewer', async () => {
+    await save(backend.alice, week);
+    await save(backend.alice, { days: [{ day_of_week: 'Monday', sessions: [{ ...blocks[0], tasks: [] }] }] });
+
+    const monday = backend.store.schedules.find(s => s.day_of_week === 'Monday')!;
+    expect(backend.store.templates.filter(t => t.schedule_id === monday.id).map(t => t.label)).toEqual(['Deep work']);
+    expect(backend.store.tasks.filter(t => t.name === 'Inbox zero')).toHaveLength(1); // Tuesday's only
+  });
+
+  it('updates tasks in place when the week is saved again with the same client keys', async () => {
+    const keyed = (name: string, client_key: string, duration_minutes = 30) => ({ client_key, name, duration_minutes });
+    const withTasks = (tasks: unknown[]) => ({ days: [{ day_of_week: 'Monday', sessions: [{ ...blocks[0], tasks }] }] });
+
+    const first = await readJson<SavedDay[]>(await save(backend.alice, withTasks([keyed('Write', 'a'), keyed('Review', 'b')])));
+    const again = await readJson<SavedDay[]>(await save(backend.alice, withTasks([keyed('Write the intro', 'a', 45), keyed('Review', 'b')])));
+
+    expect(again.body.data?.[0].task_ids).toEqual(first.body.data?.[0].task_ids);
+    expect(backend.store.tasks.map(t => [t.client_key, t.name, t.duration_minutes])).toEqual([
+      ['a', 'Write the intro', 45],
+      ['b', 'Review', 30]
+    ]);
+  });
+
+  it("replaces a block's task list, removing tasks left out", async () => {
+    await save(backend.alice, week);
+    await save(backend.alice, { days: [{ day_of_week: 'Monday', sessions: [{ ...blocks[0], tasks: [blocks[0].tasks[1]] }, blocks[1]] }] });
+
+    const monday = backend.store.schedules.find(s => s.day_of_week === 'Monday')!;
+    const mondaySessions = backend.store.sessions.filter(s => s.schedule_id === monday.id).map(s => s.id);
+    expect(backend.store.tasks.filter(t => mondaySessions.includes(t.session_id)).map(t => t.name)).toEqual(['Review PRs', 'Inbox zero']);
+  });
+
+  it('gives keyless tasks saved earlier their key instead of adding a copy', async () => {
+    const saved = await readJson<SavedDay[]>(await save(backend.alice, week));
+    const { body } = await readJson<SavedDay[]>(await save(backend.alice, {
+      days: [{ day_of_week: 'Monday', sessions: [{ ...blocks[0], tasks: blocks[0].tasks.map((t, i) => ({ ...t, client_key: `k${i}` })) }, blocks[1]] }]
+    }));
+
+    expect(body.data?.[0].task_ids).toEqual(saved.body.data?.[0].task_ids);
+    expect(backend.store.tasks.filter(t => body.data?.[0].task_ids.includes(t.id)).map(t => t.client_key)).toEqual(['k0', 'k1', null]);
+  });
+
+  it('writes nothing when part of the save fails', async () => {
+    vi.spyOn(backend.store.tasks, 'push').mockImplementation(() => {
+      throw new Error('write failed');
+    });
+
+    const { status, body } = await readJson(await save(backend.alice, week));
+    expect(status).toBe(500);
+    expect(body).toEqual({ ok: false, error: 'Failed to save schedule' });
+    expect(backend.store.schedules).toHaveLength(0);
+    expect(backend.store.templates).toHaveLength(0);
+    expect(backend.store.sessions).toHaveLength(0);
+  });
+
+  it('takes the owner from the token, not the body', async () => {
+    await save(backend.bob, { ...week, user_id: ALICE_ID });
+    expect(backend.store.schedules.map(s => s.user_id)).not.toContain(ALICE_ID);
+  });
+
+  it('rejects a block that lists a client_key twice', async () => {
+    const task = { client_key: 'same', name: 'Write' };
+    const { status, body } = await readJson(await save(backend.alice, { days: [{ day_of_week: 'Monday', sessions: [{ ...blocks[0], tasks: [task, task] }] }] }));
+    expect(status).toBe(400);
+    expect(body.issues?.map(i => i.path)).toEqual(['days.0.sessions.0.tasks']);
+  });
+
+  it('rejects a week that lists a day twice', async () => {
+    const { status, body } = await readJson(await save(backend.alice, { days: [week.days[0], week.days[0]] }));
+    expect(status).toBe(400);
+    expect(body.issues?.map(i => i.path)).toEqual(['days']);
+    expect(backend.store.schedules).toHaveLength(0);
+  });
+
+  it('rejects invalid days, blocks and tasks with every failing field', async () => {
+    const { status, body } = await readJson(await save(backend.alice, {
+      days: [
+        { day_of_week: 'Someday', sessions: blocks },
+        { day_of_week: 'Friday', sessions: [{ ...blocks[1], tasks: [{ name: ' ', duration_minutes: 0 }] }] }
+      ]
+    }));
+    expect(status).toBe(400);
+    expect(body.issues?.map(i => i.path)).toEqual([
+      'days.0.day_of_week',
+      'days.1.sessions.0.tasks.0.name',
+      'days.1.sessions.0.tasks.0.duration_minutes'
+    ]);
+    expect(backend.store.schedules).toHaveLength(0);
+  });
+});
+
+describe('GET /api/schedule/week', () => {
+  const load = (token: string) => GET(apiRequest('/api/schedule/week', { token }));
+
+  it('returns every saved day with its times, blocks and tasks in order', async () => {
+    await save(backend.alice, { days: [...week.days].reverse() });
+    const { status, body } = await readJson<WeekScheduleDay[]>(await load(backend.alice));
+    expect(status).toBe(200);
+    expect(body.data?.map(d => [d.day_of_week, d.wake_time, d.sleep_time])).toEqual([
+      ['Monday', '07:00:00', '23:00:00'],
+      ['Tuesday', '06:30:00', '22:30:00']
+    ]);
+    const [monday] = body.data!;
+    expect(monday.blocks.map(b => [b.label, b.energy_type, b.start_time, b.end_time])).toEqual([
+      ['Deep work', 'High', '08:00:00', '11:00:00'],
+      ['Low Energy', 'Low', '16:00:00', '19:00:00']
+    ]);
+    expect(monday.blocks[0].tasks.map(t => t.name)).toEqual(['Write the report', 'Review PRs']);
+  });
+
+  it("does not return another user's days", async () => {
+    await save(backend.alice, week);
+    const { body } = await readJson<WeekScheduleDay[]>(await load(backend.bob));
+    expect(body.data).toEqual([]);
+  });
+});
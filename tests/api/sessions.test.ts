@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { GET, POST } from '@/app/api/sessions/route';
+import { POST as saveSchedule } from '@/app/api/schedule/route';
+import type { DbTask } from '@/lib/db/types';
+import { apiRequest, readJson, useMemoryBackend, type TestBackend } from '../helpers';
+
+let backend: TestBackend;
+let sessionId: number;
+
+beforeEach(async () => {
+  backend = useMemoryBackend();
+  const saved = await readJson<{ session_ids: number[] }>(await saveSchedule(apiRequest('/api/schedule', {
+    token: backend.alice,
+    method: 'POST',
+    body: { day_of_week: 'Tuesday', sessions: [{ energy_type: 'High', start_time: '09:00', end_time: '12:00' }] }
+  })));
+  sessionId = saved.body.data!.session_ids[0];
+});
+afterEach(() => backend.restore());
+
+describe('POST /api/sessions', () => {
+  it('adds a task with defaults for the optional fields', async () => {
+    const { status, body } = await readJson<DbTask>(await POST(apiRequest('/api/sessions', {
+      token: backend.alice,
+      method: 'POST',
+      body: { session_id: sessionId, name: '  Draft proposal  ' }
+    })));
+    expect(status).toBe(200);
+    expect(body.data).toMatchObject({ session_id: sessionId, name: 'Draft proposal', description: null, duration_minutes: null, status: 'active' });
+  });
+
+  it('accepts a numeric string session id', async () => {
+    const { status, body } = await readJson<DbTask>(await POST(apiRequest('/api/sessions', {
+      token: backend.alice,
+      method: 'POST',
+      body: { session_id: String(sessionId), name: 'Review', duration_minutes: 30 }
+    })));
+    expect(status).toBe(200);
+    expect(body.data?.duration_minutes).toBe(30);
+  });
+
+  it('returns the first task when a client_key is posted again', async () => {
+    const post = (name: string) => POST(apiRequest('/api/sessions', {
+      token: backend.alice,
+      method: 'POST',
+      body: { session_id: sessionId, client_key: 'draft-1', name }
+    }));
+    const first = await readJson<DbTask>(await post('Draft proposal'));
+    const retry = await readJson<DbTask>(await post('Draft proposal (retry)'));
+
+    expect(retry.status).toBe(200);
+    expect(retry.body.data).toEqual(first.body.data);
+    expect(backend.store.tasks.map(t => [t.client_key, t.name])).toEqual([['draft-1', 'Draft proposal']]);
+  });
+
+  it('rejects invalid tasks', async () => {
+    const { status, body } = await readJson(await POST(apiRequest('/api/sessions', {
+      token: backend.alice,
+      method: 'POST',
+      body: { session_id: sessionId, name: '', duration_minutes: 0, status: 'done' }
+    })));
+    expect(status).toBe(400);
+    expect(body.issues?.map(i => i.path)).toEqual(['name', 'duration_minutes', 'status']);
+    expect(backend.store.tasks).toHaveLength(0);
+  });
+
+  it("refuses to add tasks to another user's session", async () => {
+    const { status, body } = await readJson(await POST(apiRequest('/api/sessions', {
+      token: backend.bob,
+      method: 'POST',
+      body: { session_id: sessionId, name: 'Sneaky' }
+    })));
+    expect(status).toBe(404);
+    expect(body).toEqual({ ok: false, error: `session ${sessionId} not found` });
+    expect(backend.store.tasks).toHaveLength(0);
+  });
+
+  it('requires a signed-in user', async () => {
+    const response = await POST(apiRequest('/api/sessions', { method: 'POST', body: { session_id: sessionId, name: 'Anon' } }));
+    expect(response.status).toBe(401);
+  });
+});
+
+describe('GET /api/sessions', () => {
+  it('requires session_id', async () => {
+    const { status, body } = await readJson(await GET(apiRequest('/api/sessions', { token: backend.alice })));
+    expect(status).toBe(400);
+    expect(body.issues?.map(i => i.path)).toEqual(['session_id']);
+  });
+
+  it('rejects a session_id that is not a number', async () => {
+    const { status, body } = await readJson(await GET(apiRequest('/api/sessions?session_id=NaN', { token: backend.alice })));
+    expect(status).toBe(400);
+    expect(body.issues?.map(i => i.path)).toEqual(['session_id']);
+  });
+
+  it('lists the tasks of a session in creation order', async () => {
+    for (const name of ['First', 'Second']) {
+      await POST(apiRequest('/api/sessions', { token: backend.alice, method: 'POST', body: { session_id: sessionId, name } }));
+    }
+    const { status, body } = await readJson<DbTask[]>(await GET(apiRequest(`/api/sessions?session_id=${sessionId}`, { token: backend.alice })));
+    expect(status).toBe(200);
+    expect(body.data?.map(t => t.name)).toEqual(['First', 'Second']);
+  });
+
+  it("does not list another user's tasks", async () => {
+    await POST(apiRequest('/api/sessions', { token: backend.alice, method: 'POST', body: { session_id: sessionId, name: 'Private' } }));
+    const { status, body } = await readJson(await GET(apiRequest(`/api/sessions?session_id=${sessionId}`, { token: backend.bob })));
+    expect(status).toBe(404);
+    expect(body.data).toBeUndefined();
+  });
+});
@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DELETE, PATCH } from '@/app/api/tasks/route';
+import { PATCH as reorderTasks } from '@/app/api/tasks/order/route';
+import { GET as listTasks, POST as addTask } from '@/app/api/sessions/route';
+import { POST as saveSchedule } from '@/app/api/schedule/route';
+import type { DbTask } from '@/lib/db/types';
+import { apiRequest, readJson, useMemoryBackend, type TestBackend } from '../helpers';
+
+let backend: TestBackend;
+let task: DbTask;
+
+beforeEach(async () => {
+  backend = useMemoryBackend();
+  const saved = await readJson<{ session_ids: number[] }>(await saveSchedule(apiRequest('/api/schedule', {
+    token: backend.alice,
+    method: 'POST',
+    body: { day_of_week: 'Wednesday', sessions: [{ energy_type: 'Medium', start_time: '10:00', end_time: '12:00' }] }
+  })));
+  const added = await readJson<DbTask>(await addTask(apiRequest('/api/sessions', {
+    token: backend.alice,
+    method: 'POST',
+    body: { session_id: saved.body.data!.session_ids[0], name: 'Inbox zero', duration_minutes: 20 }
+  })));
+  task = added.body.data!;
+});
+afterEach(() => backend.restore());
+
+describe('PATCH /api/tasks', () => {
+  it('updates only the fields that are sent', async () => {
+    const { status, body } = await readJson<DbTask>(await PATCH(apiRequest('/api/tasks', {
+      token: backend.alice,
+      method: 'PATCH',
+      body: { id: task.id, status: 'completed' }
+    })));
+    expect(status).toBe(200);
+    expect(body.data).toMatchObject({ id: task.id, name: 'Inbox zero', duration_minutes: 20, status: 'completed' });
+  });
+
+  it('completes the task when its whole checklist is checked', async () => {
+    const checklist = [{ name: 'Archive', done: true }, { name: 'Reply', done: true }];
+    const { body } = await readJson<DbTask>(await PATCH(apiRequest('/api/tasks', {
+      token: backend.alice,
+      method: 'PATCH',
+      body: { id: task.id, checklist }
+    })));
+    expect(body.data).toMatchObject({ checklist, status: 'completed' });
+  });
+
+  it('rejects columns that are not editable', async () => {
+    const { status, body } = await readJson(await PATCH(apiRequest('/api/tasks', {
+      token: backend.alice,
+      method: 'PATCH',
+      body: { id: task.id, session_id: 999 }
+    })));
+    expect(status).toBe(400);
+    expect(body.issues?.[0].message).toMatch(/session_id/);
+    expect(backend.store.tasks[0].session_id).toBe(task.session_id);
+  });
+
+  it('requires an id', async () => {
+    const { status, body } = await readJson(await PATCH(apiRequest('/api/tasks', { token: backend.alice, method: 'PATCH', body: { name: 'No id' } })));
+    expect(status).toBe(400);
+    expect(body.issues?.map(i => i.path)).toEqual(['id']);
+  });
+
+  it("leaves another user's task unchanged", async () => {
+    const { status } = await readJson(await PATCH(apiRequest('/api/tasks', {
+      token: backend.bob,
+      method: 'PATCH',
+      body: { id: task.id, name: 'Hijacked' }
+    })));
+    expect(status).toBe(404);
+    expect(backend.store.tasks[0].name).toBe('Inbox zero');
+  });
+});
+
+describe('DELETE /api/tasks', () => {
+  it('requires an id', async () => {
+    const { status, body } = await readJson(await DELETE(apiRequest('/api/tasks', { token: backend.alice, method: 'DELETE' })));
+    expect(status).toBe(400);
+    expect(body).toEqual({ ok: false, error: 'Invalid query parameters', issues: [{ path: 'id', message: 'Required' }] });
+  });
+
+  it('rejects an id that is not a number', async () => {
+    const { status, body } = await readJson(await DELETE(apiRequest('/api/tasks?id=abc', { token: backend.alice, method: 'DELETE' })));
+    expect(status).toBe(400);
+    expect(body.issues?.map(i => i.path)).toEqual(['id']);
+    expect(backend.store.tasks).toHaveLength(1);
+  });
+
+  it('deletes the task', async () => {
+    const { status, body } = await readJson(await DELETE(apiRequest(`/api/tasks?id=${task.id}`, { token: backend.alice, method: 'DELETE' })));
+    expect(status).toBe(200);
+    expect(body).toEqual({ ok: true });
+    expect(backend.store.tasks).toHaveLength(0);
+  });
+
+  it("keeps another user's task", async () => {
+    const response = await DELETE(apiRequest(`/api/tasks?id=${task.id}`, { token: backend.bob, method: 'DELETE' }));
+    expect(response.status).toBe(404);
+    expect(backend.store.tasks).toHaveLength(1);
+  });
+
+  it('requires a signed-in user', async () => {
+    const response = await DELETE(apiRequest(`/api/tasks?id=${task.id}`, { method: 'DELETE' }));
+    expect(response.status).toBe(401);
+    expect(backend.store.tasks).toHaveLength(1);
+  });
+});
+
+describe('PATCH /api/tasks/order', () => {
+  const add = async (name: string) => (await readJson<DbTask>(await addTask(apiRequest('/api/sessions', {
+    token: backend.alice,
+    method: 'POST',
+    body: { session_id: task.session_id, name }
+  })))).body.data!;
+  const reorder = (body: unknown, token = backend.alice) =>
+    reorderTasks(apiRequest('/api/tasks/order', { token, method: 'PATCH', body }));
+
+  it('appends new tasks after the existing ones', async () => {
+    await add('Review');
+    expect(backend.store.tasks.map(t => [t.name, t.position])).toEqual([['Inbox zero', 0], ['Review', 1]]);
+  });
+
+  it('puts the listed tasks first and keeps the rest in their order', async () => {
+    const review = await add('Review');
+    const plan = await add('Plan tomorrow');
+
+    const { status, body } = await readJson<DbTask[]>(await reorder({ session_id: task.session_id, task_ids: [plan.id, task.id] }));
+    expect(status).toBe(200);
+    expect(body.data?.map(t => [t.name, t.position])).toEqual([['Plan tomorrow', 0], ['Inbox zero', 1], ['Review', 2]]);
+
+    const listed = await readJson<DbTask[]>(await listTasks(apiRequest(`/api/sessions?session_id=${task.session_id}`, { token: backend.alice })));
+    expect(listed.body.data?.map(t => t.id)).toEqual([plan.id, task.id, review.id]);
+  });
+
+  it('rejects an id listed twice', async () => {
+    const { status, body } = await readJson(await reorder({ session_id: task.session_id, task_ids: [task.id, task.id] }));
+    expect(status).toBe(400);
+    expect(body.issues?.map(i => i.path)).toEqual(['task_ids']);
+  });
+
+  it('refuses ids from another session and changes nothing', async () => {
+    const review = await add('Review');
+    const { status, body } = await readJson(await reorder({ session_id: task.session_id, task_ids: [review.id, 999] }));
+    expect(status).toBe(404);
+    expect(body).toEqual({ ok: false, error: 'task 999 not found' });
+    expect(backend.store.tasks.map(t => t.position)).toEqual([0, 1]);
+  });
+
+  it("refuses to reorder another user's tasks", async () => {
+    const { status } = await readJson(await reorder({ session_id: task.session_id, task_ids: [task.id] }, backend.bob));
+    expect(status).toBe(404);
+  });
+});
@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DELETE, GET, PATCH, PUT } from '@/app/api/timer/route';
+import { GET as getPlan } from '@/app/api/plans/route';
+import { POST as saveWeek } from '@/app/api/schedule/week/route';
+import { remainingSeconds } from '@/lib/timerState';
+import type { DayPlanView, TimerStateView } from '@/lib/db/types';
+import { ALICE_ID, apiRequest, readJson, useMemoryBackend, type TestBackend } from '../helpers';
+
+const MONDAY = '2030-01-07';
+const at = (time: string) => new Date(`${MONDAY}T${time}Z`);
+
+let backend: TestBackend;
+let taskId: number;
+beforeEach(async () => {
+  backend = useMemoryBackend();
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(at('09:00:00'));
+  await saveWeek(apiRequest('/api/schedule/week', {
+    token: backend.alice,
+    method: 'POST',
+    body: { days: [{ day_of_week: 'Monday', sessions: [{ energy_type: 'High', start_time: '08:00', end_time: '11:00', tasks: [{ name: 'Write' }] }] }] }
+  }));
+  const plan = (await readJson<DayPlanView>(await getPlan(apiRequest(`/api/plans?date=${MONDAY}`, { token: backend.alice })))).body.data!;
+  taskId = plan.blocks[0].tasks[0].id;
+});
+afterEach(() => {
+  vi.useRealTimers();
+  backend.restore();
+});
+
+const show = async (token = backend.alice) => (await readJson<TimerStateView>(await GET(apiRequest('/api/timer', { token })))).body.data!;
+const start = async (body: Record<string, unknown>, token = backend.alice) =>
+  readJson<TimerStateView>(await PUT(apiRequest('/api/timer', { token, method: 'PUT', body: { timer_interval: 'work', duration_seconds: 1500, ...body } })));
+const change = async (body: unknown, token = backend.alice) =>
+  readJson<TimerStateView>(await PATCH(apiRequest('/api/timer', { token, method: 'PATCH', body })));
+
+describe('/api/timer', () => {
+  it('requires a signed-in user', async () => {
+    const { status } = await readJson(await GET(apiRequest('/api/timer')));
+    expect(status).toBe(401);
+  });
+
+  it('has no timer until one is started', async () => {
+    expect(await show()).toEqual({ timer: null, server_time: at('09:00:00').toISOString() });
+  });
+
+  it('keeps the running interval for every tab and device of the user', async () => {
+    const { status, body } = await start({ plan_task_id: taskId });
+    expect(status).toBe(200);
+    expect(body.data?.timer).toMatchObject({
+      user_id: ALICE_ID,
+      plan_task_id: taskId,
+      run_date: MONDAY,
+      timer_interval: 'work',
+      duration_seconds: 1500,
+      started_at: at('09:00:00').toISOString(),
+      paused_at: null
+    });
+
+    vi.setSystemTime(at('09:10:00'));
+    const { timer, server_time } = await show();
+    expect(remainingSeconds(timer!, new Date(server_time))).toBe(900);
+    expect((await show(backend.bob)).timer).toBeNull();
+  });
+
+  it('times pauses on the server and counts them out of the interval', async () => {
+    await start({ plan_task_id: taskId });
+    vi.setSystemTime(at('09:10:00'));
+    expect((await change({ paused: true })).body.data?.timer?.paused_at).toBe(at('09:10:00').toISOString());
+
+    vi.setSystemTime(at('09:40:00'));
+    const resumed = (await change({ paused: false })).body.data!;
+    expect(resumed.timer).toMatchObject({ paused_at: null, paused_seconds: 1800 });
+    vi.setSystemTime(at('09:45:00'));
+    expect(remainingSeconds(resumed.timer!, new Date())).toBe(600);
+  });
+
+  it('starting an interval replaces the one running', async () => {
+    await start({ plan_task_id: taskId });
+    vi.setSystemTime(at('09:25:00'));
+    await start({ plan_task_id: taskId, timer_interval: 'short_break', duration_seconds: 300, work_intervals_done: 1 });
+    expect(backend.store.timerStates).toHaveLength(1);
+    expect((await show()).timer).toMatchObject({ timer_interval: 'short_break', started_at: at('09:25:00').toISOString(), work_intervals_done: 1 });
+  });
+
+  it("moves the interval to another task, but not to someone else's", async () => {
+    await start({ plan_task_id: null });
+    expect((await change({ plan_task_id: taskId })).body.data?.timer?.plan_task_id).toBe(taskId);
+
+    const { status } = await start({ plan_task_id: taskId }, backend.bob);
+    expect(status).toBe(404);
+    expect((await show(backend.bob)).timer).toBeNull();
+  });
+
+  it('reports a missing timer and validates changes', async () => {
+    expect((await change({ paused: true })).status).toBe(404);
+    const { status, body } = await change({});
+    expect(status).toBe(400);
+    expect(body.error).toBeDefined();
+    expect((await start({ duration_seconds: -1 })).status).toBe(400);
+  });
+
+  it('clears the timer', async () => {
+    await start({ plan_task_id: taskId });
+    const { status } = await readJson(await DELETE(apiRequest('/api/timer', { token: backend.alice, method: 'DELETE' })));
+    expect(status).toBe(200);
+    expect((await show()).timer).toBeNull();
+  });
+
+  it('logs each change to the focus log once, however many tabs sync it', async () => {
+    const events = () => backend.store.focusRuns.map(r => [r.event, r.interval_kind, r.plan_task_id]);
+    await start({ plan_task_id: taskId });
+    expect(backend.store.focusRuns[0]).toMatchObject({ user_id: ALICE_ID, run_date: MONDAY, energy_type: 'High', event: 'start' });
+
+    // A second tab picking up the same task, and loading the timer, log nothing
+    await start({ plan_task_id: taskId });
+    await show();
+    vi.setSystemTime(at('09:20:00'));
+    await change({ paused: true });
+    await change({ paused: true });
+    vi.setSystemTime(at('09:30:00'));
+    await change({ paused: false });
+    await start({ plan_task_id: taskId, timer_interval: 'short_break', duration_seconds: 300 });
+    await readJson(await DELETE(apiRequest('/api/timer', { token: backend.alice, method: 'DELETE' })));
+
+    expect(events()).toEqual([
+      ['start', 'work', taskId],
+      ['pause', 'work', taskId],
+      ['resume', 'work', taskId],
+      ['stop', 'work', taskId],
+      ['start', 'break', null],
+      ['stop', 'break', null]
+    ]);
+    expect(backend.store.planTasks.find(t => t.id === taskId)?.actual_minutes).toBe(20);
+  });
+});
+
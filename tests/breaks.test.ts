@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { planBreaks } from '@/lib/breaks';
+import type { DbFocusRun } from '@/lib/db/types';
+
+const at = (time: string) => new Date(`2030-01-07T${time}:00Z`);
+const run = (event: DbFocusRun['event'], time: string, interval_kind: DbFocusRun['interval_kind'] = 'work', plan_task_id: number | null = 1) => ({
+  task_id: null,
+  plan_task_id,
+  run_date: '2030-01-07',
+  event,
+  occurred_at: at(time).toISOString(),
+  interval_kind
+});
+const block = { block_start: at('14:00'), block_end: at('17:00') };
+
+describe('planBreaks', () => {
+  it('proposes longer breaks, more often, in Low blocks', () => {
+    const runs = [run('start', '14:00')];
+    const high = planBreaks({ ...block, energy_type: 'High', runs, prompts: [], now: at('14:30') });
+    const low = planBreaks({ ...block, energy_type: 'Low', runs, prompts: [], now: at('14:30') });
+
+    expect(high.focus_minutes).toBe(30);
+    expect(high.due).toBe(false);
+    expect(high.breaks).toEqual([{ due_at: at('15:30').toISOString(), minutes: 10 }]);
+    expect(low.breaks.map(b => [b.due_at, b.minutes])).toEqual([
+      [at('14:40').toISOString(), 15],
+      [at('15:35').toISOString(), 15],
+      [at('16:30').toISOString(), 15]
+    ]);
+  });
+
+  it('counts only focus time, so pauses push the break back', () => {
+    const runs = [run('start', '14:00'), run('pause', '14:20'), run('resume', '14:50')];
+    const plan = planBreaks({ ...block, energy_type: 'Low', runs, prompts: [], now: at('15:00') });
+    expect(plan.focus_minutes).toBe(30);
+    expect(plan.breaks[0].due_at).toBe(at('15:10').toISOString());
+  });
+
+  it('is due once the focus passes the limit, keeping the time it fell due', () => {
+    const plan = planBreaks({ ...block, energy_type: 'Low', runs: [run('start', '14:00')], prompts: [], now: at('14:45') });
+    expect(plan.due).toBe(true);
+    expect(plan.breaks[0]).toEqual({ due_at: at('14:40').toISOString(), minutes: 15 });
+  });
+
+  it('starts counting again after a break on the timer or an answered prompt', () => {
+    const runs = [run('start', '14:00'), run('start', '14:30', 'break', null), run('stop', '14:40', 'break', null)];
+    expect(planBreaks({ ...block, energy_type: 'Low', runs, prompts: [], now: at('15:00') }).focus_minutes).toBe(20);
+
+    const skipped = [{ taken: false, minutes: 15, answered_at: at('14:45').toISOString() }];
+    const plan = planBreaks({ ...block, energy_type: 'Low', runs: [run('start', '14:00')], prompts: skipped, now: at('14:50') });
+    expect(plan.focus_minutes).toBe(5);
+    expect(plan.due).toBe(false);
+  });
+
+  it('proposes nothing during a break', () => {
+    const taken = [{ taken: true, minutes: 15, answered_at: at('14:45').toISOString() }];
+    const plan = planBreaks({ ...block, energy_type: 'Low', runs: [run('start', '14:00')], prompts: taken, now: at('14:50') });
+    expect(plan).toMatchObject({ on_break: true, due: false, breaks: [] });
+
+    const onTimer = planBreaks({ ...block, energy_type: 'Low', runs: [run('start', '14:50', 'break', null)], prompts: [], now: at('14:55') });
+    expect(onTimer.on_break).toBe(true);
+  });
+
+  it('leaves out breaks that would run past the end of the block', () => {
+    const plan = planBreaks({ ...block, energy_type: 'High', runs: [run('start', '14:00')], prompts: [], now: at('16:55') });
+    expect(plan.due).toBe(false);
+    expect(plan.breaks).toEqual([]);
+  });
+});
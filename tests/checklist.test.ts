@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { statusForChecklist, taskProgress } from '@/lib/checklist';
+
+const items = (...done: boolean[]) => done.map((d, i) => ({ name: `Step ${i + 1}`, done: d }));
+
+describe('statusForChecklist', () => {
+  it('completes a task once every item is checked', () => {
+    expect(statusForChecklist(items(true, true))).toBe('completed');
+  });
+
+  it('keeps or reopens the task while an item is unchecked', () => {
+    expect(statusForChecklist(items(true, false))).toBe('active');
+  });
+
+  it('leaves tasks without items alone', () => {
+    expect(statusForChecklist([])).toBeUndefined();
+  });
+});
+
+describe('taskProgress', () => {
+  it('counts completed tasks in full, whatever their checklist says', () => {
+    expect(taskProgress({ status: 'completed', checklist: items(false) })).toBe(1);
+  });
+
+  it('counts unfinished tasks by their checked items', () => {
+    expect(taskProgress({ status: 'active', checklist: items(true, false, false, true) })).toBe(0.5);
+    expect(taskProgress({ status: 'skipped', checklist: items(true, false) })).toBe(0.5);
+  });
+
+  it('counts unfinished tasks without a checklist as nothing done', () => {
+    expect(taskProgress({ status: 'active', checklist: [] })).toBe(0);
+    expect(taskProgress({ status: 'active' })).toBe(0);
+  });
+});
@@ -0,0 +1,46 @@
+// Shared setup for route tests: an in-memory backend with two signed-in users
+
+import { NextRequest } from 'next/server';
+import { setBackend } from '@/lib/db/backend';
+import { createMemoryBackend, createMemoryStore, signInMemoryUser, type MemoryStore } from '@/lib/db/memoryRepository';
+import type { Backend } from '@/lib/db/repository';
+import type { ApiResponse } from '@/lib/types';
+
+export const ALICE_ID = '00000000-0000-4000-8000-00000000a11c';
+export const BOB_ID = '00000000-0000-4000-8000-0000000000b0';
+
+export interface TestBackend {
+  store: MemoryStore;
+  alice: string; // bearer token
+  bob: string;
+  restore(): void;
+}
+
+export function useMemoryBackend(): TestBackend {
+  const store = createMemoryStore();
+  const previous: Backend = setBackend(createMemoryBackend(store));
+  return {
+    store,
+    alice: signInMemoryUser(store, { id: ALICE_ID, email: 'alice@example.com' }),
+    bob: signInMemoryUser(store, { id: BOB_ID, email: 'bob@example.com' }),
+    restore: () => { setBackend(previous); }
+  };
+}
+
+export function apiRequest(
+  path: string,
+  options: { token?: string; method?: string; body?: unknown } = {}
+): NextRequest {
+  const headers: Record<string, string> = {};
+  if (options.token) headers.authorization = `Bearer ${options.token}`;
+  if (options.body !== undefined) headers['content-type'] = 'application/json';
+  return new NextRequest(`http://localhost${path}`, {
+    method: options.method ?? 'GET',
+    headers,
+    body: options.body === undefined ? undefined : typeof options.body === 'string' ? options.body : JSON.stringify(options.body)
+  });
+}
+
+export async function readJson<T = unknown>(response: Response): Promise<{ status: number; body: ApiResponse<T> }> {
+  return { status: response.status, body: await response.json() };
+}
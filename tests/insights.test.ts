@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { generateRuleBasedSuggestions, generateScheduleProposals, type UserDataSummary } from '@/lib/insights';
+
+function summary(overrides: Partial<UserDataSummary> = {}): UserDataSummary {
+  return {
+    totalSessions: 0,
+    totalFocusTime: 0,
+    averageSessionDuration: 0,
+    completionRate: 0,
+    energyLevelPatterns: {
+      high: { count: 0, avgDuration: 0 },
+      medium: { count: 0, avgDuration: 0 },
+      low: { count: 0, avgDuration: 0 }
+    },
+    timeOfDayPatterns: {
+      morning: { sessions: 0, avgDuration: 0 },
+      afternoon: { sessions: 0, avgDuration: 0 },
+      night: { sessions: 0, avgDuration: 0 }
+    },
+    recentTrends: { lastWeekSessions: 0, lastWeekFocusTime: 0, consistencyScore: 0 },
+    scheduleData: { wakeTime: '07:00:00', sleepTime: '23:00:00', hasSchedule: true },
+    completionVelocity: { byHour: [] },
+    highBlock: null,
+    postponedTasks: [],
+    ...overrides
+  };
+}
+
+describe('generateRuleBasedSuggestions', () => {
+  it('asks new users for a schedule and more sessions', () => {
+    const suggestions = generateRuleBasedSuggestions(summary({ scheduleData: { wakeTime: null, sleepTime: null, hasSchedule: false } }));
+    expect(suggestions).toContain('Set up a consistent sleep and wake schedule to optimize your energy levels throughout the day.');
+    expect(suggestions.some(s => s.startsWith('Increase session frequency'))).toBe(true);
+  });
+
+  it('falls back to general advice when nothing stands out', () => {
+    const suggestions = generateRuleBasedSuggestions(summary({
+      completionRate: 65,
+      recentTrends: { lastWeekSessions: 5, lastWeekFocusTime: 0, consistencyScore: 65 }
+    }));
+    expect(suggestions).toHaveLength(3);
+    expect(suggestions[1]).toMatch(/Pomodoro/);
+  });
+
+  it('suggests a break after more than four hours of focus', () => {
+    const suggestions = generateRuleBasedSuggestions(summary({ totalSessions: 6, totalFocusTime: 4.5 * 3600 }));
+    expect(suggestions[0]).toMatch(/longer break/);
+  });
+
+  it('suggests longer sessions when focus time is short', () => {
+    const suggestions = generateRuleBasedSuggestions(summary({ totalSessions: 2, totalFocusTime: 3600 }));
+    expect(suggestions[0]).toMatch(/extending your focus sessions/);
+  });
+
+  it('names the energy level and time of day with the longest sessions', () => {
+    const suggestions = generateRuleBasedSuggestions(summary({
+      totalSessions: 4,
+      energyLevelPatterns: {
+        high: { count: 1, avgDuration: 30 },
+        medium: { count: 3, avgDuration: 55 },
+        low: { count: 0, avgDuration: 0 }
+      },
+      timeOfDayPatterns: {
+        morning: { sessions: 1, avgDuration: 20 },
+        afternoon: { sessions: 0, avgDuration: 0 },
+        night: { sessions: 3, avgDuration: 50 }
+      }
+    }));
+    expect(suggestions).toContain('Your medium energy sessions are most productive. Schedule important tasks during these times.');
+    expect(suggestions).toContain('Your night sessions show the best focus. Consider making this your primary work time.');
+  });
+
+  it('reacts to high and low completion rates', () => {
+    expect(generateRuleBasedSuggestions(summary({ completionRate: 90 })).some(s => s.startsWith('Excellent task completion rate'))).toBe(true);
+    expect(generateRuleBasedSuggestions(summary({ completionRate: 30 })).some(s => s.startsWith('Try breaking tasks into smaller chunks'))).toBe(true);
+  });
+
+  it('leads with the task put off most often', () => {
+    const suggestions = generateRuleBasedSuggestions(summary({
+      totalSessions: 2,
+      totalFocusTime: 3600,
+      postponedTasks: [{ name: 'File taxes', deferrals: 4 }, { name: 'Call the bank', deferrals: 3 }]
+    }));
+    expect(suggestions[0]).toBe('"File taxes" has been put off 4 times. Break it into smaller steps or give it a block whose energy suits it.');
+    expect(suggestions.some(s => s.includes('Call the bank'))).toBe(false);
+  });
+
+  it('returns at most six suggestions', () => {
+    const suggestions = generateRuleBasedSuggestions(summary({
+      totalSessions: 2,
+      totalFocusTime: 3600,
+      completionRate: 30,
+      energyLevelPatterns: { high: { count: 2, avgDuration: 40 }, medium: { count: 0, avgDuration: 0 }, low: { count: 0, avgDuration: 0 } },
+      timeOfDayPatterns: { morning: { sessions: 2, avgDuration: 40 }, afternoon: { sessions: 0, avgDuration: 0 }, night: { sessions: 0, avgDuration: 0 } },
+      scheduleData: { wakeTime: null, sleepTime: null, hasSchedule: false }
+    }));
+    expect(suggestions.length).toBeLessThanOrEqual(6);
+  });
+});
+
+describe('generateScheduleProposals', () => {
+  const withFastestHour = (fastestHour?: number) => summary({ completionVelocity: { byHour: [], fastestHour, fastestAvg: 20 } });
+
+  it('proposes nothing without a fastest hour', () => {
+    expect(generateScheduleProposals(withFastestHour(undefined))).toEqual([]);
+  });
+
+  it('centres a two-hour High block on the fastest hour', () => {
+    const [proposal, ...rest] = generateScheduleProposals(withFastestHour(10));
+    expect(rest).toHaveLength(0);
+    expect(proposal.type).toBe('shift_high_block');
+    expect(proposal.target).toEqual({ start: '09:00', end: '11:00' });
+    expect(proposal.rationale).toContain('10:00');
+  });
+
+  it('keeps the window inside the day', () => {
+    expect(generateScheduleProposals(withFastestHour(0))[0].target).toEqual({ start: '00:00', end: '01:00' });
+    expect(generateScheduleProposals(withFastestHour(23))[0].target).toEqual({ start: '22:00', end: '23:00' });
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { describeRule, isInEffect, occursOn, weekStart } from '@/lib/recurrence';
+
+// January 2030 starts on a Tuesday
+const JAN = (day: number) => `2030-01-${String(day).padStart(2, '0')}`;
+const matching = (match: (date: string) => boolean) => Array.from({ length: 31 }, (_, i) => i + 1).filter(d => match(JAN(d)));
+
+describe('weekStart', () => {
+  it('returns the Monday of the week', () => {
+    expect(weekStart(JAN(9))).toBe(JAN(7));
+    expect(weekStart(JAN(7))).toBe(JAN(7));
+    expect(weekStart(JAN(13))).toBe(JAN(7));
+  });
+});
+
+describe('occursOn', () => {
+  it('comes up on every weekday', () => {
+    const rule = { kind: 'weekly', days: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'], interval: 1 } as const;
+    expect(matching(d => occursOn({ ...rule, days: [...rule.days] }, JAN(1), d))).toEqual([1, 2, 3, 4, 7, 8, 9, 10, 11, 14, 15, 16, 17, 18, 21, 22, 23, 24, 25, 28, 29, 30, 31]);
+  });
+
+  it('counts every other week from the week it starts', () => {
+    expect(matching(d => occursOn({ kind: 'weekly', days: ['Tuesday'], interval: 2 }, JAN(1), d))).toEqual([1, 15, 29]);
+    expect(matching(d => occursOn({ kind: 'weekly', days: ['Tuesday'], interval: 2 }, JAN(8), d))).toEqual([8, 22]);
+  });
+
+  it('counts weeks from the anchor when a task takes over from an earlier one', () => {
+    expect(matching(d => occursOn({ kind: 'weekly', days: ['Tuesday'], interval: 2 }, JAN(9), d, 0, JAN(1)))).toEqual([15, 29]);
+  });
+
+  it('picks the nth or the last weekday of the month', () => {
+    expect(matching(d => occursOn({ kind: 'monthly', week: 1, day: 'Monday' }, JAN(1), d))).toEqual([7]);
+    expect(matching(d => occursOn({ kind: 'monthly', week: 3, day: 'Friday' }, JAN(1), d))).toEqual([18]);
+    expect(matching(d => occursOn({ kind: 'monthly', week: -1, day: 'Thursday' }, JAN(1), d))).toEqual([31]);
+  });
+
+  it('keeps a flexible task coming up until the week has enough done', () => {
+    const rule = { kind: 'times_per_week', times: 2 } as const;
+    expect(occursOn(rule, JAN(1), JAN(9), 1)).toBe(true);
+    expect(occursOn(rule, JAN(1), JAN(9), 2)).toBe(false);
+  });
+
+  it('never comes up before it starts', () => {
+    expect(occursOn({ kind: 'times_per_week', times: 3 }, JAN(10), JAN(9))).toBe(false);
+  });
+});
+
+describe('isInEffect', () => {
+  it('runs from the first day to the last, open-ended without one', () => {
+    expect(isInEffect({ starts_on: JAN(7), ends_on: JAN(13) }, JAN(13))).toBe(true);
+    expect(isInEffect({ starts_on: JAN(7), ends_on: JAN(13) }, JAN(14))).toBe(false);
+    expect(isInEffect({ starts_on: JAN(7), ends_on: null }, '2031-06-01')).toBe(true);
+  });
+});
+
+describe('describeRule', () => {
+  it('labels each kind of rule', () => {
+    expect(describeRule({ kind: 'weekly', days: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'], interval: 1 })).toBe('Every weekday');
+    expect(describeRule({ kind: 'weekly', days: ['Tuesday'], interval: 2 })).toBe('Every other Tuesday');
+    expect(describeRule({ kind: 'weekly', days: ['Monday', 'Thursday'], interval: 3 })).toBe('Every 3 weeks on Monday, Thursday');
+    expect(describeRule({ kind: 'monthly', week: 1, day: 'Monday' })).toBe('First Monday of the month');
+    expect(describeRule({ kind: 'times_per_week', times: 3 })).toBe('3 times a week');
+  });
+});
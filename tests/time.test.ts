@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { getEnergyThemeForNow, isTimeInRange } from '@/lib/time';
+
+// 2030-01-07 is a Monday; every instant below is read in UTC
+const at = (time: string) => new Date(`2030-01-07T${time}:00Z`);
+
+describe('isTimeInRange', () => {
+  it('matches times inside a same-day range, bounds included', () => {
+    expect(isTimeInRange('09:00', '09:00', '17:00')).toBe(true);
+    expect(isTimeInRange('12:30', '09:00', '17:00')).toBe(true);
+    expect(isTimeInRange('17:00', '09:00', '17:00')).toBe(true);
+  });
+
+  it('rejects times outside a same-day range', () => {
+    expect(isTimeInRange('08:59', '09:00', '17:00')).toBe(false);
+    expect(isTimeInRange('17:01', '09:00', '17:00')).toBe(false);
+  });
+
+  it('wraps overnight ranges past midnight', () => {
+    expect(isTimeInRange('23:30', '22:00', '06:00')).toBe(true);
+    expect(isTimeInRange('00:00', '22:00', '06:00')).toBe(true);
+    expect(isTimeInRange('05:59', '22:00', '06:00')).toBe(true);
+    expect(isTimeInRange('06:00', '22:00', '06:00')).toBe(true);
+  });
+
+  it('excludes the daytime gap of an overnight range', () => {
+    expect(isTimeInRange('06:01', '22:00', '06:00')).toBe(false);
+    expect(isTimeInRange('12:00', '22:00', '06:00')).toBe(false);
+    expect(isTimeInRange('21:59', '22:00', '06:00')).toBe(false);
+  });
+});
+
+describe('getEnergyThemeForNow', () => {
+  const day = [
+    { energy: 'High' as const, start: '09:00', end: '11:00' },
+    { energy: 'Medium' as const, start: '13:00', end: '15:00' },
+    { energy: 'Low' as const, start: '18:00', end: '20:00' }
+  ];
+
+  it('falls back to the low theme without blocks', () => {
+    expect(getEnergyThemeForNow([], at('10:00'), 'UTC')).toBe('soft-energy-low animated-gradient');
+  });
+
+  it('follows the block that is running now', () => {
+    expect(getEnergyThemeForNow(day, at('09:00'), 'UTC')).toBe('soft-energy-high animated-gradient');
+    expect(getEnergyThemeForNow(day, at('14:59'), 'UTC')).toBe('soft-energy-medium animated-gradient');
+    expect(getEnergyThemeForNow(day, at('19:00'), 'UTC')).toBe('soft-energy-low animated-gradient');
+  });
+
+  it('hands over to the next block at a shared boundary', () => {
+    expect(getEnergyThemeForNow([{ energy: 'High', start: '09:00', end: '11:00' }, { energy: 'Medium', start: '11:00', end: '12:00' }], at('11:00'), 'UTC'))
+      .toBe('soft-energy-medium animated-gradient');
+  });
+
+  it('keeps the last finished block through a gap', () => {
+    expect(getEnergyThemeForNow(day, at('12:00'), 'UTC')).toBe('soft-energy-high animated-gradient');
+    expect(getEnergyThemeForNow(day, at('16:30'), 'UTC')).toBe('soft-energy-medium animated-gradient');
+  });
+
+  it('uses the low theme before the first block of the day', () => {
+    expect(getEnergyThemeForNow(day, at('07:00'), 'UTC')).toBe('soft-energy-low animated-gradient');
+  });
+
+  it('matches blocks that run past midnight', () => {
+    const night = [...day, { energy: 'Medium' as const, start: '22:00', end: '02:00' }];
+    expect(getEnergyThemeForNow(night, at('23:00'), 'UTC')).toBe('soft-energy-medium animated-gradient');
+    expect(getEnergyThemeForNow(night, at('01:00'), 'UTC')).toBe('soft-energy-medium animated-gradient');
+  });
+
+  it('keeps an overnight block through the gap after it ends', () => {
+    const night = [{ energy: 'High' as const, start: '09:00', end: '11:00' }, { energy: 'Medium' as const, start: '22:00', end: '02:00' }];
+    expect(getEnergyThemeForNow(night, at('04:00'), 'UTC')).toBe('soft-energy-medium animated-gradient');
+    // Once a same-day block has ended it takes over again
+    expect(getEnergyThemeForNow(night, at('12:00'), 'UTC')).toBe('soft-energy-high animated-gradient');
+  });
+
+  it('reads the clock in the given time zone', () => {
+    // 08:00 UTC is 09:00 in Berlin in January
+    expect(getEnergyThemeForNow(day, at('08:00'), 'Europe/Berlin')).toBe('soft-energy-high animated-gradient');
+    expect(getEnergyThemeForNow(day, at('08:00'), 'UTC')).toBe('soft-energy-low animated-gradient');
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_POMODORO_SETTINGS, intervalSeconds, nextInterval } from '@/lib/timerModes';
+import { computeFocusSeconds } from '@/lib/focus';
+
+const settings = DEFAULT_POMODORO_SETTINGS;
+const HOUR = 3600;
+
+describe('intervalSeconds', () => {
+  it('counts down the whole block in block mode', () => {
+    expect(intervalSeconds('block', 'work', { settings, blockRemainingSec: 2 * HOUR })).toBe(2 * HOUR);
+  });
+
+  it('uses the Pomodoro lengths', () => {
+    expect(intervalSeconds('pomodoro', 'work', { settings, blockRemainingSec: HOUR })).toBe(25 * 60);
+    expect(intervalSeconds('pomodoro', 'short_break', { settings, blockRemainingSec: HOUR })).toBe(5 * 60);
+    expect(intervalSeconds('pomodoro', 'long_break', { settings, blockRemainingSec: HOUR })).toBe(15 * 60);
+  });
+
+  it('runs 52 minutes of work and 17 of break', () => {
+    expect(intervalSeconds('52_17', 'work', { settings, blockRemainingSec: 2 * HOUR })).toBe(52 * 60);
+    expect(intervalSeconds('52_17', 'short_break', { settings, blockRemainingSec: 2 * HOUR })).toBe(17 * 60);
+  });
+
+  it('gives a task its estimate, or the work length when it has none', () => {
+    expect(intervalSeconds('task', 'work', { settings, blockRemainingSec: 2 * HOUR, taskMinutes: 40 })).toBe(40 * 60);
+    expect(intervalSeconds('task', 'work', { settings, blockRemainingSec: 2 * HOUR, taskMinutes: null })).toBe(25 * 60);
+  });
+
+  it('never runs past the end of the block', () => {
+    expect(intervalSeconds('pomodoro', 'work', { settings, blockRemainingSec: 600 })).toBe(600);
+    expect(intervalSeconds('task', 'work', { settings, blockRemainingSec: 0, taskMinutes: 40 })).toBe(0);
+  });
+});
+
+describe('nextInterval', () => {
+  it('has nothing after the block countdown, but goes back to it after a break', () => {
+    expect(nextInterval('block', 'work', 1, settings)).toBeNull();
+    expect(nextInterval('block', 'short_break', 1, settings)).toBe('work');
+  });
+
+  it('takes a long break after every fourth Pomodoro', () => {
+    const after = [1, 2, 3, 4, 5, 8].map(done => nextInterval('pomodoro', 'work', done, settings));
+    expect(after).toEqual(['short_break', 'short_break', 'short_break', 'long_break', 'short_break', 'long_break']);
+    expect(nextInterval('pomodoro', 'work', 2, { ...settings, cycles: 2 })).toBe('long_break');
+  });
+
+  it('only takes short breaks in 52/17 and task mode, and goes back to work after any break', () => {
+    expect(nextInterval('52_17', 'work', 4, settings)).toBe('short_break');
+    expect(nextInterval('task', 'work', 4, settings)).toBe('short_break');
+    expect(nextInterval('pomodoro', 'long_break', 4, settings)).toBe('work');
+    expect(nextInterval('52_17', 'short_break', 1, settings)).toBe('work');
+  });
+});
+
+describe('computeFocusSeconds with breaks', () => {
+  it('keeps break time out of focus time', () => {
+    const run = (event: 'start' | 'stop', at: string, interval_kind: 'work' | 'break', plan_task_id: number | null) => ({
+      task_id: null,
+      plan_task_id,
+      energy_type: 'High' as const,
+      run_date: '2030-01-07',
+      event,
+      occurred_at: `2030-01-07T${at}:00Z`,
+      interval_kind
+    });
+    const summary = computeFocusSeconds([
+      run('start', '09:00', 'work', 1),
+      run('stop', '09:25', 'work', 1),
+      run('start', '09:25', 'break', null),
+      run('stop', '09:30', 'break', null),
+      run('start', '09:30', 'work', 1),
+      run('stop', '09:55', 'work', 1)
+    ]);
+    expect(summary.totalSeconds).toBe(50 * 60);
+    expect(summary.byPlanTask[1]).toBe(50 * 60);
+    expect(summary.breakSeconds).toBe(5 * 60);
+    expect(summary.byEnergy.High).toBe(50 * 60);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { elapsedSeconds, focusEventsBetween, remainingSeconds, setPaused, startTimer } from '@/lib/timerState';
+
+const at = (time: string) => new Date(`2030-01-07T${time}Z`);
+const started = startTimer({ plan_task_id: 1, run_date: '2030-01-07', timer_interval: 'work', duration_seconds: 1500, work_intervals_done: 0 }, at('09:00:00'));
+
+describe('timer state', () => {
+  it('works out the time left from when the interval started', () => {
+    expect(started).toMatchObject({ started_at: at('09:00:00').toISOString(), paused_at: null, paused_seconds: 0 });
+    expect(remainingSeconds(started, at('09:10:30'))).toBe(870);
+    expect(remainingSeconds(started, at('10:00:00'))).toBe(0);
+  });
+
+  it('stops the clock while paused and leaves pauses out once resumed', () => {
+    const paused = setPaused(started, true, at('09:10:00'));
+    expect(remainingSeconds(paused, at('09:30:00'))).toBe(900);
+
+    const resumed = setPaused(paused, false, at('09:30:00'));
+    expect(resumed).toMatchObject({ paused_at: null, paused_seconds: 1200 });
+    expect(elapsedSeconds(resumed, at('09:35:00'))).toBe(900);
+    expect(remainingSeconds(resumed, at('09:35:00'))).toBe(600);
+  });
+
+  it('leaves a timer already in the asked state alone', () => {
+    const paused = setPaused(started, true, at('09:10:00'));
+    expect(setPaused(paused, true, at('09:20:00'))).toBe(paused);
+    expect(setPaused(started, false, at('09:20:00'))).toBe(started);
+  });
+
+  it('can start paused', () => {
+    const timer = startTimer({ plan_task_id: null, run_date: '2030-01-07', timer_interval: 'short_break', duration_seconds: 300, work_intervals_done: 1, paused: true }, at('09:00:00'));
+    expect(timer.paused_at).toBe(at('09:00:00').toISOString());
+    expect(remainingSeconds(timer, at('09:30:00'))).toBe(300);
+  });
+});
+
+describe('focusEventsBetween', () => {
+  const work = (plan_task_id: number | null, paused = false) => ({ plan_task_id, timer_interval: 'work' as const, paused_at: paused ? at('09:10:00').toISOString() : null });
+  const shortBreak = { plan_task_id: 1, timer_interval: 'short_break' as const, paused_at: null };
+
+  it('pauses and resumes the same work', () => {
+    expect(focusEventsBetween(work(1), work(1, true))).toEqual([{ event: 'pause', plan_task_id: 1, interval_kind: 'work' }]);
+    expect(focusEventsBetween(work(1, true), work(1))).toEqual([{ event: 'resume', plan_task_id: 1, interval_kind: 'work' }]);
+  });
+
+  it('carries on the open run through a new interval of the same kind', () => {
+    expect(focusEventsBetween(work(1), work(1))).toEqual([]);
+    expect(focusEventsBetween(shortBreak, { ...shortBreak, timer_interval: 'long_break' })).toEqual([]);
+  });
+
+  it('stops what was open and starts what is open now', () => {
+    expect(focusEventsBetween(work(1), work(2))).toEqual([
+      { event: 'stop', plan_task_id: 1, interval_kind: 'work' },
+      { event: 'start', plan_task_id: 2, interval_kind: 'work' }
+    ]);
+    expect(focusEventsBetween(work(1), shortBreak)).toEqual([
+      { event: 'stop', plan_task_id: 1, interval_kind: 'work' },
+      { event: 'start', plan_task_id: null, interval_kind: 'break' }
+    ]);
+    expect(focusEventsBetween(null, work(1, true))).toEqual([]);
+    expect(focusEventsBetween(work(1), null)).toEqual([{ event: 'stop', plan_task_id: 1, interval_kind: 'work' }]);
+  });
+
+  it('does not log work without a task', () => {
+    expect(focusEventsBetween(null, work(null))).toEqual([]);
+    expect(focusEventsBetween(work(1), work(null))).toEqual([{ event: 'stop', plan_task_id: 1, interval_kind: 'work' }]);
+  });
+});
@@ -0,0 +1,19 @@
+import path from 'node:path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': path.resolve(__dirname) }
+  },
+  test: {
+    include: ['tests/**/*.test.ts'],
+    environment: 'node',
+    // lib/supabaseClient refuses to load without these; the tests run on the
+    // in-memory backend and never contact Supabase or OpenAI
+    env: {
+      NEXT_PUBLIC_SUPABASE_URL: 'http://supabase.invalid',
+      NEXT_PUBLIC_SUPABASE_ANON_KEY: 'test-anon-key',
+      OPENAI_API_KEY: ''
+    }
+  }
+});